@@ -3,7 +3,16 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { Layout } from './components/Layout';
 import { Dashboard } from './pages/Dashboard';
 import { Candidates } from './pages/Candidates';
+import { CandidateDetail } from './pages/CandidateDetail';
+import { Duplicates } from './pages/Duplicates';
+import { Jobs } from './pages/Jobs';
+import { JobDetail } from './pages/JobDetail';
+import { Pipeline } from './pages/Pipeline';
 import { Templates } from './pages/Templates';
+import { Campaigns } from './pages/Campaigns';
+import { CampaignDetail } from './pages/CampaignDetail';
+import { Sequences } from './pages/Sequences';
+import { SequenceDetail } from './pages/SequenceDetail';
 import { Settings } from './pages/Settings';
 import { Auth } from './pages/Auth';
 
@@ -15,7 +24,16 @@ function App() {
         <Route path="/" element={<Layout />}>
           <Route index element={<Dashboard />} />
           <Route path="candidates" element={<Candidates />} />
+          <Route path="candidates/duplicates" element={<Duplicates />} />
+          <Route path="candidates/:id" element={<CandidateDetail />} />
+          <Route path="jobs" element={<Jobs />} />
+          <Route path="jobs/:id" element={<JobDetail />} />
+          <Route path="requisitions/:id" element={<Pipeline />} />
           <Route path="templates" element={<Templates />} />
+          <Route path="campaigns" element={<Campaigns />} />
+          <Route path="campaigns/:id" element={<CampaignDetail />} />
+          <Route path="sequences" element={<Sequences />} />
+          <Route path="sequences/:id" element={<SequenceDetail />} />
           <Route path="settings" element={<Settings />} />
         </Route>
       </Routes>
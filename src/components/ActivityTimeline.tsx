@@ -0,0 +1,85 @@
+import { Mail, Phone, Calendar, StickyNote, ArrowRightLeft, GitMerge, Clock } from 'lucide-react';
+import {
+  activityTypeLabel,
+  formatMetadataValue,
+  type Activity,
+} from '../lib/activities';
+import { formatMetadataKey } from '../lib/candidateSchema';
+
+const ACTIVITY_ICONS: Record<string, typeof Mail> = {
+  email: Mail,
+  call: Phone,
+  meeting: Calendar,
+  note: StickyNote,
+  stage_change: ArrowRightLeft,
+  merge: GitMerge,
+};
+
+interface ActivityTimelineProps {
+  activities: Activity[];
+}
+
+export function ActivityTimeline({ activities }: ActivityTimelineProps) {
+  if (activities.length === 0) {
+    return <p className="text-sm text-gray-500">No activity recorded yet.</p>;
+  }
+
+  return (
+    <div className="flow-root">
+      <ul className="-mb-8">
+        {activities.map((activity, activityIdx) => {
+          const Icon = ACTIVITY_ICONS[activity.type] ?? Clock;
+          // Ids of related records mean nothing to a reader; the description names them
+          const metadata = Object.entries(activity.metadata ?? {}).filter(([key]) => !key.endsWith('_id'));
+          const author = activity.author
+            ? `${activity.author.first_name ?? ''} ${activity.author.last_name ?? ''}`.trim()
+            : '';
+
+          return (
+            <li key={activity.id}>
+              <div className="relative pb-8">
+                {activityIdx !== activities.length - 1 ? (
+                  <span
+                    className="absolute top-4 left-4 -ml-px h-full w-0.5 bg-gray-200"
+                    aria-hidden="true"
+                  />
+                ) : null}
+                <div className="relative flex space-x-3">
+                  <div>
+                    <span className="h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center">
+                      <Icon className="h-5 w-5 text-gray-500" />
+                    </span>
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium text-gray-900">
+                        {activityTypeLabel(activity.type)}
+                        {author && <span className="font-normal text-gray-500"> by {author}</span>}
+                      </p>
+                      <time className="text-xs text-gray-500" dateTime={activity.created_at}>
+                        {new Date(activity.created_at).toLocaleString()}
+                      </time>
+                    </div>
+                    {activity.description && (
+                      <p className="mt-1 text-sm text-gray-600 whitespace-pre-line">{activity.description}</p>
+                    )}
+                    {metadata.length > 0 && (
+                      <dl className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                        {metadata.map(([key, value]) => (
+                          <div key={key} className="flex">
+                            <dt className="text-gray-500 mr-1">{formatMetadataKey(key)}:</dt>
+                            <dd className="text-gray-700 truncate">{formatMetadataValue(value)}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
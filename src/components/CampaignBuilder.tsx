@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronDown, ChevronRight, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useProfile } from '../hooks/useProfile';
+import { campaignSchema, createCampaign, previewRecipients } from '../lib/campaigns';
+import { templateSubject } from '../lib/templates';
+import type { Candidate } from '../lib/candidateSchema';
+import { inputClass } from './FormFields';
+
+interface CampaignBuilderProps {
+  candidates: Candidate[];
+  onClose: () => void;
+}
+
+interface EmailTemplate {
+  id: string;
+  name: string;
+  content: string;
+  metadata: Record<string, string> | null;
+}
+
+export function CampaignBuilder({ candidates, onClose }: CampaignBuilderProps) {
+  const navigate = useNavigate();
+  const { user, profile } = useProfile();
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [name, setName] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [subject, setSubject] = useState('');
+  const [rate, setRate] = useState(20);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const template = templates.find((t) => t.id === templateId) ?? null;
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('templates')
+          .select('id, name, content, metadata')
+          .eq('type', 'email')
+          .is('deleted_at', null)
+          .order('name');
+
+        if (error) throw error;
+        setTemplates(data || []);
+      } catch (error) {
+        console.error('Error fetching email templates:', error);
+      }
+    };
+
+    fetchTemplates();
+  }, []);
+
+  const previews = useMemo(() => {
+    if (!template) return [];
+    return previewRecipients(candidates, template, subject, {
+      first_name: profile?.first_name ?? null,
+      last_name: profile?.last_name ?? null,
+      email: user?.email ?? null,
+    });
+  }, [candidates, template, subject, profile, user]);
+
+  const sendable = previews.filter((preview) => !preview.skipReason).length;
+
+  const handleSelectTemplate = (id: string) => {
+    setTemplateId(id);
+    const selected = templates.find((t) => t.id === id);
+    if (selected) {
+      setSubject(templateSubject(selected));
+      if (!name) setName(selected.name);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !profile) return;
+
+    const result = campaignSchema.safeParse({
+      name,
+      template_id: templateId,
+      subject,
+      send_rate_per_minute: rate,
+    });
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+    if (sendable === 0) {
+      setError('Nobody in this selection can be emailed');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const campaign = await createCampaign(result.data, previews);
+      navigate(`/campaigns/${campaign.id}`);
+    } catch (error) {
+      console.error('Error creating campaign:', error);
+      setError(error instanceof Error ? error.message : 'Could not create campaign');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-gray-900 bg-opacity-50 py-10">
+      <form onSubmit={handleSubmit} className="bg-white shadow-xl sm:rounded-lg w-full max-w-3xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-medium text-gray-900">New Campaign</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Template</label>
+              <select
+                value={templateId}
+                onChange={(e) => handleSelectTemplate(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Choose an email template...</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Campaign Name</label>
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Subject</label>
+              <input
+                type="text"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                placeholder="Variables like {firstName} work here too"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Messages per Minute</label>
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={rate}
+                onChange={(e) => setRate(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700">
+              Recipients
+              {template && (
+                <span className="ml-2 font-normal text-gray-500">
+                  {sendable} will be emailed, {previews.length - sendable} skipped
+                </span>
+              )}
+            </p>
+            {!template ? (
+              <p className="mt-1 text-sm text-gray-500">
+                Choose a template to preview the message for each of the {candidates.length} selected candidates.
+              </p>
+            ) : (
+              <ul className="mt-2 max-h-96 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-200">
+                {previews.map((preview) => {
+                  const expanded = expandedId === preview.candidate.id;
+
+                  return (
+                    <li key={preview.candidate.id} className="px-3 py-2">
+                      <button
+                        type="button"
+                        onClick={() => setExpandedId(expanded ? null : preview.candidate.id)}
+                        className="flex items-center w-full text-left text-sm"
+                      >
+                        {expanded ? (
+                          <ChevronDown className="h-4 w-4 mr-2 flex-shrink-0 text-gray-400" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4 mr-2 flex-shrink-0 text-gray-400" />
+                        )}
+                        <span className="font-medium text-gray-900">
+                          {preview.candidate.first_name} {preview.candidate.last_name}
+                        </span>
+                        {preview.skipReason ? (
+                          <span className="ml-auto text-xs text-red-600 truncate">Skipped: {preview.skipReason}</span>
+                        ) : (
+                          <span className="ml-auto text-xs text-gray-500 truncate">{preview.email}</span>
+                        )}
+                      </button>
+                      {expanded && (
+                        <div className="mt-2 ml-6 rounded-md bg-gray-50 p-3">
+                          <p className="text-sm font-medium text-gray-900">{preview.subject}</p>
+                          <p className="mt-2 text-sm text-gray-900 whitespace-pre-wrap">{preview.body}</p>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t bg-gray-50 sm:rounded-b-lg">
+          {error && <p className="mr-auto text-sm text-red-600">{error}</p>}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !template}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {saving ? 'Creating...' : 'Create Campaign'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import {
+  optionLabel,
+  splitList,
+  COMPANY_SIZES,
+  EMPLOYMENT_STATUSES,
+  FUNCTIONAL_ROLES,
+  LOCATION_CATEGORIES,
+  RELATIONSHIP_TYPES,
+  URGENCY_LEVELS,
+} from '../lib/candidateSchema';
+import { emptyFilters, type FilterState } from '../lib/candidateFilters';
+import type { Tag } from '../lib/tags';
+
+interface CandidateFilterPanelProps {
+  filters: FilterState;
+  tags: Tag[];
+  onChange: (filters: FilterState) => void;
+}
+
+type ListFilter =
+  | 'relationship_type'
+  | 'functional_role'
+  | 'location_category'
+  | 'urgency_level'
+  | 'employment_status'
+  | 'company_size';
+
+const selectClass =
+  'mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md';
+
+const inputClass =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+function toBoolean(value: string) {
+  return value === '' ? null : value === 'true';
+}
+
+function toNumber(value: string) {
+  return value === '' ? null : Number(value);
+}
+
+export function CandidateFilterPanel({ filters, tags, onChange }: CandidateFilterPanelProps) {
+  // Keep the raw text so typing a trailing comma isn't swallowed
+  const [techStack, setTechStack] = useState(filters.tech_stack.join(', '));
+
+  const multiSelect = (key: ListFilter, label: string, options: readonly string[]) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <select
+        multiple
+        value={filters[key]}
+        onChange={(e) => onChange({
+          ...filters,
+          [key]: Array.from(e.target.selectedOptions, option => option.value)
+        })}
+        className={selectClass}
+      >
+        {options.map((option) => (
+          <option key={option} value={option}>{optionLabel(option)}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-lg shadow">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {multiSelect('relationship_type', 'Relationship Type', RELATIONSHIP_TYPES)}
+        {multiSelect('functional_role', 'Functional Role', FUNCTIONAL_ROLES)}
+        {multiSelect('location_category', 'Location', LOCATION_CATEGORIES)}
+
+        {/* Tag Filter */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Tags
+          </label>
+          <select
+            multiple
+            value={filters.tag_ids}
+            onChange={(e) => onChange({
+              ...filters,
+              tag_ids: Array.from(e.target.selectedOptions, option => option.value)
+            })}
+            className={selectClass}
+          >
+            {tags.map((tag) => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {multiSelect('urgency_level', 'Urgency', URGENCY_LEVELS)}
+        {multiSelect('employment_status', 'Employment Status', EMPLOYMENT_STATUSES)}
+        {multiSelect('company_size', 'Company Size', COMPANY_SIZES)}
+
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Actively Looking</label>
+            <select
+              value={filters.is_active_looking === null ? '' : String(filters.is_active_looking)}
+              onChange={(e) => onChange({ ...filters, is_active_looking: toBoolean(e.target.value) })}
+              className={selectClass}
+            >
+              <option value="">Any</option>
+              <option value="true">Yes</option>
+              <option value="false">No</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Visa Sponsorship</label>
+            <select
+              value={filters.requires_sponsorship === null ? '' : String(filters.requires_sponsorship)}
+              onChange={(e) => onChange({ ...filters, requires_sponsorship: toBoolean(e.target.value) })}
+              className={selectClass}
+            >
+              <option value="">Any</option>
+              <option value="true">Needs sponsorship</option>
+              <option value="false">No sponsorship needed</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700">Tech Stack (any of)</label>
+          <input
+            type="text"
+            placeholder="e.g. Go, Kubernetes"
+            value={techStack}
+            onChange={(e) => {
+              setTechStack(e.target.value);
+              onChange({ ...filters, tech_stack: splitList(e.target.value) });
+            }}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700">Desired Base Salary Range</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              placeholder="Min"
+              value={filters.compensation_min ?? ''}
+              onChange={(e) => onChange({ ...filters, compensation_min: toNumber(e.target.value) })}
+              className={inputClass}
+            />
+            <span className="mt-1 text-gray-500">–</span>
+            <input
+              type="number"
+              min={0}
+              placeholder="Max"
+              value={filters.compensation_max ?? ''}
+              onChange={(e) => onChange({ ...filters, compensation_max: toNumber(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-500">Leaves out candidates with no salary expectations on file.</p>
+        </div>
+      </div>
+
+      <div className="mt-4 flex justify-end">
+        <button
+          onClick={() => {
+            setTechStack('');
+            onChange(emptyFilters());
+          }}
+          className="text-sm text-indigo-600 hover:text-indigo-900"
+        >
+          Clear filters
+        </button>
+      </div>
+    </div>
+  );
+}
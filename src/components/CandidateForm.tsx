@@ -0,0 +1,780 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useProfile } from '../hooks/useProfile';
+import {
+  candidateSchema,
+  emptyCandidateValues,
+  optionLabel,
+  toCandidateValues,
+  COMPANY_SIZES,
+  EMPLOYMENT_STATUSES,
+  FUNCTIONAL_ROLES,
+  LOCATION_CATEGORIES,
+  RELATIONSHIP_TYPES,
+  URGENCY_LEVELS,
+  WORK_ARRANGEMENTS,
+  type Candidate,
+  type CandidateValues,
+} from '../lib/candidateSchema';
+import { applyParsedResume, removeResumes } from '../lib/resumes';
+import { notifyCandidatesChanged } from '../lib/savedSearches';
+import type { ParsedResume } from '../lib/resumeParser';
+import { Field, ListInput, Section, SelectInput, inputClass } from './FormFields';
+import { ResumeUpload } from './ResumeUpload';
+
+interface CandidateFormProps {
+  candidate?: Candidate | null;
+  onClose: () => void;
+  onSaved: (candidate: Candidate) => void;
+}
+
+type NestedKey =
+  | 'current_location'
+  | 'compensation_expectations'
+  | 'workplace_preferences'
+  | 'visa_requirements'
+  | 'nurturing_info';
+
+function toNumber(value: string) {
+  return value === '' ? null : Number(value);
+}
+
+export function CandidateForm({ candidate, onClose, onSaved }: CandidateFormProps) {
+  const { user, profile } = useProfile();
+  const [values, setValues] = useState<CandidateValues>(() =>
+    candidate ? toCandidateValues(candidate) : emptyCandidateValues()
+  );
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [resumeMessage, setResumeMessage] = useState<string | null>(null);
+  // Files uploaded while the form is open, removed unless the candidate is saved with them
+  const [uploadedResumes, setUploadedResumes] = useState<string[]>([]);
+
+  const update = <K extends keyof CandidateValues>(key: K, value: CandidateValues[K]) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  const updateNested = <K extends NestedKey>(key: K, patch: Partial<CandidateValues[K]>) => {
+    setValues((current) => ({ ...current, [key]: { ...current[key], ...patch } }));
+  };
+
+  // Suggestions only fill the form; nothing is saved until the recruiter submits
+  const handleResumeUploaded = (path: string, resume: ParsedResume | null) => {
+    setUploadedResumes((current) => [...current, path]);
+    if (!resume) {
+      update('resume_path', path);
+      setResumeMessage(null);
+      return;
+    }
+
+    const { values: next, filled } = applyParsedResume({ ...values, resume_path: path }, resume);
+    setValues(next);
+    setResumeMessage(
+      filled.length > 0
+        ? `Filled in ${filled.join(', ')} from the resume. Review them before saving.`
+        : 'Nothing new found in the resume.'
+    );
+  };
+
+  const discardUploads = (keep: string | null) => {
+    removeResumes(uploadedResumes.filter((path) => path !== keep)).catch((error) => {
+      console.error('Error removing unused resumes:', error);
+    });
+  };
+
+  const handleCancel = () => {
+    discardUploads(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !profile) return;
+
+    const result = candidateSchema.safeParse(values);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      for (const issue of result.error.issues) {
+        const path = issue.path.join('.');
+        if (!fieldErrors[path]) fieldErrors[path] = issue.message;
+      }
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    setSaving(true);
+    setSaveError(null);
+
+    try {
+      const query = candidate
+        ? supabase
+            .from('candidates')
+            .update({ ...result.data, updated_by: user.id })
+            .eq('id', candidate.id)
+        : supabase.from('candidates').insert([
+            {
+              ...result.data,
+              organization_id: profile.organization_id,
+              created_by: user.id,
+              updated_by: user.id,
+            },
+          ]);
+
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      discardUploads(data.resume_path);
+      notifyCandidatesChanged();
+      onSaved(data);
+    } catch (error) {
+      console.error('Error saving candidate:', error);
+      setSaveError(error instanceof Error ? error.message : 'Could not save candidate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const comp = values.compensation_expectations;
+  const workplace = values.workplace_preferences;
+  const visa = values.visa_requirements;
+  const nurturing = values.nurturing_info;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-gray-900 bg-opacity-50 py-10">
+      <form onSubmit={handleSubmit} className="bg-white shadow-xl sm:rounded-lg w-full max-w-4xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-medium text-gray-900">
+            {candidate ? `Edit ${candidate.first_name} ${candidate.last_name}` : 'Add Candidate'}
+          </h2>
+          <button type="button" onClick={handleCancel} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-6">
+          <Section title="Contact">
+            <Field label="First Name" error={errors.first_name}>
+              <input
+                type="text"
+                value={values.first_name}
+                onChange={(e) => update('first_name', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Last Name" error={errors.last_name}>
+              <input
+                type="text"
+                value={values.last_name}
+                onChange={(e) => update('last_name', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Personal Email" error={errors.personal_email}>
+              <input
+                type="email"
+                value={values.personal_email ?? ''}
+                onChange={(e) => update('personal_email', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Work Email" error={errors.work_email}>
+              <input
+                type="email"
+                value={values.work_email ?? ''}
+                onChange={(e) => update('work_email', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Phone" error={errors.phone}>
+              <input
+                type="tel"
+                value={values.phone ?? ''}
+                onChange={(e) => update('phone', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Relationship Type">
+              <SelectInput
+                value={values.relationship_type}
+                options={RELATIONSHIP_TYPES}
+                allowEmpty={false}
+                onChange={(value) =>
+                  update('relationship_type', value as CandidateValues['relationship_type'])
+                }
+              />
+            </Field>
+            <Field label="LinkedIn URL" error={errors.linkedin_url}>
+              <input
+                type="url"
+                value={values.linkedin_url ?? ''}
+                onChange={(e) => update('linkedin_url', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="GitHub URL" error={errors.github_url}>
+              <input
+                type="url"
+                value={values.github_url ?? ''}
+                onChange={(e) => update('github_url', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Resume" wide>
+              <ResumeUpload
+                path={values.resume_path}
+                organizationId={profile?.organization_id ?? null}
+                onUploaded={handleResumeUploaded}
+                message={resumeMessage}
+              />
+            </Field>
+            <Field label="Resume URL" error={errors.resume_url} wide>
+              <input
+                type="url"
+                value={values.resume_url ?? ''}
+                onChange={(e) => update('resume_url', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Other Links" wide>
+              <div className="space-y-2">
+                {values.other_social_urls.map((link, index) => (
+                  <div key={index}>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        placeholder="Label"
+                        value={link.label}
+                        onChange={(e) =>
+                          update(
+                            'other_social_urls',
+                            values.other_social_urls.map((l, i) =>
+                              i === index ? { ...l, label: e.target.value } : l
+                            )
+                          )
+                        }
+                        className={`${inputClass} w-1/3`}
+                      />
+                      <input
+                        type="url"
+                        placeholder="https://"
+                        value={link.url}
+                        onChange={(e) =>
+                          update(
+                            'other_social_urls',
+                            values.other_social_urls.map((l, i) =>
+                              i === index ? { ...l, url: e.target.value } : l
+                            )
+                          )
+                        }
+                        className={inputClass}
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          update(
+                            'other_social_urls',
+                            values.other_social_urls.filter((_, i) => i !== index)
+                          )
+                        }
+                        className="text-gray-400 hover:text-gray-600"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    </div>
+                    {(errors[`other_social_urls.${index}.label`] ||
+                      errors[`other_social_urls.${index}.url`]) && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {errors[`other_social_urls.${index}.label`] ??
+                          errors[`other_social_urls.${index}.url`]}
+                      </p>
+                    )}
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() =>
+                    update('other_social_urls', [...values.other_social_urls, { label: '', url: '' }])
+                  }
+                  className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add link
+                </button>
+              </div>
+            </Field>
+          </Section>
+
+          <Section title="Current Role">
+            <Field label="Job Title">
+              <input
+                type="text"
+                value={values.current_job_title ?? ''}
+                onChange={(e) => update('current_job_title', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Company">
+              <input
+                type="text"
+                value={values.current_company ?? ''}
+                onChange={(e) => update('current_company', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Functional Role">
+              <SelectInput
+                value={values.functional_role}
+                options={FUNCTIONAL_ROLES}
+                onChange={(value) =>
+                  update('functional_role', (value || null) as CandidateValues['functional_role'])
+                }
+              />
+            </Field>
+            <Field label="Industry">
+              <input
+                type="text"
+                value={values.current_industry ?? ''}
+                onChange={(e) => update('current_industry', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Company Size">
+              <SelectInput
+                value={values.current_company_size}
+                options={COMPANY_SIZES}
+                onChange={(value) =>
+                  update('current_company_size', (value || null) as CandidateValues['current_company_size'])
+                }
+              />
+            </Field>
+            <Field label="Employment Status">
+              <SelectInput
+                value={values.employment_status}
+                options={EMPLOYMENT_STATUSES}
+                onChange={(value) =>
+                  update('employment_status', (value || null) as CandidateValues['employment_status'])
+                }
+              />
+            </Field>
+            <Field label="Tech Stack" wide>
+              <ListInput
+                value={values.tech_stack}
+                onChange={(value) => update('tech_stack', value)}
+                placeholder="e.g. Go, PostgreSQL, Kubernetes"
+              />
+            </Field>
+          </Section>
+
+          <Section title="Career History">
+            <Field label="Past Job Titles">
+              <ListInput
+                value={values.past_job_titles}
+                onChange={(value) => update('past_job_titles', value)}
+              />
+            </Field>
+            <Field label="Past Companies">
+              <ListInput
+                value={values.past_companies}
+                onChange={(value) => update('past_companies', value)}
+              />
+            </Field>
+            <Field label="Past Industries">
+              <ListInput
+                value={values.past_industries}
+                onChange={(value) => update('past_industries', value)}
+              />
+            </Field>
+            <Field label="Past Company Sizes">
+              <ListInput
+                value={values.past_company_sizes}
+                onChange={(value) => update('past_company_sizes', value)}
+                placeholder={COMPANY_SIZES.join(', ')}
+              />
+            </Field>
+          </Section>
+
+          <Section title="Education">
+            <div className="md:col-span-2 space-y-3">
+              {values.schools.map((school, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-9 gap-2 items-start">
+                  <div className="md:col-span-3">
+                    <input
+                      type="text"
+                      placeholder="School"
+                      value={school.name}
+                      onChange={(e) =>
+                        update(
+                          'schools',
+                          values.schools.map((s, i) => (i === index ? { ...s, name: e.target.value } : s))
+                        )
+                      }
+                      className={inputClass}
+                    />
+                    {errors[`schools.${index}.name`] && (
+                      <p className="mt-1 text-sm text-red-600">{errors[`schools.${index}.name`]}</p>
+                    )}
+                  </div>
+                  <input
+                    type="text"
+                    placeholder="Degree"
+                    value={school.degree}
+                    onChange={(e) =>
+                      update(
+                        'schools',
+                        values.schools.map((s, i) => (i === index ? { ...s, degree: e.target.value } : s))
+                      )
+                    }
+                    className={`${inputClass} md:col-span-2`}
+                  />
+                  <input
+                    type="text"
+                    placeholder="Field of study"
+                    value={school.field_of_study}
+                    onChange={(e) =>
+                      update(
+                        'schools',
+                        values.schools.map((s, i) =>
+                          i === index ? { ...s, field_of_study: e.target.value } : s
+                        )
+                      )
+                    }
+                    className={`${inputClass} md:col-span-2`}
+                  />
+                  <div>
+                    <input
+                      type="number"
+                      placeholder="Year"
+                      value={school.graduation_year ?? ''}
+                      onChange={(e) =>
+                        update(
+                          'schools',
+                          values.schools.map((s, i) =>
+                            i === index ? { ...s, graduation_year: toNumber(e.target.value) } : s
+                          )
+                        )
+                      }
+                      className={inputClass}
+                    />
+                    {errors[`schools.${index}.graduation_year`] && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {errors[`schools.${index}.graduation_year`]}
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => update('schools', values.schools.filter((_, i) => i !== index))}
+                    className="mt-3 text-gray-400 hover:text-gray-600"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  update('schools', [
+                    ...values.schools,
+                    { name: '', degree: '', field_of_study: '', graduation_year: null },
+                  ])
+                }
+                className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add school
+              </button>
+            </div>
+          </Section>
+
+          <Section title="Location & Workplace">
+            <Field label="City">
+              <input
+                type="text"
+                value={values.current_location.city}
+                onChange={(e) => updateNested('current_location', { city: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="State / Region">
+              <input
+                type="text"
+                value={values.current_location.state}
+                onChange={(e) => updateNested('current_location', { state: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Country">
+              <input
+                type="text"
+                value={values.current_location.country}
+                onChange={(e) => updateNested('current_location', { country: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Location Category">
+              <SelectInput
+                value={values.current_location.category}
+                options={LOCATION_CATEGORIES}
+                onChange={(value) =>
+                  updateNested('current_location', {
+                    category: value as CandidateValues['current_location']['category'],
+                  })
+                }
+              />
+            </Field>
+            <Field label="Workplace Arrangements">
+              <div className="mt-2 flex gap-4">
+                {WORK_ARRANGEMENTS.map((arrangement) => (
+                  <label key={arrangement} className="inline-flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={workplace.arrangements.includes(arrangement)}
+                      onChange={(e) =>
+                        updateNested('workplace_preferences', {
+                          arrangements: e.target.checked
+                            ? [...workplace.arrangements, arrangement]
+                            : workplace.arrangements.filter((a) => a !== arrangement),
+                        })
+                      }
+                      className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {optionLabel(arrangement)}
+                  </label>
+                ))}
+              </div>
+            </Field>
+            <Field label="Relocation">
+              <label className="mt-2 inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={workplace.willing_to_relocate}
+                  onChange={(e) =>
+                    updateNested('workplace_preferences', { willing_to_relocate: e.target.checked })
+                  }
+                  className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Willing to relocate
+              </label>
+            </Field>
+            <Field label="Preferred Locations">
+              <ListInput
+                value={workplace.preferred_locations}
+                onChange={(value) => updateNested('workplace_preferences', { preferred_locations: value })}
+              />
+            </Field>
+            <Field label="Workplace Notes">
+              <input
+                type="text"
+                value={workplace.notes}
+                onChange={(e) => updateNested('workplace_preferences', { notes: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+          </Section>
+
+          <Section title="Compensation">
+            <Field label="Currency" error={errors['compensation_expectations.currency']}>
+              <input
+                type="text"
+                maxLength={3}
+                value={comp.currency}
+                onChange={(e) =>
+                  updateNested('compensation_expectations', { currency: e.target.value.toUpperCase() })
+                }
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Current Base" error={errors['compensation_expectations.current_base']}>
+              <input
+                type="number"
+                min={0}
+                value={comp.current_base ?? ''}
+                onChange={(e) =>
+                  updateNested('compensation_expectations', { current_base: toNumber(e.target.value) })
+                }
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Desired Base (Min)" error={errors['compensation_expectations.desired_base_min']}>
+              <input
+                type="number"
+                min={0}
+                value={comp.desired_base_min ?? ''}
+                onChange={(e) =>
+                  updateNested('compensation_expectations', { desired_base_min: toNumber(e.target.value) })
+                }
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Desired Base (Max)" error={errors['compensation_expectations.desired_base_max']}>
+              <input
+                type="number"
+                min={0}
+                value={comp.desired_base_max ?? ''}
+                onChange={(e) =>
+                  updateNested('compensation_expectations', { desired_base_max: toNumber(e.target.value) })
+                }
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Equity">
+              <label className="mt-2 inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={comp.open_to_equity}
+                  onChange={(e) =>
+                    updateNested('compensation_expectations', { open_to_equity: e.target.checked })
+                  }
+                  className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Open to equity
+              </label>
+            </Field>
+            <Field label="Compensation Notes">
+              <input
+                type="text"
+                value={comp.notes}
+                onChange={(e) => updateNested('compensation_expectations', { notes: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+          </Section>
+
+          <Section title="Visa">
+            <Field label="Sponsorship">
+              <label className="mt-2 inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={visa.requires_sponsorship}
+                  onChange={(e) =>
+                    updateNested('visa_requirements', { requires_sponsorship: e.target.checked })
+                  }
+                  className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Requires visa sponsorship
+              </label>
+            </Field>
+            <Field label="Current Status">
+              <input
+                type="text"
+                placeholder="e.g. H-1B, Green Card, Citizen"
+                value={visa.current_status}
+                onChange={(e) => updateNested('visa_requirements', { current_status: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Authorized Countries">
+              <ListInput
+                value={visa.authorized_countries}
+                onChange={(value) => updateNested('visa_requirements', { authorized_countries: value })}
+              />
+            </Field>
+            <Field label="Visa Notes">
+              <input
+                type="text"
+                value={visa.notes}
+                onChange={(e) => updateNested('visa_requirements', { notes: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+          </Section>
+
+          <Section title="Search Status">
+            <Field label="Job Search">
+              <label className="mt-2 inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={values.is_active_looking}
+                  onChange={(e) => update('is_active_looking', e.target.checked)}
+                  className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Actively looking
+              </label>
+            </Field>
+            <Field label="Urgency">
+              <SelectInput
+                value={values.urgency_level}
+                options={URGENCY_LEVELS}
+                onChange={(value) => update('urgency_level', (value || null) as CandidateValues['urgency_level'])}
+              />
+            </Field>
+            <Field label="Must Haves">
+              <ListInput value={values.must_haves} onChange={(value) => update('must_haves', value)} />
+            </Field>
+            <Field label="Motivation Factors">
+              <ListInput
+                value={values.motivation_factors}
+                onChange={(value) => update('motivation_factors', value)}
+              />
+            </Field>
+          </Section>
+
+          <Section title="Nurturing">
+            <Field label="Last Contacted">
+              <input
+                type="date"
+                value={nurturing.last_contacted_at ?? ''}
+                onChange={(e) => updateNested('nurturing_info', { last_contacted_at: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Next Follow Up">
+              <input
+                type="date"
+                value={nurturing.next_follow_up_at ?? ''}
+                onChange={(e) => updateNested('nurturing_info', { next_follow_up_at: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field
+              label="Contact Every (Days)"
+              error={errors['nurturing_info.contact_frequency_days']}
+            >
+              <input
+                type="number"
+                min={1}
+                value={nurturing.contact_frequency_days ?? ''}
+                onChange={(e) =>
+                  updateNested('nurturing_info', { contact_frequency_days: toNumber(e.target.value) })
+                }
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Nurturing Notes">
+              <input
+                type="text"
+                value={nurturing.notes}
+                onChange={(e) => updateNested('nurturing_info', { notes: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+          </Section>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t bg-gray-50 sm:rounded-b-lg">
+          {Object.keys(errors).length > 0 && (
+            <p className="mr-auto text-sm text-red-600">Please fix the highlighted fields.</p>
+          )}
+          {saveError && <p className="mr-auto text-sm text-red-600">{saveError}</p>}
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !profile}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : candidate ? 'Update Candidate' : 'Create Candidate'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Upload, X } from 'lucide-react';
+import { useProfile } from '../hooks/useProfile';
+import { parseCsv } from '../lib/csv';
+import {
+  autoMapColumns,
+  countByAction,
+  fetchExistingCandidates,
+  findHeaderRow,
+  mappingConflicts,
+  planImport,
+  runImport,
+  IMPORT_FIELDS,
+  type ColumnMapping,
+  type ImportAction,
+  type ImportResult,
+  type ImportRow,
+} from '../lib/candidateImport';
+
+interface CandidateImportProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'review' | 'importing' | 'done';
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  skip: 'Skip',
+  error: 'Error',
+};
+
+const ACTION_COLORS: Record<ImportAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  skip: 'bg-gray-100 text-gray-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+// Enough of the dry run to spot problems without rendering thousands of rows
+const REVIEW_ROW_LIMIT = 500;
+
+const FIELD_GROUPS = [...new Set(IMPORT_FIELDS.map((field) => field.group))];
+
+export function CandidateImport({ onClose, onImported }: CandidateImportProps) {
+  const { user, profile } = useProfile();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [headerLine, setHeaderLine] = useState(0);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [updateExisting, setUpdateExisting] = useState(true);
+  const [plan, setPlan] = useState<ImportRow[]>([]);
+  const [reviewFilter, setReviewFilter] = useState<ImportAction | ''>('');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const conflicts = mappingConflicts(mapping);
+  const counts = useMemo(() => countByAction(plan), [plan]);
+  const reviewRows = plan.filter((row) => !reviewFilter || row.action === reviewFilter);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+
+    try {
+      const parsed = parseCsv(await file.text());
+      const headerIndex = findHeaderRow(parsed);
+      const header = parsed[headerIndex] ?? [];
+      const data = parsed.slice(headerIndex + 1);
+
+      if (data.length === 0) {
+        setError('The file has no rows below its header');
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(header);
+      setHeaderLine(headerIndex);
+      setRows(data);
+      setMapping(autoMapColumns(header));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      setError('Could not read the file as CSV');
+    }
+  };
+
+  const handleMap = (column: number, key: string) => {
+    const next = { ...mapping };
+    if (key) next[column] = key;
+    else delete next[column];
+    setMapping(next);
+  };
+
+  const handleDryRun = async () => {
+    setWorking(true);
+    setError(null);
+
+    try {
+      const existing = await fetchExistingCandidates();
+      setPlan(planImport(rows, headerLine, mapping, existing, updateExisting));
+      setReviewFilter('');
+      setStep('review');
+    } catch (error) {
+      console.error('Error checking import:', error);
+      setError(error instanceof Error ? error.message : 'Could not check the rows');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !profile) return;
+    setStep('importing');
+    setProgress({ done: 0, total: counts.create + counts.update });
+
+    const imported = await runImport(
+      plan,
+      { organizationId: profile.organization_id, userId: user.id },
+      (done, total) => setProgress({ done, total })
+    );
+    setResult(imported);
+    setStep('done');
+    onImported();
+  };
+
+  const sample = (column: number) => rows.find((row) => row[column]?.trim())?.[column] ?? '';
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-gray-900 bg-opacity-50 py-10">
+      <div className="bg-white shadow-xl sm:rounded-lg w-full max-w-5xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-medium text-gray-900">
+            Import Candidates{fileName && <span className="ml-2 text-sm font-normal text-gray-500">{fileName}</span>}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={step === 'importing'}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4">
+          {step === 'upload' && (
+            <div className="text-center py-10">
+              <Upload className="mx-auto h-10 w-10 text-gray-400" />
+              <p className="mt-2 text-sm text-gray-700">
+                Choose a CSV file, such as a spreadsheet export or a LinkedIn connections export.
+              </p>
+              <label className="mt-4 inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                Choose File
+                <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+              </label>
+            </div>
+          )}
+
+          {step === 'map' && (
+            <>
+              <p className="mb-3 text-sm text-gray-600">
+                {rows.length} rows found. Choose the candidate field for each column; unmapped columns are ignored.
+                Lists like skills can be separated with semicolons.
+              </p>
+              <div className="max-h-[28rem] overflow-y-auto border rounded-md">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Column</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Example</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Candidate field</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {headers.map((header, column) => (
+                      <tr key={column}>
+                        <td className="px-4 py-2 font-medium text-gray-900">{header || `Column ${column + 1}`}</td>
+                        <td className="px-4 py-2 text-gray-500 truncate max-w-xs">{sample(column)}</td>
+                        <td className="px-4 py-2">
+                          <select
+                            value={mapping[column] ?? ''}
+                            onChange={(e) => handleMap(column, e.target.value)}
+                            className="w-full border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                          >
+                            <option value="">Don't import</option>
+                            {FIELD_GROUPS.map((group) => (
+                              <optgroup key={group} label={group}>
+                                {IMPORT_FIELDS.filter((field) => field.group === group).map((field) => (
+                                  <option key={field.key} value={field.key}>
+                                    {field.label}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <label className="mt-3 flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={updateExisting}
+                  onChange={(e) => setUpdateExisting(e.target.checked)}
+                  className="h-4 w-4 mr-2 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                />
+                Update candidates already in the CRM with the same email or LinkedIn URL
+              </label>
+              {conflicts.length > 0 && (
+                <p className="mt-2 text-sm text-red-600">
+                  More than one column is mapped to {conflicts.join(', ')}.
+                </p>
+              )}
+            </>
+          )}
+
+          {step === 'review' && (
+            <>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {(['create', 'update', 'skip', 'error'] as const).map((action) => (
+                  <button
+                    key={action}
+                    type="button"
+                    onClick={() => setReviewFilter(reviewFilter === action ? '' : action)}
+                    className={`px-3 py-1 rounded-full text-sm font-medium ${ACTION_COLORS[action]} ${
+                      reviewFilter === action ? 'ring-2 ring-offset-1 ring-indigo-500' : ''
+                    }`}
+                  >
+                    {counts[action]} {ACTION_LABELS[action].toLowerCase()}
+                  </button>
+                ))}
+              </div>
+              <p className="mb-3 text-sm text-gray-600">
+                Nothing has been saved yet. Rows with errors are left out; fix them in the file and import it again.
+              </p>
+              <div className="max-h-[28rem] overflow-y-auto border rounded-md">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Line</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Name</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Result</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {reviewRows.slice(0, REVIEW_ROW_LIMIT).map((row) => (
+                      <tr key={row.line}>
+                        <td className="px-4 py-2 text-gray-500">{row.line}</td>
+                        <td className="px-4 py-2 text-gray-900">{row.name}</td>
+                        <td className="px-4 py-2">
+                          <span
+                            className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${ACTION_COLORS[row.action]}`}
+                          >
+                            {ACTION_LABELS[row.action]}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">{row.errors.join('; ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {reviewRows.length > REVIEW_ROW_LIMIT && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Showing the first {REVIEW_ROW_LIMIT} of {reviewRows.length} rows.
+                </p>
+              )}
+            </>
+          )}
+
+          {step === 'importing' && (
+            <div className="py-10">
+              <p className="text-sm text-gray-700 mb-2">
+                Importing {progress.done} of {progress.total}...
+              </p>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-indigo-600 h-2 rounded-full"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="py-6 space-y-3">
+              <p className="text-sm text-gray-900">
+                Created {result.created} and updated {result.updated} candidates.
+              </p>
+              {result.failed.length > 0 && (
+                <div className="rounded-md bg-red-50 p-3">
+                  <p className="flex items-center text-sm font-medium text-red-800">
+                    <AlertTriangle className="h-4 w-4 mr-1" />
+                    {result.failed.length} rows could not be saved
+                  </p>
+                  <ul className="mt-1 max-h-40 overflow-y-auto text-xs text-red-700">
+                    {result.failed.map((failure) => (
+                      <li key={failure.line}>
+                        Line {failure.line}: {failure.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t bg-gray-50 sm:rounded-b-lg">
+          {error && <p className="mr-auto text-sm text-red-600">{error}</p>}
+          {step === 'map' && (
+            <>
+              <button
+                type="button"
+                onClick={() => setStep('upload')}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleDryRun}
+                disabled={working || conflicts.length > 0 || Object.keys(mapping).length === 0}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {working ? 'Checking...' : 'Check Rows'}
+              </button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <button
+                type="button"
+                onClick={() => setStep('map')}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={counts.create + counts.update === 0}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                Import {counts.create + counts.update} Candidates
+              </button>
+            </>
+          )}
+          {(step === 'upload' || step === 'done') && (
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              {step === 'done' ? 'Close' : 'Cancel'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+import { searchCandidates } from '../lib/candidateFilters';
+import type { Candidate } from '../lib/candidateSchema';
+
+interface CandidatePickerProps {
+  excludeIds?: string[];
+  placeholder?: string;
+  onSelect: (candidate: Candidate) => void;
+}
+
+const RESULT_LIMIT = 8;
+
+export function CandidatePicker({ excludeIds = [], placeholder, onSelect }: CandidatePickerProps) {
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Candidate[]>([]);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const searchTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      clearTimeout(searchTimeout.current);
+    };
+  }, []);
+
+  const fetchResults = async (value: string) => {
+    try {
+      const { data, error } = await searchCandidates(value).limit(RESULT_LIMIT + excludeIds.length);
+
+      if (error) throw error;
+      setResults((data || []).filter((candidate: Candidate) => !excludeIds.includes(candidate.id)));
+    } catch (error) {
+      console.error('Error searching candidates:', error);
+    }
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value);
+    setOpen(true);
+    clearTimeout(searchTimeout.current);
+    searchTimeout.current = setTimeout(() => fetchResults(value), 300);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          type="text"
+          placeholder={placeholder ?? 'Search candidates...'}
+          value={search}
+          onChange={(e) => handleSearchChange(e.target.value)}
+          onFocus={() => {
+            setOpen(true);
+            fetchResults(search);
+          }}
+          className="block w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+        />
+      </div>
+      {open && (
+        <ul className="absolute z-10 mt-1 w-full bg-white shadow-lg rounded-md ring-1 ring-black ring-opacity-5 max-h-64 overflow-y-auto">
+          {results.length === 0 ? (
+            <li className="px-4 py-2 text-sm text-gray-500">No matching candidates</li>
+          ) : (
+            results.slice(0, RESULT_LIMIT).map((candidate) => (
+              <li key={candidate.id}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    onSelect(candidate);
+                    setOpen(false);
+                    setSearch('');
+                  }}
+                  className="w-full text-left px-4 py-2 hover:bg-gray-100"
+                >
+                  <span className="block text-sm text-gray-900">
+                    {candidate.first_name} {candidate.last_name}
+                  </span>
+                  {(candidate.current_job_title || candidate.current_company) && (
+                    <span className="block text-xs text-gray-500">
+                      {[candidate.current_job_title, candidate.current_company].filter(Boolean).join(' at ')}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
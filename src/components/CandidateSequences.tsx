@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, Copy, Send, SkipForward, StopCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useProfile } from '../hooks/useProfile';
+import { usePermissions } from '../hooks/usePermissions';
+import {
+  completeTask,
+  dueSequenceTasksQuery,
+  enrollCandidate,
+  ENROLLMENT_STATUS_COLORS,
+  ENROLLMENT_STATUS_LABELS,
+  stopEnrollment,
+  STOP_REASON_LABELS,
+  type SequenceEnrollment,
+  type SequenceTask,
+} from '../lib/sequences';
+import { renderTemplate } from '../lib/templateEngine';
+import type { Candidate } from '../lib/candidateSchema';
+import { SendEmailModal } from './SendEmailModal';
+
+interface CandidateSequencesProps {
+  candidate: Candidate;
+  // Called after something that adds to the activity timeline
+  onActivity: () => void;
+}
+
+interface EnrollmentWithSequence extends SequenceEnrollment {
+  sequence: { id: string; name: string };
+}
+
+export function CandidateSequences({ candidate, onActivity }: CandidateSequencesProps) {
+  const { user, profile } = useProfile();
+  const { can } = usePermissions();
+  const canSend = can('outreach.send');
+  const [enrollments, setEnrollments] = useState<EnrollmentWithSequence[]>([]);
+  const [tasks, setTasks] = useState<SequenceTask[]>([]);
+  const [sequences, setSequences] = useState<{ id: string; name: string }[]>([]);
+  const [emailTask, setEmailTask] = useState<SequenceTask | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEnrollments = useCallback(async () => {
+    try {
+      const [
+        { data: enrollmentData, error: enrollmentError },
+        { data: taskData, error: taskError },
+        { data: sequenceData, error: sequenceError },
+      ] = await Promise.all([
+        supabase
+          .from('sequence_enrollments')
+          .select('*, sequence:sequences(id, name)')
+          .eq('candidate_id', candidate.id)
+          .order('enrolled_at', { ascending: false }),
+        dueSequenceTasksQuery('enrollment.candidate_id', candidate.id),
+        supabase.from('sequences').select('id, name').order('name'),
+      ]);
+
+      if (enrollmentError) throw enrollmentError;
+      if (taskError) throw taskError;
+      if (sequenceError) throw sequenceError;
+
+      setEnrollments(enrollmentData || []);
+      setTasks(taskData || []);
+      setSequences(sequenceData || []);
+    } catch (error) {
+      console.error('Error fetching sequences:', error);
+    }
+  }, [candidate.id]);
+
+  useEffect(() => {
+    fetchEnrollments();
+  }, [fetchEnrollments]);
+
+  const handleEnroll = async (sequenceId: string) => {
+    if (!user || !profile || !sequenceId) return;
+    setError(null);
+
+    try {
+      await enrollCandidate(sequenceId, candidate.id, { organizationId: profile.organization_id, userId: user.id });
+      fetchEnrollments();
+    } catch (error) {
+      console.error('Error enrolling candidate:', error);
+      setError(error instanceof Error ? error.message : 'Could not enroll candidate');
+    }
+  };
+
+  const handleComplete = async (task: SequenceTask, outcome: 'done' | 'skipped') => {
+    try {
+      await completeTask(task.id, outcome);
+      fetchEnrollments();
+    } catch (error) {
+      console.error('Error completing sequence step:', error);
+      setError(error instanceof Error ? error.message : 'Could not update the step');
+    }
+  };
+
+  const handleStop = async (enrollment: EnrollmentWithSequence) => {
+    if (!user) return;
+    if (!confirm(`Stop the "${enrollment.sequence.name}" sequence for this candidate?`)) return;
+
+    try {
+      await stopEnrollment(enrollment.id, user.id);
+      fetchEnrollments();
+    } catch (error) {
+      console.error('Error stopping enrollment:', error);
+    }
+  };
+
+  // Messages go out through another channel, so render them for pasting
+  const handleCopy = async (task: SequenceTask) => {
+    try {
+      const { data, error } = await supabase
+        .from('templates')
+        .select('content')
+        .eq('id', task.step.template_id)
+        .single();
+
+      if (error) throw error;
+      const { output } = renderTemplate(data.content, {
+        candidate,
+        sender: {
+          first_name: profile?.first_name ?? null,
+          last_name: profile?.last_name ?? null,
+          email: user?.email ?? null,
+        },
+      });
+      await navigator.clipboard.writeText(output);
+    } catch (error) {
+      console.error('Error copying message:', error);
+    }
+  };
+
+  const activeIds = enrollments.filter((e) => e.status === 'active').map((e) => e.sequence_id);
+  const available = sequences.filter((sequence) => !activeIds.includes(sequence.id));
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900">Sequences</h2>
+        {canSend && available.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => handleEnroll(e.target.value)}
+            className="border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">Enroll in...</option>
+            {available.map((sequence) => (
+              <option key={sequence.id} value={sequence.id}>
+                {sequence.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+      {tasks.length > 0 && (
+        <ul className="mb-4 space-y-2">
+          {tasks.map((task) => (
+            <li key={task.id} className="p-3 bg-yellow-50 rounded-md">
+              <p className="text-sm text-gray-900">
+                Step {task.step.position + 1} of {task.enrollment.sequence.name}: {task.step.template?.name ?? 'Template unavailable'}
+              </p>
+              <p className="text-xs text-gray-500">Due {new Date(task.due_at).toLocaleDateString()}</p>
+              {canSend && (
+                <div className="mt-2 flex items-center space-x-3 text-sm">
+                  {task.step.template?.type === 'email' ? (
+                    <button
+                      onClick={() => setEmailTask(task)}
+                      className="inline-flex items-center text-indigo-600 hover:text-indigo-900"
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      Send
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleCopy(task)}
+                        className="inline-flex items-center text-indigo-600 hover:text-indigo-900"
+                      >
+                        <Copy className="h-4 w-4 mr-1" />
+                        Copy text
+                      </button>
+                      <button
+                        onClick={() => handleComplete(task, 'done')}
+                        className="inline-flex items-center text-indigo-600 hover:text-indigo-900"
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Mark done
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => handleComplete(task, 'skipped')}
+                    className="inline-flex items-center text-gray-500 hover:text-gray-700"
+                  >
+                    <SkipForward className="h-4 w-4 mr-1" />
+                    Skip
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {enrollments.length === 0 ? (
+        <p className="text-sm text-gray-500">Not enrolled in any sequence.</p>
+      ) : (
+        <ul className="space-y-2">
+          {enrollments.map((enrollment) => (
+            <li key={enrollment.id} className="flex items-center text-sm">
+              <Link to={`/sequences/${enrollment.sequence_id}`} className="text-indigo-600 hover:text-indigo-900">
+                {enrollment.sequence.name}
+              </Link>
+              <span
+                className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${ENROLLMENT_STATUS_COLORS[enrollment.status]}`}
+              >
+                {ENROLLMENT_STATUS_LABELS[enrollment.status]}
+              </span>
+              {enrollment.stop_reason && (
+                <span className="ml-2 text-xs text-gray-500">
+                  {STOP_REASON_LABELS[enrollment.stop_reason] ?? enrollment.stop_reason}
+                </span>
+              )}
+              {canSend && enrollment.status === 'active' && (
+                <button
+                  onClick={() => handleStop(enrollment)}
+                  title="Stop sequence"
+                  className="ml-auto text-gray-400 hover:text-gray-600"
+                >
+                  <StopCircle className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {emailTask && (
+        <SendEmailModal
+          candidate={candidate}
+          initialTemplateId={emailTask.step.template_id}
+          onClose={() => setEmailTask(null)}
+          onSent={async () => {
+            const task = emailTask;
+            setEmailTask(null);
+            await handleComplete(task, 'done');
+            onActivity();
+          }}
+        />
+      )}
+    </div>
+  );
+}
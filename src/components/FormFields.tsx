@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { optionLabel, splitList } from '../lib/candidateSchema';
+
+// Shared building blocks for the modal record forms
+
+export const inputClass =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+export function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <fieldset className="border-t pt-4">
+      <legend className="text-sm font-semibold text-gray-900 pr-2">{title}</legend>
+      <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-4">{children}</div>
+    </fieldset>
+  );
+}
+
+export function Field({
+  label,
+  error,
+  wide,
+  children,
+}: {
+  label: string;
+  error?: string;
+  wide?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className={wide ? 'md:col-span-2' : undefined}>
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      {children}
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+export function ListInput({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value: string[];
+  onChange: (value: string[]) => void;
+  placeholder?: string;
+}) {
+  // Keep the raw text so typing a trailing comma isn't swallowed
+  const [text, setText] = useState(value.join(', '));
+
+  return (
+    <input
+      type="text"
+      value={text}
+      placeholder={placeholder ?? 'Comma separated'}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(splitList(e.target.value));
+      }}
+      className={inputClass}
+    />
+  );
+}
+
+export function SelectInput({
+  value,
+  options,
+  onChange,
+  allowEmpty = true,
+}: {
+  value: string | null;
+  options: readonly string[];
+  onChange: (value: string) => void;
+  allowEmpty?: boolean;
+}) {
+  return (
+    <select value={value ?? ''} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      {allowEmpty && <option value="">Not specified</option>}
+      {options.map((option) => (
+        <option key={option} value={option}>
+          {optionLabel(option)}
+        </option>
+      ))}
+    </select>
+  );
+}
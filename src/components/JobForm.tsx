@@ -0,0 +1,400 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useProfile } from '../hooks/useProfile';
+import { useCompanies } from '../hooks/useCompanies';
+import {
+  FUNCTIONAL_ROLES,
+  LOCATION_CATEGORIES,
+  WORK_ARRANGEMENTS,
+} from '../lib/candidateSchema';
+import {
+  companySchema,
+  emptyJobValues,
+  jobSchema,
+  toJobValues,
+  JOB_STATUSES,
+  JOB_STATUS_LABELS,
+  type Job,
+  type JobValues,
+} from '../lib/jobs';
+import { Field, ListInput, Section, SelectInput, inputClass } from './FormFields';
+
+interface JobFormProps {
+  job?: Job | null;
+  onClose: () => void;
+  onSaved: (job: Job) => void;
+}
+
+interface ClientContact {
+  id: string;
+  first_name: string;
+  last_name: string;
+  current_company: string | null;
+}
+
+type NestedKey = 'compensation_band' | 'location';
+
+function toNumber(value: string) {
+  return value === '' ? null : Number(value);
+}
+
+// Select value that switches the company picker to a name input
+const NEW_COMPANY = '__new__';
+
+export function JobForm({ job, onClose, onSaved }: JobFormProps) {
+  const { user, profile } = useProfile();
+  const { companies } = useCompanies();
+  const [values, setValues] = useState<JobValues>(() => (job ? toJobValues(job) : emptyJobValues()));
+  const [newCompanyName, setNewCompanyName] = useState<string | null>(null);
+  const [clientContacts, setClientContacts] = useState<ClientContact[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchClientContacts = async () => {
+      const { data, error } = await supabase
+        .from('candidates')
+        .select('id, first_name, last_name, current_company')
+        .in('relationship_type', ['client', 'both'])
+        .order('last_name')
+        .order('first_name');
+
+      if (error) console.error('Error fetching client contacts:', error);
+      setClientContacts(data || []);
+    };
+
+    fetchClientContacts();
+  }, []);
+
+  const update = <K extends keyof JobValues>(key: K, value: JobValues[K]) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  const updateNested = <K extends NestedKey>(key: K, patch: Partial<JobValues[K]>) => {
+    setValues((current) => ({ ...current, [key]: { ...current[key], ...patch } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !profile) return;
+
+    const fieldErrors: Record<string, string> = {};
+    const result = jobSchema.safeParse(values);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const path = issue.path.join('.');
+        if (!fieldErrors[path]) fieldErrors[path] = issue.message;
+      }
+    }
+
+    const company = newCompanyName !== null ? companySchema.safeParse({ name: newCompanyName }) : null;
+    if (company && !company.success) {
+      fieldErrors.company_id = company.error.issues[0].message;
+    }
+
+    if (!result.success || (company && !company.success)) {
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    setSaving(true);
+    setSaveError(null);
+
+    try {
+      let companyId = result.data.company_id;
+
+      if (company?.success) {
+        const { data, error } = await supabase
+          .from('companies')
+          .insert([
+            {
+              ...company.data,
+              organization_id: profile.organization_id,
+              created_by: user.id,
+              updated_by: user.id,
+            },
+          ])
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        companyId = data.id;
+      }
+
+      const query = job
+        ? supabase
+            .from('jobs')
+            .update({ ...result.data, company_id: companyId, updated_by: user.id })
+            .eq('id', job.id)
+        : supabase.from('jobs').insert([
+            {
+              ...result.data,
+              company_id: companyId,
+              organization_id: profile.organization_id,
+              created_by: user.id,
+              updated_by: user.id,
+            },
+          ]);
+
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      onSaved(data);
+    } catch (error) {
+      console.error('Error saving job:', error);
+      setSaveError(error instanceof Error ? error.message : 'Could not save job');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const band = values.compensation_band;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-gray-900 bg-opacity-50 py-10">
+      <form onSubmit={handleSubmit} className="bg-white shadow-xl sm:rounded-lg w-full max-w-3xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-medium text-gray-900">{job ? `Edit ${job.title}` : 'Add Job'}</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-6">
+          <Section title="Role">
+            <Field label="Title" error={errors.title}>
+              <input
+                type="text"
+                value={values.title}
+                onChange={(e) => update('title', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Status">
+              <select
+                value={values.status}
+                onChange={(e) => update('status', e.target.value as JobValues['status'])}
+                className={inputClass}
+              >
+                {JOB_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {JOB_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field label="Company" error={errors.company_id}>
+              {newCompanyName === null ? (
+                <select
+                  value={values.company_id ?? ''}
+                  onChange={(e) => {
+                    if (e.target.value === NEW_COMPANY) {
+                      setNewCompanyName('');
+                      update('company_id', null);
+                    } else {
+                      update('company_id', e.target.value || null);
+                    }
+                  }}
+                  className={inputClass}
+                >
+                  <option value="">Not specified</option>
+                  {companies.map((company) => (
+                    <option key={company.id} value={company.id}>
+                      {company.name}
+                    </option>
+                  ))}
+                  <option value={NEW_COMPANY}>+ New company…</option>
+                </select>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    placeholder="Company name"
+                    value={newCompanyName}
+                    onChange={(e) => setNewCompanyName(e.target.value)}
+                    className={inputClass}
+                    autoFocus
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setNewCompanyName(null)}
+                    className="mt-1 text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </Field>
+            <Field label="Client Contact">
+              <select
+                value={values.client_contact_id ?? ''}
+                onChange={(e) => update('client_contact_id', e.target.value || null)}
+                className={inputClass}
+              >
+                <option value="">Not specified</option>
+                {clientContacts.map((contact) => (
+                  <option key={contact.id} value={contact.id}>
+                    {contact.first_name} {contact.last_name}
+                    {contact.current_company ? ` (${contact.current_company})` : ''}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <Field label="Functional Role">
+              <SelectInput
+                value={values.functional_role}
+                options={FUNCTIONAL_ROLES}
+                onChange={(value) =>
+                  update('functional_role', (value || null) as JobValues['functional_role'])
+                }
+              />
+            </Field>
+            <Field label="Description" wide>
+              <textarea
+                rows={4}
+                value={values.description ?? ''}
+                onChange={(e) => update('description', e.target.value)}
+                className={inputClass}
+              />
+            </Field>
+          </Section>
+
+          <Section title="Requirements">
+            <Field label="Must-haves" wide>
+              <ListInput
+                value={values.must_haves}
+                onChange={(value) => update('must_haves', value)}
+                placeholder="e.g. 5+ years backend, Team lead experience"
+              />
+            </Field>
+            <Field label="Tech Stack" wide>
+              <ListInput
+                value={values.tech_stack}
+                onChange={(value) => update('tech_stack', value)}
+                placeholder="e.g. Go, PostgreSQL, Kubernetes"
+              />
+            </Field>
+          </Section>
+
+          <Section title="Compensation">
+            <Field label="Currency" error={errors['compensation_band.currency']}>
+              <input
+                type="text"
+                maxLength={3}
+                value={band.currency}
+                onChange={(e) => updateNested('compensation_band', { currency: e.target.value.toUpperCase() })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Equity">
+              <label className="mt-2 inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={band.equity}
+                  onChange={(e) => updateNested('compensation_band', { equity: e.target.checked })}
+                  className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Includes equity
+              </label>
+            </Field>
+            <Field label="Base Salary Min" error={errors['compensation_band.base_min']}>
+              <input
+                type="number"
+                min={0}
+                value={band.base_min ?? ''}
+                onChange={(e) => updateNested('compensation_band', { base_min: toNumber(e.target.value) })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Base Salary Max" error={errors['compensation_band.base_max']}>
+              <input
+                type="number"
+                min={0}
+                value={band.base_max ?? ''}
+                onChange={(e) => updateNested('compensation_band', { base_max: toNumber(e.target.value) })}
+                className={inputClass}
+              />
+            </Field>
+          </Section>
+
+          <Section title="Location & Workplace">
+            <Field label="City">
+              <input
+                type="text"
+                value={values.location.city}
+                onChange={(e) => updateNested('location', { city: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="State / Region">
+              <input
+                type="text"
+                value={values.location.state}
+                onChange={(e) => updateNested('location', { state: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Country">
+              <input
+                type="text"
+                value={values.location.country}
+                onChange={(e) => updateNested('location', { country: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Location Category">
+              <SelectInput
+                value={values.location.category}
+                options={LOCATION_CATEGORIES}
+                onChange={(value) =>
+                  updateNested('location', { category: value as JobValues['location']['category'] })
+                }
+              />
+            </Field>
+            <Field label="Workplace Policy">
+              <SelectInput
+                value={values.workplace_policy}
+                options={WORK_ARRANGEMENTS}
+                onChange={(value) =>
+                  update('workplace_policy', (value || null) as JobValues['workplace_policy'])
+                }
+              />
+            </Field>
+            <Field label="Visa Sponsorship">
+              <label className="mt-2 inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={values.visa_sponsorship}
+                  onChange={(e) => update('visa_sponsorship', e.target.checked)}
+                  className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Sponsorship available
+              </label>
+            </Field>
+          </Section>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t bg-gray-50 sm:rounded-b-lg">
+          {saveError && <p className="mr-auto text-sm text-red-600">{saveError}</p>}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : job ? 'Update Job' : 'Create Job'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
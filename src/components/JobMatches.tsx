@@ -0,0 +1,139 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronDown, ChevronRight, UserPlus } from 'lucide-react';
+import { fetchAllPages, supabase } from '../lib/supabase';
+import {
+  rankCandidates,
+  toMatchRequirements,
+  MATCH_CANDIDATE_COLUMNS,
+  type MatchCandidate,
+} from '../lib/matching';
+import type { Job } from '../lib/jobs';
+
+interface JobMatchesProps {
+  job: Job;
+  attachedIds: string[];
+  // Left out when the viewer can't attach candidates
+  onAttach?: (candidate: MatchCandidate) => void;
+}
+
+const RESULT_LIMIT = 25;
+
+function scoreColor(score: number) {
+  if (score >= 80) return 'bg-green-100 text-green-800';
+  if (score >= 60) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-gray-100 text-gray-800';
+}
+
+export function JobMatches({ job, attachedIds, onAttach }: JobMatchesProps) {
+  const [candidates, setCandidates] = useState<MatchCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCandidates = async () => {
+      try {
+        const rows: MatchCandidate[] = await fetchAllPages((from, to) =>
+          supabase
+            .from('candidates')
+            .select(MATCH_CANDIDATE_COLUMNS)
+            .in('relationship_type', ['candidate', 'both'])
+            .order('id')
+            .range(from, to)
+        );
+        setCandidates(rows);
+      } catch (error) {
+        console.error('Error fetching candidates to match:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCandidates();
+  }, []);
+
+  // Scoring is deterministic and runs in the browser, so edits to the job re-rank instantly
+  const matches = useMemo(
+    () => rankCandidates(candidates, toMatchRequirements(job)).slice(0, RESULT_LIMIT),
+    [candidates, job]
+  );
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900 mb-4">Best Matches</h2>
+      {loading ? (
+        <p className="text-sm text-gray-500">Scoring candidates...</p>
+      ) : matches.length === 0 ? (
+        <p className="text-sm text-gray-500">No candidates meet the minimum score.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {matches.map(({ candidate, score, breakdown }) => {
+            const expanded = expandedId === candidate.id;
+
+            return (
+              <li key={candidate.id} className="py-3">
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => setExpandedId(expanded ? null : candidate.id)}
+                    className="flex items-center min-w-0 text-left"
+                  >
+                    {expanded ? (
+                      <ChevronDown className="h-4 w-4 mr-2 flex-shrink-0 text-gray-400" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 mr-2 flex-shrink-0 text-gray-400" />
+                    )}
+                    <span
+                      className={`mr-3 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${scoreColor(score)}`}
+                    >
+                      {score}
+                    </span>
+                    <span className="text-sm font-medium text-gray-900 truncate">
+                      {candidate.first_name} {candidate.last_name}
+                    </span>
+                    {candidate.current_job_title && (
+                      <span className="ml-2 text-sm text-gray-500 truncate">{candidate.current_job_title}</span>
+                    )}
+                  </button>
+                  <div className="flex items-center space-x-3 ml-2">
+                    <Link
+                      to={`/candidates/${candidate.id}`}
+                      className="text-sm text-indigo-600 hover:text-indigo-900"
+                    >
+                      View
+                    </Link>
+                    {attachedIds.includes(candidate.id) ? (
+                      <span className="text-xs text-gray-500">Attached</span>
+                    ) : (
+                      onAttach && (
+                        <button
+                          onClick={() => onAttach(candidate)}
+                          title="Attach to job"
+                          className="text-gray-400 hover:text-gray-600"
+                        >
+                          <UserPlus className="h-5 w-5" />
+                        </button>
+                      )
+                    )}
+                  </div>
+                </div>
+                {expanded && (
+                  <dl className="mt-3 ml-6 space-y-2">
+                    {breakdown.map((item) => (
+                      <div key={item.id} className="flex items-start text-sm">
+                        <dt className="w-40 flex-shrink-0 text-gray-500">
+                          {item.label} <span className="text-xs text-gray-400">× {item.weight}</span>
+                        </dt>
+                        <dd className="w-12 flex-shrink-0 font-medium text-gray-900">{item.score}</dd>
+                        <dd className="text-gray-600">{item.detail}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
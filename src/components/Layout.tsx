@@ -1,10 +1,18 @@
 import React, { useEffect } from 'react';
 import { Outlet, useNavigate } from 'react-router-dom';
-import { Users, LayoutDashboard, FileText, Settings, LogOut } from 'lucide-react';
+import { Users, LayoutDashboard, Briefcase, FileText, Send, ListOrdered, Settings, LogOut, Bookmark, X } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { useSavedSearches } from '../hooks/useSavedSearches';
+import { usePermissions } from '../hooks/usePermissions';
+import { notifySavedSearchesChanged, savedSearchPath, type SavedSearch } from '../lib/savedSearches';
+import { memberRoleLabel } from '../lib/roles';
 
 export function Layout() {
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const { role, can } = usePermissions();
+  const { savedSearches, counts } = useSavedSearches();
 
   useEffect(() => {
     const checkAuth = async () => {
@@ -31,6 +39,19 @@ export function Layout() {
     await supabase.auth.signOut();
   };
 
+  const handleDeleteSavedSearch = async (search: SavedSearch) => {
+    if (!window.confirm(`Delete the "${search.name}" smart list?`)) return;
+
+    try {
+      const { error } = await supabase.from('saved_searches').delete().eq('id', search.id);
+
+      if (error) throw error;
+      notifySavedSearchesChanged();
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-100">
       <div className="flex h-screen">
@@ -41,7 +62,7 @@ export function Layout() {
               <Users className="h-8 w-8 text-indigo-600" />
               <span className="ml-2 text-xl font-semibold">CRM</span>
             </div>
-            <nav className="flex-1 p-4">
+            <nav className="flex-1 p-4 overflow-y-auto">
               <ul className="space-y-2">
                 <li>
                   <button
@@ -61,6 +82,15 @@ export function Layout() {
                     <span className="ml-3">Candidates</span>
                   </button>
                 </li>
+                <li>
+                  <button
+                    onClick={() => navigate('/jobs')}
+                    className="flex items-center w-full px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+                  >
+                    <Briefcase className="h-5 w-5" />
+                    <span className="ml-3">Jobs</span>
+                  </button>
+                </li>
                 <li>
                   <button
                     onClick={() => navigate('/templates')}
@@ -70,6 +100,28 @@ export function Layout() {
                     <span className="ml-3">Templates</span>
                   </button>
                 </li>
+                {can('outreach.send') && (
+                  <>
+                    <li>
+                      <button
+                        onClick={() => navigate('/campaigns')}
+                        className="flex items-center w-full px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+                      >
+                        <Send className="h-5 w-5" />
+                        <span className="ml-3">Campaigns</span>
+                      </button>
+                    </li>
+                    <li>
+                      <button
+                        onClick={() => navigate('/sequences')}
+                        className="flex items-center w-full px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+                      >
+                        <ListOrdered className="h-5 w-5" />
+                        <span className="ml-3">Sequences</span>
+                      </button>
+                    </li>
+                  </>
+                )}
                 <li>
                   <button
                     onClick={() => navigate('/settings')}
@@ -80,8 +132,45 @@ export function Layout() {
                   </button>
                 </li>
               </ul>
+
+              {savedSearches.length > 0 && (
+                <div className="mt-6">
+                  <h3 className="px-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                    Smart Lists
+                  </h3>
+                  <ul className="mt-2 space-y-1">
+                    {savedSearches.map((search) => (
+                      <li key={search.id} className="group flex items-center">
+                        <button
+                          onClick={() => navigate(savedSearchPath(search))}
+                          title={search.visibility === 'organization' ? 'Shared with your organization' : 'Only visible to you'}
+                          className="flex items-center flex-1 min-w-0 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+                        >
+                          <Bookmark className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                          <span className="ml-3 truncate">{search.name}</span>
+                          <span className="ml-auto pl-2 text-xs text-gray-500">{counts[search.id] ?? ''}</span>
+                        </button>
+                        {search.created_by === user?.id && can('searches.save') && (
+                          <button
+                            onClick={() => handleDeleteSavedSearch(search)}
+                            title="Delete smart list"
+                            className="ml-1 hidden group-hover:block text-gray-400 hover:text-gray-600"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </nav>
             <div className="p-4 border-t">
+              {role && (
+                <p className="px-4 pb-2 text-xs text-gray-500 truncate">
+                  {user?.email} · {memberRoleLabel(role)}
+                </p>
+              )}
               <button
                 onClick={handleSignOut}
                 className="flex items-center w-full px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
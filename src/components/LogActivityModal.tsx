@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { useProfile } from '../hooks/useProfile';
+import { splitList } from '../lib/candidateSchema';
+import {
+  activityInputSchema,
+  activityTypeLabel,
+  logActivity,
+  CALL_OUTCOMES,
+  DIRECTIONS,
+  LOGGABLE_ACTIVITY_TYPES,
+  type Activity,
+  type ActivityInput,
+} from '../lib/activities';
+
+interface LogActivityModalProps {
+  candidate: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  };
+  onClose: () => void;
+  onLogged: (activity: Activity) => void;
+}
+
+type LoggableType = (typeof LOGGABLE_ACTIVITY_TYPES)[number];
+
+const inputClass =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+function toNumber(value: string) {
+  return value === '' ? null : Number(value);
+}
+
+export function LogActivityModal({ candidate, onClose, onLogged }: LogActivityModalProps) {
+  const { user, profile } = useProfile();
+  const [type, setType] = useState<LoggableType>('call');
+  const [description, setDescription] = useState('');
+  const [subject, setSubject] = useState('');
+  const [direction, setDirection] = useState<(typeof DIRECTIONS)[number]>('outbound');
+  const [outcome, setOutcome] = useState<(typeof CALL_OUTCOMES)[number]>('connected');
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [location, setLocation] = useState('');
+  const [attendees, setAttendees] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const buildInput = (): ActivityInput => {
+    switch (type) {
+      case 'email':
+        return { type, description, metadata: { subject, direction } };
+      case 'call':
+        return { type, description, metadata: { direction, outcome, duration_minutes: durationMinutes } };
+      case 'meeting':
+        return {
+          type,
+          description,
+          metadata: {
+            scheduled_at: scheduledAt ? new Date(scheduledAt).toISOString() : '',
+            duration_minutes: durationMinutes,
+            location,
+            attendees: splitList(attendees),
+          },
+        };
+      case 'note':
+        return { type, description, metadata: {} };
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !profile) return;
+
+    const input = buildInput();
+    const result = activityInputSchema.safeParse(input);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      for (const issue of result.error.issues) {
+        const path = issue.path.join('.');
+        if (!fieldErrors[path]) fieldErrors[path] = issue.message;
+      }
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    setSaving(true);
+    setSaveError(null);
+
+    try {
+      const activity = await logActivity(input, {
+        candidateId: candidate.id,
+        organizationId: profile.organization_id,
+        userId: user.id,
+      });
+      onLogged(activity);
+    } catch (error) {
+      console.error('Error logging activity:', error);
+      setSaveError(error instanceof Error ? error.message : 'Could not log activity');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-gray-900 bg-opacity-50 py-10">
+      <form onSubmit={handleSubmit} className="bg-white shadow-xl sm:rounded-lg w-full max-w-lg">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-medium text-gray-900">
+            Log activity for {candidate.first_name} {candidate.last_name}
+          </h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <div className="flex rounded-md shadow-sm">
+            {LOGGABLE_ACTIVITY_TYPES.map((kind, index) => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => {
+                  setType(kind);
+                  setErrors({});
+                }}
+                className={`flex-1 px-3 py-2 text-sm font-medium border border-gray-300 ${
+                  index === 0 ? 'rounded-l-md' : index === LOGGABLE_ACTIVITY_TYPES.length - 1 ? 'rounded-r-md -ml-px' : '-ml-px'
+                } ${type === kind ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {activityTypeLabel(kind)}
+              </button>
+            ))}
+          </div>
+
+          {type === 'email' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Subject</label>
+              <input
+                type="text"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                className={inputClass}
+              />
+              {errors['metadata.subject'] && (
+                <p className="mt-1 text-sm text-red-600">{errors['metadata.subject']}</p>
+              )}
+            </div>
+          )}
+
+          {(type === 'email' || type === 'call') && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Direction</label>
+                <select
+                  value={direction}
+                  onChange={(e) => setDirection(e.target.value as (typeof DIRECTIONS)[number])}
+                  className={inputClass}
+                >
+                  {DIRECTIONS.map((value) => (
+                    <option key={value} value={value}>
+                      {activityTypeLabel(value)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {type === 'call' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Outcome</label>
+                  <select
+                    value={outcome}
+                    onChange={(e) => setOutcome(e.target.value as (typeof CALL_OUTCOMES)[number])}
+                    className={inputClass}
+                  >
+                    {CALL_OUTCOMES.map((value) => (
+                      <option key={value} value={value}>
+                        {activityTypeLabel(value)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {type === 'meeting' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">When</label>
+                <input
+                  type="datetime-local"
+                  value={scheduledAt}
+                  onChange={(e) => setScheduledAt(e.target.value)}
+                  className={inputClass}
+                />
+                {errors['metadata.scheduled_at'] && (
+                  <p className="mt-1 text-sm text-red-600">{errors['metadata.scheduled_at']}</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Location</label>
+                <input
+                  type="text"
+                  placeholder="Office, Zoom link, ..."
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Attendees</label>
+                <input
+                  type="text"
+                  placeholder="Comma separated"
+                  value={attendees}
+                  onChange={(e) => setAttendees(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </>
+          )}
+
+          {(type === 'call' || type === 'meeting') && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Duration (minutes)</label>
+              <input
+                type="number"
+                min={1}
+                value={durationMinutes ?? ''}
+                onChange={(e) => setDurationMinutes(toNumber(e.target.value))}
+                className={inputClass}
+              />
+              {errors['metadata.duration_minutes'] && (
+                <p className="mt-1 text-sm text-red-600">{errors['metadata.duration_minutes']}</p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              {type === 'note' ? 'Note' : 'Summary'}
+            </label>
+            <textarea
+              rows={4}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClass}
+            />
+            {errors.description && <p className="mt-1 text-sm text-red-600">{errors.description}</p>}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t bg-gray-50 sm:rounded-b-lg">
+          {saveError && <p className="mr-auto text-sm text-red-600">{saveError}</p>}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !profile}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Log Activity'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Mail, RefreshCw, Trash2, UserPlus, X } from 'lucide-react';
+import { useProfile } from '../hooks/useProfile';
+import { usePermissions } from '../hooks/usePermissions';
+import {
+  fetchMembers,
+  fetchOpenInvitations,
+  memberName,
+  removeMember,
+  resendInvitation,
+  revokeInvitation,
+  sendInvitation,
+  setMemberRole,
+  type Invitation,
+  type Member,
+} from '../lib/members';
+import { hasPermission, memberRoleLabel, MEMBER_ROLE_DESCRIPTIONS, MEMBER_ROLES, type MemberRole } from '../lib/roles';
+
+export function MemberManager() {
+  const { user, profile } = useProfile();
+  const { can } = usePermissions();
+  const isAdmin = can('members.manage');
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<MemberRole>('recruiter');
+  const [sending, setSending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchTeam = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const [memberRows, invitationRows] = await Promise.all([
+        fetchMembers(profile.organization_id),
+        hasPermission(profile.role, 'members.manage') ? fetchOpenInvitations() : Promise.resolve([]),
+      ]);
+      setMembers(memberRows);
+      setInvitations(invitationRows);
+    } catch (error) {
+      console.error('Error fetching members:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  const run = async (key: string, action: () => Promise<void>, success: string) => {
+    setSending(key);
+    setError(null);
+    setNotice(null);
+
+    try {
+      await action();
+      setNotice(success);
+      fetchTeam();
+    } catch (error) {
+      console.error('Error updating members:', error);
+      setError(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setSending(null);
+    }
+  };
+
+  const handleInvite = () => {
+    const address = email.trim();
+    if (!address) return;
+
+    run(
+      'invite',
+      async () => {
+        await sendInvitation(address, role);
+        setEmail('');
+      },
+      `Invitation sent to ${address}`
+    );
+  };
+
+  const handleResend = (invitation: Invitation) =>
+    run(invitation.id, () => resendInvitation(invitation.id).then(() => undefined), `Invitation sent to ${invitation.email} again`);
+
+  const handleRevoke = (invitation: Invitation) => {
+    if (!window.confirm(`Revoke the invitation for ${invitation.email}? Their link will stop working.`)) return;
+    run(invitation.id, () => revokeInvitation(invitation.id), `Invitation for ${invitation.email} revoked`);
+  };
+
+  const handleRoleChange = (member: Member, newRole: MemberRole) =>
+    run(member.id, () => setMemberRole(member.id, newRole), `${memberName(member)} is now ${memberRoleLabel(newRole)}`);
+
+  const handleRemove = (member: Member) => {
+    if (!window.confirm(`Remove ${memberName(member)} from the organization? They will lose access right away.`)) return;
+    run(member.id, () => removeMember(member.id), `${memberName(member)} was removed`);
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900">Members</h2>
+      <p className="mt-1 text-sm text-gray-500">
+        {isAdmin ? 'Invite teammates and manage who has access.' : 'People in your organization.'}
+      </p>
+
+      {isAdmin && (
+        <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+          <input
+            type="email"
+            placeholder="teammate@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+            className="block w-full sm:w-64 border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as MemberRole)}
+            title={MEMBER_ROLE_DESCRIPTIONS[role]}
+            className="block border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          >
+            {MEMBER_ROLES.map((value) => (
+              <option key={value} value={value}>
+                {memberRoleLabel(value)}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleInvite}
+            disabled={!email.trim() || sending === 'invite'}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            {sending === 'invite' ? 'Sending...' : 'Invite'}
+          </button>
+        </div>
+      )}
+      {isAdmin && <p className="mt-1 text-xs text-gray-500">{MEMBER_ROLE_DESCRIPTIONS[role]}</p>}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {notice && <p className="mt-2 text-sm text-green-700">{notice}</p>}
+
+      <ul className="mt-4 divide-y divide-gray-200">
+        {loading ? (
+          <div className="p-4 text-center">Loading...</div>
+        ) : (
+          <>
+            {members.map((member) => (
+              <li key={member.id} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {memberName(member)}
+                    {member.id === user?.id && <span className="ml-1 font-normal text-gray-500">(you)</span>}
+                  </p>
+                  {member.email && <p className="text-sm text-gray-500 truncate">{member.email}</p>}
+                </div>
+                <div className="flex items-center gap-4">
+                  {isAdmin ? (
+                    <select
+                      value={member.role ?? ''}
+                      onChange={(e) => handleRoleChange(member, e.target.value as MemberRole)}
+                      disabled={sending === member.id}
+                      title={member.role ? MEMBER_ROLE_DESCRIPTIONS[member.role] : undefined}
+                      className="border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50"
+                    >
+                      {MEMBER_ROLES.map((value) => (
+                        <option key={value} value={value}>
+                          {memberRoleLabel(value)}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                      {memberRoleLabel(member.role)}
+                    </span>
+                  )}
+                  {isAdmin && (
+                    <button
+                      onClick={() => handleRemove(member)}
+                      disabled={member.id === user?.id || sending === member.id}
+                      title={member.id === user?.id ? "You can't remove yourself" : 'Remove from organization'}
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+            {invitations.map((invitation) => {
+              const expired = new Date(invitation.expires_at) < new Date();
+              return (
+                <li key={invitation.id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="flex items-center text-sm text-gray-900">
+                      <Mail className="h-4 w-4 mr-1 text-gray-400" />
+                      {invitation.email}
+                    </p>
+                    <p className={`text-xs ${expired ? 'text-red-600' : 'text-gray-500'}`}>
+                      {expired ? 'Invitation expired' : 'Invited'}
+                      {invitation.last_sent_at && ` · last sent ${new Date(invitation.last_sent_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                      {memberRoleLabel(invitation.role)}
+                    </span>
+                    <button
+                      onClick={() => handleResend(invitation)}
+                      disabled={sending === invitation.id}
+                      title="Send again"
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                    >
+                      <RefreshCw className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => handleRevoke(invitation)}
+                      disabled={sending === invitation.id}
+                      title="Revoke"
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                    >
+                      <X className="h-5 w-5" />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </>
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { mergeCandidates, DUPLICATE_REASON_LABELS, type CandidateDuplicate } from '../lib/duplicates';
+import {
+  defaultMergeChoices,
+  differingMergeFields,
+  formatMergeValue,
+  mergedFieldValues,
+  type MergeChoice,
+  type MergeChoices,
+} from '../lib/candidateMerge';
+import { toCandidateValues } from '../lib/candidateSchema';
+
+interface MergeCandidatesModalProps {
+  duplicate: CandidateDuplicate;
+  onClose: () => void;
+  onMerged: (survivorId: string) => void;
+}
+
+export function MergeCandidatesModal({ duplicate, onClose, onMerged }: MergeCandidatesModalProps) {
+  // The older record usually has the longer history, so it survives by default
+  const [survivorId, setSurvivorId] = useState(() =>
+    duplicate.candidate.created_at <= duplicate.duplicate.created_at ? duplicate.candidate_id : duplicate.duplicate_id
+  );
+  const survivor = survivorId === duplicate.candidate_id ? duplicate.candidate : duplicate.duplicate;
+  const merged = survivorId === duplicate.candidate_id ? duplicate.duplicate : duplicate.candidate;
+
+  const [choices, setChoices] = useState<MergeChoices>(() => defaultMergeChoices(survivor, merged));
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fields = useMemo(() => differingMergeFields(survivor, merged), [survivor, merged]);
+  const survivorValues = toCandidateValues(survivor);
+  const mergedValues = toCandidateValues(merged);
+
+  const handleSurvivorChange = (id: string) => {
+    setSurvivorId(id);
+    const nextSurvivor = id === duplicate.candidate_id ? duplicate.candidate : duplicate.duplicate;
+    const nextMerged = id === duplicate.candidate_id ? duplicate.duplicate : duplicate.candidate;
+    setChoices(defaultMergeChoices(nextSurvivor, nextMerged));
+  };
+
+  const handleMerge = async () => {
+    setMerging(true);
+    setError(null);
+
+    try {
+      await mergeCandidates(survivor.id, merged.id, mergedFieldValues(survivor, merged, choices));
+      onMerged(survivor.id);
+    } catch (error) {
+      console.error('Error merging candidates:', error);
+      setError(error instanceof Error ? error.message : 'Could not merge the candidates');
+      setMerging(false);
+    }
+  };
+
+  const choiceCell = (field: (typeof fields)[number], choice: MergeChoice, value: unknown) => (
+    <td className="px-4 py-2 align-top">
+      <label className="flex items-start text-sm text-gray-700 cursor-pointer">
+        <input
+          type="radio"
+          name={field.key}
+          checked={choices[field.key] === choice}
+          onChange={() => setChoices({ ...choices, [field.key]: choice })}
+          className="h-4 w-4 mt-0.5 mr-2 text-indigo-600 border-gray-300 focus:ring-indigo-500"
+        />
+        <span className="break-words">{formatMergeValue(value)}</span>
+      </label>
+    </td>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-gray-900 bg-opacity-50 py-10">
+      <div className="bg-white shadow-xl sm:rounded-lg w-full max-w-4xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-medium text-gray-900">Merge Duplicate Candidates</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {duplicate.reasons.map((reason) => (
+              <span
+                key={reason}
+                className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800"
+              >
+                {DUPLICATE_REASON_LABELS[reason] ?? reason}
+              </span>
+            ))}
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Keep this record</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {[duplicate.candidate, duplicate.duplicate].map((candidate) => (
+                <label
+                  key={candidate.id}
+                  className={`flex items-start p-3 border rounded-md cursor-pointer ${
+                    candidate.id === survivorId ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="survivor"
+                    checked={candidate.id === survivorId}
+                    onChange={() => handleSurvivorChange(candidate.id)}
+                    className="h-4 w-4 mt-0.5 mr-2 text-indigo-600 border-gray-300 focus:ring-indigo-500"
+                  />
+                  <span className="text-sm">
+                    <span className="block font-medium text-gray-900">
+                      {candidate.first_name} {candidate.last_name}
+                    </span>
+                    <span className="block text-gray-500">
+                      {[candidate.current_job_title, candidate.current_company].filter(Boolean).join(' at ')}
+                    </span>
+                    <span className="block text-xs text-gray-400">
+                      Added {new Date(candidate.created_at).toLocaleDateString()}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              {merged.first_name} {merged.last_name}'s activity, tags, pipeline entries, campaigns and sequences move to
+              the record you keep, and the other record is deleted.
+            </p>
+          </div>
+
+          {fields.length === 0 ? (
+            <p className="text-sm text-gray-500">Both records have the same details.</p>
+          ) : (
+            <div className="border rounded-md overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200 table-fixed">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="w-1/5 px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Keep</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Take from other</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {fields.map((field) => (
+                    <tr key={field.key}>
+                      <td className="px-4 py-2 align-top text-sm font-medium text-gray-900">
+                        {field.label}
+                        {field.kind === 'list' && (
+                          <label className="mt-1 flex items-center text-xs font-normal text-gray-500 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={field.key}
+                              checked={choices[field.key] === 'both'}
+                              onChange={() => setChoices({ ...choices, [field.key]: 'both' })}
+                              className="h-3 w-3 mr-1 text-indigo-600 border-gray-300 focus:ring-indigo-500"
+                            />
+                            Combine both
+                          </label>
+                        )}
+                      </td>
+                      {choiceCell(field, 'survivor', survivorValues[field.key])}
+                      {choiceCell(field, 'merged', mergedValues[field.key])}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t bg-gray-50 sm:rounded-b-lg">
+          {error && <p className="mr-auto text-sm text-red-600">{error}</p>}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleMerge}
+            disabled={merging}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {merging ? 'Merging...' : 'Merge'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useProfile } from '../hooks/useProfile';
+import {
+  parseRecommendationSettings,
+  recommendationSettingsSchema,
+  RECOMMENDATION_RULES,
+  type RecommendationRuleId,
+  type RecommendationSettings as Settings,
+} from '../lib/recommendations';
+
+export function RecommendationSettings() {
+  const { profile } = useProfile();
+  const [settings, setSettings] = useState<Settings>(() => recommendationSettingsSchema.parse({}));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const isAdmin = profile?.role === 'admin';
+
+  useEffect(() => {
+    if (!profile) return;
+
+    supabase
+      .from('organizations')
+      .select('recommendation_settings')
+      .eq('id', profile.organization_id)
+      .single()
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching recommendation settings:', error);
+        setSettings(parseRecommendationSettings(data?.recommendation_settings));
+        setLoading(false);
+      });
+  }, [profile]);
+
+  const updateRule = (ruleId: RecommendationRuleId, patch: Partial<Settings[RecommendationRuleId]>) => {
+    setSettings((current) => ({ ...current, [ruleId]: { ...current[ruleId], ...patch } }));
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    if (!profile) return;
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('organizations')
+        .update({ recommendation_settings: recommendationSettingsSchema.parse(settings) })
+        .eq('id', profile.organization_id);
+
+      if (error) throw error;
+      setMessage('Settings saved');
+    } catch (error) {
+      console.error('Error saving recommendation settings:', error);
+      setMessage('Could not save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900">Recommended Actions</h2>
+      <p className="mt-1 text-sm text-gray-500">
+        Choose which rules generate actions on the dashboard for your organization.
+      </p>
+
+      {loading ? (
+        <div className="p-4 text-center">Loading...</div>
+      ) : (
+        <div className="mt-4 divide-y divide-gray-200">
+          {(Object.keys(RECOMMENDATION_RULES) as RecommendationRuleId[]).map((ruleId) => {
+            const rule = settings[ruleId];
+            return (
+              <div key={ruleId} className="py-4 grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+                <label className="inline-flex items-center text-sm text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    disabled={!isAdmin}
+                    onChange={(e) => updateRule(ruleId, { enabled: e.target.checked })}
+                    className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {RECOMMENDATION_RULES[ruleId].label}
+                </label>
+                <label className="text-sm text-gray-700">
+                  {RECOMMENDATION_RULES[ruleId].daysLabel}
+                  <input
+                    type="number"
+                    min={0}
+                    value={rule.days}
+                    disabled={!isAdmin || !rule.enabled}
+                    onChange={(e) => updateRule(ruleId, { days: Math.max(0, Number(e.target.value)) })}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Priority
+                  <select
+                    value={rule.priority}
+                    disabled={!isAdmin || !rule.enabled}
+                    onChange={(e) =>
+                      updateRule(ruleId, { priority: e.target.value as Settings[RecommendationRuleId]['priority'] })
+                    }
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  >
+                    <option value="high">High</option>
+                    <option value="medium">Medium</option>
+                    <option value="low">Low</option>
+                  </select>
+                </label>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="mt-4 flex items-center justify-end space-x-3">
+          {message && <p className="text-sm text-gray-500">{message}</p>}
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Rules'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, Kanban } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useProfile } from '../hooks/useProfile';
+import { usePermissions } from '../hooks/usePermissions';
+import {
+  countByStage,
+  requisitionSchema,
+  PIPELINE_STAGES,
+  STAGE_COLORS,
+  STAGE_LABELS,
+  type PipelineStage,
+  type Requisition,
+} from '../lib/pipeline';
+import type { Job } from '../lib/jobs';
+
+interface RequisitionListProps {
+  job: Pick<Job, 'id' | 'title'>;
+}
+
+type RequisitionWithCounts = Requisition & {
+  counts: Record<PipelineStage, number>;
+};
+
+const inputClass =
+  'block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm';
+
+export function RequisitionList({ job }: RequisitionListProps) {
+  const { user, profile } = useProfile();
+  const { can } = usePermissions();
+  const [requisitions, setRequisitions] = useState<RequisitionWithCounts[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [title, setTitle] = useState(job.title);
+  const [headcount, setHeadcount] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRequisitions = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('requisitions')
+        .select('*, requisition_candidates(stage)')
+        .eq('job_id', job.id)
+        .order('created_at');
+
+      if (error) throw error;
+      setRequisitions(
+        (data || []).map(({ requisition_candidates: entries, ...requisition }) => ({
+          ...requisition,
+          counts: countByStage(entries || []),
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching requisitions:', error);
+    }
+  }, [job.id]);
+
+  useEffect(() => {
+    fetchRequisitions();
+  }, [fetchRequisitions]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !profile) return;
+
+    const result = requisitionSchema.safeParse({ title, headcount });
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const { error } = await supabase.from('requisitions').insert([{
+        ...result.data,
+        job_id: job.id,
+        organization_id: profile.organization_id,
+        created_by: user.id,
+        updated_by: user.id,
+      }]);
+
+      if (error) throw error;
+      setShowForm(false);
+      setTitle(job.title);
+      setHeadcount(1);
+      fetchRequisitions();
+    } catch (error) {
+      console.error('Error creating requisition:', error);
+      setError(error instanceof Error ? error.message : 'Could not create requisition');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleStatus = async (requisition: Requisition) => {
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('requisitions')
+        .update({ status: requisition.status === 'open' ? 'closed' : 'open', updated_by: user.id })
+        .eq('id', requisition.id);
+
+      if (error) throw error;
+      fetchRequisitions();
+    } catch (error) {
+      console.error('Error updating requisition:', error);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900">Requisitions</h2>
+        {!showForm && can('jobs.edit') && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New requisition
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mb-4 flex items-start gap-2">
+          <div className="flex-1">
+            <input
+              type="text"
+              placeholder="Title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className={inputClass}
+              autoFocus
+            />
+            {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+          </div>
+          <input
+            type="number"
+            min={1}
+            title="Headcount"
+            value={headcount}
+            onChange={(e) => setHeadcount(Number(e.target.value))}
+            className={`${inputClass} w-20`}
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            Create
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setShowForm(false);
+              setError(null);
+            }}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {requisitions.length === 0 ? (
+        <p className="text-sm text-gray-500">No requisitions yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {requisitions.map((requisition) => (
+            <li key={requisition.id} className="py-3">
+              <div className="flex items-center justify-between">
+                <Link
+                  to={`/requisitions/${requisition.id}`}
+                  className="inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-900"
+                >
+                  <Kanban className="h-4 w-4 mr-2" />
+                  {requisition.title}
+                  <span className="ml-2 text-xs font-normal text-gray-500">
+                    {requisition.counts.placed} of {requisition.headcount} placed
+                  </span>
+                </Link>
+                {can('jobs.edit') && (
+                  <button
+                    onClick={() => handleToggleStatus(requisition)}
+                    className="text-xs text-gray-500 hover:text-gray-700"
+                  >
+                    {requisition.status === 'open' ? 'Close' : 'Reopen'}
+                  </button>
+                )}
+              </div>
+              <div className="mt-2 flex flex-wrap gap-1">
+                {PIPELINE_STAGES.filter((stage) => requisition.counts[stage] > 0).map((stage) => (
+                  <span
+                    key={stage}
+                    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STAGE_COLORS[stage]}`}
+                  >
+                    {STAGE_LABELS[stage]} {requisition.counts[stage]}
+                  </span>
+                ))}
+                {requisition.status === 'closed' && (
+                  <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                    Closed
+                  </span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import { FileText, Upload } from 'lucide-react';
+import {
+  parseUploadedResume,
+  resumeFileName,
+  uploadResume,
+  validateResumeFile,
+  RESUME_ACCEPT,
+} from '../lib/resumes';
+import type { ParsedResume } from '../lib/resumeParser';
+
+interface ResumeUploadProps {
+  path: string | null;
+  organizationId: string | null;
+  // Called with the new path, and the parsed fields when the file could be read
+  onUploaded: (path: string, resume: ParsedResume | null) => void;
+  message?: string | null;
+}
+
+export function ResumeUpload({ path, organizationId, onUploaded, message }: ResumeUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<'idle' | 'uploading' | 'parsing'>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !organizationId) return;
+
+    const invalid = validateResumeFile(file);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setError(null);
+    setStatus('uploading');
+
+    let uploadedPath: string;
+    try {
+      uploadedPath = await uploadResume(file, organizationId);
+    } catch (error) {
+      console.error('Error uploading resume:', error);
+      setError(error instanceof Error ? error.message : 'Could not upload the resume');
+      setStatus('idle');
+      return;
+    }
+
+    setStatus('parsing');
+    try {
+      onUploaded(uploadedPath, await parseUploadedResume(uploadedPath));
+    } catch (error) {
+      // The file is stored either way; only the suggestions are missing
+      console.error('Error parsing resume:', error);
+      onUploaded(uploadedPath, null);
+      setError(`Uploaded, but the resume could not be read: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  return (
+    <div className="mt-1">
+      <div className="flex items-center gap-3">
+        {path && (
+          <span className="inline-flex items-center text-sm text-gray-700">
+            <FileText className="h-4 w-4 mr-1 text-gray-400" />
+            {resumeFileName(path)}
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={status !== 'idle' || !organizationId}
+          className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Upload className="h-4 w-4 mr-1" />
+          {status === 'uploading'
+            ? 'Uploading...'
+            : status === 'parsing'
+              ? 'Reading resume...'
+              : path
+                ? 'Replace'
+                : 'Upload PDF or DOCX'}
+        </button>
+        <input ref={inputRef} type="file" accept={RESUME_ACCEPT} onChange={handleFile} className="hidden" />
+      </div>
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+      {message && <p className="mt-1 text-sm text-green-700">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import {
+  parseRoleSpec,
+  roleSpecSchema,
+  MATCH_CRITERIA,
+  type MatchCriterionId,
+  type RoleSpec,
+} from '../lib/matching';
+import type { Job } from '../lib/jobs';
+import { Field, ListInput, Section, inputClass } from './FormFields';
+
+interface RoleSpecFormProps {
+  job: Job;
+  onClose: () => void;
+  onSaved: (job: Job) => void;
+}
+
+export function RoleSpecForm({ job, onClose, onSaved }: RoleSpecFormProps) {
+  const { user } = useAuth();
+  const [spec, setSpec] = useState<RoleSpec>(() => parseRoleSpec(job.role_spec));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const setWeight = (id: MatchCriterionId, value: number) => {
+    setSpec((current) => ({ ...current, weights: { ...current.weights, [id]: value } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const result = roleSpecSchema.safeParse(spec);
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const { data, error } = await supabase
+        .from('jobs')
+        .update({ role_spec: result.data, updated_by: user.id })
+        .eq('id', job.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      onSaved(data);
+    } catch (error) {
+      console.error('Error saving role spec:', error);
+      setError(error instanceof Error ? error.message : 'Could not save role spec');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-gray-900 bg-opacity-50 py-10">
+      <form onSubmit={handleSubmit} className="bg-white shadow-xl sm:rounded-lg w-full max-w-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-medium text-gray-900">Match Criteria for {job.title}</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-6">
+          <p className="text-sm text-gray-500">
+            Candidates are scored against the job's tech stack, compensation band, location, workplace
+            policy, sponsorship and must-haves. Fine tune how that works here.
+          </p>
+
+          <Section title="Requirements">
+            <Field label="Title Keywords" wide>
+              <ListInput
+                value={spec.title_keywords}
+                onChange={(value) => setSpec({ ...spec, title_keywords: value })}
+                placeholder={`Defaults to the words in "${job.title}"`}
+              />
+            </Field>
+            <Field label="Nice-to-have Tech" wide>
+              <ListInput
+                value={spec.nice_to_have_tech}
+                onChange={(value) => setSpec({ ...spec, nice_to_have_tech: value })}
+                placeholder="e.g. Terraform, GraphQL"
+              />
+            </Field>
+            <Field label="Minimum Score">
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={spec.min_score}
+                onChange={(e) => setSpec({ ...spec, min_score: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </Field>
+          </Section>
+
+          <Section title="Weights">
+            {(Object.keys(MATCH_CRITERIA) as MatchCriterionId[]).map((id) => (
+              <Field key={id} label={MATCH_CRITERIA[id]}>
+                <div className="mt-2 flex items-center gap-3">
+                  <input
+                    type="range"
+                    min={0}
+                    max={5}
+                    step={1}
+                    value={spec.weights[id]}
+                    onChange={(e) => setWeight(id, Number(e.target.value))}
+                    className="flex-1"
+                  />
+                  <span className="w-16 text-sm text-gray-700">
+                    {spec.weights[id] === 0 ? 'Ignored' : `× ${spec.weights[id]}`}
+                  </span>
+                </div>
+              </Field>
+            ))}
+          </Section>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t bg-gray-50 sm:rounded-b-lg">
+          {error && <p className="mr-auto text-sm text-red-600">{error}</p>}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useProfile } from '../hooks/useProfile';
+import { notifySavedSearchesChanged, type SavedSearchVisibility } from '../lib/savedSearches';
+import type { FilterState } from '../lib/candidateFilters';
+
+interface SaveSearchModalProps {
+  searchQuery: string;
+  filters: FilterState;
+  onClose: () => void;
+}
+
+export function SaveSearchModal({ searchQuery, filters, onClose }: SaveSearchModalProps) {
+  const { user, profile } = useProfile();
+  const [name, setName] = useState('');
+  const [visibility, setVisibility] = useState<SavedSearchVisibility>('private');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !profile || !name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const { error } = await supabase.from('saved_searches').insert([{
+        organization_id: profile.organization_id,
+        name: name.trim(),
+        search_query: searchQuery,
+        filters,
+        visibility,
+        created_by: user.id,
+      }]);
+
+      if (error) throw error;
+      notifySavedSearchesChanged();
+      onClose();
+    } catch (error) {
+      console.error('Error saving search:', error);
+      setError(error instanceof Error ? error.message : 'Could not save search');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-gray-900 bg-opacity-50 py-10">
+      <form onSubmit={handleSubmit} className="bg-white shadow-xl sm:rounded-lg w-full max-w-md">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-medium text-gray-900">Save as Smart List</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <div>
+            <label htmlFor="savedSearchName" className="block text-sm font-medium text-gray-700">
+              Name
+            </label>
+            <input
+              id="savedSearchName"
+              type="text"
+              required
+              placeholder="e.g. Active senior backend in NYC"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              autoFocus
+            />
+          </div>
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700">Visibility</legend>
+            <div className="mt-2 space-y-2">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={visibility === 'private'}
+                  onChange={() => setVisibility('private')}
+                  className="mr-2 border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Only me
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={visibility === 'organization'}
+                  onChange={() => setVisibility('organization')}
+                  className="mr-2 border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Everyone in my organization
+              </label>
+            </div>
+          </fieldset>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t bg-gray-50 sm:rounded-b-lg">
+          {error && <p className="mr-auto text-sm text-red-600">{error}</p>}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !name.trim()}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
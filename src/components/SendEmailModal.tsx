@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useProfile } from '../hooks/useProfile';
+import { renderProblems, renderTemplate } from '../lib/templateEngine';
+import { sendTemplateEmail } from '../lib/email';
+import { templateSubject } from '../lib/templates';
+import type { Candidate } from '../lib/candidateSchema';
+import type { Activity } from '../lib/activities';
+import { inputClass } from './FormFields';
+
+interface SendEmailModalProps {
+  candidate: Candidate;
+  initialTemplateId?: string;
+  onClose: () => void;
+  onSent: (activity: Activity | null) => void;
+}
+
+interface EmailTemplate {
+  id: string;
+  name: string;
+  content: string;
+  metadata: Record<string, string> | null;
+}
+
+export function SendEmailModal({ candidate, initialTemplateId, onClose, onSent }: SendEmailModalProps) {
+  const { user, profile } = useProfile();
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [templateId, setTemplateId] = useState(initialTemplateId ?? '');
+  const [subject, setSubject] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const recipient = candidate.personal_email || candidate.work_email;
+  const template = templates.find((t) => t.id === templateId) ?? null;
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('templates')
+          .select('id, name, content, metadata')
+          .eq('type', 'email')
+          .is('deleted_at', null)
+          .order('name');
+
+        if (error) throw error;
+        setTemplates(data || []);
+        const initial = data?.find((t) => t.id === initialTemplateId);
+        if (initial) setSubject(templateSubject(initial));
+      } catch (error) {
+        console.error('Error fetching email templates:', error);
+      }
+    };
+
+    fetchTemplates();
+  }, [initialTemplateId]);
+
+  // Same rendering the send-email function does, so what you see is what goes out
+  const preview = useMemo(() => {
+    if (!template) return null;
+
+    const context = {
+      candidate,
+      sender: {
+        first_name: profile?.first_name ?? null,
+        last_name: profile?.last_name ?? null,
+        email: user?.email ?? null,
+      },
+    };
+    const renderedSubject = renderTemplate(subject, context);
+    const renderedBody = renderTemplate(template.content, context);
+    const problems = [renderedSubject, renderedBody].flatMap(renderProblems);
+
+    return { subject: renderedSubject.output, body: renderedBody.output, problems };
+  }, [template, subject, candidate, profile, user]);
+
+  const handleSelectTemplate = (id: string) => {
+    setTemplateId(id);
+    const selected = templates.find((t) => t.id === id);
+    setSubject(selected ? templateSubject(selected) : '');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!template) return;
+
+    setSending(true);
+    setError(null);
+
+    try {
+      const { activity } = await sendTemplateEmail({
+        templateId: template.id,
+        candidateId: candidate.id,
+        subject,
+      });
+      onSent(activity);
+    } catch (error) {
+      console.error('Error sending email:', error);
+      setError(error instanceof Error ? error.message : 'Could not send email');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-gray-900 bg-opacity-50 py-10">
+      <form onSubmit={handleSubmit} className="bg-white shadow-xl sm:rounded-lg w-full max-w-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-medium text-gray-900">
+            Email {candidate.first_name} {candidate.last_name}
+          </h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          {!recipient && (
+            <p className="text-sm text-red-600">This candidate has no email address.</p>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Template</label>
+            <select
+              value={templateId}
+              onChange={(e) => handleSelectTemplate(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Choose an email template...</option>
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Subject</label>
+            <input
+              type="text"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="Variables like {firstName} work here too"
+              className={inputClass}
+            />
+          </div>
+
+          {preview && (
+            <div>
+              <p className="text-sm font-medium text-gray-700">Preview</p>
+              <div className="mt-1 border border-gray-300 rounded-md bg-gray-50 p-4 max-h-80 overflow-y-auto">
+                <p className="text-xs text-gray-500">To: {recipient || '—'}</p>
+                <p className="text-sm font-medium text-gray-900">{preview.subject}</p>
+                <p className="mt-3 text-sm text-gray-900 whitespace-pre-wrap">{preview.body}</p>
+              </div>
+              {preview.problems.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm">
+                  {preview.problems.map((problem) => (
+                    <li key={problem} className="flex items-start text-red-600">
+                      <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                      {problem}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t bg-gray-50 sm:rounded-b-lg">
+          {error && <p className="mr-auto text-sm text-red-600">{error}</p>}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={sending || !recipient || !preview || preview.problems.length > 0}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {sending ? 'Sending...' : 'Send Email'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Plus, Trash2, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  saveSequence,
+  sequenceSchema,
+  type Sequence,
+  type SequenceStepValues,
+} from '../lib/sequences';
+import { templateTypeLabel } from '../lib/templates';
+import { Field, inputClass } from './FormFields';
+
+interface SequenceFormProps {
+  sequence: Sequence | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface TemplateOption {
+  id: string;
+  name: string;
+  type: string;
+}
+
+function newStep(delayDays: number): SequenceStepValues {
+  return { id: crypto.randomUUID(), template_id: '', delay_days: delayDays };
+}
+
+export function SequenceForm({ sequence, onClose, onSaved }: SequenceFormProps) {
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [name, setName] = useState(sequence?.name ?? '');
+  const [description, setDescription] = useState(sequence?.description ?? '');
+  const [steps, setSteps] = useState<SequenceStepValues[]>(
+    sequence
+      ? sequence.steps.map(({ id, template_id, delay_days }) => ({ id, template_id, delay_days }))
+      : [newStep(0)]
+  );
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('templates')
+          .select('id, name, type')
+          .eq('scope', 'shared')
+          .is('deleted_at', null)
+          .order('name');
+
+        if (error) throw error;
+        setTemplates(data || []);
+      } catch (error) {
+        console.error('Error fetching templates:', error);
+      }
+    };
+
+    fetchTemplates();
+  }, []);
+
+  const updateStep = (index: number, changes: Partial<SequenceStepValues>) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setSteps(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = sequenceSchema.safeParse({ name, description, steps });
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      for (const issue of result.error.issues) {
+        const path = issue.path.join('.');
+        if (!fieldErrors[path]) fieldErrors[path] = issue.message;
+      }
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    setSaving(true);
+    setSaveError(null);
+
+    try {
+      await saveSequence(sequence?.id ?? null, result.data);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving sequence:', error);
+      setSaveError(error instanceof Error ? error.message : 'Could not save sequence');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-gray-900 bg-opacity-50 py-10">
+      <form onSubmit={handleSubmit} className="bg-white shadow-xl sm:rounded-lg w-full max-w-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-medium text-gray-900">{sequence ? 'Edit Sequence' : 'New Sequence'}</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <Field label="Name" error={errors.name}>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+          </Field>
+          <Field label="Description">
+            <textarea
+              rows={2}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClass}
+            />
+          </Field>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700">Steps</p>
+            <p className="text-xs text-gray-500">Days count from when the candidate is enrolled.</p>
+            <ol className="mt-2 space-y-2">
+              {steps.map((step, index) => (
+                <li key={step.id} className="flex items-start gap-2">
+                  <span className="mt-3 w-6 text-sm text-gray-500">{index + 1}.</span>
+                  <div className="w-24">
+                    <div className="flex items-center">
+                      <span className="mt-1 mr-1 text-sm text-gray-500">Day</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={step.delay_days}
+                        onChange={(e) => updateStep(index, { delay_days: Number(e.target.value) })}
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex-1">
+                    <select
+                      value={step.template_id}
+                      onChange={(e) => updateStep(index, { template_id: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Choose a template...</option>
+                      {templates.map((template) => (
+                        <option key={template.id} value={template.id}>
+                          {template.name} ({templateTypeLabel(template.type)})
+                        </option>
+                      ))}
+                    </select>
+                    {errors[`steps.${index}.template_id`] && (
+                      <p className="mt-1 text-sm text-red-600">{errors[`steps.${index}.template_id`]}</p>
+                    )}
+                  </div>
+                  <div className="mt-2 flex items-center">
+                    <button
+                      type="button"
+                      onClick={() => moveStep(index, -1)}
+                      disabled={index === 0}
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    >
+                      <ChevronUp className="h-5 w-5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === steps.length - 1}
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    >
+                      <ChevronDown className="h-5 w-5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                      className="ml-1 text-gray-400 hover:text-gray-600"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+            {errors.steps && <p className="mt-1 text-sm text-red-600">{errors.steps}</p>}
+            <button
+              type="button"
+              onClick={() => setSteps([...steps, newStep(steps[steps.length - 1]?.delay_days ?? 0)])}
+              className="mt-2 inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add step
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t bg-gray-50 sm:rounded-b-lg">
+          {saveError && <p className="mr-auto text-sm text-red-600">{saveError}</p>}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : sequence ? 'Update Sequence' : 'Create Sequence'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
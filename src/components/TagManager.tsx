@@ -0,0 +1,291 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, Trash2, Edit, GitMerge, Check, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useProfile } from '../hooks/useProfile';
+import { usePermissions } from '../hooks/usePermissions';
+import { DEFAULT_TAG_COLOR, TAG_COLORS, type Tag } from '../lib/tags';
+import { notifyCandidatesChanged } from '../lib/savedSearches';
+
+interface TagWithUsage extends Tag {
+  usage: number;
+}
+
+function ColorSwatches({ value, onChange }: { value: string; onChange: (color: string) => void }) {
+  return (
+    <div className="flex items-center gap-1">
+      {TAG_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          onClick={() => onChange(color)}
+          className={`h-5 w-5 rounded-full ${value === color ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+          style={{ backgroundColor: color }}
+          aria-label={`Use color ${color}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function TagManager() {
+  const { user, profile } = useProfile();
+  const { can } = usePermissions();
+  const [tags, setTags] = useState<TagWithUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(DEFAULT_TAG_COLOR);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTags = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('id, name, color, candidate_tags(count)')
+        .eq('organization_id', profile.organization_id)
+        .order('name');
+
+      if (error) throw error;
+      setTags(
+        (data || []).map(({ candidate_tags, ...tag }) => ({
+          ...tag,
+          color: tag.color || DEFAULT_TAG_COLOR,
+          usage: candidate_tags?.[0]?.count ?? 0,
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  const isDuplicateName = (name: string, exceptId?: string) =>
+    tags.some((tag) => tag.id !== exceptId && tag.name.toLowerCase() === name.trim().toLowerCase());
+
+  const handleCreateTag = async () => {
+    if (!user || !profile || !newName.trim()) return;
+    if (isDuplicateName(newName)) {
+      setError(`A tag named "${newName.trim()}" already exists`);
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('tags').insert([{
+        organization_id: profile.organization_id,
+        name: newName.trim(),
+        color: newColor,
+        created_by: user.id,
+      }]);
+
+      if (error) throw error;
+      setNewName('');
+      setError(null);
+      fetchTags();
+    } catch (error) {
+      console.error('Error creating tag:', error);
+    }
+  };
+
+  const handleUpdateTag = async (id: string, changes: Partial<Tag>) => {
+    if (changes.name !== undefined) {
+      if (!changes.name.trim()) return;
+      if (isDuplicateName(changes.name, id)) {
+        setError(`A tag named "${changes.name.trim()}" already exists`);
+        return;
+      }
+      changes = { ...changes, name: changes.name.trim() };
+    }
+
+    try {
+      const { error } = await supabase.from('tags').update(changes).eq('id', id);
+
+      if (error) throw error;
+      setTags(tags.map((tag) => (tag.id === id ? { ...tag, ...changes } : tag)));
+      setEditingId(null);
+      setError(null);
+    } catch (error) {
+      console.error('Error updating tag:', error);
+    }
+  };
+
+  const handleMergeTag = async (sourceId: string) => {
+    if (!mergeTargetId) return;
+
+    try {
+      const { error } = await supabase.rpc('merge_tags', {
+        source_tag_id: sourceId,
+        target_tag_id: mergeTargetId,
+      });
+
+      if (error) throw error;
+      notifyCandidatesChanged();
+      setMergingId(null);
+      setMergeTargetId('');
+      fetchTags();
+    } catch (error) {
+      console.error('Error merging tags:', error);
+    }
+  };
+
+  const handleDeleteTag = async (tag: TagWithUsage) => {
+    const usage = tag.usage > 0 ? ` It is used on ${tag.usage} candidate${tag.usage === 1 ? '' : 's'}.` : '';
+    if (!window.confirm(`Delete the "${tag.name}" tag?${usage}`)) return;
+
+    try {
+      const { error } = await supabase.from('tags').delete().eq('id', tag.id);
+
+      if (error) throw error;
+      notifyCandidatesChanged();
+      setTags(tags.filter((t) => t.id !== tag.id));
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900">Tags</h2>
+      <p className="mt-1 text-sm text-gray-500">Create, rename, recolor and merge the tags used on candidates.</p>
+
+      {can('tags.manage') && (
+        <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+          <input
+            type="text"
+            placeholder="New tag name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateTag()}
+            className="block w-full sm:w-64 border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+          />
+          <ColorSwatches value={newColor} onChange={setNewColor} />
+          <button
+            onClick={handleCreateTag}
+            disabled={!newName.trim()}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Tag
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      <ul className="mt-4 divide-y divide-gray-200">
+        {loading ? (
+          <div className="p-4 text-center">Loading...</div>
+        ) : tags.length === 0 ? (
+          <div className="p-4 text-center text-gray-500">No tags yet</div>
+        ) : (
+          tags.map((tag) => (
+            <li key={tag.id} className="py-3">
+              <div className="flex items-center justify-between gap-4">
+                {editingId === tag.id ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleUpdateTag(tag.id, { name: editName })}
+                      className="block w-48 border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                      autoFocus
+                    />
+                    <button
+                      onClick={() => handleUpdateTag(tag.id, { name: editName })}
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      <Check className="h-5 w-5" />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-600">
+                      <X className="h-5 w-5" />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-3">
+                    <span
+                      className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium"
+                      style={{ backgroundColor: `${tag.color}20`, color: tag.color }}
+                    >
+                      {tag.name}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {tag.usage} candidate{tag.usage === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                )}
+                {can('tags.manage') && (
+                  <div className="flex items-center gap-4">
+                    <ColorSwatches value={tag.color} onChange={(color) => handleUpdateTag(tag.id, { color })} />
+                    <button
+                      onClick={() => {
+                        setEditingId(tag.id);
+                        setEditName(tag.name);
+                      }}
+                      title="Rename"
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      <Edit className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setMergingId(mergingId === tag.id ? null : tag.id);
+                        setMergeTargetId('');
+                      }}
+                      title="Merge into another tag"
+                      disabled={tags.length < 2}
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                    >
+                      <GitMerge className="h-5 w-5" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteTag(tag)}
+                      title="Delete"
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  </div>
+                )}
+              </div>
+              {mergingId === tag.id && (
+                <div className="mt-3 flex items-center gap-3 text-sm text-gray-700">
+                  <span>Merge "{tag.name}" into</span>
+                  <select
+                    value={mergeTargetId}
+                    onChange={(e) => setMergeTargetId(e.target.value)}
+                    className="border border-gray-300 rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  >
+                    <option value="">Choose a tag</option>
+                    {tags
+                      .filter((target) => target.id !== tag.id)
+                      .map((target) => (
+                        <option key={target.id} value={target.id}>
+                          {target.name}
+                        </option>
+                      ))}
+                  </select>
+                  <button
+                    onClick={() => handleMergeTag(tag.id)}
+                    disabled={!mergeTargetId}
+                    className="px-3 py-1 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    Merge
+                  </button>
+                </div>
+              )}
+            </li>
+          ))
+        )}
+      </ul>
+    </div>
+  );
+}
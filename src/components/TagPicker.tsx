@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Tag as TagIcon, Check, ChevronDown } from 'lucide-react';
+import type { Tag } from '../lib/tags';
+
+interface TagPickerProps {
+  tags: Tag[];
+  label: string;
+  selectedIds?: string[];
+  disabled?: boolean;
+  onSelect: (tag: Tag, selected: boolean) => void;
+}
+
+export function TagPicker({ tags, label, selectedIds = [], disabled, onSelect }: TagPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const visibleTags = tags.filter((tag) => tag.name.toLowerCase().includes(query.trim().toLowerCase()));
+
+  return (
+    <div className="relative inline-block text-left">
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => setOpen(!open)}
+        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+      >
+        <TagIcon className="h-4 w-4 mr-2" />
+        {label}
+        <ChevronDown className="h-4 w-4 ml-2" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-30 mt-2 w-56 rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5">
+          <div className="p-2 border-b">
+            <input
+              type="text"
+              placeholder="Find a tag..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="block w-full border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              autoFocus
+            />
+          </div>
+          <ul className="max-h-60 overflow-auto py-1">
+            {visibleTags.length === 0 ? (
+              <li className="px-3 py-2 text-sm text-gray-500">No tags found</li>
+            ) : (
+              visibleTags.map((tag) => {
+                const selected = selectedIds.includes(tag.id);
+                return (
+                  <li key={tag.id}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        onSelect(tag, !selected);
+                        setOpen(false);
+                      }}
+                      className="flex items-center justify-between w-full px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      <span className="flex items-center">
+                        <span className="h-3 w-3 rounded-full mr-2" style={{ backgroundColor: tag.color }} />
+                        {tag.name}
+                      </span>
+                      {selected && <Check className="h-4 w-4 text-indigo-600" />}
+                    </button>
+                  </li>
+                );
+              })
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
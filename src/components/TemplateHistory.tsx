@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useState } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { DiffEditor } from '@monaco-editor/react';
+import { useAuth } from '../hooks/useAuth';
+import { usePermissions } from '../hooks/usePermissions';
+import { fetchTemplateVersions, restoreTemplateVersion, type TemplateVersion } from '../lib/templateVersions';
+import { registerTemplateLanguage, TEMPLATE_LANGUAGE_ID } from '../lib/templateLanguage';
+
+interface TemplateHistoryProps {
+  template: { id: string; name: string; version: number };
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+type Comparison = 'current' | 'previous';
+
+export function TemplateHistory({ template, onClose, onRestored }: TemplateHistoryProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [selected, setSelected] = useState<TemplateVersion | null>(null);
+  const [comparison, setComparison] = useState<Comparison>('current');
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const data = await fetchTemplateVersions(template.id);
+      setVersions(data);
+      // Start on the version before the current one, the usual thing to compare
+      setSelected(data[1] ?? data[0] ?? null);
+    } catch (error) {
+      console.error('Error fetching template versions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [template.id]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const current = versions[0] ?? null;
+  const previous = selected ? versions.find((v) => v.version < selected.version) ?? null : null;
+  const original = comparison === 'current' ? selected : previous;
+  const modified = comparison === 'current' ? current : selected;
+
+  const handleRestore = async () => {
+    if (!user || !selected) return;
+    if (!confirm(`Restore version ${selected.version} of "${template.name}"? The current version stays in the history.`)) {
+      return;
+    }
+
+    setRestoring(true);
+    setError(null);
+
+    try {
+      await restoreTemplateVersion(selected, user.id);
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring template version:', error);
+      setError(error instanceof Error ? error.message : 'Could not restore this version');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center overflow-y-auto bg-gray-900 bg-opacity-50 py-10">
+      <div className="bg-white shadow-xl sm:rounded-lg w-full max-w-6xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="flex items-center text-lg font-medium text-gray-900">
+            <History className="h-5 w-5 mr-2 text-gray-400" />
+            History of {template.name}
+          </h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-4">
+          <ul className="col-span-1 border-r max-h-[32rem] overflow-y-auto divide-y divide-gray-200">
+            {loading ? (
+              <li className="px-4 py-3 text-sm">Loading...</li>
+            ) : (
+              versions.map((version, index) => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(version)}
+                    className={`w-full px-4 py-3 text-left hover:bg-gray-50 ${
+                      selected?.id === version.id ? 'bg-indigo-50' : ''
+                    }`}
+                  >
+                    <p className="text-sm font-medium text-gray-900">
+                      Version {version.version}
+                      {index === 0 && <span className="ml-2 text-xs font-normal text-gray-500">current</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(version.created_at).toLocaleString()}
+                      {version.author && ` by ${version.author.first_name} ${version.author.last_name}`}
+                    </p>
+                    {version.name !== template.name && (
+                      <p className="mt-1 text-xs text-gray-500 truncate">Named "{version.name}"</p>
+                    )}
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+
+          <div className="col-span-3 p-4">
+            {selected && (
+              <>
+                <div className="flex items-center justify-between mb-2 text-sm text-gray-700">
+                  <label className="flex items-center">
+                    Compare version {selected.version} with
+                    <select
+                      value={comparison}
+                      onChange={(e) => setComparison(e.target.value as Comparison)}
+                      className="ml-2 border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                      <option value="current">the current version</option>
+                      <option value="previous">the version before it</option>
+                    </select>
+                  </label>
+                  <span className="text-xs text-gray-500">
+                    {original ? `Version ${original.version}` : 'Nothing'} → {modified ? `Version ${modified.version}` : ''}
+                  </span>
+                </div>
+                <div className="border border-gray-300 rounded-md overflow-hidden">
+                  <DiffEditor
+                    height="420px"
+                    language={TEMPLATE_LANGUAGE_ID}
+                    original={original?.content ?? ''}
+                    modified={modified?.content ?? ''}
+                    beforeMount={registerTemplateLanguage}
+                    options={{
+                      readOnly: true,
+                      minimap: { enabled: false },
+                      lineNumbers: 'off',
+                      wordWrap: 'on',
+                      renderSideBySide: true,
+                    }}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 py-4 border-t bg-gray-50 sm:rounded-b-lg">
+          {error && <p className="mr-auto text-sm text-red-600">{error}</p>}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Close
+          </button>
+          {can('templates.edit') && (
+            <button
+              type="button"
+              onClick={handleRestore}
+              disabled={!selected || selected.version === template.version || restoring}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {restoring ? 'Restoring...' : selected ? `Restore Version ${selected.version}` : 'Restore'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
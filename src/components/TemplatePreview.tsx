@@ -0,0 +1,88 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { useProfile } from '../hooks/useProfile';
+import { renderTemplate, sampleContext, type TemplateContext } from '../lib/templateEngine';
+import type { Candidate } from '../lib/candidateSchema';
+import { CandidatePicker } from './CandidatePicker';
+
+interface TemplatePreviewProps {
+  content: string;
+}
+
+export function TemplatePreview({ content }: TemplatePreviewProps) {
+  const { user, profile } = useProfile();
+  const [candidate, setCandidate] = useState<Candidate | null>(null);
+
+  const result = useMemo(() => {
+    const context: TemplateContext = candidate
+      ? {
+          candidate,
+          sender: {
+            first_name: profile?.first_name ?? null,
+            last_name: profile?.last_name ?? null,
+            email: user?.email ?? null,
+          },
+        }
+      : sampleContext();
+    return renderTemplate(content, context);
+  }, [content, candidate, profile, user]);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="mb-2">
+        {candidate ? (
+          <div className="flex items-center justify-between py-2 text-sm">
+            <span className="text-gray-700">
+              Previewing for{' '}
+              <span className="font-medium text-gray-900">
+                {candidate.first_name} {candidate.last_name}
+              </span>
+            </span>
+            <button
+              type="button"
+              onClick={() => setCandidate(null)}
+              title="Back to sample data"
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ) : (
+          <CandidatePicker placeholder="Preview with a candidate..." onSelect={setCandidate} />
+        )}
+      </div>
+
+      <div className="flex-1 min-h-[400px] border border-gray-300 rounded-md bg-gray-50 p-4 overflow-y-auto">
+        {content ? (
+          <p className="text-sm text-gray-900 whitespace-pre-wrap">{result.output}</p>
+        ) : (
+          <p className="text-sm text-gray-500">Start typing to see a preview.</p>
+        )}
+      </div>
+      {!candidate && <p className="mt-1 text-xs text-gray-500">Showing sample data.</p>}
+
+      {(result.errors.length > 0 || result.unknown.length > 0 || result.missing.length > 0) && (
+        <ul className="mt-2 space-y-1 text-sm">
+          {result.errors.map((error) => (
+            <li key={`${error.start}-${error.message}`} className="flex items-start text-red-600">
+              <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+              {error.message}
+            </li>
+          ))}
+          {result.unknown.map((name) => (
+            <li key={name} className="flex items-start text-red-600">
+              <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+              Unknown variable {`{${name}}`}
+            </li>
+          ))}
+          {result.missing.map((name) => (
+            <li key={name} className="flex items-start text-yellow-700">
+              <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+              {`{${name}}`} has no value for this candidate. Add a default like {`{${name}|...}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
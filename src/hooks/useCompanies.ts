@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import type { Company } from '../lib/jobs';
+import { useProfile } from './useProfile';
+
+export function useCompanies() {
+  const { profile } = useProfile();
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+
+    const { data, error } = await supabase
+      .from('companies')
+      .select('*')
+      .eq('organization_id', profile.organization_id)
+      .order('name');
+
+    if (error) console.error('Error fetching companies:', error);
+    setCompanies(data || []);
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { companies, loading, refresh };
+}
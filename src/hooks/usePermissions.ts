@@ -0,0 +1,13 @@
+import { useCallback } from 'react';
+import { hasPermission, type Permission } from '../lib/roles';
+import { useProfile } from './useProfile';
+
+// Nothing is allowed until the profile has loaded
+export function usePermissions() {
+  const { profile, loading } = useProfile();
+  const role = profile?.role ?? null;
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  return { role, can, loading };
+}
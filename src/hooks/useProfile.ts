@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+
+export interface Profile {
+  id: string;
+  organization_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  role: string | null;
+}
+
+export function useProfile() {
+  const { user, loading: authLoading } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      setProfile(null);
+      setLoading(false);
+      return;
+    }
+
+    supabase
+      .from('profiles')
+      .select('id, organization_id, first_name, last_name, role')
+      .eq('id', user.id)
+      .single()
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching profile:', error);
+        setProfile(data ?? null);
+        setLoading(false);
+      });
+  }, [user, authLoading]);
+
+  return { user, profile, loading: authLoading || loading };
+}
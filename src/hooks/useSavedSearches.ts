@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  CANDIDATES_CHANGED,
+  countSavedSearch,
+  toSavedSearch,
+  SAVED_SEARCHES_CHANGED,
+  type SavedSearch,
+} from '../lib/savedSearches';
+import { useProfile } from './useProfile';
+
+// Candidate changes often come in bursts, like tagging several in a row, so they're recounted together
+const RECOUNT_DELAY_MS = 2000;
+
+// Counts are re-run when a search is saved or removed and when candidates change, not on navigation
+export function useSavedSearches() {
+  const { profile } = useProfile();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const searchesRef = useRef<SavedSearch[]>([]);
+
+  // A search whose count fails keeps the count it had
+  const recount = useCallback(async (searches: SavedSearch[]) => {
+    const results = await Promise.allSettled(searches.map(countSavedSearch));
+
+    setCounts((previous) => {
+      const next: Record<string, number> = {};
+      searches.forEach((search, index) => {
+        const result = results[index];
+        if (result.status === 'fulfilled') {
+          next[search.id] = result.value;
+        } else {
+          console.error(`Error counting saved search "${search.name}":`, result.reason);
+          if (search.id in previous) next[search.id] = previous[search.id];
+        }
+      });
+      return next;
+    });
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('organization_id', profile.organization_id)
+        .order('name');
+
+      if (error) throw error;
+      const searches = (data || []).map(toSavedSearch);
+      searchesRef.current = searches;
+      setSavedSearches(searches);
+      await recount(searches);
+    } catch (error) {
+      console.error('Error fetching saved searches:', error);
+    }
+  }, [profile, recount]);
+
+  useEffect(() => {
+    refresh();
+
+    window.addEventListener(SAVED_SEARCHES_CHANGED, refresh);
+    return () => {
+      window.removeEventListener(SAVED_SEARCHES_CHANGED, refresh);
+    };
+  }, [refresh]);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleCandidatesChanged = () => {
+      if (timer) return;
+      timer = setTimeout(() => {
+        timer = undefined;
+        recount(searchesRef.current);
+      }, RECOUNT_DELAY_MS);
+    };
+
+    window.addEventListener(CANDIDATES_CHANGED, handleCandidatesChanged);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener(CANDIDATES_CHANGED, handleCandidatesChanged);
+    };
+  }, [recount]);
+
+  return { savedSearches, counts, refresh };
+}
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { DEFAULT_TAG_COLOR, type Tag } from '../lib/tags';
+import { useProfile } from './useProfile';
+
+export function useTags() {
+  const { profile } = useProfile();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!profile) return;
+
+    const { data, error } = await supabase
+      .from('tags')
+      .select('id, name, color')
+      .eq('organization_id', profile.organization_id)
+      .order('name');
+
+    if (error) console.error('Error fetching tags:', error);
+    setTags((data || []).map((tag) => ({ ...tag, color: tag.color || DEFAULT_TAG_COLOR })));
+    setLoading(false);
+  }, [profile]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { tags, loading, refresh };
+}
@@ -0,0 +1,15 @@
+import { toCandidateValues, type Candidate } from '../candidateSchema';
+
+// A saved candidate with every column at its default
+export function candidate(overrides: Partial<Candidate> = {}): Candidate {
+  return {
+    ...toCandidateValues({ first_name: 'Ada', last_name: 'Lovelace' }),
+    id: 'candidate-1',
+    organization_id: 'org-1',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    created_by: null,
+    updated_by: null,
+    ...overrides,
+  };
+}
@@ -0,0 +1,165 @@
+import { z } from 'zod';
+import { supabase } from './supabase';
+
+export interface Activity {
+  id: string;
+  candidate_id: string;
+  organization_id: string;
+  type: string;
+  description: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+  created_by: string | null;
+  author?: {
+    first_name: string | null;
+    last_name: string | null;
+  } | null;
+}
+
+export const ACTIVITY_TYPES = ['email', 'call', 'meeting', 'note', 'stage_change', 'merge'] as const;
+
+export type ActivityType = (typeof ACTIVITY_TYPES)[number];
+
+// Kinds a recruiter records by hand; stage changes are written by the pipeline and merges by merge_candidates
+export const LOGGABLE_ACTIVITY_TYPES = ['email', 'call', 'meeting', 'note'] as const;
+
+export const DIRECTIONS = ['outbound', 'inbound'] as const;
+
+export const CALL_OUTCOMES = ['connected', 'voicemail', 'no_answer', 'wrong_number'] as const;
+
+const durationMinutes = z
+  .number({ invalid_type_error: 'Must be a number' })
+  .int()
+  .positive('Must be at least 1 minute')
+  .nullable()
+  .default(null);
+
+export const emailMetadataSchema = z.object({
+  subject: z.string().trim().min(1, 'Subject is required'),
+  direction: z.enum(DIRECTIONS).default('outbound'),
+  // Set by the send-email function for messages sent from a template
+  to: z.string().optional(),
+  body: z.string().optional(),
+  message_id: z.string().optional(),
+  template_id: z.string().uuid().optional(),
+  template_version: z.number().int().optional(),
+});
+
+export const callMetadataSchema = z.object({
+  direction: z.enum(DIRECTIONS).default('outbound'),
+  outcome: z.enum(CALL_OUTCOMES).default('connected'),
+  duration_minutes: durationMinutes,
+});
+
+export const meetingMetadataSchema = z.object({
+  scheduled_at: z.string().min(1, 'Date is required'),
+  duration_minutes: durationMinutes,
+  location: z.string().trim().default(''),
+  attendees: z.array(z.string().trim()).default([]),
+});
+
+export const noteMetadataSchema = z.object({});
+
+export const stageChangeMetadataSchema = z.object({
+  from_stage: z.string().nullable(),
+  to_stage: z.string(),
+  requisition_id: z.string().uuid().optional(),
+});
+
+export const activityInputSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('email'),
+    description: z.string().trim().default(''),
+    metadata: emailMetadataSchema,
+  }),
+  z.object({
+    type: z.literal('call'),
+    description: z.string().trim().default(''),
+    metadata: callMetadataSchema,
+  }),
+  z.object({
+    type: z.literal('meeting'),
+    description: z.string().trim().default(''),
+    metadata: meetingMetadataSchema,
+  }),
+  z.object({
+    type: z.literal('note'),
+    description: z.string().trim().min(1, 'Note is required'),
+    metadata: noteMetadataSchema,
+  }),
+  z.object({
+    type: z.literal('stage_change'),
+    description: z.string().trim().default(''),
+    metadata: stageChangeMetadataSchema,
+  }),
+]);
+
+export type ActivityInput = z.input<typeof activityInputSchema>;
+export type ActivityValues = z.output<typeof activityInputSchema>;
+export type EmailMetadata = z.output<typeof emailMetadataSchema>;
+export type CallMetadata = z.output<typeof callMetadataSchema>;
+export type MeetingMetadata = z.output<typeof meetingMetadataSchema>;
+export type StageChangeMetadata = z.output<typeof stageChangeMetadataSchema>;
+
+// Labels for activity types and the enum values stored in their metadata
+export const ACTIVITY_LABELS: Record<string, string> = {
+  email: 'Email',
+  call: 'Call',
+  meeting: 'Meeting',
+  note: 'Note',
+  stage_change: 'Stage change',
+  merge: 'Merged duplicate',
+  outbound: 'Outbound',
+  inbound: 'Inbound',
+  connected: 'Connected',
+  voicemail: 'Left voicemail',
+  no_answer: 'No answer',
+  wrong_number: 'Wrong number',
+  sourced: 'Sourced',
+  contacted: 'Contacted',
+  screening: 'Screening',
+  submitted: 'Submitted',
+  interviewing: 'Interviewing',
+  offer: 'Offer',
+  placed: 'Placed',
+  rejected: 'Rejected',
+};
+
+export function activityTypeLabel(type: string) {
+  return ACTIVITY_LABELS[type] ?? type.replace(/_/g, ' ');
+}
+
+export function formatMetadataValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.map(formatMetadataValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return ACTIVITY_LABELS[String(value)] ?? String(value);
+}
+
+interface ActivityContext {
+  candidateId: string;
+  organizationId: string;
+  userId: string;
+}
+
+// Validates an activity against its kind's metadata schema and records it
+export async function logActivity(input: ActivityInput, context: ActivityContext) {
+  const activity = activityInputSchema.parse(input);
+
+  const { data, error } = await supabase
+    .from('activities')
+    .insert([{
+      candidate_id: context.candidateId,
+      organization_id: context.organizationId,
+      created_by: context.userId,
+      type: activity.type,
+      description: activity.description || null,
+      metadata: activity.metadata,
+    }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Activity;
+}
@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { supabase } from './supabase';
+import { renderProblems, renderTemplate, type TemplateSender } from './templateEngine';
+import type { Candidate } from './candidateSchema';
+
+export const CAMPAIGN_STATUSES = ['draft', 'sending', 'paused', 'completed'] as const;
+
+export type CampaignStatus = (typeof CAMPAIGN_STATUSES)[number];
+
+export const CAMPAIGN_STATUS_LABELS: Record<CampaignStatus, string> = {
+  draft: 'Draft',
+  sending: 'Sending',
+  paused: 'Paused',
+  completed: 'Completed',
+};
+
+export const CAMPAIGN_STATUS_COLORS: Record<CampaignStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sending: 'bg-blue-100 text-blue-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+};
+
+export const RECIPIENT_STATUSES = ['queued', 'sent', 'failed', 'replied'] as const;
+
+export type RecipientStatus = (typeof RECIPIENT_STATUSES)[number];
+
+export const RECIPIENT_STATUS_LABELS: Record<RecipientStatus, string> = {
+  queued: 'Queued',
+  sent: 'Sent',
+  failed: 'Failed',
+  replied: 'Replied',
+};
+
+export const RECIPIENT_STATUS_COLORS: Record<RecipientStatus, string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  failed: 'bg-red-100 text-red-800',
+  replied: 'bg-green-100 text-green-800',
+};
+
+export const campaignSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  template_id: z.string().uuid('Choose a template'),
+  subject: z.string().trim().min(1, 'Subject is required'),
+  send_rate_per_minute: z
+    .number({ invalid_type_error: 'Must be a number' })
+    .int()
+    .min(1, 'Must be at least 1')
+    .max(60, 'At most 60 per minute'),
+});
+
+export type CampaignValues = z.output<typeof campaignSchema>;
+
+export type Campaign = CampaignValues & {
+  id: string;
+  organization_id: string;
+  status: CampaignStatus;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export interface CampaignRecipient {
+  id: string;
+  campaign_id: string;
+  candidate_id: string;
+  email: string;
+  status: RecipientStatus;
+  error: string | null;
+  sent_at: string | null;
+  replied_at: string | null;
+  candidate: Pick<Candidate, 'id' | 'first_name' | 'last_name'>;
+}
+
+export const CAMPAIGN_RECIPIENT_SELECT = `
+  id,
+  campaign_id,
+  candidate_id,
+  email,
+  status,
+  error,
+  sent_at,
+  replied_at,
+  candidate:candidates (
+    id,
+    first_name,
+    last_name
+  )
+`;
+
+export function countByStatus(recipients: { status: RecipientStatus }[]) {
+  const counts = Object.fromEntries(RECIPIENT_STATUSES.map((status) => [status, 0])) as Record<
+    RecipientStatus,
+    number
+  >;
+  for (const recipient of recipients) {
+    counts[recipient.status]++;
+  }
+  return counts;
+}
+
+export interface RecipientPreview {
+  candidate: Candidate;
+  email: string | null;
+  subject: string;
+  body: string;
+  // Why the candidate will be left out, if they will be
+  skipReason: string | null;
+}
+
+/**
+ * Renders the campaign for each candidate the way the send-campaign function
+ * will, and works out who has to be skipped.
+ */
+export function previewRecipients(
+  candidates: Candidate[],
+  template: { content: string },
+  subject: string,
+  sender: TemplateSender
+): RecipientPreview[] {
+  return candidates.map((candidate) => {
+    const email = candidate.personal_email || candidate.work_email;
+    const context = { candidate, sender };
+    const renderedSubject = renderTemplate(subject, context);
+    const renderedBody = renderTemplate(template.content, context);
+    const problems = [renderedSubject, renderedBody].flatMap(renderProblems);
+
+    return {
+      candidate,
+      email,
+      subject: renderedSubject.output,
+      body: renderedBody.output,
+      skipReason: !email ? 'No email address' : problems.length > 0 ? problems.join('. ') : null,
+    };
+  });
+}
+
+// Creates the campaign as a draft with everyone who isn't skipped queued, in one transaction
+export async function createCampaign(values: CampaignValues, recipients: RecipientPreview[]) {
+  const queued = recipients.filter((recipient) => !recipient.skipReason && recipient.email);
+  const { data, error } = await supabase.rpc('create_campaign', {
+    campaign_name: values.name,
+    campaign_template_id: values.template_id,
+    campaign_subject: values.subject,
+    rate: values.send_rate_per_minute,
+    recipients: queued.map((recipient) => ({
+      candidate_id: recipient.candidate.id,
+      email: recipient.email,
+    })),
+  });
+
+  if (error) throw error;
+  return data as Campaign;
+}
@@ -0,0 +1,184 @@
+import { supabase } from './supabase';
+import { splitList } from './candidateSchema';
+
+export interface FilterState {
+  relationship_type: string[];
+  functional_role: string[];
+  is_active_looking: boolean | null;
+  location_category: string[];
+  tag_ids: string[];
+  tech_stack: string[];
+  urgency_level: string[];
+  employment_status: string[];
+  company_size: string[];
+  requires_sponsorship: boolean | null;
+  compensation_min: number | null;
+  compensation_max: number | null;
+}
+
+export function emptyFilters(): FilterState {
+  return {
+    relationship_type: [],
+    functional_role: [],
+    is_active_looking: null,
+    location_category: [],
+    tag_ids: [],
+    tech_stack: [],
+    urgency_level: [],
+    employment_status: [],
+    company_size: [],
+    requires_sponsorship: null,
+    compensation_min: null,
+    compensation_max: null,
+  };
+}
+
+// Short query string keys so shared links stay readable
+const LIST_PARAMS = {
+  relationship_type: 'relationship',
+  functional_role: 'role',
+  location_category: 'location',
+  tag_ids: 'tags',
+  tech_stack: 'tech',
+  urgency_level: 'urgency',
+  employment_status: 'employment',
+  company_size: 'size',
+} as const;
+
+const BOOLEAN_PARAMS = {
+  is_active_looking: 'active',
+  requires_sponsorship: 'visa',
+} as const;
+
+const NUMBER_PARAMS = {
+  compensation_min: 'comp_min',
+  compensation_max: 'comp_max',
+} as const;
+
+export const SEARCH_PARAM = 'q';
+
+export function filtersToSearchParams(filters: FilterState, searchQuery = '') {
+  const params = new URLSearchParams();
+
+  if (searchQuery) params.set(SEARCH_PARAM, searchQuery);
+  for (const [key, param] of Object.entries(LIST_PARAMS) as [keyof typeof LIST_PARAMS, string][]) {
+    if (filters[key].length > 0) params.set(param, filters[key].join(','));
+  }
+  for (const [key, param] of Object.entries(BOOLEAN_PARAMS) as [keyof typeof BOOLEAN_PARAMS, string][]) {
+    if (filters[key] !== null) params.set(param, String(filters[key]));
+  }
+  for (const [key, param] of Object.entries(NUMBER_PARAMS) as [keyof typeof NUMBER_PARAMS, string][]) {
+    if (filters[key] !== null) params.set(param, String(filters[key]));
+  }
+
+  return params;
+}
+
+export function searchParamsToFilters(params: URLSearchParams): FilterState {
+  const filters = emptyFilters();
+
+  for (const [key, param] of Object.entries(LIST_PARAMS) as [keyof typeof LIST_PARAMS, string][]) {
+    filters[key] = splitList(params.get(param) ?? '');
+  }
+  for (const [key, param] of Object.entries(BOOLEAN_PARAMS) as [keyof typeof BOOLEAN_PARAMS, string][]) {
+    const value = params.get(param);
+    filters[key] = value === 'true' ? true : value === 'false' ? false : null;
+  }
+  for (const [key, param] of Object.entries(NUMBER_PARAMS) as [keyof typeof NUMBER_PARAMS, string][]) {
+    const value = Number(params.get(param) ?? '');
+    filters[key] = params.get(param) && Number.isFinite(value) ? value : null;
+  }
+
+  return filters;
+}
+
+// Fills in any filter missing from a stored filter set
+export function normalizeFilters(value: unknown): FilterState {
+  if (!value || typeof value !== 'object') return emptyFilters();
+  return { ...emptyFilters(), ...(value as Partial<FilterState>) };
+}
+
+export function activeFilterCount(filters: FilterState) {
+  return Object.values(filters).filter((value) =>
+    Array.isArray(value) ? value.length > 0 : value !== null
+  ).length;
+}
+
+interface FilterableQuery<Q> {
+  in(column: string, values: readonly unknown[]): Q;
+  eq(column: string, value: unknown): Q;
+  gte(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
+  overlaps(column: string, value: readonly unknown[]): Q;
+  or(filters: string): Q;
+}
+
+/**
+ * Starts a candidates query through the search_candidates database function,
+ * which handles full-text matching and ranking server-side. The search text is
+ * sent as a parameter, never spliced into a filter string.
+ */
+export function searchCandidates(searchQuery: string, options?: { count?: 'exact'; head?: boolean }) {
+  return supabase.rpc('search_candidates', { search: searchQuery.trim() }, options);
+}
+
+/**
+ * Adds every filter except tags to a candidates query. Tags live in a junction
+ * table, see tagFilterSelect.
+ */
+export function applyCandidateFilters<Q extends FilterableQuery<Q>>(query: Q, filters: FilterState): Q {
+  if (filters.relationship_type.length > 0) {
+    query = query.in('relationship_type', filters.relationship_type);
+  }
+  if (filters.functional_role.length > 0) {
+    query = query.in('functional_role', filters.functional_role);
+  }
+  if (filters.is_active_looking !== null) {
+    query = query.eq('is_active_looking', filters.is_active_looking);
+  }
+  if (filters.location_category.length > 0) {
+    query = query.in('current_location->>category', filters.location_category);
+  }
+  if (filters.tech_stack.length > 0) {
+    query = query.overlaps('tech_stack', filters.tech_stack);
+  }
+  if (filters.urgency_level.length > 0) {
+    query = query.in('urgency_level', filters.urgency_level);
+  }
+  if (filters.employment_status.length > 0) {
+    query = query.in('employment_status', filters.employment_status);
+  }
+  if (filters.company_size.length > 0) {
+    query = query.in('current_company_size', filters.company_size);
+  }
+  if (filters.requires_sponsorship === true) {
+    query = query.eq('visa_requirements->>requires_sponsorship', 'true');
+  } else if (filters.requires_sponsorship === false) {
+    query = query.or(
+      'visa_requirements->>requires_sponsorship.is.null,visa_requirements->>requires_sponsorship.eq.false'
+    );
+  }
+  // A candidate fits the range when their desired band overlaps it. The
+  // numeric columns are generated from compensation_expectations, and
+  // candidates with no amounts on file are left out
+  if (filters.compensation_max !== null) {
+    query = query.lte('compensation_floor', filters.compensation_max);
+  }
+  if (filters.compensation_min !== null) {
+    query = query.gte('compensation_ceiling', filters.compensation_min);
+  }
+
+  return query;
+}
+
+// Tags live in a junction table, so the tag filter runs through an inner embed
+// that drops candidates with none of the chosen tags. Add this to the select of
+// any query passed to buildCandidateQuery
+export function tagFilterSelect(filters: FilterState): string {
+  return filters.tag_ids.length > 0 ? ', tag_filter:candidate_tags!inner(tag_id)' : '';
+}
+
+export function buildCandidateQuery<Q extends FilterableQuery<Q>>(query: Q, filters: FilterState): Q {
+  query = applyCandidateFilters(query, filters);
+  return filters.tag_ids.length > 0 ? query.in('tag_filter.tag_id', filters.tag_ids) : query;
+}
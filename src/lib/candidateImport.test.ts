@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  autoMapColumns,
+  countByAction,
+  findHeaderRow,
+  mappingConflicts,
+  normalizeHeader,
+  planImport,
+} from './candidateImport';
+import { candidate } from './__fixtures__/candidates';
+
+// Planning an import never touches the database
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+describe('column mapping', () => {
+  it('normalizes headers', () => {
+    expect(normalizeHeader('  E-mail Address ')).toBe('e mail address');
+  });
+
+  it('maps known headers and leaves the rest unmapped', () => {
+    expect(autoMapColumns(['First Name', 'Last Name', 'Email Address', 'Favourite colour'])).toEqual({
+      0: 'first_name',
+      1: 'last_name',
+      2: 'personal_email',
+    });
+  });
+
+  it('maps each field only once', () => {
+    expect(autoMapColumns(['Email', 'E-mail'])).toEqual({ 0: 'personal_email' });
+  });
+
+  it('skips the notes above a LinkedIn export header', () => {
+    const rows = [['Notes:'], ['Exported from LinkedIn'], ['First Name', 'Last Name', 'URL'], ['Ada', 'Lovelace', 'x']];
+    expect(findHeaderRow(rows)).toBe(2);
+    expect(findHeaderRow([['a'], ['b']])).toBe(0);
+  });
+
+  it('reports single-value fields mapped more than once', () => {
+    expect(mappingConflicts({ 0: 'first_name', 1: 'first_name', 2: 'tech_stack', 3: 'tech_stack' })).toEqual([
+      'First name',
+    ]);
+  });
+});
+
+describe('planImport', () => {
+  const mapping = autoMapColumns(['Name', 'Email', 'Skills', 'Open to work', 'Urgency', 'Salary']);
+
+  it('converts cells to candidate values', () => {
+    const [row] = planImport([['Ada King Lovelace', 'ada@example.com', 'Go; Rust', 'yes', 'High', '$120,000']], 0, mapping, [], true);
+    expect(row).toMatchObject({ line: 2, name: 'Ada King Lovelace', action: 'create', errors: [] });
+    expect(row.values).toMatchObject({
+      first_name: 'Ada',
+      last_name: 'King Lovelace',
+      personal_email: 'ada@example.com',
+      tech_stack: ['Go', 'Rust'],
+      is_active_looking: true,
+      urgency_level: 'high',
+      compensation_expectations: { current_base: 120000 },
+    });
+  });
+
+  it('updates a candidate with the same email, keeping what the file leaves out', () => {
+    const match = candidate({ personal_email: 'ADA@example.com', tech_stack: ['Go'], phone: '555 0100' });
+    const [row] = planImport([['Ada Lovelace', 'ada@example.com', 'go, Python', '', '', '']], 0, mapping, [match], true);
+    expect(row).toMatchObject({ action: 'update', existingId: 'candidate-1' });
+    expect(row.values).toMatchObject({ phone: '555 0100', tech_stack: ['Go', 'Python'] });
+  });
+
+  it('skips existing candidates when updating is off', () => {
+    const [row] = planImport(
+      [['Ada Lovelace', 'ada@example.com', '', '', '', '']],
+      0,
+      mapping,
+      [candidate({ personal_email: 'ada@example.com' })],
+      false
+    );
+    expect(row).toMatchObject({ action: 'skip', existingId: 'candidate-1', errors: ['Already in the CRM'] });
+  });
+
+  it('skips a person repeated in the file', () => {
+    const rows = planImport(
+      [
+        ['Ada Lovelace', 'ada@example.com', '', '', '', ''],
+        ['A. Lovelace', 'Ada@Example.com', '', '', '', ''],
+      ],
+      3,
+      mapping,
+      [],
+      true
+    );
+    expect(rows[1]).toMatchObject({ line: 6, action: 'skip', errors: ['Same person as line 5'] });
+  });
+
+  it('reports invalid rows with the field label', () => {
+    const [row] = planImport([['Ada', 'not an email', '', '', '', 'lots']], 0, mapping, [], true);
+    expect(row.action).toBe('error');
+    expect(row.errors).toEqual(
+      expect.arrayContaining([
+        'Last name: Last name is required',
+        'Personal email: Must be a valid email address',
+      ])
+    );
+  });
+
+  it('counts rows by action', () => {
+    const rows = planImport(
+      [
+        ['Ada Lovelace', 'ada@example.com', '', '', '', ''],
+        ['Grace', '', '', '', '', ''],
+      ],
+      0,
+      mapping,
+      [],
+      true
+    );
+    expect(countByAction(rows)).toEqual({ create: 1, update: 0, skip: 0, error: 1 });
+  });
+});
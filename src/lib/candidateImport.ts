@@ -0,0 +1,405 @@
+import { fetchAllPages, supabase } from './supabase';
+import {
+  candidateSchema,
+  emptyCandidateValues,
+  optionLabel,
+  toCandidateValues,
+  COMPANY_SIZES,
+  EMPLOYMENT_STATUSES,
+  FUNCTIONAL_ROLES,
+  LOCATION_CATEGORIES,
+  RELATIONSHIP_TYPES,
+  URGENCY_LEVELS,
+  type Candidate,
+  type CandidateValues,
+} from './candidateSchema';
+import { notifyCandidatesChanged } from './savedSearches';
+
+export type ImportFieldKind = 'text' | 'list' | 'boolean' | 'number' | 'enum' | 'schools' | 'full_name';
+
+export interface ImportField {
+  // A candidates column, or column.key for a key inside a jsonb column
+  key: string;
+  label: string;
+  group: string;
+  kind: ImportFieldKind;
+  options?: readonly string[];
+  // Header names that map to this field automatically, already normalized
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'full_name', label: 'Full name (split into first and last)', group: 'Contact', kind: 'full_name', aliases: ['name', 'full name', 'candidate name', 'contact name'] },
+  { key: 'first_name', label: 'First name', group: 'Contact', kind: 'text', aliases: ['first name', 'firstname', 'given name', 'first'] },
+  { key: 'last_name', label: 'Last name', group: 'Contact', kind: 'text', aliases: ['last name', 'lastname', 'surname', 'family name', 'last'] },
+  { key: 'personal_email', label: 'Personal email', group: 'Contact', kind: 'text', aliases: ['email', 'email address', 'e mail', 'personal email'] },
+  { key: 'work_email', label: 'Work email', group: 'Contact', kind: 'text', aliases: ['work email', 'business email', 'company email'] },
+  { key: 'phone', label: 'Phone', group: 'Contact', kind: 'text', aliases: ['phone', 'phone number', 'mobile', 'cell', 'telephone'] },
+  { key: 'linkedin_url', label: 'LinkedIn URL', group: 'Contact', kind: 'text', aliases: ['linkedin', 'linkedin url', 'linkedin profile', 'url', 'profile url'] },
+  { key: 'github_url', label: 'GitHub URL', group: 'Contact', kind: 'text', aliases: ['github', 'github url'] },
+  { key: 'resume_url', label: 'Resume URL', group: 'Contact', kind: 'text', aliases: ['resume', 'resume url', 'cv'] },
+  { key: 'relationship_type', label: 'Relationship type', group: 'Contact', kind: 'enum', options: RELATIONSHIP_TYPES, aliases: ['relationship', 'relationship type'] },
+  { key: 'current_job_title', label: 'Current job title', group: 'Current role', kind: 'text', aliases: ['title', 'job title', 'position', 'current title', 'role'] },
+  { key: 'current_company', label: 'Current company', group: 'Current role', kind: 'text', aliases: ['company', 'current company', 'employer', 'organization'] },
+  { key: 'current_industry', label: 'Current industry', group: 'Current role', kind: 'text', aliases: ['industry', 'current industry'] },
+  { key: 'current_company_size', label: 'Company size', group: 'Current role', kind: 'enum', options: COMPANY_SIZES, aliases: ['company size'] },
+  { key: 'functional_role', label: 'Functional role', group: 'Current role', kind: 'enum', options: FUNCTIONAL_ROLES, aliases: ['function', 'functional role', 'department'] },
+  { key: 'employment_status', label: 'Employment status', group: 'Current role', kind: 'enum', options: EMPLOYMENT_STATUSES, aliases: ['employment status'] },
+  { key: 'current_location.city', label: 'City', group: 'Location', kind: 'text', aliases: ['city', 'location'] },
+  { key: 'current_location.state', label: 'State / region', group: 'Location', kind: 'text', aliases: ['state', 'region', 'province'] },
+  { key: 'current_location.country', label: 'Country', group: 'Location', kind: 'text', aliases: ['country'] },
+  { key: 'current_location.category', label: 'Location category', group: 'Location', kind: 'enum', options: LOCATION_CATEGORIES, aliases: ['location category'] },
+  { key: 'past_job_titles', label: 'Past job titles', group: 'Background', kind: 'list', aliases: ['past titles', 'past job titles', 'previous titles'] },
+  { key: 'past_companies', label: 'Past companies', group: 'Background', kind: 'list', aliases: ['past companies', 'previous companies', 'previous employers'] },
+  { key: 'past_industries', label: 'Past industries', group: 'Background', kind: 'list', aliases: ['past industries'] },
+  { key: 'tech_stack', label: 'Tech stack', group: 'Background', kind: 'list', aliases: ['skills', 'tech stack', 'technologies', 'tech'] },
+  { key: 'schools', label: 'Schools', group: 'Background', kind: 'schools', aliases: ['school', 'schools', 'education', 'university'] },
+  { key: 'is_active_looking', label: 'Actively looking', group: 'Search', kind: 'boolean', aliases: ['actively looking', 'active looking', 'looking', 'open to work'] },
+  { key: 'urgency_level', label: 'Urgency', group: 'Search', kind: 'enum', options: URGENCY_LEVELS, aliases: ['urgency', 'urgency level'] },
+  { key: 'must_haves', label: 'Must haves', group: 'Search', kind: 'list', aliases: ['must haves', 'requirements'] },
+  { key: 'motivation_factors', label: 'Motivation factors', group: 'Search', kind: 'list', aliases: ['motivation', 'motivation factors'] },
+  { key: 'workplace_preferences.preferred_locations', label: 'Preferred locations', group: 'Search', kind: 'list', aliases: ['preferred locations'] },
+  { key: 'workplace_preferences.willing_to_relocate', label: 'Willing to relocate', group: 'Search', kind: 'boolean', aliases: ['relocate', 'willing to relocate'] },
+  { key: 'visa_requirements.requires_sponsorship', label: 'Requires sponsorship', group: 'Search', kind: 'boolean', aliases: ['sponsorship', 'requires sponsorship', 'visa sponsorship'] },
+  { key: 'compensation_expectations.currency', label: 'Currency', group: 'Compensation', kind: 'text', aliases: ['currency'] },
+  { key: 'compensation_expectations.current_base', label: 'Current base', group: 'Compensation', kind: 'number', aliases: ['current base', 'current salary', 'salary'] },
+  { key: 'compensation_expectations.desired_base_min', label: 'Desired base (min)', group: 'Compensation', kind: 'number', aliases: ['desired min', 'desired base min', 'min salary'] },
+  { key: 'compensation_expectations.desired_base_max', label: 'Desired base (max)', group: 'Compensation', kind: 'number', aliases: ['desired max', 'desired base max', 'max salary'] },
+  { key: 'nurturing_info.notes', label: 'Notes', group: 'Nurturing', kind: 'text', aliases: ['notes', 'note', 'comments'] },
+];
+
+const FIELDS_BY_KEY = new Map(IMPORT_FIELDS.map((field) => [field.key, field]));
+
+// Column index to field key; unmapped columns are left out
+export type ColumnMapping = Record<number, string>;
+
+export function normalizeHeader(header: string) {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header);
+    const field = IMPORT_FIELDS.find((f) => f.aliases.includes(normalized) && !used.has(f.key));
+    if (field) {
+      mapping[index] = field.key;
+      used.add(field.key);
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * LinkedIn connection exports start with a few lines of notes before the
+ * real header, so use the first row that looks like one.
+ */
+export function findHeaderRow(rows: string[][]) {
+  const index = rows
+    .slice(0, 10)
+    .findIndex((row) => Object.keys(autoMapColumns(row)).length >= 2);
+  return Math.max(index, 0);
+}
+
+// Columns mapped to the same single-value field would overwrite each other
+export function mappingConflicts(mapping: ColumnMapping) {
+  const counts = new Map<string, number>();
+  for (const key of Object.values(mapping)) counts.set(key, (counts.get(key) ?? 0) + 1);
+
+  return [...counts]
+    .filter(([key, count]) => {
+      const kind = FIELDS_BY_KEY.get(key)?.kind;
+      return count > 1 && kind !== 'list' && kind !== 'schools';
+    })
+    .map(([key]) => FIELDS_BY_KEY.get(key)?.label ?? key);
+}
+
+// Cells use semicolons or pipes between items; commas only when nothing else is used
+function splitCell(value: string) {
+  const separator = /[;|\n]/.test(value) ? /[;|\n]/ : /,/;
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function mergeList(current: string[], found: string[]) {
+  const known = new Set(current.map((value) => value.toLowerCase()));
+  return [...current, ...found.filter((value) => !known.has(value.toLowerCase()))];
+}
+
+function parseBoolean(value: string) {
+  return /^(y|yes|true|1|x)$/i.test(value.trim());
+}
+
+function parseNumber(value: string) {
+  const cleaned = value.replace(/[^\d.-]/g, '');
+  // Leave anything unreadable as NaN so validation reports it
+  return cleaned ? Number(cleaned) : NaN;
+}
+
+// Accepts the stored value or its label, e.g. "us_west" or "US West"
+function parseEnum(value: string, options: readonly string[]) {
+  const normalized = normalizeHeader(value);
+  return (
+    options.find((option) => normalizeHeader(option) === normalized || normalizeHeader(optionLabel(option)) === normalized) ??
+    value.trim()
+  );
+}
+
+function applyCell(values: CandidateValues, field: ImportField, cell: string) {
+  // Fields are addressed by their column name
+  const record: Record<string, unknown> = values;
+  const [column, nestedKey] = field.key.split('.');
+
+  if (field.kind === 'full_name') {
+    const [first, ...rest] = cell.trim().split(/\s+/);
+    if (!values.first_name) values.first_name = first ?? '';
+    if (!values.last_name) values.last_name = rest.join(' ');
+    return;
+  }
+
+  if (field.kind === 'schools') {
+    const known = new Set(values.schools.map((school) => school.name.toLowerCase()));
+    const added = splitCell(cell)
+      .filter((name) => !known.has(name.toLowerCase()))
+      .map((name) => ({ name, degree: '', field_of_study: '', graduation_year: null }));
+    values.schools = [...values.schools, ...added];
+    return;
+  }
+
+  const target = nestedKey ? { ...(record[column] as Record<string, unknown>) } : record;
+  const key = nestedKey ?? column;
+
+  switch (field.kind) {
+    case 'list':
+      target[key] = mergeList((target[key] as string[]) ?? [], splitCell(cell));
+      break;
+    case 'boolean':
+      target[key] = parseBoolean(cell);
+      break;
+    case 'number':
+      target[key] = parseNumber(cell);
+      break;
+    case 'enum':
+      target[key] = parseEnum(cell, field.options ?? []);
+      break;
+    default:
+      target[key] = cell.trim();
+  }
+
+  if (nestedKey) record[column] = target;
+}
+
+export function fetchExistingCandidates() {
+  return fetchAllPages<Candidate>((from, to) =>
+    supabase.from('candidates').select('*').order('created_at').range(from, to)
+  );
+}
+
+function normalizeLinkedIn(url: string) {
+  return url
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/\/+$/, '');
+}
+
+// Emails and LinkedIn profiles identify a person across spreadsheets
+function identityKeys(values: Pick<CandidateValues, 'personal_email' | 'work_email' | 'linkedin_url'>) {
+  return [
+    values.personal_email && `email:${values.personal_email.trim().toLowerCase()}`,
+    values.work_email && `email:${values.work_email.trim().toLowerCase()}`,
+    values.linkedin_url && `linkedin:${normalizeLinkedIn(values.linkedin_url)}`,
+  ].filter((key): key is string => !!key);
+}
+
+export type ImportAction = 'create' | 'update' | 'skip' | 'error';
+
+export interface ImportRow {
+  // Line number in the file, counting the header, so users can find the row
+  line: number;
+  name: string;
+  action: ImportAction;
+  values: CandidateValues | null;
+  existingId: string | null;
+  errors: string[];
+}
+
+/**
+ * The dry run: works out what importing each row would do without writing
+ * anything. Rows matching an existing candidate by email or LinkedIn URL
+ * update that candidate (filling in only the mapped columns) unless
+ * updateExisting is off, in which case they are skipped.
+ */
+export function planImport(
+  rows: string[][],
+  headerLine: number,
+  mapping: ColumnMapping,
+  existing: Candidate[],
+  updateExisting: boolean
+): ImportRow[] {
+  const existingByKey = new Map<string, Candidate>();
+  for (const candidate of existing) {
+    for (const key of identityKeys(candidate)) existingByKey.set(key, candidate);
+  }
+  const seenInFile = new Map<string, number>();
+  const mapped = Object.entries(mapping)
+    .map(([index, key]) => [Number(index), FIELDS_BY_KEY.get(key)] as const)
+    .filter((entry): entry is readonly [number, ImportField] => !!entry[1]);
+
+  return rows.map((cells, index) => {
+    const line = headerLine + index + 2;
+    const draft = emptyCandidateValues();
+    for (const [column, field] of mapped) {
+      const cell = cells[column] ?? '';
+      if (cell.trim()) applyCell(draft, field, cell);
+    }
+
+    const name = `${draft.first_name} ${draft.last_name}`.trim() || '(no name)';
+    const keys = identityKeys(draft);
+
+    const duplicateOf = keys.map((key) => seenInFile.get(key)).find((value) => value !== undefined);
+    if (duplicateOf !== undefined) {
+      return { line, name, action: 'skip', values: null, existingId: null, errors: [`Same person as line ${duplicateOf}`] };
+    }
+    for (const key of keys) seenInFile.set(key, line);
+
+    const match = keys.map((key) => existingByKey.get(key)).find(Boolean) ?? null;
+    if (match && !updateExisting) {
+      return { line, name, action: 'skip', values: null, existingId: match.id, errors: ['Already in the CRM'] };
+    }
+
+    let values = draft;
+    if (match) {
+      values = toCandidateValues(match);
+      for (const [column, field] of mapped) {
+        const cell = cells[column] ?? '';
+        if (cell.trim()) applyCell(values, field, cell);
+      }
+    }
+
+    const result = candidateSchema.safeParse(values);
+    if (!result.success) {
+      const errors = result.error.issues.map((issue) => {
+        const field = FIELDS_BY_KEY.get(issue.path.slice(0, 2).join('.')) ?? FIELDS_BY_KEY.get(String(issue.path[0]));
+        return `${field?.label ?? issue.path.join('.')}: ${issue.message}`;
+      });
+      return { line, name, action: 'error', values: null, existingId: match?.id ?? null, errors };
+    }
+
+    return {
+      line,
+      name,
+      action: match ? 'update' : 'create',
+      values: result.data,
+      existingId: match?.id ?? null,
+      errors: [],
+    };
+  });
+}
+
+export function countByAction(rows: ImportRow[]) {
+  const counts: Record<ImportAction, number> = { create: 0, update: 0, skip: 0, error: 0 };
+  for (const row of rows) counts[row.action]++;
+  return counts;
+}
+
+export const IMPORT_BATCH_SIZE = 100;
+
+interface ImportContext {
+  organizationId: string;
+  userId: string;
+}
+
+// Rows the dry run found something to write for
+interface CreateRow extends ImportRow {
+  values: CandidateValues;
+}
+
+interface UpdateRow extends CreateRow {
+  existingId: string;
+}
+
+// The columns sent for each row; updates carry the existing candidate's id
+type CandidateWrite = CandidateValues & {
+  id?: string;
+  organization_id: string;
+  created_by?: string;
+  updated_by: string;
+};
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  failed: { line: number; message: string }[];
+}
+
+/**
+ * Writes a planned import in batches. A batch that fails is reported against
+ * each of its rows and the rest of the import carries on.
+ */
+export async function runImport(
+  rows: ImportRow[],
+  context: ImportContext,
+  onProgress: (done: number, total: number) => void
+): Promise<ImportResult> {
+  const creates = rows.filter((row): row is CreateRow => row.action === 'create' && !!row.values);
+  const updates = rows.filter((row): row is UpdateRow => row.action === 'update' && !!row.values && !!row.existingId);
+  const total = creates.length + updates.length;
+  const result: ImportResult = { created: 0, updated: 0, failed: [] };
+  let done = 0;
+
+  const batches = [
+    ...chunk(creates).map((batch) => ({ batch, kind: 'create' as const })),
+    ...chunk(updates).map((batch) => ({ batch, kind: 'update' as const })),
+  ];
+
+  for (const { batch, kind } of batches) {
+    const { error } =
+      kind === 'create'
+        ? await supabase.from('candidates').insert(
+            batch.map((row): CandidateWrite => ({
+              ...row.values,
+              organization_id: context.organizationId,
+              created_by: context.userId,
+              updated_by: context.userId,
+            }))
+          )
+        : await supabase.from('candidates').upsert(
+            batch.map((row): CandidateWrite => ({
+              ...row.values,
+              id: row.existingId,
+              organization_id: context.organizationId,
+              updated_by: context.userId,
+            }))
+          );
+
+    if (error) {
+      console.error('Error importing candidates:', error);
+      result.failed.push(...batch.map((row) => ({ line: row.line, message: error.message })));
+    } else if (kind === 'create') {
+      result.created += batch.length;
+    } else {
+      result.updated += batch.length;
+    }
+
+    done += batch.length;
+    onProgress(done, total);
+  }
+
+  if (result.created + result.updated > 0) notifyCandidatesChanged();
+  return result;
+}
+
+function chunk<T>(items: T[]) {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += IMPORT_BATCH_SIZE) batches.push(items.slice(i, i + IMPORT_BATCH_SIZE));
+  return batches;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  defaultMergeChoices,
+  differingMergeFields,
+  formatMergeValue,
+  mergedFieldValues,
+} from './candidateMerge';
+import { candidate } from './__fixtures__/candidates';
+
+describe('differingMergeFields', () => {
+  it('only lists fields the records disagree on', () => {
+    const survivor = candidate({ phone: '555 0100', tech_stack: ['Go'] });
+    const merged = candidate({ id: 'candidate-2', phone: '555 0100', tech_stack: ['Rust'], current_company: 'Acme' });
+    expect(differingMergeFields(survivor, merged).map((field) => field.key)).toEqual(['tech_stack', 'current_company']);
+  });
+
+  it('treats missing columns as their defaults', () => {
+    expect(differingMergeFields(candidate({ tech_stack: null }), candidate({ tech_stack: [] }))).toEqual([]);
+  });
+});
+
+describe('defaultMergeChoices', () => {
+  it("keeps the survivor's values, fills its gaps and combines lists", () => {
+    const survivor = candidate({ current_job_title: 'Engineer', tech_stack: ['Go'] });
+    const merged = candidate({
+      id: 'candidate-2',
+      current_job_title: 'Mathematician',
+      current_company: 'Acme',
+      tech_stack: ['Rust'],
+    });
+    expect(defaultMergeChoices(survivor, merged)).toEqual({
+      current_job_title: 'survivor',
+      current_company: 'merged',
+      tech_stack: 'both',
+    });
+  });
+
+  it('counts an object with only empty values as a gap', () => {
+    const survivor = candidate();
+    const merged = candidate({ id: 'candidate-2', current_location: { city: 'London', state: '', country: '', category: '' } });
+    expect(defaultMergeChoices(survivor, merged)).toEqual({ current_location: 'merged' });
+  });
+});
+
+describe('mergedFieldValues', () => {
+  it('leaves out fields keeping the survivor value', () => {
+    const survivor = candidate({ phone: '555 0100', current_company: 'Acme' });
+    const merged = candidate({ id: 'candidate-2', phone: '555 0199', current_company: 'Initech' });
+    expect(mergedFieldValues(survivor, merged, { phone: 'merged', current_company: 'survivor' })).toEqual({
+      phone: '555 0199',
+    });
+  });
+
+  it('combines lists without repeating entries', () => {
+    const school = { name: 'Cambridge', degree: '', field_of_study: '', graduation_year: null };
+    const survivor = candidate({ tech_stack: ['Go', 'Rust'], schools: [school] });
+    const merged = candidate({ id: 'candidate-2', tech_stack: ['Rust', 'Python'], schools: [{ ...school }] });
+    expect(mergedFieldValues(survivor, merged, { tech_stack: 'both', schools: 'both' })).toEqual({
+      tech_stack: ['Go', 'Rust', 'Python'],
+      schools: [school],
+    });
+  });
+});
+
+describe('formatMergeValue', () => {
+  it('formats empty values, booleans, lists and options', () => {
+    expect(formatMergeValue(null)).toBe('—');
+    expect(formatMergeValue([])).toBe('—');
+    expect(formatMergeValue(true)).toBe('Yes');
+    expect(formatMergeValue(['Go', 'Rust'])).toBe('Go, Rust');
+    expect(formatMergeValue(42)).toBe('42');
+  });
+
+  it('lists the filled in keys of an object', () => {
+    expect(formatMergeValue({ city: 'London', state: null, country: 'UK' })).toBe('City: London; Country: UK');
+  });
+});
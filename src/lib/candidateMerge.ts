@@ -0,0 +1,121 @@
+import { formatMetadataKey, optionLabel, toCandidateValues, type Candidate, type CandidateValues } from './candidateSchema';
+
+export type MergeFieldKind = 'value' | 'list';
+
+export interface MergeField {
+  key: keyof CandidateValues;
+  label: string;
+  // Lists can also keep the entries from both records
+  kind: MergeFieldKind;
+}
+
+export const MERGE_FIELDS: MergeField[] = [
+  { key: 'first_name', label: 'First name', kind: 'value' },
+  { key: 'last_name', label: 'Last name', kind: 'value' },
+  { key: 'personal_email', label: 'Personal email', kind: 'value' },
+  { key: 'work_email', label: 'Work email', kind: 'value' },
+  { key: 'phone', label: 'Phone', kind: 'value' },
+  { key: 'linkedin_url', label: 'LinkedIn URL', kind: 'value' },
+  { key: 'github_url', label: 'GitHub URL', kind: 'value' },
+  { key: 'other_social_urls', label: 'Other links', kind: 'list' },
+  { key: 'resume_url', label: 'Resume link', kind: 'value' },
+  { key: 'resume_path', label: 'Uploaded resume', kind: 'value' },
+  { key: 'relationship_type', label: 'Relationship', kind: 'value' },
+  { key: 'functional_role', label: 'Functional role', kind: 'value' },
+  { key: 'current_location', label: 'Location', kind: 'value' },
+  { key: 'current_job_title', label: 'Current title', kind: 'value' },
+  { key: 'past_job_titles', label: 'Past titles', kind: 'list' },
+  { key: 'current_industry', label: 'Current industry', kind: 'value' },
+  { key: 'past_industries', label: 'Past industries', kind: 'list' },
+  { key: 'tech_stack', label: 'Tech stack', kind: 'list' },
+  { key: 'compensation_expectations', label: 'Compensation', kind: 'value' },
+  { key: 'current_company', label: 'Current company', kind: 'value' },
+  { key: 'past_companies', label: 'Past companies', kind: 'list' },
+  { key: 'current_company_size', label: 'Company size', kind: 'value' },
+  { key: 'past_company_sizes', label: 'Past company sizes', kind: 'list' },
+  { key: 'must_haves', label: 'Must haves', kind: 'list' },
+  { key: 'schools', label: 'Education', kind: 'list' },
+  { key: 'workplace_preferences', label: 'Workplace preferences', kind: 'value' },
+  { key: 'urgency_level', label: 'Urgency', kind: 'value' },
+  { key: 'is_active_looking', label: 'Actively looking', kind: 'value' },
+  { key: 'motivation_factors', label: 'Motivation factors', kind: 'list' },
+  { key: 'employment_status', label: 'Employment status', kind: 'value' },
+  { key: 'visa_requirements', label: 'Visa', kind: 'value' },
+  { key: 'nurturing_info', label: 'Nurturing', kind: 'value' },
+];
+
+// Which record's value the survivor ends up with
+export type MergeChoice = 'survivor' | 'merged' | 'both';
+
+export type MergeChoices = Partial<Record<keyof CandidateValues, MergeChoice>>;
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.values(value).every(isEmptyValue);
+  return false;
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Only the fields where the two records disagree need a decision
+export function differingMergeFields(survivor: Candidate, merged: Candidate) {
+  const a = toCandidateValues(survivor);
+  const b = toCandidateValues(merged);
+  return MERGE_FIELDS.filter((field) => !sameValue(a[field.key], b[field.key]));
+}
+
+// Keeps the survivor's values, filling its gaps from the other record and combining lists
+export function defaultMergeChoices(survivor: Candidate, merged: Candidate): MergeChoices {
+  const a = toCandidateValues(survivor);
+  const b = toCandidateValues(merged);
+  const choices: MergeChoices = {};
+
+  for (const field of differingMergeFields(survivor, merged)) {
+    if (field.kind === 'list') choices[field.key] = 'both';
+    else if (isEmptyValue(a[field.key]) && !isEmptyValue(b[field.key])) choices[field.key] = 'merged';
+    else choices[field.key] = 'survivor';
+  }
+
+  return choices;
+}
+
+/**
+ * The columns to change on the survivor: the merged record's value where it
+ * was picked, or both records' entries for combined lists. Fields keeping the
+ * survivor's value are left out.
+ */
+export function mergedFieldValues(survivor: Candidate, merged: Candidate, choices: MergeChoices) {
+  const a = toCandidateValues(survivor);
+  const b = toCandidateValues(merged);
+  const values: Partial<Record<keyof CandidateValues, unknown>> = {};
+
+  for (const field of MERGE_FIELDS) {
+    const choice = choices[field.key];
+    if (choice === 'merged') {
+      values[field.key] = b[field.key];
+    } else if (choice === 'both') {
+      const combined = [...(a[field.key] as unknown[]), ...(b[field.key] as unknown[])];
+      values[field.key] = combined.filter(
+        (item, index) => combined.findIndex((other) => sameValue(other, item)) === index
+      );
+    }
+  }
+
+  return values;
+}
+
+export function formatMergeValue(value: unknown): string {
+  if (isEmptyValue(value)) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.map(formatMergeValue).join(', ');
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => !isEmptyValue(item))
+      .map(([key, item]) => `${formatMetadataKey(key)}: ${formatMergeValue(item)}`)
+      .join('; ');
+  }
+  return typeof value === 'string' ? optionLabel(value) : String(value);
+}
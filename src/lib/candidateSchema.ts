@@ -0,0 +1,335 @@
+import { z } from 'zod';
+
+export const RELATIONSHIP_TYPES = ['candidate', 'client', 'both'] as const;
+
+export const FUNCTIONAL_ROLES = [
+  'engineering',
+  'product',
+  'design',
+  'data',
+  'devops',
+  'security',
+  'sales',
+  'marketing',
+  'operations',
+  'executive',
+  'other',
+] as const;
+
+export const LOCATION_CATEGORIES = [
+  'us_east',
+  'us_central',
+  'us_west',
+  'canada',
+  'latam',
+  'europe',
+  'apac',
+  'other',
+] as const;
+
+export const URGENCY_LEVELS = ['low', 'medium', 'high', 'urgent'] as const;
+
+export const EMPLOYMENT_STATUSES = [
+  'employed',
+  'unemployed',
+  'contract',
+  'freelance',
+  'student',
+] as const;
+
+export const COMPANY_SIZES = ['1-10', '11-50', '51-200', '201-1000', '1001-5000', '5000+'] as const;
+
+export const WORK_ARRANGEMENTS = ['remote', 'hybrid', 'onsite'] as const;
+
+// Human readable labels for the enum values above
+export const OPTION_LABELS: Record<string, string> = {
+  candidate: 'Candidate',
+  client: 'Client',
+  both: 'Both',
+  engineering: 'Engineering',
+  product: 'Product',
+  design: 'Design',
+  data: 'Data',
+  devops: 'DevOps',
+  security: 'Security',
+  sales: 'Sales',
+  marketing: 'Marketing',
+  operations: 'Operations',
+  executive: 'Executive',
+  other: 'Other',
+  us_east: 'US East',
+  us_central: 'US Central',
+  us_west: 'US West',
+  canada: 'Canada',
+  latam: 'Latin America',
+  europe: 'Europe',
+  apac: 'Asia Pacific',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+  employed: 'Employed',
+  unemployed: 'Unemployed',
+  contract: 'Contract',
+  freelance: 'Freelance',
+  student: 'Student',
+  remote: 'Remote',
+  hybrid: 'Hybrid',
+  onsite: 'On-site',
+};
+
+export function optionLabel(value: string | null | undefined) {
+  if (!value) return '';
+  return OPTION_LABELS[value] ?? value;
+}
+
+// Turns a metadata key like "duration_minutes" into "Duration minutes"
+export function formatMetadataKey(key: string) {
+  const words = key.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Splits a comma separated input into a clean list of values
+export function splitList(value: string) {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export const optionalText = z
+  .string()
+  .trim()
+  .nullable()
+  .optional()
+  .transform((value) => value || null);
+
+const optionalEmail = z
+  .string()
+  .trim()
+  .email('Must be a valid email address')
+  .or(z.literal(''))
+  .nullable()
+  .optional()
+  .transform((value) => value || null);
+
+export const optionalUrl = z
+  .string()
+  .trim()
+  .url('Must be a valid URL')
+  .or(z.literal(''))
+  .nullable()
+  .optional()
+  .transform((value) => value || null);
+
+export const optionalAmount = z
+  .number({ invalid_type_error: 'Must be a number' })
+  .nonnegative('Must be zero or more')
+  .nullable()
+  .optional()
+  .transform((value) => value ?? null);
+
+const optionalDate = z
+  .string()
+  .nullable()
+  .optional()
+  .transform((value) => value || null);
+
+export const textList = z
+  .array(z.string().trim())
+  .nullable()
+  .optional()
+  .transform((list) => (list ?? []).filter(Boolean));
+
+export function optionalEnum<T extends [string, ...string[]]>(values: T) {
+  return z
+    .enum(values)
+    .or(z.literal(''))
+    .nullable()
+    .optional()
+    .transform((value) => (value || null) as T[number] | null);
+}
+
+export const locationSchema = z.object({
+  city: z.string().trim().default(''),
+  state: z.string().trim().default(''),
+  country: z.string().trim().default(''),
+  category: z.enum(LOCATION_CATEGORIES).or(z.literal('')).default(''),
+});
+
+export const socialUrlSchema = z.object({
+  label: z.string().trim().min(1, 'Label is required'),
+  url: z.string().trim().url('Must be a valid URL'),
+});
+
+export const compensationSchema = z
+  .object({
+    currency: z.string().trim().length(3, 'Use a 3 letter currency code').default('USD'),
+    current_base: optionalAmount,
+    desired_base_min: optionalAmount,
+    desired_base_max: optionalAmount,
+    open_to_equity: z.boolean().default(false),
+    notes: z.string().trim().default(''),
+  })
+  .refine(
+    (comp) =>
+      comp.desired_base_min == null ||
+      comp.desired_base_max == null ||
+      comp.desired_base_min <= comp.desired_base_max,
+    { message: 'Maximum must be greater than minimum', path: ['desired_base_max'] }
+  );
+
+export const schoolSchema = z.object({
+  name: z.string().trim().min(1, 'School name is required'),
+  degree: z.string().trim().default(''),
+  field_of_study: z.string().trim().default(''),
+  graduation_year: z
+    .number({ invalid_type_error: 'Must be a year' })
+    .int()
+    .min(1950, 'Must be 1950 or later')
+    .max(2100, 'Must be 2100 or earlier')
+    .nullable()
+    .default(null),
+});
+
+export const workplacePreferencesSchema = z.object({
+  arrangements: z.array(z.enum(WORK_ARRANGEMENTS)).default([]),
+  preferred_locations: textList,
+  willing_to_relocate: z.boolean().default(false),
+  notes: z.string().trim().default(''),
+});
+
+export const visaRequirementsSchema = z.object({
+  requires_sponsorship: z.boolean().default(false),
+  current_status: z.string().trim().default(''),
+  authorized_countries: textList,
+  notes: z.string().trim().default(''),
+});
+
+export const nurturingInfoSchema = z.object({
+  last_contacted_at: optionalDate,
+  next_follow_up_at: optionalDate,
+  contact_frequency_days: z
+    .number({ invalid_type_error: 'Must be a number' })
+    .int()
+    .positive('Must be at least 1 day')
+    .nullable()
+    .optional()
+    .transform((value) => value ?? null),
+  notes: z.string().trim().default(''),
+});
+
+export const candidateSchema = z.object({
+  first_name: z.string().trim().min(1, 'First name is required'),
+  last_name: z.string().trim().min(1, 'Last name is required'),
+  personal_email: optionalEmail,
+  work_email: optionalEmail,
+  phone: optionalText,
+  linkedin_url: optionalUrl,
+  github_url: optionalUrl,
+  other_social_urls: z.array(socialUrlSchema).default([]),
+  resume_url: optionalUrl,
+  // Object path in the resumes Storage bucket
+  resume_path: optionalText,
+  relationship_type: z.enum(RELATIONSHIP_TYPES).default('candidate'),
+  functional_role: optionalEnum([...FUNCTIONAL_ROLES]),
+  current_location: locationSchema,
+  current_job_title: optionalText,
+  past_job_titles: textList,
+  current_industry: optionalText,
+  past_industries: textList,
+  tech_stack: textList,
+  compensation_expectations: compensationSchema,
+  current_company: optionalText,
+  past_companies: textList,
+  current_company_size: optionalEnum([...COMPANY_SIZES]),
+  past_company_sizes: textList,
+  must_haves: textList,
+  schools: z.array(schoolSchema).default([]),
+  workplace_preferences: workplacePreferencesSchema,
+  urgency_level: optionalEnum([...URGENCY_LEVELS]),
+  is_active_looking: z.boolean().default(false),
+  motivation_factors: textList,
+  employment_status: optionalEnum([...EMPLOYMENT_STATUSES]),
+  visa_requirements: visaRequirementsSchema,
+  nurturing_info: nurturingInfoSchema,
+});
+
+export type CandidateLocation = z.output<typeof locationSchema>;
+export type SocialUrl = z.output<typeof socialUrlSchema>;
+export type CompensationExpectations = z.output<typeof compensationSchema>;
+export type School = z.output<typeof schoolSchema>;
+export type WorkplacePreferences = z.output<typeof workplacePreferencesSchema>;
+export type VisaRequirements = z.output<typeof visaRequirementsSchema>;
+export type NurturingInfo = z.output<typeof nurturingInfoSchema>;
+export type CandidateValues = z.output<typeof candidateSchema>;
+
+// Rows written before the form existed may have nulls in any column
+type CandidateColumns = { [K in keyof CandidateValues]: CandidateValues[K] | null };
+
+export type Candidate = CandidateColumns & {
+  id: string;
+  organization_id: string;
+  first_name: string;
+  last_name: string;
+  is_active_looking: boolean;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+  updated_by: string | null;
+};
+
+export function emptyCandidateValues(): CandidateValues {
+  return {
+    first_name: '',
+    last_name: '',
+    personal_email: null,
+    work_email: null,
+    phone: null,
+    linkedin_url: null,
+    github_url: null,
+    other_social_urls: [],
+    resume_url: null,
+    resume_path: null,
+    relationship_type: 'candidate',
+    functional_role: null,
+    current_location: locationSchema.parse({}),
+    current_job_title: null,
+    past_job_titles: [],
+    current_industry: null,
+    past_industries: [],
+    tech_stack: [],
+    compensation_expectations: compensationSchema.parse({}),
+    current_company: null,
+    past_companies: [],
+    current_company_size: null,
+    past_company_sizes: [],
+    must_haves: [],
+    schools: [],
+    workplace_preferences: workplacePreferencesSchema.parse({}),
+    urgency_level: null,
+    is_active_looking: false,
+    motivation_factors: [],
+    employment_status: null,
+    visa_requirements: visaRequirementsSchema.parse({}),
+    nurturing_info: nurturingInfoSchema.parse({}),
+  };
+}
+
+// Fills in defaults for any column that is null or missing on a stored row
+export function toCandidateValues(candidate: Partial<Candidate>): CandidateValues {
+  const empty = emptyCandidateValues();
+  const values = { ...empty } as Record<string, unknown>;
+
+  for (const key of Object.keys(empty) as (keyof CandidateValues)[]) {
+    const value = candidate[key];
+    if (value === null || value === undefined) continue;
+    const fallback = empty[key];
+    values[key] =
+      fallback && typeof fallback === 'object' && !Array.isArray(fallback)
+        ? { ...fallback, ...(value as object) }
+        : value;
+  }
+
+  return values as CandidateValues;
+}
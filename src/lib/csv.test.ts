@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('name,email\nAda,ada@example.com\n')).toEqual([
+      ['name', 'email'],
+      ['Ada', 'ada@example.com'],
+    ]);
+  });
+
+  it('keeps delimiters, newlines and doubled quotes inside quoted cells', () => {
+    expect(parseCsv('name,notes\n"Lovelace, Ada","Said ""hi""\non Monday"')).toEqual([
+      ['name', 'notes'],
+      ['Lovelace, Ada', 'Said "hi"\non Monday'],
+    ]);
+  });
+
+  it('handles Windows line endings and a byte order mark', () => {
+    expect(parseCsv('\uFEFFname,email\r\nAda,ada@example.com\r\n')).toEqual([
+      ['name', 'email'],
+      ['Ada', 'ada@example.com'],
+    ]);
+  });
+
+  it('drops blank lines', () => {
+    expect(parseCsv('name\n\nAda\n,\nGrace')).toEqual([['name'], ['Ada'], ['Grace']]);
+  });
+
+  it('keeps empty cells', () => {
+    expect(parseCsv('a,b,c\n1,,3')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '', '3'],
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters from the first line', () => {
+    expect(parseCsv('name;city\nAda;London, UK')).toEqual([
+      ['name', 'city'],
+      ['Ada', 'London, UK'],
+    ]);
+    expect(parseCsv('name\tcity\nAda\tLondon')).toEqual([
+      ['name', 'city'],
+      ['Ada', 'London'],
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { supabase } from './supabase';
+import type { Candidate, CandidateValues } from './candidateSchema';
+import { notifyCandidatesChanged } from './savedSearches';
+
+export const DUPLICATE_REASONS = ['email', 'phone', 'linkedin', 'github', 'name_company'] as const;
+
+export type DuplicateReason = (typeof DUPLICATE_REASONS)[number];
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  linkedin: 'Same LinkedIn',
+  github: 'Same GitHub',
+  name_company: 'Similar name and company',
+};
+
+// A pair of candidates the database thinks are the same person; candidate_id is the smaller id
+export interface CandidateDuplicate {
+  id: string;
+  organization_id: string;
+  candidate_id: string;
+  duplicate_id: string;
+  reasons: DuplicateReason[];
+  status: 'open' | 'dismissed';
+  detected_at: string;
+  candidate: Candidate;
+  duplicate: Candidate;
+}
+
+const DUPLICATE_SELECT =
+  '*, candidate:candidates!candidate_duplicates_candidate_id_fkey(*), duplicate:candidates!candidate_duplicates_duplicate_id_fkey(*)';
+
+// Open pairs for the organization, or only those involving one candidate
+export async function fetchOpenDuplicates(candidateId?: string) {
+  let query = supabase
+    .from('candidate_duplicates')
+    .select(DUPLICATE_SELECT)
+    .eq('status', 'open')
+    .order('detected_at', { ascending: false });
+
+  if (candidateId) query = query.or(`candidate_id.eq.${candidateId},duplicate_id.eq.${candidateId}`);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as CandidateDuplicate[];
+}
+
+export async function countOpenDuplicates() {
+  const { count, error } = await supabase
+    .from('candidate_duplicates')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'open');
+
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// Marks a pair as two different people so it isn't suggested again
+export async function dismissDuplicate(id: string, userId: string) {
+  const { error } = await supabase
+    .from('candidate_duplicates')
+    .update({ status: 'dismissed', resolved_at: new Date().toISOString(), resolved_by: userId })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+// The same scan pg_cron runs nightly, limited to the caller's organization
+export async function scanForDuplicates() {
+  const { data, error } = await supabase.rpc('scan_candidate_duplicates');
+  if (error) throw error;
+  return data as number;
+}
+
+// Moves everything linked to the merged candidate onto the survivor and deletes it; returns the audit entry id
+export async function mergeCandidates(
+  survivorId: string,
+  mergedId: string,
+  fieldValues: Partial<Record<keyof CandidateValues, unknown>>
+) {
+  const { data, error } = await supabase.rpc('merge_candidates', {
+    survivor_id: survivorId,
+    merged_id: mergedId,
+    field_values: fieldValues,
+  });
+
+  if (error) throw error;
+  notifyCandidatesChanged();
+  return data as string;
+}
@@ -0,0 +1,20 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+// Invokes an Edge Function, surfacing the error message it put in its response body
+export async function invokeEdgeFunction<T>(name: string, body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      if (details?.error) {
+        const problems: string[] = details.problems ?? [];
+        throw new Error([details.error, ...problems].join('. '));
+      }
+    }
+    throw error;
+  }
+
+  return data as T;
+}
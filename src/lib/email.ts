@@ -0,0 +1,25 @@
+import { invokeEdgeFunction } from './edgeFunctions';
+import type { Activity } from './activities';
+
+export interface SendTemplateEmailInput {
+  templateId: string;
+  candidateId: string;
+  subject: string;
+}
+
+export interface SentEmail {
+  message_id: string;
+  activity: Activity | null;
+}
+
+/**
+ * Sends a template to a candidate through the send-email Edge Function, which
+ * renders it server side and logs the email activity.
+ */
+export function sendTemplateEmail(input: SendTemplateEmailInput) {
+  return invokeEdgeFunction<SentEmail>('send-email', {
+    template_id: input.templateId,
+    candidate_id: input.candidateId,
+    subject: input.subject,
+  });
+}
@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import {
+  locationSchema,
+  optionalAmount,
+  optionalEnum,
+  optionalText,
+  optionalUrl,
+  textList,
+  COMPANY_SIZES,
+  FUNCTIONAL_ROLES,
+  WORK_ARRANGEMENTS,
+} from './candidateSchema';
+
+export const JOB_STATUSES = ['open', 'on_hold', 'filled', 'closed'] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  open: 'Open',
+  on_hold: 'On Hold',
+  filled: 'Filled',
+  closed: 'Closed',
+};
+
+export const JOB_STATUS_COLORS: Record<JobStatus, string> = {
+  open: 'bg-green-100 text-green-800',
+  on_hold: 'bg-yellow-100 text-yellow-800',
+  filled: 'bg-indigo-100 text-indigo-800',
+  closed: 'bg-gray-100 text-gray-800',
+};
+
+export const companySchema = z.object({
+  name: z.string().trim().min(1, 'Company name is required'),
+  website: optionalUrl,
+  industry: optionalText,
+  company_size: optionalEnum([...COMPANY_SIZES]),
+  notes: optionalText,
+});
+
+export const compensationBandSchema = z
+  .object({
+    currency: z.string().trim().length(3, 'Use a 3 letter currency code').default('USD'),
+    base_min: optionalAmount,
+    base_max: optionalAmount,
+    equity: z.boolean().default(false),
+  })
+  .refine(
+    (band) => band.base_min == null || band.base_max == null || band.base_min <= band.base_max,
+    { message: 'Maximum must be greater than minimum', path: ['base_max'] }
+  );
+
+export const jobSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required'),
+  company_id: z
+    .string()
+    .nullable()
+    .optional()
+    .transform((value) => value || null),
+  client_contact_id: z
+    .string()
+    .nullable()
+    .optional()
+    .transform((value) => value || null),
+  description: optionalText,
+  status: z.enum(JOB_STATUSES).default('open'),
+  functional_role: optionalEnum([...FUNCTIONAL_ROLES]),
+  must_haves: textList,
+  tech_stack: textList,
+  compensation_band: compensationBandSchema,
+  location: locationSchema,
+  workplace_policy: optionalEnum([...WORK_ARRANGEMENTS]),
+  visa_sponsorship: z.boolean().default(false),
+});
+
+export type CompanyValues = z.output<typeof companySchema>;
+export type CompensationBand = z.output<typeof compensationBandSchema>;
+export type JobValues = z.output<typeof jobSchema>;
+
+export type Company = CompanyValues & {
+  id: string;
+  organization_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+type JobColumns = { [K in keyof JobValues]: JobValues[K] | null };
+
+export type Job = JobColumns & {
+  id: string;
+  organization_id: string;
+  title: string;
+  status: JobStatus;
+  // Matching settings, parsed with parseRoleSpec
+  role_spec: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+  updated_by: string | null;
+};
+
+// A job as listed, with its company and client contact joined in
+export type JobWithRelations = Job & {
+  company: Pick<Company, 'id' | 'name'> | null;
+  client_contact: { id: string; first_name: string; last_name: string } | null;
+};
+
+export const JOB_SELECT = `
+  *,
+  company:companies(id, name),
+  client_contact:candidates!jobs_client_contact_id_fkey(id, first_name, last_name)
+`;
+
+export function emptyJobValues(): JobValues {
+  return {
+    title: '',
+    company_id: null,
+    client_contact_id: null,
+    description: null,
+    status: 'open',
+    functional_role: null,
+    must_haves: [],
+    tech_stack: [],
+    compensation_band: compensationBandSchema.parse({}),
+    location: locationSchema.parse({}),
+    workplace_policy: null,
+    visa_sponsorship: false,
+  };
+}
+
+// Fills in defaults for any column that is null or missing on a stored row
+export function toJobValues(job: Partial<Job>): JobValues {
+  const empty = emptyJobValues();
+  return {
+    title: job.title ?? empty.title,
+    company_id: job.company_id ?? null,
+    client_contact_id: job.client_contact_id ?? null,
+    description: job.description ?? null,
+    status: job.status ?? empty.status,
+    functional_role: job.functional_role ?? null,
+    must_haves: job.must_haves ?? [],
+    tech_stack: job.tech_stack ?? [],
+    compensation_band: { ...empty.compensation_band, ...job.compensation_band },
+    location: { ...empty.location, ...job.location },
+    workplace_policy: job.workplace_policy ?? null,
+    visa_sponsorship: job.visa_sponsorship ?? false,
+  };
+}
+
+export function formatCompensationBand(band: Partial<CompensationBand> | null) {
+  if (!band || (band.base_min == null && band.base_max == null)) return '';
+  const format = (amount: number) =>
+    new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency: band.currency || 'USD',
+      maximumFractionDigits: 0,
+    }).format(amount);
+
+  if (band.base_min != null && band.base_max != null) {
+    return `${format(band.base_min)} – ${format(band.base_max)}`;
+  }
+  return band.base_min != null ? `From ${format(band.base_min)}` : `Up to ${format(band.base_max!)}`;
+}
+
+export function formatJobLocation(location: Job['location']) {
+  if (!location) return '';
+  return [location.city, location.state, location.country].filter(Boolean).join(', ');
+}
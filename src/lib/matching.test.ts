@@ -0,0 +1,284 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compensationCriterion,
+  containsTerm,
+  locationCriterion,
+  mustHavesCriterion,
+  normalizeTerm,
+  parseRoleSpec,
+  rankCandidates,
+  scoreCandidate,
+  techStackCriterion,
+  titleCriterion,
+  visaCriterion,
+  workplaceCriterion,
+  type MatchCandidate,
+  type MatchRequirements,
+} from './matching';
+
+function candidate(overrides: Partial<MatchCandidate> = {}): MatchCandidate {
+  return {
+    id: 'candidate-1',
+    first_name: 'Ada',
+    last_name: 'Lovelace',
+    current_job_title: null,
+    past_job_titles: null,
+    current_company: null,
+    past_companies: null,
+    current_industry: null,
+    past_industries: null,
+    tech_stack: null,
+    must_haves: null,
+    compensation_expectations: null,
+    workplace_preferences: null,
+    current_location: null,
+    visa_requirements: null,
+    ...overrides,
+  };
+}
+
+function role(overrides: Partial<MatchRequirements> = {}, spec: Record<string, unknown> = {}): MatchRequirements {
+  return {
+    title: 'Engineer',
+    description: null,
+    must_haves: null,
+    tech_stack: null,
+    compensation_band: null,
+    location: null,
+    workplace_policy: null,
+    visa_sponsorship: false,
+    spec: parseRoleSpec(spec),
+    ...overrides,
+  };
+}
+
+type LocationCategory = NonNullable<MatchRequirements['location']>['category'];
+
+const location = (city: string, category: LocationCategory) => ({
+  city,
+  state: '',
+  country: '',
+  category,
+});
+
+describe('normalizeTerm', () => {
+  it('ignores case, spaces and punctuation but keeps + and #', () => {
+    expect(normalizeTerm('Node.js')).toBe('nodejs');
+    expect(normalizeTerm('C++')).toBe('c++');
+    expect(normalizeTerm('C#')).toBe('c#');
+  });
+});
+
+describe('containsTerm', () => {
+  it('matches whole words only', () => {
+    expect(containsTerm('Google', 'Go')).toBe(false);
+    expect(containsTerm('JavaScript', 'Java')).toBe(false);
+    expect(containsTerm('trust and safety', 'Rust')).toBe(false);
+    expect(containsTerm('Go, Rust', 'Go')).toBe(true);
+  });
+
+  it('matches one letter terms', () => {
+    expect(containsTerm('C, C++ and R', 'C')).toBe(true);
+    expect(containsTerm('C, C++ and R', 'R')).toBe(true);
+    expect(containsTerm('C++', 'C')).toBe(false);
+  });
+
+  it('treats spellings of the same term alike', () => {
+    expect(containsTerm('Senior Node.js developer', 'NodeJS')).toBe(true);
+    expect(containsTerm('NodeJS', 'node js')).toBe(true);
+    expect(containsTerm('front-end engineer', 'Frontend')).toBe(true);
+  });
+
+  it('needs every word of the term', () => {
+    expect(containsTerm('Senior Software Engineer', 'senior engineer')).toBe(true);
+    expect(containsTerm('Senior Software Engineer', 'staff engineer')).toBe(false);
+  });
+
+  it('never matches an empty term', () => {
+    expect(containsTerm('anything', '  ')).toBe(false);
+  });
+});
+
+describe('techStackCriterion', () => {
+  it('is skipped when the role lists no tech', () => {
+    expect(techStackCriterion(candidate({ tech_stack: ['Go'] }), role())).toBeNull();
+  });
+
+  it('scores the share of required tech the candidate has', () => {
+    const result = techStackCriterion(candidate({ tech_stack: ['TypeScript', 'node.js'] }), role({ tech_stack: ['NodeJS', 'Postgres'] }));
+    expect(result?.score).toBe(0.5);
+    expect(result?.detail).toContain('missing Postgres');
+  });
+
+  it('adds a little for nice-to-have tech', () => {
+    const result = techStackCriterion(
+      candidate({ tech_stack: ['Go', 'Kafka'] }),
+      role({ tech_stack: ['Go'] }, { nice_to_have_tech: ['Kafka'] })
+    );
+    expect(result?.score).toBeCloseTo(1);
+  });
+
+  it('gives a neutral score when the candidate has no stack on file', () => {
+    expect(techStackCriterion(candidate(), role({ tech_stack: ['Go'] }))?.score).toBe(0.5);
+  });
+});
+
+describe('titleCriterion', () => {
+  it('matches the current title against the keywords', () => {
+    const result = titleCriterion(candidate({ current_job_title: 'Backend Engineer' }), role({}, { title_keywords: ['backend'] }));
+    expect(result?.score).toBe(1);
+  });
+
+  it('counts past titles for less', () => {
+    const result = titleCriterion(
+      candidate({ current_job_title: 'Product Manager', past_job_titles: ['Backend Engineer'] }),
+      role({}, { title_keywords: ['backend'] })
+    );
+    expect(result?.score).toBeCloseTo(0.6);
+  });
+
+  it('falls back to the words of the job title', () => {
+    const result = titleCriterion(candidate({ current_job_title: 'Go Developer' }), role({ title: 'Go Engineer' }));
+    expect(result?.score).toBe(0.5);
+  });
+
+  it("doesn't match a keyword inside a longer word", () => {
+    const result = titleCriterion(candidate({ current_job_title: 'Google Ads Manager' }), role({}, { title_keywords: ['Go'] }));
+    expect(result?.score).toBe(0);
+  });
+});
+
+describe('compensationCriterion', () => {
+  const band = { currency: 'USD', base_min: 100000, base_max: 150000, equity: false };
+
+  it('is skipped without a band', () => {
+    expect(compensationCriterion(candidate(), role())).toBeNull();
+  });
+
+  it('scores expectations within the band in full', () => {
+    const result = compensationCriterion(
+      candidate({ compensation_expectations: { currency: 'USD', desired_base_min: 120000 } }),
+      role({ compensation_band: band })
+    );
+    expect(result?.score).toBe(1);
+  });
+
+  it('falls off as expectations rise above the band', () => {
+    const result = compensationCriterion(
+      candidate({ compensation_expectations: { desired_base_min: 165000 } }),
+      role({ compensation_band: band })
+    );
+    expect(result?.score).toBeCloseTo(0.6);
+  });
+
+  it("doesn't compare different currencies", () => {
+    const result = compensationCriterion(
+      candidate({ compensation_expectations: { currency: 'EUR', desired_base_min: 90000 } }),
+      role({ compensation_band: band })
+    );
+    expect(result?.score).toBe(0.5);
+  });
+});
+
+describe('workplaceCriterion', () => {
+  it('matches when the candidate is open to the policy', () => {
+    const result = workplaceCriterion(
+      candidate({ workplace_preferences: { arrangements: ['remote', 'hybrid'] } }),
+      role({ workplace_policy: 'hybrid' })
+    );
+    expect(result?.score).toBe(1);
+  });
+
+  it("scores zero when they aren't", () => {
+    const result = workplaceCriterion(
+      candidate({ workplace_preferences: { arrangements: ['remote'] } }),
+      role({ workplace_policy: 'onsite' })
+    );
+    expect(result?.score).toBe(0);
+  });
+});
+
+describe('locationCriterion', () => {
+  it('matches the same city', () => {
+    const result = locationCriterion(
+      candidate({ current_location: location('New York', 'us_east') }),
+      role({ location: location('new york', 'us_east') })
+    );
+    expect(result?.score).toBe(1);
+  });
+
+  it('counts a preferred location', () => {
+    const result = locationCriterion(
+      candidate({ current_location: location('Boston', 'us_east'), workplace_preferences: { preferred_locations: ['New York, NY'] } }),
+      role({ location: location('New York', 'us_east') })
+    );
+    expect(result?.score).toBe(1);
+  });
+
+  it('only checks the region for remote roles', () => {
+    const result = locationCriterion(
+      candidate({ current_location: location('Berlin', 'europe') }),
+      role({ location: location('', 'us_east'), workplace_policy: 'remote' })
+    );
+    expect(result?.score).toBe(0.3);
+  });
+
+  it('rewards willingness to relocate', () => {
+    const result = locationCriterion(
+      candidate({ current_location: location('Boston', 'us_east'), workplace_preferences: { willing_to_relocate: true } }),
+      role({ location: location('New York', 'us_east') })
+    );
+    expect(result?.score).toBe(0.8);
+  });
+});
+
+describe('visaCriterion', () => {
+  it('passes candidates who need no sponsorship', () => {
+    expect(visaCriterion(candidate({ visa_requirements: { requires_sponsorship: false } }), role())?.score).toBe(1);
+  });
+
+  it('depends on the role when sponsorship is needed', () => {
+    const needsVisa = candidate({ visa_requirements: { requires_sponsorship: true } });
+    expect(visaCriterion(needsVisa, role({ visa_sponsorship: true }))?.score).toBe(1);
+    expect(visaCriterion(needsVisa, role({ visa_sponsorship: false }))?.score).toBe(0);
+  });
+});
+
+describe('mustHavesCriterion', () => {
+  it('checks both sides of the must-haves', () => {
+    const result = mustHavesCriterion(
+      candidate({ tech_stack: ['Kubernetes'], must_haves: ['equity'] }),
+      role({ must_haves: ['Kubernetes', 'Fintech'], compensation_band: { currency: 'USD', base_min: null, base_max: null, equity: true } })
+    );
+    expect(result?.score).toBeCloseTo(2 / 3);
+  });
+
+  it("doesn't count a must-have found inside another word", () => {
+    const result = mustHavesCriterion(candidate({ tech_stack: ['JavaScript'] }), role({ must_haves: ['Java'] }));
+    expect(result?.score).toBe(0);
+  });
+});
+
+describe('scoreCandidate and rankCandidates', () => {
+  const goRole = role({ tech_stack: ['Go'], visa_sponsorship: false }, { min_score: 60 });
+
+  it('leaves out criteria weighted at zero', () => {
+    const match = scoreCandidate(
+      candidate({ tech_stack: ['Go'], visa_requirements: { requires_sponsorship: true } }),
+      role({ tech_stack: ['Go'] }, { weights: { visa: 0 } })
+    );
+    expect(match.breakdown.map((item) => item.id)).not.toContain('visa');
+  });
+
+  it('drops candidates under the minimum score and sorts the rest', () => {
+    const ranked = rankCandidates(
+      [
+        candidate({ id: 'rust', last_name: 'Rust', tech_stack: ['Rust'], visa_requirements: { requires_sponsorship: false } }),
+        candidate({ id: 'b', last_name: 'Byron', tech_stack: ['Go'] }),
+        candidate({ id: 'a', last_name: 'Adams', tech_stack: ['Go'], visa_requirements: { requires_sponsorship: false } }),
+      ],
+      goRole
+    );
+    expect(ranked.map((match) => match.candidate.id)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,414 @@
+import { z } from 'zod';
+import { optionLabel } from './candidateSchema';
+import type { Job } from './jobs';
+
+// The candidate columns the criteria read
+export interface MatchCandidate {
+  id: string;
+  first_name: string;
+  last_name: string;
+  current_job_title: string | null;
+  past_job_titles: string[] | null;
+  current_company: string | null;
+  past_companies: string[] | null;
+  current_industry: string | null;
+  past_industries: string[] | null;
+  tech_stack: string[] | null;
+  must_haves: string[] | null;
+  compensation_expectations: {
+    currency?: string | null;
+    desired_base_min?: number | null;
+    desired_base_max?: number | null;
+  } | null;
+  workplace_preferences: {
+    arrangements?: string[] | null;
+    preferred_locations?: string[] | null;
+    willing_to_relocate?: boolean | null;
+  } | null;
+  current_location: {
+    city?: string | null;
+    state?: string | null;
+    country?: string | null;
+    category?: string | null;
+  } | null;
+  visa_requirements: {
+    requires_sponsorship?: boolean | null;
+  } | null;
+}
+
+// A literal, so the select is typed by its columns
+export const MATCH_CANDIDATE_COLUMNS = `
+  id, first_name, last_name, current_job_title, past_job_titles, current_company, past_companies,
+  current_industry, past_industries, tech_stack, must_haves, compensation_expectations,
+  workplace_preferences, current_location, visa_requirements
+`;
+
+const weight = (value: number) => z.number().min(0).max(5).default(value);
+
+export const roleSpecSchema = z.object({
+  title_keywords: z.array(z.string().trim()).default([]),
+  nice_to_have_tech: z.array(z.string().trim()).default([]),
+  min_score: z.number().int().min(0).max(100).default(50),
+  weights: z
+    .object({
+      tech_stack: weight(3),
+      title: weight(2),
+      compensation: weight(2),
+      workplace: weight(1),
+      location: weight(1),
+      visa: weight(2),
+      must_haves: weight(3),
+    })
+    .default({}),
+});
+
+export type RoleSpec = z.output<typeof roleSpecSchema>;
+export type MatchCriterionId = keyof RoleSpec['weights'];
+
+export const MATCH_CRITERIA: Record<MatchCriterionId, string> = {
+  tech_stack: 'Tech stack',
+  title: 'Job title',
+  compensation: 'Compensation',
+  workplace: 'Workplace policy',
+  location: 'Location',
+  visa: 'Visa sponsorship',
+  must_haves: 'Must-haves',
+};
+
+export function parseRoleSpec(value: unknown): RoleSpec {
+  const result = roleSpecSchema.safeParse(value ?? {});
+  return result.success ? result.data : roleSpecSchema.parse({});
+}
+
+// The requirement profile: the job's columns plus its stored role spec
+export type MatchRequirements = Pick<
+  Job,
+  | 'title'
+  | 'description'
+  | 'must_haves'
+  | 'tech_stack'
+  | 'compensation_band'
+  | 'location'
+  | 'workplace_policy'
+  | 'visa_sponsorship'
+> & { spec: RoleSpec };
+
+export function toMatchRequirements(job: Job): MatchRequirements {
+  return {
+    title: job.title,
+    description: job.description,
+    must_haves: job.must_haves,
+    tech_stack: job.tech_stack,
+    compensation_band: job.compensation_band,
+    location: job.location,
+    workplace_policy: job.workplace_policy,
+    visa_sponsorship: job.visa_sponsorship,
+    spec: parseRoleSpec(job.role_spec),
+  };
+}
+
+export interface CriterionResult {
+  // 0 to 1
+  score: number;
+  detail: string;
+}
+
+// Returns null when the role doesn't specify anything for the criterion
+export type Criterion = (candidate: MatchCandidate, role: MatchRequirements) => CriterionResult | null;
+
+// Score given when the candidate's side is missing, so gaps neither help nor sink them
+const UNKNOWN_SCORE = 0.5;
+
+// Makes "Node.js", "node js" and "NodeJS" compare equal while keeping C++ and C#
+export function normalizeTerm(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9+#]/g, '');
+}
+
+// Splits text into lowercase words; separators other than + and # end a word
+export function tokenize(text: string) {
+  return text.toLowerCase().split(/[^a-z0-9+#]+/).filter(Boolean);
+}
+
+// True when a run of consecutive tokens spells the word, so "node js" and "Node.js" both contain "nodejs"
+function hasWord(tokens: string[], word: string) {
+  return tokens.some((_, start) => {
+    let joined = '';
+    for (let i = start; i < tokens.length && word.startsWith(joined + tokens[i]); i++) {
+      joined += tokens[i];
+      if (joined === word) return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * True when every word of the term appears in the text as a whole word, so
+ * "Go" doesn't match "Google" and "Java" doesn't match "JavaScript".
+ */
+export function containsTerm(text: string, term: string) {
+  const tokens = tokenize(text);
+  const words = term.split(/\s+/).map(normalizeTerm).filter(Boolean);
+  if (words.length === 0) return false;
+  return hasWord(tokens, words.join('')) || words.every((word) => hasWord(tokens, word));
+}
+
+function formatAmount(value: number, currency: string) {
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+function formatMatched(matched: string[], missing: string[]) {
+  return [
+    matched.length > 0 && `has ${matched.join(', ')}`,
+    missing.length > 0 && `missing ${missing.join(', ')}`,
+  ]
+    .filter(Boolean)
+    .join('; ');
+}
+
+export const techStackCriterion: Criterion = (candidate, role) => {
+  const required = role.tech_stack ?? [];
+  const niceToHave = role.spec.nice_to_have_tech;
+  if (required.length === 0 && niceToHave.length === 0) return null;
+
+  const candidateTech = new Set((candidate.tech_stack ?? []).map(normalizeTerm));
+  if (candidateTech.size === 0) return { score: UNKNOWN_SCORE, detail: 'No tech stack on file' };
+
+  const has = (tech: string) => candidateTech.has(normalizeTerm(tech));
+  const matched = required.filter(has);
+  const missing = required.filter((tech) => !has(tech));
+  const niceMatched = niceToHave.filter(has);
+
+  const requiredScore = required.length > 0 ? matched.length / required.length : 1;
+  const niceScore = niceToHave.length > 0 ? niceMatched.length / niceToHave.length : 0;
+  // Nice-to-haves only ever add a little on top of the required stack
+  const score = niceToHave.length > 0 ? requiredScore * 0.85 + niceScore * 0.15 : requiredScore;
+
+  const parts = [
+    required.length > 0 && `${matched.length} of ${required.length} required (${formatMatched(matched, missing)})`,
+    niceToHave.length > 0 && `${niceMatched.length} of ${niceToHave.length} nice-to-have`,
+  ].filter(Boolean);
+
+  return { score, detail: parts.join(', ') };
+};
+
+export const titleCriterion: Criterion = (candidate, role) => {
+  // Without keywords, each word of the job title counts on its own
+  const keywords = role.spec.title_keywords.length > 0
+    ? role.spec.title_keywords
+    : role.title.split(/\s+/).filter((word) => normalizeTerm(word).length > 0);
+  if (keywords.length === 0) return null;
+  const pastTitles = candidate.past_job_titles ?? [];
+  if (!candidate.current_job_title && pastTitles.length === 0) {
+    return { score: UNKNOWN_SCORE, detail: 'No job titles on file' };
+  }
+
+  const titleScore = (title: string) =>
+    keywords.filter((keyword) => containsTerm(title, keyword)).length / keywords.length;
+
+  const current = candidate.current_job_title ? titleScore(candidate.current_job_title) : 0;
+  // Past experience counts, but less than what they do today
+  const past = Math.max(0, ...pastTitles.map(titleScore)) * 0.6;
+
+  if (current === 0 && past === 0) {
+    return { score: 0, detail: `No titles match ${keywords.join(', ')}` };
+  }
+  return current >= past
+    ? { score: current, detail: `Current title "${candidate.current_job_title}" matches` }
+    : { score: past, detail: 'Matches a past title' };
+};
+
+export const compensationCriterion: Criterion = (candidate, role) => {
+  const band = role.compensation_band;
+  if (!band || (band.base_min == null && band.base_max == null)) return null;
+
+  const comp = candidate.compensation_expectations;
+  const desiredMin = comp?.desired_base_min ?? comp?.desired_base_max ?? null;
+  const desiredMax = comp?.desired_base_max ?? comp?.desired_base_min ?? null;
+  if (desiredMin == null || desiredMax == null) {
+    return { score: UNKNOWN_SCORE, detail: 'No desired salary on file' };
+  }
+
+  const currency = band.currency || 'USD';
+  if (comp?.currency && comp.currency !== currency) {
+    return { score: UNKNOWN_SCORE, detail: `Expectations are in ${comp.currency}, the band is in ${currency}` };
+  }
+
+  if (band.base_max != null && desiredMin > band.base_max) {
+    const over = (desiredMin - band.base_max) / band.base_max;
+    // Falls to zero once they want 25% more than the top of the band
+    return {
+      score: Math.max(0, 1 - over * 4),
+      detail: `Wants ${formatAmount(desiredMin, currency)}, ${Math.round(over * 100)}% above the band`,
+    };
+  }
+
+  return { score: 1, detail: `Wants ${formatAmount(desiredMin, currency)}, within budget` };
+};
+
+export const workplaceCriterion: Criterion = (candidate, role) => {
+  if (!role.workplace_policy) return null;
+
+  const arrangements = candidate.workplace_preferences?.arrangements ?? [];
+  if (arrangements.length === 0) return { score: UNKNOWN_SCORE, detail: 'No workplace preference on file' };
+
+  const policy = optionLabel(role.workplace_policy);
+  return arrangements.includes(role.workplace_policy)
+    ? { score: 1, detail: `Open to ${policy}` }
+    : { score: 0, detail: `Prefers ${arrangements.map(optionLabel).join(', ')}; role is ${policy}` };
+};
+
+export const locationCriterion: Criterion = (candidate, role) => {
+  const location = role.location;
+  if (!location || (!location.city && !location.category)) return null;
+
+  const current = candidate.current_location;
+  if (!current || (!current.city && !current.category)) {
+    return { score: UNKNOWN_SCORE, detail: 'No location on file' };
+  }
+
+  const preferred = candidate.workplace_preferences?.preferred_locations ?? [];
+  const relocate = Boolean(candidate.workplace_preferences?.willing_to_relocate);
+  const sameCity = Boolean(location.city && current.city && normalizeTerm(location.city) === normalizeTerm(current.city));
+  const sameRegion = Boolean(location.category && location.category === current.category);
+
+  if (sameCity) return { score: 1, detail: `Based in ${current.city}` };
+  if (location.city && preferred.some((place) => containsTerm(place, location.city))) {
+    return { score: 1, detail: `Lists ${location.city} as a preferred location` };
+  }
+  // Remote roles only care about the region, e.g. for time zones or payroll
+  if (role.workplace_policy === 'remote') {
+    return sameRegion || !location.category
+      ? { score: 1, detail: 'Within the remote hiring region' }
+      : { score: 0.3, detail: `Based in ${optionLabel(current.category)}, outside the hiring region` };
+  }
+  if (sameRegion) {
+    return relocate
+      ? { score: 0.8, detail: 'Same region and willing to relocate' }
+      : { score: 0.5, detail: 'Same region, different city' };
+  }
+  return relocate
+    ? { score: 0.6, detail: 'Different region but willing to relocate' }
+    : { score: 0, detail: 'Different region and not willing to relocate' };
+};
+
+export const visaCriterion: Criterion = (candidate, role) => {
+  const requiresSponsorship = candidate.visa_requirements?.requires_sponsorship;
+  if (requiresSponsorship == null) return { score: UNKNOWN_SCORE, detail: 'No visa status on file' };
+  if (!requiresSponsorship) return { score: 1, detail: 'No sponsorship needed' };
+
+  return role.visa_sponsorship
+    ? { score: 1, detail: 'Needs sponsorship, which the role offers' }
+    : { score: 0, detail: "Needs sponsorship, which the role doesn't offer" };
+};
+
+export const mustHavesCriterion: Criterion = (candidate, role) => {
+  const roleMustHaves = role.must_haves ?? [];
+  const candidateMustHaves = candidate.must_haves ?? [];
+  if (roleMustHaves.length === 0 && candidateMustHaves.length === 0) return null;
+
+  const profileText = [
+    ...(candidate.tech_stack ?? []),
+    candidate.current_job_title ?? '',
+    ...(candidate.past_job_titles ?? []),
+    candidate.current_industry ?? '',
+    ...(candidate.past_industries ?? []),
+    candidate.current_company ?? '',
+    ...(candidate.past_companies ?? []),
+  ].join(' ');
+  const roleText = [
+    role.title,
+    role.description ?? '',
+    ...(role.tech_stack ?? []),
+    ...roleMustHaves,
+    optionLabel(role.workplace_policy),
+    role.compensation_band?.equity ? 'equity' : '',
+    role.visa_sponsorship ? 'visa sponsorship' : '',
+  ].join(' ');
+
+  const met = roleMustHaves.filter((item) => containsTerm(profileText, item));
+  const offered = candidateMustHaves.filter((item) => containsTerm(roleText, item));
+  const total = roleMustHaves.length + candidateMustHaves.length;
+
+  const parts = [
+    roleMustHaves.length > 0 && `meets ${met.length} of ${roleMustHaves.length} role must-haves`,
+    candidateMustHaves.length > 0 && `role covers ${offered.length} of ${candidateMustHaves.length} of theirs`,
+  ].filter(Boolean) as string[];
+  const detail = parts.join('; ');
+
+  return { score: (met.length + offered.length) / total, detail: detail.charAt(0).toUpperCase() + detail.slice(1) };
+};
+
+export const CRITERIA: Record<MatchCriterionId, Criterion> = {
+  tech_stack: techStackCriterion,
+  title: titleCriterion,
+  compensation: compensationCriterion,
+  workplace: workplaceCriterion,
+  location: locationCriterion,
+  visa: visaCriterion,
+  must_haves: mustHavesCriterion,
+};
+
+export interface CriterionBreakdown {
+  id: MatchCriterionId;
+  label: string;
+  // 0 to 100
+  score: number;
+  weight: number;
+  detail: string;
+}
+
+export interface CandidateMatch {
+  candidate: MatchCandidate;
+  // 0 to 100
+  score: number;
+  breakdown: CriterionBreakdown[];
+}
+
+/**
+ * Scores a candidate against a role as the weighted average of every
+ * criterion the role specifies. Criteria the role leaves blank, or weighs at
+ * zero, are left out rather than counted as a match.
+ */
+export function scoreCandidate(candidate: MatchCandidate, role: MatchRequirements): CandidateMatch {
+  const breakdown: CriterionBreakdown[] = [];
+
+  for (const id of Object.keys(CRITERIA) as MatchCriterionId[]) {
+    const weight = role.spec.weights[id];
+    if (weight === 0) continue;
+
+    const result = CRITERIA[id](candidate, role);
+    if (!result) continue;
+
+    breakdown.push({
+      id,
+      label: MATCH_CRITERIA[id],
+      score: Math.round(result.score * 100),
+      weight,
+      detail: result.detail,
+    });
+  }
+
+  const totalWeight = breakdown.reduce((sum, item) => sum + item.weight, 0);
+  const score = totalWeight > 0
+    ? Math.round(breakdown.reduce((sum, item) => sum + item.score * item.weight, 0) / totalWeight)
+    : 0;
+
+  return { candidate, score, breakdown };
+}
+
+// Best matches first, ties broken by name so the order is stable
+export function rankCandidates(candidates: MatchCandidate[], role: MatchRequirements) {
+  return candidates
+    .map((candidate) => scoreCandidate(candidate, role))
+    .filter((match) => match.score >= role.spec.min_score)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.candidate.last_name.localeCompare(b.candidate.last_name) ||
+        a.candidate.first_name.localeCompare(b.candidate.first_name)
+    );
+}
@@ -0,0 +1,103 @@
+import { supabase } from './supabase';
+import { invokeEdgeFunction } from './edgeFunctions';
+import type { MemberRole } from './roles';
+
+export interface Member {
+  id: string;
+  email: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  role: MemberRole | null;
+  created_at: string;
+}
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: MemberRole;
+  expires_at: string;
+  last_sent_at: string | null;
+  created_at: string;
+}
+
+// What the signup page shows for an invite link
+export interface InvitationDetails {
+  email: string;
+  role: MemberRole;
+  organization_name: string;
+  expires_at: string;
+}
+
+export function memberName(member: Pick<Member, 'first_name' | 'last_name' | 'email'>) {
+  return [member.first_name, member.last_name].filter(Boolean).join(' ') || member.email || 'Unnamed member';
+}
+
+export async function fetchMembers(organizationId: string) {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, email, first_name, last_name, role, created_at')
+    .eq('organization_id', organizationId)
+    .order('first_name');
+
+  if (error) throw error;
+  return (data || []) as Member[];
+}
+
+// Invitations that haven't been accepted or revoked, including expired ones that can be re-sent
+export async function fetchOpenInvitations() {
+  const { data, error } = await supabase
+    .from('invitations')
+    .select('id, email, role, expires_at, last_sent_at, created_at')
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as Invitation[];
+}
+
+export async function sendInvitation(email: string, role: MemberRole) {
+  const { invitation } = await invokeEdgeFunction<{ invitation: Invitation }>('send-invitation', { email, role });
+  return invitation;
+}
+
+// Sends a new link; the old one stops working
+export async function resendInvitation(id: string) {
+  const { invitation } = await invokeEdgeFunction<{ invitation: Invitation }>('send-invitation', {
+    invitation_id: id,
+  });
+  return invitation;
+}
+
+export async function revokeInvitation(id: string) {
+  const { error } = await supabase
+    .from('invitations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function removeMember(id: string) {
+  const { error } = await supabase.rpc('remove_member', { member_id: id });
+  if (error) throw error;
+}
+
+// The last admin can't be changed to another role
+export async function setMemberRole(id: string, role: MemberRole) {
+  const { error } = await supabase.rpc('set_member_role', { member_id: id, new_role: role });
+  if (error) throw error;
+}
+
+// Null when the link is unknown, used, revoked or expired
+export async function fetchInvitationDetails(token: string) {
+  const { data, error } = await supabase.rpc('get_invitation', { invite_token: token }).maybeSingle();
+  if (error) throw error;
+  return data as InvitationDetails | null;
+}
+
+// Joins the invitation's organization with the signed-in account
+export async function acceptInvitation(token: string) {
+  const { error } = await supabase.rpc('accept_invitation', { invite_token: token });
+  if (error) throw error;
+}
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  OutreachError,
+  OutreachPermissionError,
+  renderOutreach,
+  sendTemplateEmail,
+  UnloggedEmailError,
+  type OutreachCandidate,
+  type OutreachSender,
+  type OutreachTemplate,
+} from '../../supabase/functions/_shared/outreach.ts';
+import { createMemoryTransport } from '../../supabase/functions/_shared/mail.ts';
+
+const template: OutreachTemplate = {
+  id: 'template-1',
+  name: 'Intro',
+  content: 'Hi {firstName}, this is {senderName}',
+  version: 3,
+};
+
+const candidate: OutreachCandidate = {
+  id: 'candidate-1',
+  first_name: 'Ada',
+  last_name: 'Lovelace',
+  personal_email: 'ada@example.com',
+  work_email: 'ada@acme.example',
+};
+
+function sender(overrides: Partial<OutreachSender> = {}): OutreachSender {
+  return {
+    id: 'user-1',
+    organization_id: 'org-1',
+    role: 'recruiter',
+    first_name: 'Sam',
+    last_name: 'Rivera',
+    email: 'sam@recruiting.example',
+    ...overrides,
+  };
+}
+
+// Just enough of the client for logging the activity; records what was inserted
+function fakeSupabase(result: { data: unknown; error: { message: string } | null }) {
+  const inserted: unknown[] = [];
+  const client = {
+    from: () => ({
+      insert: (rows: unknown[]) => {
+        inserted.push(...rows);
+        return { select: () => ({ single: async () => result }) };
+      },
+    }),
+  };
+  return { client: client as unknown as SupabaseClient, inserted };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('Deno', { env: { get: (name: string) => ({ MAIL_FROM: 'outreach@clearmatch.example' })[name] } });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('renderOutreach', () => {
+  it('renders the subject and body for the candidate', () => {
+    expect(renderOutreach(template, ' Hello {firstName} ', candidate, sender())).toEqual({
+      subject: 'Hello Ada',
+      body: 'Hi Ada, this is Sam Rivera',
+    });
+  });
+
+  it('refuses to leave placeholders in the message', () => {
+    expect(() => renderOutreach(template, 'About {company}', candidate, sender())).toThrow(OutreachError);
+  });
+});
+
+describe('sendTemplateEmail', () => {
+  it('sends through the transport and logs the email', async () => {
+    const transport = createMemoryTransport();
+    const { client, inserted } = fakeSupabase({ data: { id: 'activity-1' }, error: null });
+
+    const { messageId, activity } = await sendTemplateEmail(client, transport, {
+      template,
+      subject: 'Hello {firstName}',
+      candidate,
+      sender: sender(),
+      metadata: { campaign_id: 'campaign-1' },
+    });
+
+    expect(transport.sent).toEqual([
+      {
+        from: 'Sam Rivera <outreach@clearmatch.example>',
+        to: 'ada@example.com',
+        replyTo: 'sam@recruiting.example',
+        subject: 'Hello Ada',
+        text: 'Hi Ada, this is Sam Rivera',
+        messageId,
+      },
+    ]);
+    expect(activity).toEqual({ id: 'activity-1' });
+    expect(inserted).toEqual([
+      expect.objectContaining({
+        candidate_id: 'candidate-1',
+        type: 'email',
+        metadata: expect.objectContaining({ message_id: messageId, template_version: 3, campaign_id: 'campaign-1' }),
+      }),
+    ]);
+  });
+
+  it('sends to the address it is given', async () => {
+    const transport = createMemoryTransport();
+    const { client } = fakeSupabase({ data: {}, error: null });
+
+    await sendTemplateEmail(client, transport, {
+      template,
+      subject: 'Hello',
+      candidate,
+      sender: sender(),
+      to: 'ada@acme.example',
+    });
+    expect(transport.sent[0].to).toBe('ada@acme.example');
+  });
+
+  it('needs an email address', async () => {
+    const transport = createMemoryTransport();
+    const { client } = fakeSupabase({ data: {}, error: null });
+
+    await expect(
+      sendTemplateEmail(client, transport, {
+        template,
+        subject: 'Hello',
+        candidate: { ...candidate, personal_email: null, work_email: null },
+        sender: sender(),
+      })
+    ).rejects.toThrow('The candidate has no email address');
+    expect(transport.sent).toEqual([]);
+  });
+
+  it("doesn't send for roles without outreach", async () => {
+    const transport = createMemoryTransport();
+    const { client } = fakeSupabase({ data: {}, error: null });
+
+    await expect(
+      sendTemplateEmail(client, transport, { template, subject: 'Hello', candidate, sender: sender({ role: 'coordinator' }) })
+    ).rejects.toThrow(OutreachPermissionError);
+    expect(transport.sent).toEqual([]);
+  });
+
+  it('reports a sent email that could not be logged', async () => {
+    const transport = createMemoryTransport();
+    const { client } = fakeSupabase({ data: null, error: { message: 'permission denied' } });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const sending = sendTemplateEmail(client, transport, { template, subject: 'Hello', candidate, sender: sender() });
+    await expect(sending).rejects.toThrow(UnloggedEmailError);
+    await expect(sending).rejects.toMatchObject({ messageId: transport.sent[0]?.messageId });
+    expect(transport.sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { supabase } from './supabase';
+import type { Candidate } from './candidateSchema';
+
+export const PIPELINE_STAGES = [
+  'sourced',
+  'contacted',
+  'screening',
+  'submitted',
+  'interviewing',
+  'offer',
+  'placed',
+  'rejected',
+] as const;
+
+export type PipelineStage = (typeof PIPELINE_STAGES)[number];
+
+export const STAGE_LABELS: Record<PipelineStage, string> = {
+  sourced: 'Sourced',
+  contacted: 'Contacted',
+  screening: 'Screening',
+  submitted: 'Submitted',
+  interviewing: 'Interviewing',
+  offer: 'Offer',
+  placed: 'Placed',
+  rejected: 'Rejected',
+};
+
+export const STAGE_COLORS: Record<PipelineStage, string> = {
+  sourced: 'bg-gray-100 text-gray-800',
+  contacted: 'bg-blue-100 text-blue-800',
+  screening: 'bg-cyan-100 text-cyan-800',
+  submitted: 'bg-indigo-100 text-indigo-800',
+  interviewing: 'bg-purple-100 text-purple-800',
+  offer: 'bg-yellow-100 text-yellow-800',
+  placed: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+export const REQUISITION_STATUSES = ['open', 'closed'] as const;
+
+export const requisitionSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required'),
+  headcount: z
+    .number({ invalid_type_error: 'Must be a number' })
+    .int()
+    .positive('Must be at least 1'),
+  status: z.enum(REQUISITION_STATUSES).default('open'),
+});
+
+export type RequisitionValues = z.output<typeof requisitionSchema>;
+
+export type Requisition = RequisitionValues & {
+  id: string;
+  organization_id: string;
+  job_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export interface PipelineEntry {
+  id: string;
+  requisition_id: string;
+  candidate_id: string;
+  stage: PipelineStage;
+  stage_changed_at: string;
+  candidate: Pick<Candidate, 'id' | 'first_name' | 'last_name' | 'current_job_title' | 'current_company'>;
+}
+
+export const PIPELINE_ENTRY_SELECT = `
+  id,
+  requisition_id,
+  candidate_id,
+  stage,
+  stage_changed_at,
+  candidate:candidates (
+    id,
+    first_name,
+    last_name,
+    current_job_title,
+    current_company
+  )
+`;
+
+export function countByStage(rows: { stage: string }[]) {
+  const counts = Object.fromEntries(PIPELINE_STAGES.map((stage) => [stage, 0])) as Record<
+    PipelineStage,
+    number
+  >;
+  for (const row of rows) {
+    if (row.stage in counts) counts[row.stage as PipelineStage] += 1;
+  }
+  return counts;
+}
+
+// Candidates at each stage across open requisitions, counted per stage rather than read row by row
+export async function countOpenPipelineStages(organizationId: string) {
+  const results = await Promise.all(
+    PIPELINE_STAGES.map((stage) =>
+      supabase
+        .from('requisition_candidates')
+        .select('id, requisitions!inner(organization_id, status)', { count: 'exact', head: true })
+        .eq('stage', stage)
+        .eq('requisitions.organization_id', organizationId)
+        .eq('requisitions.status', 'open')
+    )
+  );
+
+  const counts = countByStage([]);
+  PIPELINE_STAGES.forEach((stage, index) => {
+    const { count, error } = results[index];
+    if (error) throw error;
+    counts[stage] = count ?? 0;
+  });
+  return counts;
+}
+
+interface PipelineContext {
+  userId: string;
+}
+
+/**
+ * Moves a pipeline entry to a new stage. A trigger records the move as a
+ * stage_change activity in the same statement, so the two can't diverge.
+ */
+export async function moveToStage(entry: PipelineEntry, toStage: PipelineStage, context: PipelineContext) {
+  const { data, error } = await supabase
+    .from('requisition_candidates')
+    .update({ stage: toStage, stage_changed_at: new Date().toISOString(), updated_by: context.userId })
+    .eq('id', entry.id)
+    .select(PIPELINE_ENTRY_SELECT)
+    .single()
+    .overrideTypes<PipelineEntry, { merge: false }>();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Adds a candidate to a requisition's pipeline at the first stage. A trigger
+ * attaches them to the requisition's job and records a stage_change activity.
+ */
+export async function addToPipeline(requisition: Requisition, candidateId: string, context: PipelineContext) {
+  const { data, error } = await supabase
+    .from('requisition_candidates')
+    .insert([{
+      requisition_id: requisition.id,
+      candidate_id: candidateId,
+      stage: PIPELINE_STAGES[0],
+      created_by: context.userId,
+      updated_by: context.userId,
+    }])
+    .select(PIPELINE_ENTRY_SELECT)
+    .single()
+    .overrideTypes<PipelineEntry, { merge: false }>();
+
+  if (error) throw error;
+  return data;
+}
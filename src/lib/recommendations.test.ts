@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import {
+  activeSeekerRule,
+  buildRecommendedActions,
+  contactFrequencyRule,
+  followUpDueRule,
+  parseRecommendationSettings,
+  staleContactRule,
+  unemployedCheckInRule,
+  urgentCandidateRule,
+  type RecommendationCandidate,
+} from './recommendations';
+
+const NOW = new Date('2025-05-01T12:00:00Z');
+
+function daysAgo(days: number) {
+  return new Date(NOW.getTime() - days * 86400000);
+}
+
+function candidate(overrides: Partial<RecommendationCandidate> = {}): RecommendationCandidate {
+  return {
+    id: 'candidate-1',
+    first_name: 'Ada',
+    last_name: 'Lovelace',
+    is_active_looking: null,
+    urgency_level: null,
+    employment_status: null,
+    nurturing_info: null,
+    created_at: daysAgo(100).toISOString(),
+    last_contacted_at: null,
+    ...overrides,
+  };
+}
+
+function rule(days: number) {
+  return { enabled: true, days, priority: 'medium' as const };
+}
+
+function context(overrides: Partial<RecommendationCandidate> = {}, lastContact: Date | null = null) {
+  return { candidate: candidate(overrides), lastContact, now: NOW };
+}
+
+describe('settings', () => {
+  it('fills in defaults for missing rules and fields', () => {
+    const settings = parseRecommendationSettings({ stale_contact: { days: 45 } });
+    expect(settings.stale_contact).toEqual({ enabled: true, days: 45, priority: 'medium' });
+    expect(settings.active_seeker).toEqual({ enabled: true, days: 7, priority: 'high' });
+  });
+
+  it('falls back to the defaults when the stored settings are invalid', () => {
+    expect(parseRecommendationSettings({ stale_contact: { days: -1 } })).toEqual(parseRecommendationSettings(null));
+  });
+});
+
+describe('stale contact', () => {
+  it('fires once the last contact is old enough', () => {
+    expect(staleContactRule(context({}, daysAgo(30)), rule(30))).toMatchObject({
+      actionType: 'follow_up',
+      reason: 'No contact in 30 days',
+    });
+    expect(staleContactRule(context({}, daysAgo(29)), rule(30))).toBeNull();
+  });
+
+  it('counts candidates never contacted from when they were added', () => {
+    expect(staleContactRule(context(), rule(30))?.reason).toBe('Never contacted');
+    expect(staleContactRule(context({ created_at: daysAgo(5).toISOString() }), rule(30))).toBeNull();
+  });
+});
+
+describe('active seekers and urgent candidates', () => {
+  it('only flags candidates who are looking', () => {
+    expect(activeSeekerRule(context({ is_active_looking: true }, daysAgo(10)), rule(7))?.actionType).toBe('reach_out');
+    expect(activeSeekerRule(context({ is_active_looking: false }, daysAgo(10)), rule(7))).toBeNull();
+  });
+
+  it('says when a looking candidate was never contacted', () => {
+    expect(activeSeekerRule(context({ is_active_looking: true }), rule(7))?.reason).toBe(
+      'Actively looking and never contacted'
+    );
+  });
+
+  it('names the urgency level', () => {
+    expect(urgentCandidateRule(context({ urgency_level: 'urgent' }, daysAgo(3)), rule(3))?.reason).toBe(
+      'Urgent urgency and not contacted in 3 days'
+    );
+    expect(urgentCandidateRule(context({ urgency_level: 'high' }, daysAgo(3)), rule(3))?.reason).toBe(
+      'High urgency and not contacted in 3 days'
+    );
+    expect(urgentCandidateRule(context({ urgency_level: 'low' }, daysAgo(30)), rule(3))).toBeNull();
+  });
+});
+
+describe('follow ups', () => {
+  it('flags overdue follow ups and ones within the notice period', () => {
+    const overdue = context({ nurturing_info: { next_follow_up_at: daysAgo(1).toISOString() } });
+    expect(followUpDueRule(overdue, rule(0))?.reason).toBe('Scheduled follow up is overdue');
+
+    const upcoming = context({ nurturing_info: { next_follow_up_at: daysAgo(-2).toISOString() } });
+    expect(followUpDueRule(upcoming, rule(0))).toBeNull();
+    expect(followUpDueRule(upcoming, rule(3))?.reason).toBe('Scheduled follow up is coming up');
+  });
+
+  it('skips follow ups a later contact already covered', () => {
+    const covered = context({ nurturing_info: { next_follow_up_at: daysAgo(5).toISOString() } }, daysAgo(1));
+    expect(followUpDueRule(covered, rule(0))).toBeNull();
+  });
+
+  it('is due a cadence after the last contact, plus the grace days', () => {
+    const weekly = { nurturing_info: { contact_frequency_days: 7 } };
+    expect(contactFrequencyRule(context(weekly, daysAgo(7)), rule(0))).toMatchObject({
+      actionType: 'nurture',
+      reason: 'Due for the agreed 7 day check in',
+      dueDate: NOW,
+    });
+    expect(contactFrequencyRule(context(weekly, daysAgo(7)), rule(2))).toBeNull();
+    expect(contactFrequencyRule(context({}, daysAgo(300)), rule(0))).toBeNull();
+  });
+});
+
+describe('unemployed check in', () => {
+  it('flags unemployed candidates not marked as looking', () => {
+    expect(unemployedCheckInRule(context({ employment_status: 'unemployed' }, daysAgo(14)), rule(14))?.actionType).toBe(
+      'check_in'
+    );
+    expect(
+      unemployedCheckInRule(context({ employment_status: 'unemployed', is_active_looking: true }, daysAgo(14)), rule(14))
+    ).toBeNull();
+  });
+});
+
+describe('buildRecommendedActions', () => {
+  const settings = parseRecommendationSettings({});
+
+  it('keeps the most pressing action per candidate', () => {
+    const [action, ...rest] = buildRecommendedActions(
+      [candidate({ is_active_looking: true, last_contacted_at: daysAgo(40).toISOString() })],
+      settings,
+      NOW
+    );
+    expect(rest).toEqual([]);
+    expect(action).toMatchObject({ id: 'active_seeker:candidate-1', priority: 'high', candidateName: 'Ada Lovelace' });
+  });
+
+  it('uses the latest of the logged and nurtured contact dates', () => {
+    const actions = buildRecommendedActions(
+      [
+        candidate({
+          last_contacted_at: daysAgo(40).toISOString(),
+          nurturing_info: { last_contacted_at: daysAgo(2).toISOString() },
+        }),
+      ],
+      settings,
+      NOW
+    );
+    expect(actions).toEqual([]);
+  });
+
+  it('skips disabled rules and orders by priority', () => {
+    const actions = buildRecommendedActions(
+      [
+        candidate({ id: 'stale', last_contacted_at: daysAgo(40).toISOString() }),
+        candidate({ id: 'urgent', urgency_level: 'urgent', last_contacted_at: daysAgo(40).toISOString() }),
+      ],
+      { ...settings, active_seeker: { ...settings.active_seeker, enabled: false } },
+      NOW
+    );
+    expect(actions.map((action) => action.id)).toEqual(['urgent_candidate:urgent', 'stale_contact:stale']);
+
+    const withoutStale = buildRecommendedActions(
+      [candidate({ last_contacted_at: daysAgo(40).toISOString() })],
+      { ...settings, stale_contact: { ...settings.stale_contact, enabled: false } },
+      NOW
+    );
+    expect(withoutStale).toEqual([]);
+  });
+});
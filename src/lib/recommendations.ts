@@ -0,0 +1,267 @@
+import { z } from 'zod';
+
+export type ActionPriority = 'high' | 'medium' | 'low';
+
+export interface RecommendedAction {
+  id: string;
+  candidateId: string;
+  candidateName: string;
+  actionType: string;
+  reason: string;
+  priority: ActionPriority;
+  dueDate?: string;
+}
+
+// The rows recommendation_candidates() returns
+export interface RecommendationCandidate {
+  id: string;
+  first_name: string;
+  last_name: string;
+  is_active_looking: boolean | null;
+  urgency_level: string | null;
+  employment_status: string | null;
+  nurturing_info: {
+    last_contacted_at?: string | null;
+    next_follow_up_at?: string | null;
+    contact_frequency_days?: number | null;
+  } | null;
+  created_at: string;
+  // Latest email, call or meeting logged against the candidate
+  last_contacted_at: string | null;
+}
+
+const PRIORITIES = ['high', 'medium', 'low'] as const;
+
+const ruleSchema = (days: number, priority: ActionPriority) =>
+  z
+    .object({
+      enabled: z.boolean().default(true),
+      days: z.number().int().min(0).default(days),
+      priority: z.enum(PRIORITIES).default(priority),
+    })
+    .default({});
+
+export const recommendationSettingsSchema = z.object({
+  stale_contact: ruleSchema(30, 'medium'),
+  active_seeker: ruleSchema(7, 'high'),
+  urgent_candidate: ruleSchema(3, 'high'),
+  follow_up_due: ruleSchema(0, 'high'),
+  contact_frequency: ruleSchema(0, 'medium'),
+  unemployed_check_in: ruleSchema(14, 'medium'),
+});
+
+export type RecommendationSettings = z.output<typeof recommendationSettingsSchema>;
+export type RecommendationRuleId = keyof RecommendationSettings;
+
+export const RECOMMENDATION_RULES: Record<RecommendationRuleId, { label: string; daysLabel: string }> = {
+  stale_contact: {
+    label: 'No contact in a while',
+    daysLabel: 'Days without contact',
+  },
+  active_seeker: {
+    label: 'Active seeker not contacted recently',
+    daysLabel: 'Days without contact',
+  },
+  urgent_candidate: {
+    label: 'High urgency candidate not contacted recently',
+    daysLabel: 'Days without contact',
+  },
+  follow_up_due: {
+    label: 'Scheduled follow up is due',
+    daysLabel: 'Days of notice before the follow up',
+  },
+  contact_frequency: {
+    label: 'Agreed contact cadence exceeded',
+    daysLabel: 'Grace days after the cadence',
+  },
+  unemployed_check_in: {
+    label: 'Not employed and not marked as looking',
+    daysLabel: 'Days without contact',
+  },
+};
+
+const DAY_MS = 86400000;
+
+export function parseRecommendationSettings(value: unknown): RecommendationSettings {
+  const result = recommendationSettingsSchema.safeParse(value ?? {});
+  return result.success ? result.data : recommendationSettingsSchema.parse({});
+}
+
+interface RuleContext {
+  candidate: RecommendationCandidate;
+  // Latest contact from activities or nurturing info, null if never contacted
+  lastContact: Date | null;
+  now: Date;
+}
+
+type Rule = (context: RuleContext, settings: RecommendationSettings[RecommendationRuleId]) => {
+  actionType: string;
+  reason: string;
+  dueDate: Date;
+} | null;
+
+function daysSince(date: Date, now: Date) {
+  return Math.floor((now.getTime() - date.getTime()) / DAY_MS);
+}
+
+function addDays(date: Date, days: number) {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function describeLastContact(lastContact: Date | null, now: Date) {
+  return lastContact ? `not contacted in ${daysSince(lastContact, now)} days` : 'never contacted';
+}
+
+// Candidates never contacted count from the day they were added
+function contactBaseline({ candidate, lastContact }: RuleContext) {
+  return lastContact ?? new Date(candidate.created_at);
+}
+
+export const staleContactRule: Rule = (context, { days }) => {
+  const baseline = contactBaseline(context);
+  if (daysSince(baseline, context.now) < days) return null;
+
+  return {
+    actionType: 'follow_up',
+    reason: context.lastContact
+      ? `No contact in ${daysSince(context.lastContact, context.now)} days`
+      : 'Never contacted',
+    dueDate: context.now,
+  };
+};
+
+export const activeSeekerRule: Rule = (context, { days }) => {
+  if (!context.candidate.is_active_looking) return null;
+  const baseline = contactBaseline(context);
+  if (daysSince(baseline, context.now) < days) return null;
+
+  return {
+    actionType: 'reach_out',
+    reason: `Actively looking and ${describeLastContact(context.lastContact, context.now)}`,
+    dueDate: context.now,
+  };
+};
+
+export const urgentCandidateRule: Rule = (context, { days }) => {
+  const urgency = context.candidate.urgency_level;
+  if (urgency !== 'high' && urgency !== 'urgent') return null;
+  const baseline = contactBaseline(context);
+  if (daysSince(baseline, context.now) < days) return null;
+
+  return {
+    actionType: 'reach_out',
+    reason: `${urgency === 'urgent' ? 'Urgent' : 'High'} urgency and ${describeLastContact(context.lastContact, context.now)}`,
+    dueDate: context.now,
+  };
+};
+
+export const followUpDueRule: Rule = (context, { days }) => {
+  const nextFollowUp = context.candidate.nurturing_info?.next_follow_up_at;
+  if (!nextFollowUp) return null;
+
+  const dueDate = new Date(nextFollowUp);
+  // A follow up already handled by a later contact doesn't need another one
+  if (context.lastContact && context.lastContact >= dueDate) return null;
+  if (addDays(context.now, days) < dueDate) return null;
+
+  return {
+    actionType: 'follow_up',
+    reason: dueDate < context.now ? 'Scheduled follow up is overdue' : 'Scheduled follow up is coming up',
+    dueDate,
+  };
+};
+
+export const contactFrequencyRule: Rule = (context, { days }) => {
+  const frequency = context.candidate.nurturing_info?.contact_frequency_days;
+  if (!frequency) return null;
+  const baseline = contactBaseline(context);
+  const dueDate = addDays(baseline, frequency);
+  if (addDays(dueDate, days) > context.now) return null;
+
+  return {
+    actionType: 'nurture',
+    reason: `Due for the agreed ${frequency} day check in`,
+    dueDate,
+  };
+};
+
+export const unemployedCheckInRule: Rule = (context, { days }) => {
+  const { candidate } = context;
+  if (candidate.employment_status !== 'unemployed' || candidate.is_active_looking) return null;
+  const baseline = contactBaseline(context);
+  if (daysSince(baseline, context.now) < days) return null;
+
+  return {
+    actionType: 'check_in',
+    reason: 'Not employed but not marked as looking — confirm their search status',
+    dueDate: context.now,
+  };
+};
+
+export const RULES: Record<RecommendationRuleId, Rule> = {
+  stale_contact: staleContactRule,
+  active_seeker: activeSeekerRule,
+  urgent_candidate: urgentCandidateRule,
+  follow_up_due: followUpDueRule,
+  contact_frequency: contactFrequencyRule,
+  unemployed_check_in: unemployedCheckInRule,
+};
+
+const PRIORITY_ORDER: Record<ActionPriority, number> = { high: 0, medium: 1, low: 2 };
+
+export function compareActions(a: RecommendedAction, b: RecommendedAction) {
+  const byPriority = PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
+  if (byPriority !== 0) return byPriority;
+  return (a.dueDate ?? '').localeCompare(b.dueDate ?? '');
+}
+
+/**
+ * Runs every enabled rule against each candidate and keeps the most pressing
+ * action per candidate, ordered by priority and then due date.
+ */
+export function buildRecommendedActions(
+  candidates: RecommendationCandidate[],
+  settings: RecommendationSettings,
+  now: Date = new Date()
+): RecommendedAction[] {
+  const actions: RecommendedAction[] = [];
+
+  for (const candidate of candidates) {
+    const nurturedContact = candidate.nurturing_info?.last_contacted_at;
+    const contactDates = [candidate.last_contacted_at, nurturedContact]
+      .filter((date): date is string => Boolean(date))
+      .map((date) => new Date(date));
+    const context: RuleContext = {
+      candidate,
+      lastContact: contactDates.length > 0
+        ? new Date(Math.max(...contactDates.map((date) => date.getTime())))
+        : null,
+      now,
+    };
+
+    const candidateActions: RecommendedAction[] = [];
+    for (const ruleId of Object.keys(RULES) as RecommendationRuleId[]) {
+      const ruleSettings = settings[ruleId];
+      if (!ruleSettings.enabled) continue;
+
+      const result = RULES[ruleId](context, ruleSettings);
+      if (!result) continue;
+
+      candidateActions.push({
+        id: `${ruleId}:${candidate.id}`,
+        candidateId: candidate.id,
+        candidateName: `${candidate.first_name} ${candidate.last_name}`,
+        actionType: result.actionType,
+        reason: result.reason,
+        priority: ruleSettings.priority,
+        dueDate: result.dueDate.toISOString(),
+      });
+    }
+
+    if (candidateActions.length > 0) {
+      actions.push(candidateActions.sort(compareActions)[0]);
+    }
+  }
+
+  return actions.sort(compareActions);
+}
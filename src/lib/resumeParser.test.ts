@@ -0,0 +1,137 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { parseResume } from './resumeParser';
+import { extractResumeText } from '../../supabase/functions/_shared/resumeText.ts';
+// Text as the parse-resume function extracts it from the PDF and DOCX files beside it
+import jordanLee from './__fixtures__/resumes/jordan-lee.pdf.txt?raw';
+import mariaGonzalez from './__fixtures__/resumes/maria-gonzalez.docx.txt?raw';
+import samOkafor from './__fixtures__/resumes/sam-okafor.pdf.txt?raw';
+
+// Trailing blank lines differ between the libraries and don't reach the parser
+async function extractFixture(name: string, type = '') {
+  const bytes = new Uint8Array(readFileSync(new URL(`./__fixtures__/resumes/${name}`, import.meta.url)));
+  return (await extractResumeText(bytes, type, name))?.trimEnd();
+}
+
+describe('text extraction', () => {
+  it('reads the text of a PDF line by line', async () => {
+    expect(await extractFixture('jordan-lee.pdf', 'application/pdf')).toBe(jordanLee.trimEnd());
+    expect(await extractFixture('sam-okafor.pdf')).toBe(samOkafor.trimEnd());
+  });
+
+  it('reads the paragraphs of a DOCX', async () => {
+    expect(await extractFixture('maria-gonzalez.docx')).toBe(mariaGonzalez.trimEnd());
+  });
+
+  it('skips other kinds of file', async () => {
+    expect(await extractResumeText(new Uint8Array(), 'text/plain', 'resume.txt')).toBeNull();
+  });
+});
+
+describe('contact details', () => {
+  it('reads the name, email, phone and profile links', () => {
+    expect(parseResume(jordanLee)).toMatchObject({
+      first_name: 'Jordan',
+      last_name: 'Lee',
+      email: 'jordan.lee@example.com',
+      phone: '(415) 555-0142',
+      linkedin_url: 'https://linkedin.com/in/jordan-lee-dev',
+      github_url: 'https://github.com/jlee',
+    });
+  });
+
+  it('keeps accented names and international numbers', () => {
+    expect(parseResume(mariaGonzalez)).toMatchObject({
+      first_name: 'María',
+      last_name: 'González',
+      email: 'maria.gonzalez@example.org',
+      phone: '+34 612 345 678',
+      linkedin_url: 'https://www.linkedin.com/in/mariagonzalez',
+      github_url: null,
+    });
+  });
+
+  it('finds contact details sharing a line', () => {
+    expect(parseResume(samOkafor)).toMatchObject({
+      email: 'sam.okafor@example.net',
+      phone: '020 7946 0958',
+    });
+  });
+});
+
+describe('job history', () => {
+  it('takes the ongoing role as the current one', () => {
+    const resume = parseResume(jordanLee);
+    expect(resume.current_job_title).toBe('Senior Backend Engineer');
+    expect(resume.current_company).toBe('Stripe');
+    expect(resume.past_job_titles).toEqual(['Software Engineer', 'Junior Developer']);
+    expect(resume.past_companies).toEqual(['Square', 'Initech']);
+  });
+
+  it('reads titles and companies split by a dash or across lines', () => {
+    const resume = parseResume(mariaGonzalez);
+    expect(resume.current_job_title).toBe('Product Designer');
+    expect(resume.current_company).toBe('Figma');
+    expect(resume.past_job_titles).toEqual(['UX Designer']);
+    expect(resume.past_companies).toEqual(['Spotify']);
+  });
+
+  it('separates jobs listed without bullets', () => {
+    const resume = parseResume(samOkafor);
+    expect(resume.current_job_title).toBe('Full Stack Developer');
+    expect(resume.current_company).toBe('Monzo');
+    expect(resume.past_job_titles).toEqual(['Web Developer']);
+    expect(resume.past_companies).toEqual(['Deliveroo']);
+  });
+
+  it('leaves the current role empty when every job has ended', () => {
+    const resume = parseResume('Experience\nEngineer, Acme\n2015 - 2019');
+    expect(resume.current_job_title).toBeNull();
+    expect(resume.past_companies).toEqual(['Acme']);
+  });
+});
+
+describe('schools', () => {
+  it('reads the degree, field and graduation year', () => {
+    expect(parseResume(jordanLee).schools).toEqual([
+      { name: 'Carnegie Mellon University', degree: 'B.S.', field_of_study: 'Computer Science', graduation_year: 2015 },
+    ]);
+  });
+
+  it('separates schools listed without bullets', () => {
+    expect(parseResume(mariaGonzalez).schools).toEqual([
+      { name: 'Politecnico di Milano', degree: 'Master of Design', field_of_study: 'Interaction Design', graduation_year: 2018 },
+      { name: 'Universidad Complutense de Madrid', degree: 'Bachelor of Arts', field_of_study: 'Fine Arts', graduation_year: 2016 },
+    ]);
+  });
+
+  it('uses the end of a date range as the graduation year', () => {
+    expect(parseResume(samOkafor).schools).toMatchObject([{ name: 'Imperial College London', graduation_year: 2018 }]);
+  });
+});
+
+describe('skills', () => {
+  it('lists the skills section without its labels', () => {
+    expect(parseResume(jordanLee).tech_stack).toEqual([
+      'Go',
+      'Python',
+      'TypeScript',
+      'PostgreSQL',
+      'Kafka',
+      'Kubernetes',
+      'AWS',
+    ]);
+  });
+
+  it('splits on semicolons', () => {
+    expect(parseResume(mariaGonzalez).tech_stack).toEqual(['Figma', 'Sketch', 'Prototyping', 'User Research']);
+  });
+
+  it('falls back to known skills mentioned anywhere', () => {
+    expect(parseResume(samOkafor).tech_stack).toEqual(['TypeScript', 'PostgreSQL', 'React', 'Node.js', 'Docker']);
+  });
+
+  it("doesn't mistake part of a word for a known skill", () => {
+    expect(parseResume('Alex Kim\nWorked at Google on JavaScript tooling').tech_stack).toEqual(['JavaScript']);
+  });
+});
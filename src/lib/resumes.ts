@@ -0,0 +1,114 @@
+import { supabase } from './supabase';
+import { invokeEdgeFunction } from './edgeFunctions';
+import type { ParsedResume } from './resumeParser';
+import type { CandidateValues } from './candidateSchema';
+
+export const RESUME_BUCKET = 'resumes';
+
+export const RESUME_ACCEPT =
+  '.pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Matches the bucket's file_size_limit
+export const MAX_RESUME_BYTES = 10 * 1024 * 1024;
+
+export function validateResumeFile(file: File) {
+  if (!/\.(pdf|docx)$/i.test(file.name)) return 'Upload a PDF or DOCX file';
+  if (file.size > MAX_RESUME_BYTES) return 'Resumes can be at most 10 MB';
+  return null;
+}
+
+export function resumeFileName(path: string) {
+  return path.split('/').pop() ?? path;
+}
+
+/**
+ * Uploads a resume under the organization's folder. Each upload gets its own
+ * folder so files with the same name never replace each other. The form
+ * uploads before the candidate is saved, so it removes the file again if
+ * it's cancelled or the file is replaced.
+ */
+export async function uploadResume(file: File, organizationId: string) {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const path = `${organizationId}/${crypto.randomUUID()}/${safeName}`;
+
+  const { error } = await supabase.storage.from(RESUME_BUCKET).upload(path, file, {
+    contentType: file.type || undefined,
+  });
+
+  if (error) throw error;
+  return path;
+}
+
+// Clears out uploads that never made it onto a saved candidate
+export async function removeResumes(paths: string[]) {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(RESUME_BUCKET).remove(paths);
+
+  if (error) throw error;
+}
+
+export async function parseUploadedResume(path: string) {
+  const { resume } = await invokeEdgeFunction<{ resume: ParsedResume }>('parse-resume', { path });
+  return resume;
+}
+
+// The bucket is private, so links are signed and expire after a minute
+export async function resumeDownloadUrl(path: string) {
+  const { data, error } = await supabase.storage.from(RESUME_BUCKET).createSignedUrl(path, 60);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+function mergeList(current: string[], found: string[]) {
+  const known = new Set(current.map((value) => value.toLowerCase()));
+  return [...current, ...found.filter((value) => !known.has(value.toLowerCase()))];
+}
+
+/**
+ * Fills the form from a parsed resume without overwriting anything already
+ * entered: empty fields are filled and lists gain the entries they lack.
+ * Returns the new values and the labels of the fields that changed.
+ */
+export function applyParsedResume(values: CandidateValues, resume: ParsedResume) {
+  const next: CandidateValues = { ...values };
+  const filled: string[] = [];
+
+  const fill = <K extends keyof CandidateValues>(key: K, value: CandidateValues[K] | null, label: string) => {
+    if (value && !next[key]) {
+      next[key] = value;
+      filled.push(label);
+    }
+  };
+
+  fill('first_name', resume.first_name, 'first name');
+  fill('last_name', resume.last_name, 'last name');
+  fill('personal_email', resume.email, 'email');
+  fill('phone', resume.phone, 'phone');
+  fill('linkedin_url', resume.linkedin_url, 'LinkedIn');
+  fill('github_url', resume.github_url, 'GitHub');
+  fill('current_job_title', resume.current_job_title, 'current title');
+  fill('current_company', resume.current_company, 'current company');
+
+  const lists = [
+    ['past_job_titles', resume.past_job_titles, 'past titles'],
+    ['past_companies', resume.past_companies, 'past companies'],
+    ['tech_stack', resume.tech_stack, 'tech stack'],
+  ] as const;
+  for (const [key, found, label] of lists) {
+    const merged = mergeList(next[key], found);
+    if (merged.length > next[key].length) {
+      next[key] = merged;
+      filled.push(label);
+    }
+  }
+
+  const knownSchools = new Set(next.schools.map((school) => school.name.toLowerCase()));
+  const newSchools = resume.schools.filter((school) => !knownSchools.has(school.name.toLowerCase()));
+  if (newSchools.length > 0) {
+    next.schools = [...next.schools, ...newSchools];
+    filled.push('schools');
+  }
+
+  return { values: next, filled };
+}
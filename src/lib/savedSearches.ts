@@ -0,0 +1,55 @@
+import {
+  buildCandidateQuery,
+  filtersToSearchParams,
+  normalizeFilters,
+  searchCandidates,
+  tagFilterSelect,
+  type FilterState,
+} from './candidateFilters';
+
+export type SavedSearchVisibility = 'private' | 'organization';
+
+export interface SavedSearch {
+  id: string;
+  organization_id: string;
+  name: string;
+  search_query: string;
+  filters: FilterState;
+  visibility: SavedSearchVisibility;
+  created_by: string;
+  created_at: string;
+}
+
+// Fired after a saved search is created or removed so the sidebar can refresh
+export const SAVED_SEARCHES_CHANGED = 'saved-searches-changed';
+
+export function notifySavedSearchesChanged() {
+  window.dispatchEvent(new Event(SAVED_SEARCHES_CHANGED));
+}
+
+// Fired after candidates or their tags are saved, imported or merged so saved search counts stay current
+export const CANDIDATES_CHANGED = 'candidates-changed';
+
+export function notifyCandidatesChanged() {
+  window.dispatchEvent(new Event(CANDIDATES_CHANGED));
+}
+
+export function toSavedSearch(row: Omit<SavedSearch, 'filters'> & { filters: unknown }): SavedSearch {
+  return { ...row, filters: normalizeFilters(row.filters) };
+}
+
+export function savedSearchPath(search: Pick<SavedSearch, 'search_query' | 'filters'>) {
+  const params = filtersToSearchParams(search.filters, search.search_query).toString();
+  return params ? `/candidates?${params}` : '/candidates';
+}
+
+export async function countSavedSearch(search: Pick<SavedSearch, 'search_query' | 'filters'>) {
+  const query = buildCandidateQuery(
+    searchCandidates(search.search_query, { count: 'exact', head: true }),
+    search.filters
+  );
+
+  const { count, error } = await query.select(`id${tagFilterSelect(search.filters)}`);
+  if (error) throw error;
+  return count ?? 0;
+}
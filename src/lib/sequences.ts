@@ -0,0 +1,234 @@
+import { z } from 'zod';
+import { supabase } from './supabase';
+import type { RecommendedAction } from './recommendations';
+import { templateTypeLabel } from './templates';
+
+export const ENROLLMENT_STATUSES = ['active', 'completed', 'stopped'] as const;
+
+export type EnrollmentStatus = (typeof ENROLLMENT_STATUSES)[number];
+
+export const ENROLLMENT_STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  active: 'Active',
+  completed: 'Completed',
+  stopped: 'Stopped',
+};
+
+export const ENROLLMENT_STATUS_COLORS: Record<EnrollmentStatus, string> = {
+  active: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  stopped: 'bg-gray-100 text-gray-800',
+};
+
+export const STOP_REASON_LABELS: Record<string, string> = {
+  replied: 'Candidate replied',
+  looking_changed: 'Job search status changed',
+  manual: 'Stopped by hand',
+};
+
+export const sequenceStepSchema = z.object({
+  id: z.string().uuid(),
+  template_id: z.string().uuid('Choose a template'),
+  delay_days: z
+    .number({ invalid_type_error: 'Must be a number' })
+    .int()
+    .min(0, 'Cannot be negative'),
+});
+
+export const sequenceSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required'),
+    description: z.string().trim().transform((value) => value || null),
+    steps: z.array(sequenceStepSchema).min(1, 'Add at least one step'),
+  })
+  .refine(
+    ({ steps }) => steps.every((step, index) => index === 0 || step.delay_days >= steps[index - 1].delay_days),
+    { message: 'Each step must come on or after the day of the step before it', path: ['steps'] }
+  );
+
+export type SequenceInput = z.input<typeof sequenceSchema>;
+export type SequenceValues = z.output<typeof sequenceSchema>;
+export type SequenceStepValues = z.output<typeof sequenceStepSchema>;
+
+export interface SequenceStep extends SequenceStepValues {
+  sequence_id: string;
+  position: number;
+  template: { id: string; name: string; type: string } | null;
+}
+
+export interface Sequence {
+  id: string;
+  organization_id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+  steps: SequenceStep[];
+}
+
+export const SEQUENCE_SELECT = `
+  *,
+  steps:sequence_steps (
+    id,
+    sequence_id,
+    position,
+    template_id,
+    delay_days,
+    template:templates (
+      id,
+      name,
+      type
+    )
+  )
+`;
+
+// PostgREST doesn't order embedded rows unless asked, so sort steps here
+export function sortSteps<T extends { steps: SequenceStep[] }>(sequence: T): T {
+  return { ...sequence, steps: [...sequence.steps].sort((a, b) => a.position - b.position) };
+}
+
+export interface SequenceEnrollment {
+  id: string;
+  sequence_id: string;
+  candidate_id: string;
+  status: EnrollmentStatus;
+  stop_reason: string | null;
+  current_step: number;
+  enrolled_at: string;
+  ended_at: string | null;
+}
+
+export interface SequenceTask {
+  id: string;
+  enrollment_id: string;
+  step_id: string;
+  due_at: string;
+  status: 'due' | 'done' | 'skipped';
+  enrollment: SequenceEnrollment & {
+    sequence: { id: string; name: string; organization_id: string };
+    candidate: { id: string; first_name: string; last_name: string };
+  };
+  step: { id: string; position: number; template_id: string; template: { id: string; name: string; type: string } | null };
+}
+
+const SEQUENCE_TASK_SELECT = `
+  id,
+  enrollment_id,
+  step_id,
+  due_at,
+  status,
+  enrollment:sequence_enrollments!inner (
+    *,
+    sequence:sequences!inner (
+      id,
+      name,
+      organization_id
+    ),
+    candidate:candidates (
+      id,
+      first_name,
+      last_name
+    )
+  ),
+  step:sequence_steps (
+    id,
+    position,
+    template_id,
+    template:templates (
+      id,
+      name,
+      type
+    )
+  )
+`;
+
+interface SequenceContext {
+  organizationId: string;
+  userId: string;
+}
+
+// Due steps with their enrollment, candidate and template, filtered on one column of the select
+export function dueSequenceTasksQuery(column: string, value: string) {
+  return supabase
+    .from('sequence_tasks')
+    .select(SEQUENCE_TASK_SELECT)
+    .eq(column, value)
+    .eq('status', 'due')
+    .order('due_at')
+    .overrideTypes<SequenceTask[], { merge: false }>();
+}
+
+/**
+ * Saves a sequence and its steps in one transaction. Steps keep their ids so
+ * tasks already created for them survive reordering; removed steps are deleted.
+ */
+export async function saveSequence(sequenceId: string | null, values: SequenceValues) {
+  const { data, error } = await supabase.rpc('save_sequence', {
+    target_sequence_id: sequenceId,
+    sequence_name: values.name,
+    sequence_description: values.description,
+    steps: values.steps,
+  });
+
+  if (error) throw error;
+  return data as Sequence;
+}
+
+export async function enrollCandidate(sequenceId: string, candidateId: string, context: SequenceContext) {
+  const { error } = await supabase.from('sequence_enrollments').insert([{
+    sequence_id: sequenceId,
+    candidate_id: candidateId,
+    created_by: context.userId,
+    updated_by: context.userId,
+  }]);
+
+  if (error) throw error;
+  // Day 0 steps shouldn't wait for the next scheduler run
+  await runSequenceScheduler();
+}
+
+export async function stopEnrollment(enrollmentId: string, userId: string) {
+  const { error: tasksError } = await supabase
+    .from('sequence_tasks')
+    .update({ status: 'skipped', completed_at: new Date().toISOString(), completed_by: userId })
+    .eq('enrollment_id', enrollmentId)
+    .eq('status', 'due');
+  if (tasksError) throw tasksError;
+
+  const { error } = await supabase
+    .from('sequence_enrollments')
+    .update({ status: 'stopped', stop_reason: 'manual', ended_at: new Date().toISOString(), updated_by: userId })
+    .eq('id', enrollmentId);
+  if (error) throw error;
+}
+
+/**
+ * Closes a due step and moves the enrollment on to the next one, completing
+ * it after the last step.
+ */
+export async function completeTask(taskId: string, outcome: 'done' | 'skipped') {
+  const { error } = await supabase.rpc('complete_sequence_task', { target_task_id: taskId, outcome });
+  if (error) throw error;
+}
+
+// The same function pg_cron runs; calling it from the app picks up anything due right away
+export async function runSequenceScheduler() {
+  const { error } = await supabase.rpc('enqueue_due_sequence_steps');
+  if (error) throw error;
+}
+
+export function sequenceTaskActions(tasks: SequenceTask[]): RecommendedAction[] {
+  return tasks.map((task) => {
+    const template = task.step.template;
+    const step = template ? `${templateTypeLabel(template.type)} "${template.name}"` : 'template unavailable';
+
+    return {
+      id: `sequence:${task.id}`,
+      candidateId: task.enrollment.candidate.id,
+      candidateName: `${task.enrollment.candidate.first_name} ${task.enrollment.candidate.last_name}`,
+      actionType: 'sequence_step',
+      reason: `${task.enrollment.sequence.name}, step ${task.step.position + 1}: ${step}`,
+      priority: 'high',
+      dueDate: task.due_at,
+    };
+  });
+}
@@ -0,0 +1,27 @@
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export const TAG_COLORS = [
+  '#4f46e5',
+  '#0891b2',
+  '#059669',
+  '#65a30d',
+  '#d97706',
+  '#dc2626',
+  '#db2777',
+  '#7c3aed',
+  '#475569',
+];
+
+export const DEFAULT_TAG_COLOR = TAG_COLORS[0];
+
+// PostgREST returns the junction rows, e.g. [{ tags: { id, name, color } }]
+export function flattenCandidateTags(rows: { tags: Tag | null }[] | null | undefined): Tag[] {
+  return (rows ?? [])
+    .map((row) => row.tags)
+    .filter((tag): tag is Tag => Boolean(tag))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
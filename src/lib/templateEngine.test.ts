@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildVariablesMap,
+  findUnknownVariables,
+  parseTemplate,
+  renderTemplate,
+  validateTemplate,
+  type TemplateContext,
+} from './templateEngine';
+
+function context(overrides: Partial<NonNullable<TemplateContext['candidate']>> = {}): TemplateContext {
+  return {
+    candidate: { first_name: 'Ada', last_name: 'Lovelace', current_company: null, ...overrides },
+    sender: { first_name: 'Sam', last_name: 'Rivera', email: 'sam@recruiting.example' },
+  };
+}
+
+describe('variables', () => {
+  it('fills in candidate and sender values', () => {
+    expect(renderTemplate('Hi {firstName}, this is {senderName}', context()).output).toBe(
+      'Hi Ada, this is Sam Rivera'
+    );
+  });
+
+  it('uses the default when the value is empty', () => {
+    const result = renderTemplate('Loved your work at {company|your company}', context());
+    expect(result.output).toBe('Loved your work at your company');
+    expect(result.missing).toEqual([]);
+  });
+
+  it('prefers the value over the default', () => {
+    expect(renderTemplate('{company|your company}', context({ current_company: 'Acme' })).output).toBe('Acme');
+  });
+
+  it('leaves a placeholder with no value and no default visible and reports it', () => {
+    const result = renderTemplate('Hi {firstName} at {company}', context());
+    expect(result.output).toBe('Hi Ada at {company}');
+    expect(result.missing).toEqual(['company']);
+  });
+
+  it('records defaults in the variables map', () => {
+    expect(buildVariablesMap('{firstName} {company|your company} {firstName|there}')).toEqual({
+      firstName: 'there',
+      company: 'your company',
+    });
+  });
+});
+
+describe('conditionals', () => {
+  it('keeps the block when the variable has a value', () => {
+    const template = 'Hi{#if company} from {company}{/if}!';
+    expect(renderTemplate(template, context({ current_company: 'Acme' })).output).toBe('Hi from Acme!');
+    expect(renderTemplate(template, context()).output).toBe('Hi!');
+  });
+
+  it('renders the else branch when the variable is empty', () => {
+    const template = '{#if company}at {company}{else}between roles{/if}';
+    expect(renderTemplate(template, context()).output).toBe('between roles');
+  });
+
+  it('nests', () => {
+    const template = '{#if firstName}{firstName}{#if company} of {company}{/if}{/if}';
+    expect(renderTemplate(template, context()).output).toBe('Ada');
+    expect(renderTemplate(template, context({ current_company: 'Acme' })).output).toBe('Ada of Acme');
+  });
+
+  it('counts the variable a conditional tests as used', () => {
+    expect(buildVariablesMap('{#if company}Hello{/if}')).toEqual({ company: '' });
+  });
+});
+
+describe('unknown variables', () => {
+  it('lists them and leaves them in the output', () => {
+    const result = renderTemplate('Hi {frstName}', context());
+    expect(result.output).toBe('Hi {frstName}');
+    expect(result.unknown).toEqual(['frstName']);
+    expect(findUnknownVariables('Hi {frstName} {firstName}')).toEqual(['frstName']);
+  });
+
+  it('suggests the closest variable and points at the placeholder', () => {
+    expect(validateTemplate('Hi {frstName}')).toEqual([
+      { message: 'Unknown variable "frstName". Did you mean "firstName"?', start: 3, end: 13 },
+    ]);
+  });
+
+  it('points at the whole opening tag of a conditional', () => {
+    const content = 'Hi {#if compny}x{/if}';
+    const [error] = validateTemplate(content);
+    expect(error.message).toBe('Unknown variable "compny". Did you mean "company"?');
+    expect(content.slice(error.start, error.end)).toBe('{#if compny}');
+  });
+});
+
+describe('syntax errors', () => {
+  it('reports a conditional that is never closed at its opening tag', () => {
+    const content = '{#if company}Hello';
+    const { errors } = parseTemplate(content);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toBe('{#if company} is never closed with {/if}');
+    expect(content.slice(errors[0].start, errors[0].end)).toBe('{#if company}');
+  });
+
+  it('reports an unclosed brace and keeps the text', () => {
+    const result = renderTemplate('Hi {firstName', context());
+    expect(result.output).toBe('Hi {firstName');
+    expect(result.errors).toEqual([{ message: 'Unclosed "{"', start: 3, end: 4 }]);
+  });
+
+  it('reports stray else and /if tags', () => {
+    expect(parseTemplate('a{else}b{/if}').errors.map((error) => error.message)).toEqual([
+      '{else} without a matching {#if}',
+      '{/if} without a matching {#if}',
+    ]);
+  });
+
+  it('reports invalid placeholders', () => {
+    expect(parseTemplate('{first name}').errors.map((error) => error.message)).toEqual([
+      '"{first name}" is not a valid placeholder',
+    ]);
+  });
+});
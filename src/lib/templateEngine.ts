@@ -0,0 +1,3 @@
+// Code the app shares with the Edge Functions lives in supabase/functions/_shared,
+// so their deploys bundle it, and is re-exported from a module like this one
+export * from '../../supabase/functions/_shared/templateEngine.ts';
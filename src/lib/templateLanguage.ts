@@ -0,0 +1,152 @@
+import type { Monaco, OnMount } from '@monaco-editor/react';
+import type { editor, languages } from 'monaco-editor';
+import {
+  findVariable,
+  findVariableUsages,
+  parseTemplate,
+  validateTemplate,
+  TEMPLATE_VARIABLES,
+} from './templateEngine';
+
+/*
+ * Monaco support for the template syntax in templateEngine: highlighting,
+ * completion of catalog variable names after "{", hovers with sample values
+ * and error markers for unknown or malformed placeholders.
+ */
+
+export const TEMPLATE_LANGUAGE_ID = 'crm-template';
+
+const MARKER_OWNER = 'template-variables';
+
+// Text before the cursor when it's inside an unfinished placeholder
+const OPEN_PLACEHOLDER = /\{(#if\s+)?([A-Za-z0-9_]*)$/;
+
+let registered = false;
+
+// Pass to the Editor's beforeMount. Monaco is a singleton, so this only runs once
+export function registerTemplateLanguage(monaco: Monaco) {
+  if (registered) return;
+  registered = true;
+
+  monaco.languages.register({ id: TEMPLATE_LANGUAGE_ID });
+
+  monaco.languages.setMonarchTokensProvider(TEMPLATE_LANGUAGE_ID, {
+    tokenizer: {
+      root: [
+        [/\{\s*(#if\s+[A-Za-z0-9_]*|else|\/if)\s*\}/, 'keyword'],
+        [/\{[^{}]*\}/, 'variable'],
+        [/[^{]+/, ''],
+        [/\{/, ''],
+      ],
+    },
+  });
+
+  monaco.languages.registerCompletionItemProvider(TEMPLATE_LANGUAGE_ID, {
+    triggerCharacters: ['{'],
+    provideCompletionItems: (model, position) => {
+      const before = model.getLineContent(position.lineNumber).slice(0, position.column - 1);
+      const match = OPEN_PLACEHOLDER.exec(before);
+      if (!match) return { suggestions: [] };
+
+      const range = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: position.column - match[2].length,
+        endColumn: position.column,
+      };
+      const closed = model.getLineContent(position.lineNumber).charAt(position.column - 1) === '}';
+
+      const suggestions: languages.CompletionItem[] = TEMPLATE_VARIABLES.map((variable) => ({
+        label: variable.name,
+        kind: monaco.languages.CompletionItemKind.Variable,
+        detail: variable.label,
+        documentation: `Sample: ${variable.sample}`,
+        insertText: closed ? variable.name : `${variable.name}}`,
+        range,
+      }));
+
+      // Block keywords only make sense right after the brace
+      if (!match[1] && !match[2]) {
+        suggestions.push(
+          {
+            label: '#if',
+            kind: monaco.languages.CompletionItemKind.Keyword,
+            detail: 'Only include text when a variable has a value',
+            documentation: '{#if company}at {company}{else}...{/if}',
+            insertText: closed ? '#if ${1:variable}' : '#if ${1:variable}}$0{/if}',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            range,
+          },
+          {
+            label: 'else',
+            kind: monaco.languages.CompletionItemKind.Keyword,
+            detail: 'Alternative text for an #if block',
+            insertText: closed ? 'else' : 'else}',
+            range,
+          },
+          {
+            label: '/if',
+            kind: monaco.languages.CompletionItemKind.Keyword,
+            detail: 'Close an #if block',
+            insertText: closed ? '/if' : '/if}',
+            range,
+          }
+        );
+      }
+
+      return { suggestions };
+    },
+  });
+
+  monaco.languages.registerHoverProvider(TEMPLATE_LANGUAGE_ID, {
+    provideHover: (model, position) => {
+      const offset = model.getOffsetAt(position);
+      const usage = findVariableUsages(parseTemplate(model.getValue()).nodes).find(
+        ({ start, end }) => offset >= start && offset < end
+      );
+      if (!usage) return null;
+
+      const start = model.getPositionAt(usage.start);
+      const end = model.getPositionAt(usage.end);
+      const variable = findVariable(usage.name);
+      const source = variable?.source === 'sender' ? 'your profile' : 'the candidate';
+
+      return {
+        range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+        contents: variable
+          ? [
+              { value: `**${variable.name}**: ${variable.label} from ${source}` },
+              { value: `Sample: \`${variable.sample}\`` },
+              ...(usage.fallback ? [{ value: `Default: \`${usage.fallback}\`` }] : []),
+            ]
+          : [{ value: `**${usage.name}** is not a known variable` }],
+      };
+    },
+  });
+}
+
+function updateMarkers(monaco: Monaco, model: editor.ITextModel) {
+  const markers = validateTemplate(model.getValue()).map((error) => {
+    const start = model.getPositionAt(error.start);
+    const end = model.getPositionAt(error.end);
+    return {
+      severity: monaco.MarkerSeverity.Error,
+      message: error.message,
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column,
+    };
+  });
+
+  monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+}
+
+// Pass to the Editor's onMount to keep the error markers in sync with the content
+export const attachTemplateValidation: OnMount = (codeEditor, monaco) => {
+  const model = codeEditor.getModel();
+  if (!model) return;
+
+  updateMarkers(monaco, model);
+  codeEditor.onDidChangeModelContent(() => updateMarkers(monaco, model));
+};
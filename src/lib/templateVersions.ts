@@ -0,0 +1,65 @@
+import { supabase } from './supabase';
+
+export interface TemplateVersion {
+  id: string;
+  template_id: string;
+  version: number;
+  name: string;
+  type: string;
+  content: string;
+  variables: Record<string, string> | null;
+  metadata: Record<string, string> | null;
+  created_at: string;
+  created_by: string | null;
+  author?: {
+    first_name: string | null;
+    last_name: string | null;
+  } | null;
+}
+
+export async function fetchTemplateVersions(templateId: string) {
+  const { data, error } = await supabase
+    .from('template_versions')
+    .select('*, author:profiles(first_name, last_name)')
+    .eq('template_id', templateId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as TemplateVersion[];
+}
+
+/**
+ * Puts an old version's name, type, content and settings back. The database records
+ * this as a new version, so the versions in between stay in the history.
+ */
+export async function restoreTemplateVersion(version: TemplateVersion, userId: string) {
+  const { data, error } = await supabase
+    .from('templates')
+    .update({
+      name: version.name,
+      type: version.type,
+      content: version.content,
+      variables: version.variables,
+      metadata: version.metadata ?? {},
+      updated_by: userId,
+    })
+    .eq('id', version.template_id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function setTemplateDeleted(templateId: string, deleted: boolean, userId: string) {
+  const { error } = await supabase
+    .from('templates')
+    .update(
+      deleted
+        ? { deleted_at: new Date().toISOString(), deleted_by: userId }
+        : { deleted_at: null, deleted_by: null }
+    )
+    .eq('id', templateId);
+
+  if (error) throw error;
+}
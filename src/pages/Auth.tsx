@@ -1,10 +1,16 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Users } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { acceptInvitation, fetchInvitationDetails, type InvitationDetails } from '../lib/members';
+import { memberRoleLabel } from '../lib/roles';
 
 export function Auth() {
-  const [isSignUp, setIsSignUp] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [isSignUp, setIsSignUp] = useState(!!inviteToken);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [firstName, setFirstName] = useState('');
@@ -12,45 +18,57 @@ export function Auth() {
   const [orgName, setOrgName] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const navigate = useNavigate();
+  const { user } = useAuth();
+  // Someone who already has an account accepts from here instead of signing up
+  const acceptingSignedIn = !!inviteToken && !!user;
+
+  // An invite link signs the visitor up into the inviting organization instead of a new one
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    fetchInvitationDetails(inviteToken)
+      .then((details) => {
+        if (!details) {
+          setError('This invitation link is invalid or has expired. Ask an admin to send a new one.');
+          return;
+        }
+        setInvitation(details);
+        setEmail(details.email);
+      })
+      .catch((error) => console.error('Error fetching invitation:', error));
+  }, [inviteToken]);
 
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
+    setNotice(null);
 
     try {
       if (isSignUp) {
-        // Create organization first
-        const { data: orgData, error: orgError } = await supabase
-          .from('organizations')
-          .insert([{ name: orgName }])
-          .select()
-          .single();
-
-        if (orgError) throw orgError;
-
-        // Sign up user
+        // The database creates the organization and admin profile from this metadata
         const { data: authData, error: signUpError } = await supabase.auth.signUp({
           email,
           password,
+          options: {
+            data: invitation
+              ? { first_name: firstName, last_name: lastName, invite_token: inviteToken }
+              : { first_name: firstName, last_name: lastName, org_name: orgName },
+          },
         });
 
         if (signUpError) throw signUpError;
 
-        // Create profile
-        if (authData.user) {
-          const { error: profileError } = await supabase
-            .from('profiles')
-            .insert([{
-              id: authData.user.id,
-              organization_id: orgData.id,
-              first_name: firstName,
-              last_name: lastName,
-              role: 'admin'
-            }]);
-
-          if (profileError) throw profileError;
+        // No session until the email address is confirmed
+        if (!authData.session) {
+          setNotice('Check your email for a link to confirm your account, then sign in.');
+          setIsSignUp(false);
+          // Signing up used the invitation, so signing in must not accept it again
+          setInvitation(null);
+          setSearchParams({}, { replace: true });
+          return;
         }
       } else {
         const { error: signInError } = await supabase.auth.signInWithPassword({
@@ -59,6 +77,7 @@ export function Auth() {
         });
 
         if (signInError) throw signInError;
+        if (invitation && inviteToken) await acceptInvitation(inviteToken);
       }
 
       navigate('/');
@@ -69,6 +88,21 @@ export function Auth() {
     }
   };
 
+  const handleAccept = async () => {
+    if (!inviteToken) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      await acceptInvitation(inviteToken);
+      navigate('/');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not accept the invitation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
       <div className="sm:mx-auto sm:w-full sm:max-w-md">
@@ -76,126 +110,168 @@ export function Auth() {
           <Users className="h-12 w-12 text-indigo-600" />
         </div>
         <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-          {isSignUp ? 'Create your account' : 'Sign in to your account'}
+          {acceptingSignedIn ? 'Accept your invitation' : isSignUp ? 'Create your account' : 'Sign in to your account'}
         </h2>
+        {invitation && (
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Join {invitation.organization_name} as {memberRoleLabel(invitation.role)}
+          </p>
+        )}
       </div>
 
       <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
         <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
-          <form className="space-y-6" onSubmit={handleAuth}>
-            {isSignUp && (
-              <>
+          {acceptingSignedIn ? (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-700">
+                You're signed in as {user?.email}. Accepting moves this account into{' '}
+                {invitation?.organization_name ?? 'the inviting organization'}.
+              </p>
+
+              {error && <div className="text-red-600 text-sm">{error}</div>}
+
+              <button
+                type="button"
+                onClick={handleAccept}
+                disabled={loading || !invitation}
+                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {loading ? 'Processing...' : 'Accept invitation'}
+              </button>
+
+              <button
+                type="button"
+                onClick={() => supabase.auth.signOut()}
+                className="w-full text-center text-sm text-indigo-600 hover:text-indigo-500"
+              >
+                Use a different account
+              </button>
+            </div>
+          ) : (
+            <>
+              <form className="space-y-6" onSubmit={handleAuth}>
+                {isSignUp && (
+                  <>
+                    {!invitation && (
+                      <div>
+                        <label htmlFor="orgName" className="block text-sm font-medium text-gray-700">
+                          Organization Name
+                        </label>
+                        <div className="mt-1">
+                          <input
+                            id="orgName"
+                            name="orgName"
+                            type="text"
+                            required
+                            value={orgName}
+                            onChange={(e) => setOrgName(e.target.value)}
+                            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                          />
+                        </div>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="firstName" className="block text-sm font-medium text-gray-700">
+                          First Name
+                        </label>
+                        <div className="mt-1">
+                          <input
+                            id="firstName"
+                            name="firstName"
+                            type="text"
+                            required
+                            value={firstName}
+                            onChange={(e) => setFirstName(e.target.value)}
+                            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label htmlFor="lastName" className="block text-sm font-medium text-gray-700">
+                          Last Name
+                        </label>
+                        <div className="mt-1">
+                          <input
+                            id="lastName"
+                            name="lastName"
+                            type="text"
+                            required
+                            value={lastName}
+                            onChange={(e) => setLastName(e.target.value)}
+                            className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  </>
+                )}
                 <div>
-                  <label htmlFor="orgName" className="block text-sm font-medium text-gray-700">
-                    Organization Name
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                    Email address
                   </label>
                   <div className="mt-1">
                     <input
-                      id="orgName"
-                      name="orgName"
-                      type="text"
+                      id="email"
+                      name="email"
+                      type="email"
+                      autoComplete="email"
                       required
-                      value={orgName}
-                      onChange={(e) => setOrgName(e.target.value)}
-                      className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      readOnly={!!invitation && isSignUp}
+                      className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm read-only:bg-gray-50"
                     />
                   </div>
                 </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <label htmlFor="firstName" className="block text-sm font-medium text-gray-700">
-                      First Name
-                    </label>
-                    <div className="mt-1">
-                      <input
-                        id="firstName"
-                        name="firstName"
-                        type="text"
-                        required
-                        value={firstName}
-                        onChange={(e) => setFirstName(e.target.value)}
-                        className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                      />
-                    </div>
-                  </div>
-                  <div>
-                    <label htmlFor="lastName" className="block text-sm font-medium text-gray-700">
-                      Last Name
-                    </label>
-                    <div className="mt-1">
-                      <input
-                        id="lastName"
-                        name="lastName"
-                        type="text"
-                        required
-                        value={lastName}
-                        onChange={(e) => setLastName(e.target.value)}
-                        className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                      />
-                    </div>
+
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                    Password
+                  </label>
+                  <div className="mt-1">
+                    <input
+                      id="password"
+                      name="password"
+                      type="password"
+                      autoComplete="current-password"
+                      required
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    />
                   </div>
                 </div>
-              </>
-            )}
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Email address
-              </label>
-              <div className="mt-1">
-                <input
-                  id="email"
-                  name="email"
-                  type="email"
-                  autoComplete="email"
-                  required
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                />
-              </div>
-            </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
-              <div className="mt-1">
-                <input
-                  id="password"
-                  name="password"
-                  type="password"
-                  autoComplete="current-password"
-                  required
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                />
-              </div>
-            </div>
+                {error && (
+                  <div className="text-red-600 text-sm">{error}</div>
+                )}
 
-            {error && (
-              <div className="text-red-600 text-sm">{error}</div>
-            )}
+                {notice && (
+                  <div className="text-green-700 text-sm">{notice}</div>
+                )}
 
-            <div>
-              <button
-                type="submit"
-                disabled={loading}
-                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
-              >
-                {loading ? 'Processing...' : (isSignUp ? 'Sign up' : 'Sign in')}
-              </button>
-            </div>
-          </form>
-
-          <div className="mt-6">
-            <button
-              onClick={() => setIsSignUp(!isSignUp)}
-              className="w-full text-center text-sm text-indigo-600 hover:text-indigo-500"
-            >
-              {isSignUp ? 'Already have an account? Sign in' : "Don't have an account? Sign up"}
-            </button>
-          </div>
+                <div>
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                  >
+                    {loading ? 'Processing...' : (isSignUp ? 'Sign up' : 'Sign in')}
+                  </button>
+                </div>
+              </form>
+
+              <div className="mt-6">
+                <button
+                  onClick={() => setIsSignUp(!isSignUp)}
+                  className="w-full text-center text-sm text-indigo-600 hover:text-indigo-500"
+                >
+                  {isSignUp ? 'Already have an account? Sign in' : "Don't have an account? Sign up"}
+                </button>
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Pause, Play, RotateCcw, Reply } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import {
+  countByStatus,
+  CAMPAIGN_RECIPIENT_SELECT,
+  CAMPAIGN_STATUS_COLORS,
+  CAMPAIGN_STATUS_LABELS,
+  RECIPIENT_STATUSES,
+  RECIPIENT_STATUS_COLORS,
+  RECIPIENT_STATUS_LABELS,
+  type Campaign,
+  type CampaignRecipient,
+  type CampaignStatus,
+} from '../lib/campaigns';
+
+const REFRESH_INTERVAL_MS = 15_000;
+
+interface CampaignWithTemplate extends Campaign {
+  template: { id: string; name: string } | null;
+}
+
+export function CampaignDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [campaign, setCampaign] = useState<CampaignWithTemplate | null>(null);
+  const [recipients, setRecipients] = useState<CampaignRecipient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCampaign = useCallback(async () => {
+    if (!user || !id) return;
+
+    try {
+      const [
+        { data: campaignData, error: campaignError },
+        { data: recipientData, error: recipientError },
+      ] = await Promise.all([
+        supabase
+          .from('campaigns')
+          .select('*, template:templates(id, name)')
+          .eq('id', id)
+          .single(),
+        supabase
+          .from('campaign_recipients')
+          .select(CAMPAIGN_RECIPIENT_SELECT)
+          .eq('campaign_id', id)
+          .order('created_at')
+          .overrideTypes<CampaignRecipient[], { merge: false }>(),
+      ]);
+
+      if (campaignError) throw campaignError;
+      if (recipientError) throw recipientError;
+
+      setCampaign(campaignData);
+      setRecipients(recipientData || []);
+    } catch (error) {
+      console.error('Error fetching campaign:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, id]);
+
+  useEffect(() => {
+    fetchCampaign();
+  }, [fetchCampaign]);
+
+  // The scheduler sends in the background; reload now and then to show progress
+  const status = campaign?.status;
+  useEffect(() => {
+    if (status !== 'sending') return;
+
+    const timer = setInterval(fetchCampaign, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [status, fetchCampaign]);
+
+  const setCampaignStatus = async (next: CampaignStatus) => {
+    if (!user || !campaign) return;
+    setError(null);
+
+    try {
+      const { data, error } = await supabase
+        .from('campaigns')
+        .update({
+          status: next,
+          started_at: campaign.started_at ?? (next === 'sending' ? new Date().toISOString() : null),
+          completed_at: null,
+          updated_by: user.id,
+        })
+        .eq('id', campaign.id)
+        .select('*, template:templates(id, name)')
+        .single();
+
+      if (error) throw error;
+      setCampaign(data);
+    } catch (error) {
+      console.error('Error updating campaign:', error);
+      setError(error instanceof Error ? error.message : 'Could not update campaign');
+    }
+  };
+
+  const updateRecipient = async (recipient: CampaignRecipient, changes: Record<string, unknown>) => {
+    try {
+      const { error } = await supabase.from('campaign_recipients').update(changes).eq('id', recipient.id);
+
+      if (error) throw error;
+      fetchCampaign();
+    } catch (error) {
+      console.error('Error updating recipient:', error);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6">Loading...</div>;
+  }
+
+  if (!campaign) {
+    return (
+      <div className="p-6">
+        <p className="text-gray-500">Campaign not found.</p>
+        <Link to="/campaigns" className="text-indigo-600 hover:text-indigo-900">
+          Back to campaigns
+        </Link>
+      </div>
+    );
+  }
+
+  const counts = countByStatus(recipients);
+
+  return (
+    <div className="p-6">
+      <Link to="/campaigns" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Campaigns
+      </Link>
+
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <div className="flex items-center">
+            <h1 className="text-2xl font-bold text-gray-900">{campaign.name}</h1>
+            <span
+              className={`ml-3 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${CAMPAIGN_STATUS_COLORS[campaign.status]}`}
+            >
+              {CAMPAIGN_STATUS_LABELS[campaign.status]}
+            </span>
+          </div>
+          <p className="mt-1 text-sm text-gray-500">
+            {campaign.template?.name ?? 'Deleted template'} · "{campaign.subject}" ·{' '}
+            {campaign.send_rate_per_minute} per minute
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {campaign.status === 'sending' ? (
+            <button
+              onClick={() => setCampaignStatus('paused')}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Pause className="h-4 w-4 mr-2" />
+              Pause
+            </button>
+          ) : (
+            counts.queued > 0 && (
+              <button
+                onClick={() => setCampaignStatus('sending')}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Play className="h-4 w-4 mr-2" />
+                {campaign.status === 'draft' ? 'Start Sending' : 'Resume'}
+              </button>
+            )
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+        {RECIPIENT_STATUSES.map((recipientStatus) => (
+          <div key={recipientStatus} className="bg-white shadow rounded-lg p-4">
+            <p className="text-sm text-gray-500">{RECIPIENT_STATUS_LABELS[recipientStatus]}</p>
+            <p className="mt-1 text-2xl font-semibold text-gray-900">{counts[recipientStatus]}</p>
+          </div>
+        ))}
+      </div>
+
+      {campaign.status === 'sending' && (
+        <p className="mb-4 text-sm text-gray-500">
+          Messages go out in the background, up to {campaign.send_rate_per_minute} a minute. Pausing stops
+          after the current message.
+        </p>
+      )}
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <ul className="divide-y divide-gray-200">
+          {recipients.map((recipient) => (
+            <li key={recipient.id} className="px-4 py-3 sm:px-6">
+              <div className="flex items-center">
+                <Link
+                  to={`/candidates/${recipient.candidate_id}`}
+                  className="text-sm font-medium text-indigo-600 truncate hover:text-indigo-900"
+                >
+                  {recipient.candidate.first_name} {recipient.candidate.last_name}
+                </Link>
+                <span className="ml-2 text-sm text-gray-500 truncate">{recipient.email}</span>
+                <span
+                  className={`ml-auto px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${RECIPIENT_STATUS_COLORS[recipient.status]}`}
+                >
+                  {RECIPIENT_STATUS_LABELS[recipient.status]}
+                </span>
+                <div className="ml-4 w-6 flex justify-end">
+                  {recipient.status === 'sent' && (
+                    <button
+                      onClick={() =>
+                        updateRecipient(recipient, { status: 'replied', replied_at: new Date().toISOString() })
+                      }
+                      title="Mark as replied"
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      <Reply className="h-4 w-4" />
+                    </button>
+                  )}
+                  {recipient.status === 'failed' && (
+                    <button
+                      onClick={() => updateRecipient(recipient, { status: 'queued', attempted_at: null, error: null })}
+                      title="Queue again"
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {(recipient.error || recipient.sent_at) && (
+                <p className={`mt-1 text-xs ${recipient.error ? 'text-red-600' : 'text-gray-500'}`}>
+                  {recipient.error ?? `Sent ${new Date(recipient.sent_at as string).toLocaleString()}`}
+                  {recipient.replied_at && ` · Replied ${new Date(recipient.replied_at).toLocaleString()}`}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Send } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import {
+  countByStatus,
+  CAMPAIGN_STATUS_COLORS,
+  CAMPAIGN_STATUS_LABELS,
+  RECIPIENT_STATUSES,
+  RECIPIENT_STATUS_COLORS,
+  RECIPIENT_STATUS_LABELS,
+  type Campaign,
+  type RecipientStatus,
+} from '../lib/campaigns';
+
+interface CampaignListItem extends Campaign {
+  counts: Record<RecipientStatus, number>;
+}
+
+export function Campaigns() {
+  const { user } = useAuth();
+  const [campaigns, setCampaigns] = useState<CampaignListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCampaigns = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('campaigns')
+        .select('*, campaign_recipients(status)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setCampaigns(
+        (data || []).map(({ campaign_recipients: recipients, ...campaign }) => ({
+          ...campaign,
+          counts: countByStatus(recipients ?? []),
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching campaigns:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Campaigns</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Start a campaign by selecting candidates on the Candidates page and choosing Email.
+        </p>
+      </div>
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <ul className="divide-y divide-gray-200">
+          {loading ? (
+            <li className="px-4 py-4 sm:px-6">Loading...</li>
+          ) : campaigns.length === 0 ? (
+            <li className="px-4 py-4 sm:px-6 text-gray-500">No campaigns yet</li>
+          ) : (
+            campaigns.map((campaign) => (
+              <li key={campaign.id}>
+                <div className="px-4 py-4 sm:px-6 hover:bg-gray-50">
+                  <div className="flex items-center">
+                    <Send className="h-5 w-5 text-gray-400 mr-2" />
+                    <Link
+                      to={`/campaigns/${campaign.id}`}
+                      className="text-sm font-medium text-indigo-600 truncate hover:text-indigo-900"
+                    >
+                      {campaign.name}
+                    </Link>
+                    <span
+                      className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${CAMPAIGN_STATUS_COLORS[campaign.status]}`}
+                    >
+                      {CAMPAIGN_STATUS_LABELS[campaign.status]}
+                    </span>
+                    <span className="ml-auto text-sm text-gray-500">
+                      Created {new Date(campaign.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {RECIPIENT_STATUSES.map((status) => (
+                      <span
+                        key={status}
+                        className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${RECIPIENT_STATUS_COLORS[status]}`}
+                      >
+                        {RECIPIENT_STATUS_LABELS[status]} {campaign.counts[status]}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,549 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertTriangle, ArrowLeft, Edit, MessageSquare, Mail, Phone, Linkedin, Github, FileText, Globe, Send } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { usePermissions } from '../hooks/usePermissions';
+import { CandidateForm } from '../components/CandidateForm';
+import { ActivityTimeline } from '../components/ActivityTimeline';
+import { LogActivityModal } from '../components/LogActivityModal';
+import { SendEmailModal } from '../components/SendEmailModal';
+import { CandidateSequences } from '../components/CandidateSequences';
+import { MergeCandidatesModal } from '../components/MergeCandidatesModal';
+import { optionLabel, toCandidateValues, type Candidate } from '../lib/candidateSchema';
+import { TagPicker } from '../components/TagPicker';
+import { useTags } from '../hooks/useTags';
+import { flattenCandidateTags, type Tag } from '../lib/tags';
+import type { Activity } from '../lib/activities';
+import { resumeDownloadUrl, resumeFileName } from '../lib/resumes';
+import {
+  dismissDuplicate,
+  fetchOpenDuplicates,
+  DUPLICATE_REASON_LABELS,
+  type CandidateDuplicate,
+} from '../lib/duplicates';
+import { notifyCandidatesChanged } from '../lib/savedSearches';
+
+function formatList(values: string[]) {
+  return values.length > 0 ? values.join(', ') : '—';
+}
+
+function formatAmount(value: number | null, currency: string) {
+  if (value === null) return '—';
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+function DetailSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900 mb-4">{title}</h2>
+      <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-3">{children}</dl>
+    </div>
+  );
+}
+
+function DetailItem({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-sm font-medium text-gray-500">{label}</dt>
+      <dd className="mt-1 text-sm text-gray-900">{value || '—'}</dd>
+    </div>
+  );
+}
+
+export function CandidateDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { can } = usePermissions();
+  const { user } = useAuth();
+  const { tags: organizationTags } = useTags();
+  const [candidate, setCandidate] = useState<Candidate | null>(null);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isLogging, setIsLogging] = useState(false);
+  const [isEmailing, setIsEmailing] = useState(false);
+  const [duplicates, setDuplicates] = useState<CandidateDuplicate[]>([]);
+  const [merging, setMerging] = useState<CandidateDuplicate | null>(null);
+
+  const fetchCandidate = useCallback(async () => {
+    if (!user || !id) return;
+
+    try {
+      const [
+        { data: candidateData, error: candidateError },
+        { data: activityData, error: activityError },
+      ] = await Promise.all([
+        supabase
+          .from('candidates')
+          .select(`
+            *,
+            candidate_tags (
+              tags (
+                id,
+                name,
+                color
+              )
+            )
+          `)
+          .eq('id', id)
+          .single(),
+        supabase
+          .from('activities')
+          .select(`
+            *,
+            author:profiles (
+              first_name,
+              last_name
+            )
+          `)
+          .eq('candidate_id', id)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (candidateError) throw candidateError;
+      if (activityError) throw activityError;
+
+      const { candidate_tags: candidateTags, ...candidateRow } = candidateData;
+      setCandidate(candidateRow);
+      setTags(flattenCandidateTags(candidateTags));
+      setActivities(activityData || []);
+      setDuplicates(await fetchOpenDuplicates(id));
+    } catch (error) {
+      console.error('Error fetching candidate:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, id]);
+
+  useEffect(() => {
+    fetchCandidate();
+  }, [fetchCandidate]);
+
+  const handleToggleTag = async (tag: Tag, selected: boolean) => {
+    if (!user || !id) return;
+
+    try {
+      const { error } = selected
+        ? await supabase
+            .from('candidate_tags')
+            .insert([{ candidate_id: id, tag_id: tag.id, created_by: user.id }])
+        : await supabase
+            .from('candidate_tags')
+            .delete()
+            .eq('candidate_id', id)
+            .eq('tag_id', tag.id);
+
+      if (error) throw error;
+      notifyCandidatesChanged();
+      setTags(
+        selected
+          ? [...tags, tag].sort((a, b) => a.name.localeCompare(b.name))
+          : tags.filter((t) => t.id !== tag.id)
+      );
+    } catch (error) {
+      console.error('Error updating candidate tags:', error);
+    }
+  };
+
+  const handleDismissDuplicate = async (duplicate: CandidateDuplicate) => {
+    if (!user) return;
+
+    try {
+      await dismissDuplicate(duplicate.id, user.id);
+      setDuplicates(duplicates.filter((item) => item.id !== duplicate.id));
+    } catch (error) {
+      console.error('Error dismissing duplicate:', error);
+    }
+  };
+
+  const handleOpenResume = async () => {
+    if (!candidate?.resume_path) return;
+
+    try {
+      window.open(await resumeDownloadUrl(candidate.resume_path), '_blank', 'noreferrer');
+    } catch (error) {
+      console.error('Error opening resume:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (!candidate) {
+    return (
+      <div className="p-6">
+        <Link to="/candidates" className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to candidates
+        </Link>
+        <p className="mt-4 text-gray-500">Candidate not found.</p>
+      </div>
+    );
+  }
+
+  const values = toCandidateValues(candidate);
+  const comp = values.compensation_expectations;
+  const workplace = values.workplace_preferences;
+  const visa = values.visa_requirements;
+  const nurturing = values.nurturing_info;
+  const location = [values.current_location.city, values.current_location.state, values.current_location.country]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <Link to="/candidates" className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to candidates
+      </Link>
+
+      <div className="mt-4 mb-6 flex items-start justify-between">
+        <div>
+          <div className="flex items-center">
+            <h1 className="text-2xl font-bold text-gray-900">
+              {candidate.first_name} {candidate.last_name}
+            </h1>
+            {candidate.is_active_looking && (
+              <span className="ml-3 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                Active
+              </span>
+            )}
+          </div>
+          {(values.current_job_title || values.current_company) && (
+            <p className="mt-1 text-sm text-gray-500">
+              {[values.current_job_title, values.current_company].filter(Boolean).join(' at ')}
+            </p>
+          )}
+          {tags.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {tags.map((tag) => (
+                <span
+                  key={tag.id}
+                  className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium"
+                  style={{
+                    backgroundColor: `${tag.color}20`,
+                    color: tag.color,
+                  }}
+                >
+                  {tag.name}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center space-x-3">
+          {can('tags.manage') && (
+            <TagPicker
+              tags={organizationTags}
+              label="Tags"
+              selectedIds={tags.map((tag) => tag.id)}
+              onSelect={handleToggleTag}
+            />
+          )}
+          {can('outreach.send') && (
+            <button
+              onClick={() => setIsEmailing(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Send Email
+            </button>
+          )}
+          {can('activities.log') && (
+            <button
+              onClick={() => setIsLogging(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <MessageSquare className="h-4 w-4 mr-2" />
+              Log Activity
+            </button>
+          )}
+          {can('candidates.edit') && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </button>
+          )}
+        </div>
+      </div>
+
+      {duplicates.map((duplicate) => {
+        const other = duplicate.candidate_id === candidate.id ? duplicate.duplicate : duplicate.candidate;
+        return (
+          <div key={duplicate.id} className="mb-4 flex items-center justify-between rounded-md bg-yellow-50 p-4">
+            <p className="flex items-center text-sm text-yellow-800">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              Possible duplicate of
+              <Link to={`/candidates/${other.id}`} className="mx-1 font-medium underline">
+                {other.first_name} {other.last_name}
+              </Link>
+              ({duplicate.reasons.map((reason) => DUPLICATE_REASON_LABELS[reason] ?? reason).join(', ')})
+            </p>
+            {can('candidates.edit') && (
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => handleDismissDuplicate(duplicate)}
+                  className="text-sm text-yellow-800 hover:text-yellow-900"
+                >
+                  Not a duplicate
+                </button>
+                <button
+                  onClick={() => setMerging(duplicate)}
+                  className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+                >
+                  Review &amp; Merge
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <DetailSection title="Contact">
+            <DetailItem
+              label="Personal Email"
+              value={
+                values.personal_email && (
+                  <a href={`mailto:${values.personal_email}`} className="inline-flex items-center text-indigo-600">
+                    <Mail className="h-4 w-4 mr-1" />
+                    {values.personal_email}
+                  </a>
+                )
+              }
+            />
+            <DetailItem
+              label="Work Email"
+              value={
+                values.work_email && (
+                  <a href={`mailto:${values.work_email}`} className="inline-flex items-center text-indigo-600">
+                    <Mail className="h-4 w-4 mr-1" />
+                    {values.work_email}
+                  </a>
+                )
+              }
+            />
+            <DetailItem
+              label="Phone"
+              value={
+                values.phone && (
+                  <a href={`tel:${values.phone}`} className="inline-flex items-center text-indigo-600">
+                    <Phone className="h-4 w-4 mr-1" />
+                    {values.phone}
+                  </a>
+                )
+              }
+            />
+            <DetailItem label="Relationship" value={optionLabel(values.relationship_type)} />
+            <DetailItem
+              label="LinkedIn"
+              value={
+                values.linkedin_url && (
+                  <a href={values.linkedin_url} target="_blank" rel="noreferrer" className="inline-flex items-center text-indigo-600">
+                    <Linkedin className="h-4 w-4 mr-1" />
+                    Profile
+                  </a>
+                )
+              }
+            />
+            <DetailItem
+              label="GitHub"
+              value={
+                values.github_url && (
+                  <a href={values.github_url} target="_blank" rel="noreferrer" className="inline-flex items-center text-indigo-600">
+                    <Github className="h-4 w-4 mr-1" />
+                    Profile
+                  </a>
+                )
+              }
+            />
+            <DetailItem
+              label="Resume"
+              value={
+                values.resume_path ? (
+                  <button onClick={handleOpenResume} className="inline-flex items-center text-indigo-600">
+                    <FileText className="h-4 w-4 mr-1" />
+                    {resumeFileName(values.resume_path)}
+                  </button>
+                ) : (
+                  values.resume_url && (
+                    <a href={values.resume_url} target="_blank" rel="noreferrer" className="inline-flex items-center text-indigo-600">
+                      <FileText className="h-4 w-4 mr-1" />
+                      View resume
+                    </a>
+                  )
+                )
+              }
+            />
+            <DetailItem
+              label="Other Links"
+              value={
+                values.other_social_urls.length > 0 && (
+                  <ul className="space-y-1">
+                    {values.other_social_urls.map((link) => (
+                      <li key={link.url}>
+                        <a href={link.url} target="_blank" rel="noreferrer" className="inline-flex items-center text-indigo-600">
+                          <Globe className="h-4 w-4 mr-1" />
+                          {link.label}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                )
+              }
+            />
+          </DetailSection>
+
+          <DetailSection title="Career">
+            <DetailItem label="Functional Role" value={optionLabel(values.functional_role)} />
+            <DetailItem label="Employment Status" value={optionLabel(values.employment_status)} />
+            <DetailItem label="Industry" value={values.current_industry} />
+            <DetailItem label="Company Size" value={values.current_company_size} />
+            <DetailItem label="Tech Stack" value={formatList(values.tech_stack)} />
+            <DetailItem label="Past Job Titles" value={formatList(values.past_job_titles)} />
+            <DetailItem label="Past Companies" value={formatList(values.past_companies)} />
+            <DetailItem label="Past Industries" value={formatList(values.past_industries)} />
+            <DetailItem label="Past Company Sizes" value={formatList(values.past_company_sizes)} />
+            <DetailItem
+              label="Education"
+              value={
+                values.schools.length > 0 && (
+                  <ul className="space-y-1">
+                    {values.schools.map((school, index) => (
+                      <li key={index}>
+                        {school.name}
+                        {(school.degree || school.field_of_study) && (
+                          <span className="text-gray-500">
+                            {' '}
+                            — {[school.degree, school.field_of_study].filter(Boolean).join(', ')}
+                          </span>
+                        )}
+                        {school.graduation_year && <span className="text-gray-500"> ({school.graduation_year})</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )
+              }
+            />
+          </DetailSection>
+
+          <DetailSection title="Preferences">
+            <DetailItem label="Location" value={location} />
+            <DetailItem label="Location Category" value={optionLabel(values.current_location.category)} />
+            <DetailItem
+              label="Workplace"
+              value={workplace.arrangements.map((arrangement) => optionLabel(arrangement)).join(', ')}
+            />
+            <DetailItem label="Willing to Relocate" value={workplace.willing_to_relocate ? 'Yes' : 'No'} />
+            <DetailItem label="Preferred Locations" value={formatList(workplace.preferred_locations)} />
+            <DetailItem label="Workplace Notes" value={workplace.notes} />
+            <DetailItem label="Current Base" value={formatAmount(comp.current_base, comp.currency)} />
+            <DetailItem
+              label="Desired Base"
+              value={
+                comp.desired_base_min !== null || comp.desired_base_max !== null
+                  ? `${formatAmount(comp.desired_base_min, comp.currency)} – ${formatAmount(comp.desired_base_max, comp.currency)}`
+                  : null
+              }
+            />
+            <DetailItem label="Open to Equity" value={comp.open_to_equity ? 'Yes' : 'No'} />
+            <DetailItem label="Compensation Notes" value={comp.notes} />
+            <DetailItem label="Must Haves" value={formatList(values.must_haves)} />
+            <DetailItem label="Motivation Factors" value={formatList(values.motivation_factors)} />
+          </DetailSection>
+        </div>
+
+        <div className="space-y-6">
+          <DetailSection title="Search Status">
+            <DetailItem label="Actively Looking" value={values.is_active_looking ? 'Yes' : 'No'} />
+            <DetailItem label="Urgency" value={optionLabel(values.urgency_level)} />
+            <DetailItem label="Requires Sponsorship" value={visa.requires_sponsorship ? 'Yes' : 'No'} />
+            <DetailItem label="Visa Status" value={visa.current_status} />
+            <DetailItem label="Authorized Countries" value={formatList(visa.authorized_countries)} />
+            <DetailItem label="Visa Notes" value={visa.notes} />
+            <DetailItem
+              label="Last Contacted"
+              value={nurturing.last_contacted_at && new Date(nurturing.last_contacted_at).toLocaleDateString()}
+            />
+            <DetailItem
+              label="Next Follow Up"
+              value={nurturing.next_follow_up_at && new Date(nurturing.next_follow_up_at).toLocaleDateString()}
+            />
+            <DetailItem
+              label="Contact Every"
+              value={nurturing.contact_frequency_days && `${nurturing.contact_frequency_days} days`}
+            />
+            <DetailItem label="Nurturing Notes" value={nurturing.notes} />
+          </DetailSection>
+
+          <CandidateSequences candidate={candidate} onActivity={fetchCandidate} />
+
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Activity</h2>
+            <ActivityTimeline activities={activities} />
+          </div>
+        </div>
+      </div>
+
+      {isEditing && (
+        <CandidateForm
+          candidate={candidate}
+          onClose={() => setIsEditing(false)}
+          onSaved={() => {
+            setIsEditing(false);
+            fetchCandidate();
+          }}
+        />
+      )}
+
+      {isLogging && (
+        <LogActivityModal
+          candidate={candidate}
+          onClose={() => setIsLogging(false)}
+          onLogged={() => {
+            setIsLogging(false);
+            fetchCandidate();
+          }}
+        />
+      )}
+
+      {merging && (
+        <MergeCandidatesModal
+          duplicate={merging}
+          onClose={() => setMerging(null)}
+          onMerged={(survivorId) => {
+            setMerging(null);
+            if (survivorId === candidate.id) fetchCandidate();
+            else navigate(`/candidates/${survivorId}`);
+          }}
+        />
+      )}
+
+      {isEmailing && (
+        <SendEmailModal
+          candidate={candidate}
+          onClose={() => setIsEmailing(false)}
+          onSent={() => {
+            setIsEmailing(false);
+            fetchCandidate();
+          }}
+        />
+      )}
+    </div>
+  );
+}
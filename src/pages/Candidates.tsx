@@ -1,103 +1,129 @@
-import React, { useState, useEffect } from 'react';
-import { Search, Filter, Plus, ChevronDown, Tags, MapPin, Building, Mail, Phone, Briefcase } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Search, Filter, Plus, ChevronDown, Tags, MapPin, Building, Mail, Phone, Briefcase, Edit, MessageSquare, Bookmark, Send, Upload, Copy } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { usePermissions } from '../hooks/usePermissions';
+import { CandidateForm } from '../components/CandidateForm';
+import { LogActivityModal } from '../components/LogActivityModal';
+import { TagPicker } from '../components/TagPicker';
+import { CandidateFilterPanel } from '../components/CandidateFilterPanel';
+import { SaveSearchModal } from '../components/SaveSearchModal';
+import { CampaignBuilder } from '../components/CampaignBuilder';
+import { CandidateImport } from '../components/CandidateImport';
+import { useTags } from '../hooks/useTags';
+import { optionLabel, type Candidate } from '../lib/candidateSchema';
+import { flattenCandidateTags, type Tag } from '../lib/tags';
+import { countOpenDuplicates } from '../lib/duplicates';
+import {
+  activeFilterCount,
+  buildCandidateQuery,
+  searchCandidates,
+  tagFilterSelect,
+  filtersToSearchParams,
+  searchParamsToFilters,
+  SEARCH_PARAM,
+  type FilterState,
+} from '../lib/candidateFilters';
+import { notifyCandidatesChanged } from '../lib/savedSearches';
 
-interface Candidate {
-  id: string;
-  first_name: string;
-  last_name: string;
-  personal_email: string;
-  work_email: string;
-  phone: string;
-  linkedin_url: string;
-  github_url: string;
-  current_job_title: string;
-  current_company: string;
-  current_location: {
-    city: string;
-    category: string;
-  };
-  relationship_type: string;
-  functional_role: string;
-  is_active_looking: boolean;
-  tech_stack: string[];
-  tags: {
-    id: string;
-    name: string;
-    color: string;
-  }[];
+interface CandidateListItem extends Candidate {
+  tags: Tag[];
 }
 
-interface FilterState {
-  relationship_type: string[];
-  functional_role: string[];
-  is_active_looking: boolean | null;
-  location_category: string[];
+interface CandidateListRow extends Candidate {
+  tags: { tags: Tag | null }[];
 }
 
+const CANDIDATE_LIST_SELECT = `
+  *,
+  tags:candidate_tags (
+    tags (
+      id,
+      name,
+      color
+    )
+  )
+`;
+
 export function Candidates() {
   const { user } = useAuth();
-  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const { can } = usePermissions();
+  const { tags: organizationTags } = useTags();
+  const [candidates, setCandidates] = useState<CandidateListItem[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [filters, setFilters] = useState<FilterState>({
-    relationship_type: [],
-    functional_role: [],
-    is_active_looking: null,
-    location_category: [],
-  });
-  const [showFilters, setShowFilters] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Filters live in the query string so a filtered view can be bookmarked
+  const searchQuery = searchParams.get(SEARCH_PARAM) ?? '';
+  const filters = searchParamsToFilters(searchParams);
+  const filterKey = searchParams.toString();
+  const [showFilters, setShowFilters] = useState(() => activeFilterCount(filters) > 0);
+  const [showForm, setShowForm] = useState(false);
+  const [editingCandidate, setEditingCandidate] = useState<Candidate | null>(null);
+  const [loggingCandidate, setLoggingCandidate] = useState<Candidate | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showSaveSearch, setShowSaveSearch] = useState(false);
+  const [showCampaign, setShowCampaign] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [duplicateCount, setDuplicateCount] = useState(0);
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const searchTimeout = useRef<ReturnType<typeof setTimeout>>();
 
   useEffect(() => {
     fetchCandidates();
-  }, [user, searchQuery, filters]);
+  }, [user, filterKey]);
+
+  // Follow searches that arrive through the URL, e.g. opening a smart list
+  useEffect(() => {
+    setSearchInput(searchQuery);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    return () => clearTimeout(searchTimeout.current);
+  }, []);
+
+  // Only push the search into the URL (and so the query) once typing pauses
+  const handleSearchChange = (value: string) => {
+    setSearchInput(value);
+    clearTimeout(searchTimeout.current);
+    searchTimeout.current = setTimeout(() => {
+      setSearchParams((current) => {
+        const next = new URLSearchParams(current);
+        if (value.trim()) {
+          next.set(SEARCH_PARAM, value);
+        } else {
+          next.delete(SEARCH_PARAM);
+        }
+        return next;
+      }, { replace: true });
+    }, 300);
+  };
+
+  const setFilters = (value: FilterState) => {
+    setSearchParams(filtersToSearchParams(value, searchQuery), { replace: true });
+  };
 
   async function fetchCandidates() {
     if (!user) return;
 
     try {
-      let query = supabase
-        .from('candidates')
-        .select(`
-          *,
-          tags:candidate_tags (
-            tags (
-              id,
-              name,
-              color
-            )
-          )
-        `);
-
-      // Apply search
-      if (searchQuery) {
-        query = query.or(`
-          first_name.ilike.%${searchQuery}%,
-          last_name.ilike.%${searchQuery}%,
-          current_company.ilike.%${searchQuery}%,
-          current_job_title.ilike.%${searchQuery}%
-        `);
-      }
-
-      // Apply filters
-      if (filters.relationship_type.length > 0) {
-        query = query.in('relationship_type', filters.relationship_type);
-      }
-      if (filters.functional_role.length > 0) {
-        query = query.in('functional_role', filters.functional_role);
-      }
-      if (filters.is_active_looking !== null) {
-        query = query.eq('is_active_looking', filters.is_active_looking);
-      }
-      if (filters.location_category.length > 0) {
-        query = query.containedBy('current_location->category', filters.location_category);
-      }
-
-      const { data, error } = await query;
+      // Apply search and filters
+      let query = searchCandidates(searchQuery);
+      query = buildCandidateQuery(query, filters);
+
+      const { data, error } = await query
+        .select(`${CANDIDATE_LIST_SELECT}${tagFilterSelect(filters)}`)
+        .overrideTypes<CandidateListRow[], { merge: false }>();
 
       if (error) throw error;
-      setCandidates(data || []);
+      const rows: CandidateListItem[] = (data || []).map((row) => ({
+        ...row,
+        tags: flattenCandidateTags(row.tags),
+      }));
+      setCandidates(rows);
+      setSelectedIds((current) => current.filter((id) => rows.some((row) => row.id === id)));
+      // New candidates are checked for duplicates as they are saved
+      setDuplicateCount(await countOpenDuplicates());
     } catch (error) {
       console.error('Error fetching candidates:', error);
     } finally {
@@ -105,16 +131,77 @@ export function Candidates() {
     }
   }
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds(
+      selectedIds.includes(id) ? selectedIds.filter((selected) => selected !== id) : [...selectedIds, id]
+    );
+  };
+
+  const handleBulkTag = async (tag: Tag, add: boolean) => {
+    if (!user || selectedIds.length === 0) return;
+
+    try {
+      const { error } = add
+        ? await supabase
+            .from('candidate_tags')
+            .upsert(
+              selectedIds.map((candidateId) => ({
+                candidate_id: candidateId,
+                tag_id: tag.id,
+                created_by: user.id,
+              })),
+              { onConflict: 'candidate_id,tag_id', ignoreDuplicates: true }
+            )
+        : await supabase
+            .from('candidate_tags')
+            .delete()
+            .eq('tag_id', tag.id)
+            .in('candidate_id', selectedIds);
+
+      if (error) throw error;
+      notifyCandidatesChanged();
+      fetchCandidates();
+    } catch (error) {
+      console.error('Error updating tags:', error);
+    }
+  };
+
   return (
     <div className="p-6">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Candidates</h1>
-        <button
-          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Candidate
-        </button>
+        <div className="flex space-x-3">
+          {duplicateCount > 0 && (
+            <Link
+              to="/candidates/duplicates"
+              className="inline-flex items-center px-4 py-2 border border-yellow-300 rounded-md shadow-sm text-sm font-medium text-yellow-800 bg-yellow-50 hover:bg-yellow-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              {duplicateCount} Possible Duplicate{duplicateCount === 1 ? '' : 's'}
+            </Link>
+          )}
+          {can('candidates.edit') && (
+            <>
+              <button
+                onClick={() => setShowImport(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </button>
+              <button
+                onClick={() => {
+                  setEditingCandidate(null);
+                  setShowForm(true);
+                }}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Candidate
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       <div className="mb-6 flex flex-col sm:flex-row gap-4">
@@ -125,8 +212,8 @@ export function Candidates() {
             <input
               type="text"
               placeholder="Search candidates..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              value={searchInput}
+              onChange={(e) => handleSearchChange(e.target.value)}
               className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
             />
           </div>
@@ -139,35 +226,60 @@ export function Candidates() {
         >
           <Filter className="h-4 w-4 mr-2" />
           Filters
+          {activeFilterCount(filters) > 0 && (
+            <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-indigo-100 text-indigo-800">
+              {activeFilterCount(filters)}
+            </span>
+          )}
           <ChevronDown className="h-4 w-4 ml-2" />
         </button>
+
+        {/* Save Search Button */}
+        {can('searches.save') && (
+          <button
+            onClick={() => setShowSaveSearch(true)}
+            disabled={!searchQuery && activeFilterCount(filters) === 0}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            <Bookmark className="h-4 w-4 mr-2" />
+            Save Search
+          </button>
+        )}
       </div>
 
       {/* Filter Panel */}
       {showFilters && (
-        <div className="mb-6 p-4 bg-white rounded-lg shadow">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            {/* Relationship Type Filter */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Relationship Type
-              </label>
-              <select
-                multiple
-                value={filters.relationship_type}
-                onChange={(e) => setFilters({
-                  ...filters,
-                  relationship_type: Array.from(e.target.selectedOptions, option => option.value)
-                })}
-                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
-              >
-                <option value="candidate">Candidate</option>
-                <option value="client">Client</option>
-                <option value="both">Both</option>
-              </select>
-            </div>
+        <CandidateFilterPanel filters={filters} tags={organizationTags} onChange={setFilters} />
+      )}
 
-            {/* More filters... */}
+      {/* Bulk Actions */}
+      {candidates.length > 0 && (
+        <div className="mb-2 flex items-center justify-between px-4 py-2 bg-white shadow sm:rounded-md">
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={selectedIds.length === candidates.length}
+              onChange={(e) => setSelectedIds(e.target.checked ? candidates.map((c) => c.id) : [])}
+              className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            {selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Select all'}
+          </label>
+          <div className="flex items-center space-x-2">
+            {selectedIds.length > 0 && can('tags.manage') && (
+              <>
+                <TagPicker tags={organizationTags} label="Add tag" onSelect={(tag) => handleBulkTag(tag, true)} />
+                <TagPicker tags={organizationTags} label="Remove tag" onSelect={(tag) => handleBulkTag(tag, false)} />
+              </>
+            )}
+            {can('outreach.send') && (
+              <button
+                onClick={() => setShowCampaign(true)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                <Send className="h-4 w-4 mr-2" />
+                {selectedIds.length > 0 ? `Email ${selectedIds.length} selected` : `Email all ${candidates.length}`}
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -186,9 +298,18 @@ export function Candidates() {
                   <div className="flex items-center justify-between">
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center">
-                        <p className="text-sm font-medium text-indigo-600 truncate">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(candidate.id)}
+                          onChange={() => toggleSelected(candidate.id)}
+                          className="mr-3 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <Link
+                          to={`/candidates/${candidate.id}`}
+                          className="text-sm font-medium text-indigo-600 truncate hover:text-indigo-900"
+                        >
                           {candidate.first_name} {candidate.last_name}
-                        </p>
+                        </Link>
                         {candidate.is_active_looking && (
                           <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
                             Active
@@ -201,6 +322,26 @@ export function Candidates() {
                       </div>
                     </div>
                     <div className="flex items-center space-x-4">
+                      {can('activities.log') && (
+                        <button
+                          onClick={() => setLoggingCandidate(candidate)}
+                          title="Log activity"
+                          className="text-gray-400 hover:text-gray-600"
+                        >
+                          <MessageSquare className="h-5 w-5" />
+                        </button>
+                      )}
+                      {can('candidates.edit') && (
+                        <button
+                          onClick={() => {
+                            setEditingCandidate(candidate);
+                            setShowForm(true);
+                          }}
+                          className="text-gray-400 hover:text-gray-600"
+                        >
+                          <Edit className="h-5 w-5" />
+                        </button>
+                      )}
                       {candidate.phone && (
                         <Phone className="h-5 w-5 text-gray-400 hover:text-gray-600 cursor-pointer" />
                       )}
@@ -212,9 +353,9 @@ export function Candidates() {
                   <div className="mt-2">
                     <div className="flex items-center space-x-2 text-sm text-gray-500">
                       <MapPin className="flex-shrink-0 h-4 w-4 text-gray-400" />
-                      <span>{candidate.current_location.city}</span>
+                      <span>{candidate.current_location?.city}</span>
                       <Building className="flex-shrink-0 h-4 w-4 text-gray-400 ml-4" />
-                      <span>{candidate.functional_role}</span>
+                      <span>{optionLabel(candidate.functional_role)}</span>
                       {candidate.tech_stack && candidate.tech_stack.length > 0 && (
                         <>
                           <Tags className="flex-shrink-0 h-4 w-4 text-gray-400 ml-4" />
@@ -245,6 +386,43 @@ export function Candidates() {
           )}
         </ul>
       </div>
+
+      {showForm && (
+        <CandidateForm
+          candidate={editingCandidate}
+          onClose={() => setShowForm(false)}
+          onSaved={() => {
+            setShowForm(false);
+            fetchCandidates();
+          }}
+        />
+      )}
+
+      {showImport && <CandidateImport onClose={() => setShowImport(false)} onImported={fetchCandidates} />}
+
+      {showSaveSearch && (
+        <SaveSearchModal
+          searchQuery={searchQuery}
+          filters={filters}
+          onClose={() => setShowSaveSearch(false)}
+        />
+      )}
+
+      {/* Selected candidates, or everyone matching the current search and filters */}
+      {showCampaign && (
+        <CampaignBuilder
+          candidates={selectedIds.length > 0 ? candidates.filter((c) => selectedIds.includes(c.id)) : candidates}
+          onClose={() => setShowCampaign(false)}
+        />
+      )}
+
+      {loggingCandidate && (
+        <LogActivityModal
+          candidate={loggingCandidate}
+          onClose={() => setLoggingCandidate(null)}
+          onLogged={() => setLoggingCandidate(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,23 +1,24 @@
 import React, { useEffect, useState } from 'react';
-import { Bell, Users, Calendar, Briefcase, ArrowUpRight, Clock, Mail } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { Link } from 'react-router-dom';
+import { Bell, Users, Calendar, Briefcase, ArrowUpRight, Clock, Mail, Phone } from 'lucide-react';
+import { fetchAllPages, supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import {
+  buildRecommendedActions,
+  compareActions,
+  parseRecommendationSettings,
+  type RecommendationCandidate,
+  type RecommendedAction,
+} from '../lib/recommendations';
+import { countByStage, countOpenPipelineStages, PIPELINE_STAGES, STAGE_LABELS, type PipelineStage } from '../lib/pipeline';
+import { dueSequenceTasksQuery, sequenceTaskActions } from '../lib/sequences';
 
 interface DashboardStats {
   totalCandidates: number;
   activeSearching: number;
   recentActivities: number;
   pendingActions: number;
-}
-
-interface RecommendedAction {
-  id: string;
-  candidateId: string;
-  candidateName: string;
-  actionType: string;
-  reason: string;
-  priority: 'high' | 'medium' | 'low';
-  dueDate?: string;
+  pipeline: Record<PipelineStage, number>;
 }
 
 interface RecentActivity {
@@ -36,6 +37,7 @@ export function Dashboard() {
     activeSearching: 0,
     recentActivities: 0,
     pendingActions: 0,
+    pipeline: countByStage([]),
   });
   const [recommendedActions, setRecommendedActions] = useState<RecommendedAction[]>([]);
   const [recentActivities, setRecentActivities] = useState<RecentActivity[]>([]);
@@ -60,6 +62,10 @@ export function Dashboard() {
           { count: totalCandidates },
           { count: activeSearching },
           { data: activities },
+          { data: organization },
+          candidates,
+          pipeline,
+          { data: sequenceTasks },
         ] = await Promise.all([
           supabase
             .from('candidates')
@@ -86,6 +92,16 @@ export function Dashboard() {
             .eq('organization_id', profile.organization_id)
             .order('created_at', { ascending: false })
             .limit(5),
+          supabase
+            .from('organizations')
+            .select('recommendation_settings')
+            .eq('id', profile.organization_id)
+            .single(),
+          fetchAllPages<RecommendationCandidate>((from, to) =>
+            supabase.rpc('recommendation_candidates').order('id').range(from, to)
+          ),
+          countOpenPipelineStages(profile.organization_id),
+          dueSequenceTasksQuery('enrollment.sequence.organization_id', profile.organization_id),
         ]);
 
         // Transform activities data
@@ -98,25 +114,21 @@ export function Dashboard() {
           createdAt: activity.created_at,
         })) || [];
 
-        // Generate recommended actions based on activities and candidate data
-        const recommendedActionsData: RecommendedAction[] = [
-          {
-            id: '1',
-            candidateId: '1',
-            candidateName: 'John Doe',
-            actionType: 'follow_up',
-            reason: 'No activity in the last 30 days',
-            priority: 'high',
-            dueDate: new Date(Date.now() + 86400000).toISOString(),
-          },
-          // Add more recommended actions based on your business logic
-        ];
+        // Generate recommended actions from the organization's rules, plus due sequence steps
+        const recommendedActionsData = [
+          ...buildRecommendedActions(
+            candidates,
+            parseRecommendationSettings(organization?.recommendation_settings)
+          ),
+          ...sequenceTaskActions(sequenceTasks || []),
+        ].sort(compareActions);
 
         setStats({
           totalCandidates: totalCandidates || 0,
           activeSearching: activeSearching || 0,
           recentActivities: recentActivitiesData.length,
           pendingActions: recommendedActionsData.length,
+          pipeline,
         });
         setRecentActivities(recentActivitiesData);
         setRecommendedActions(recommendedActionsData);
@@ -214,12 +226,28 @@ export function Dashboard() {
         </div>
       </div>
 
+      {/* Pipeline */}
+      <div className="bg-white shadow rounded-lg p-6 mb-8">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">Open Pipeline</h2>
+        <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 lg:grid-cols-8">
+          {PIPELINE_STAGES.map((stage) => (
+            <div key={stage} className="text-center">
+              <dt className="text-sm font-medium text-gray-500 truncate">{STAGE_LABELS[stage]}</dt>
+              <dd className="mt-1 text-2xl font-semibold text-gray-900">{stats.pipeline[stage]}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Recommended Actions */}
         <div className="bg-white shadow rounded-lg">
           <div className="p-6">
             <h2 className="text-lg font-medium text-gray-900 mb-4">Recommended Actions</h2>
             <div className="space-y-4">
+              {recommendedActions.length === 0 && (
+                <p className="text-sm text-gray-500">You're all caught up.</p>
+              )}
               {recommendedActions.map((action) => (
                 <div
                   key={action.id}
@@ -243,12 +271,13 @@ export function Dashboard() {
                     </div>
                     <p className="mt-1 text-sm text-gray-600">{action.reason}</p>
                     <div className="mt-2">
-                      <button
+                      <Link
+                        to={`/candidates/${action.candidateId}`}
                         className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900"
                       >
                         Take action
                         <ArrowUpRight className="ml-1 h-4 w-4" />
-                      </button>
+                      </Link>
                     </div>
                   </div>
                 </div>
@@ -287,9 +316,12 @@ export function Dashboard() {
                         <div className="min-w-0 flex-1">
                           <div>
                             <div className="text-sm text-gray-500">
-                              <a href="#" className="font-medium text-gray-900">
+                              <Link
+                                to={`/candidates/${activity.candidateId}`}
+                                className="font-medium text-gray-900 hover:text-indigo-600"
+                              >
                                 {activity.candidateName}
-                              </a>{' '}
+                              </Link>{' '}
                               {activity.description}
                             </div>
                             <p className="mt-0.5 text-sm text-gray-500">
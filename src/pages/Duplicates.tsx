@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Copy, RefreshCw } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { usePermissions } from '../hooks/usePermissions';
+import { MergeCandidatesModal } from '../components/MergeCandidatesModal';
+import {
+  dismissDuplicate,
+  fetchOpenDuplicates,
+  scanForDuplicates,
+  DUPLICATE_REASON_LABELS,
+  type CandidateDuplicate,
+} from '../lib/duplicates';
+
+export function Duplicates() {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const [duplicates, setDuplicates] = useState<CandidateDuplicate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [scanning, setScanning] = useState(false);
+  const [merging, setMerging] = useState<CandidateDuplicate | null>(null);
+
+  const fetchDuplicates = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setDuplicates(await fetchOpenDuplicates());
+    } catch (error) {
+      console.error('Error fetching duplicates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, [fetchDuplicates]);
+
+  const handleScan = async () => {
+    setScanning(true);
+    try {
+      await scanForDuplicates();
+      await fetchDuplicates();
+    } catch (error) {
+      console.error('Error scanning for duplicates:', error);
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleDismiss = async (duplicate: CandidateDuplicate) => {
+    if (!user) return;
+
+    try {
+      await dismissDuplicate(duplicate.id, user.id);
+      setDuplicates(duplicates.filter((item) => item.id !== duplicate.id));
+    } catch (error) {
+      console.error('Error dismissing duplicate:', error);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <Link to="/candidates" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to candidates
+      </Link>
+
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Possible Duplicates</h1>
+        {can('candidates.edit') && (
+          <button
+            onClick={handleScan}
+            disabled={scanning}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${scanning ? 'animate-spin' : ''}`} />
+            {scanning ? 'Scanning...' : 'Scan Now'}
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <ul className="divide-y divide-gray-200">
+          {loading ? (
+            <li className="px-4 py-4 sm:px-6">Loading...</li>
+          ) : duplicates.length === 0 ? (
+            <li className="px-4 py-4 sm:px-6 text-gray-500">No possible duplicates</li>
+          ) : (
+            duplicates.map((duplicate) => (
+              <li key={duplicate.id}>
+                <div className="px-4 py-4 sm:px-6 hover:bg-gray-50">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center text-sm">
+                        <Copy className="h-5 w-5 text-gray-400 mr-2" />
+                        {[duplicate.candidate, duplicate.duplicate].map((candidate, index) => (
+                          <span key={candidate.id} className="flex items-center">
+                            {index > 0 && <span className="mx-2 text-gray-400">and</span>}
+                            <Link
+                              to={`/candidates/${candidate.id}`}
+                              className="font-medium text-indigo-600 hover:text-indigo-900"
+                            >
+                              {candidate.first_name} {candidate.last_name}
+                            </Link>
+                            {candidate.current_company && (
+                              <span className="ml-1 text-gray-500">({candidate.current_company})</span>
+                            )}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {duplicate.reasons.map((reason) => (
+                          <span
+                            key={reason}
+                            className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800"
+                          >
+                            {DUPLICATE_REASON_LABELS[reason] ?? reason}
+                          </span>
+                        ))}
+                        <span className="text-xs leading-5 text-gray-500">
+                          Found {new Date(duplicate.detected_at).toLocaleDateString()}
+                        </span>
+                      </div>
+                    </div>
+                    {can('candidates.edit') && (
+                      <div className="flex items-center space-x-3">
+                        <button
+                          onClick={() => handleDismiss(duplicate)}
+                          className="text-sm text-gray-500 hover:text-gray-700"
+                        >
+                          Not a duplicate
+                        </button>
+                        <button
+                          onClick={() => setMerging(duplicate)}
+                          className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                          Review &amp; Merge
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+
+      {merging && (
+        <MergeCandidatesModal
+          duplicate={merging}
+          onClose={() => setMerging(null)}
+          onMerged={() => {
+            setMerging(null);
+            fetchDuplicates();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Edit, Gauge, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { usePermissions } from '../hooks/usePermissions';
+import { JobForm } from '../components/JobForm';
+import { CandidatePicker } from '../components/CandidatePicker';
+import { RequisitionList } from '../components/RequisitionList';
+import { JobMatches } from '../components/JobMatches';
+import { RoleSpecForm } from '../components/RoleSpecForm';
+import { optionLabel, type Candidate } from '../lib/candidateSchema';
+import {
+  formatCompensationBand,
+  formatJobLocation,
+  JOB_SELECT,
+  JOB_STATUS_COLORS,
+  JOB_STATUS_LABELS,
+  type JobWithRelations,
+} from '../lib/jobs';
+
+type AttachedCandidate = Pick<
+  Candidate,
+  'id' | 'first_name' | 'last_name' | 'current_job_title' | 'current_company'
+>;
+
+function formatList(values: string[] | null) {
+  return values && values.length > 0 ? values.join(', ') : '—';
+}
+
+function DetailItem({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-sm font-medium text-gray-500">{label}</dt>
+      <dd className="mt-1 text-sm text-gray-900">{value || '—'}</dd>
+    </div>
+  );
+}
+
+export function JobDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const [job, setJob] = useState<JobWithRelations | null>(null);
+  const [candidates, setCandidates] = useState<AttachedCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isEditingSpec, setIsEditingSpec] = useState(false);
+
+  const fetchJob = useCallback(async () => {
+    if (!user || !id) return;
+
+    try {
+      const [
+        { data: jobData, error: jobError },
+        { data: candidateData, error: candidateError },
+      ] = await Promise.all([
+        supabase.from('jobs').select(JOB_SELECT).eq('id', id).single(),
+        supabase
+          .from('job_candidates')
+          .select(`
+            created_at,
+            candidates (
+              id,
+              first_name,
+              last_name,
+              current_job_title,
+              current_company
+            )
+          `)
+          .eq('job_id', id)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (jobError) throw jobError;
+      if (candidateError) throw candidateError;
+
+      setJob(jobData);
+      setCandidates((candidateData || []).flatMap((row) => row.candidates ?? []));
+    } catch (error) {
+      console.error('Error fetching job:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, id]);
+
+  useEffect(() => {
+    fetchJob();
+  }, [fetchJob]);
+
+  const handleAttach = async (candidate: AttachedCandidate) => {
+    if (!user || !id) return;
+
+    try {
+      const { error } = await supabase
+        .from('job_candidates')
+        .insert([{ job_id: id, candidate_id: candidate.id, created_by: user.id }]);
+
+      if (error) throw error;
+      setCandidates([candidate, ...candidates]);
+    } catch (error) {
+      console.error('Error attaching candidate:', error);
+    }
+  };
+
+  const handleDetach = async (candidate: AttachedCandidate) => {
+    if (!id) return;
+    if (!window.confirm(`Remove ${candidate.first_name} ${candidate.last_name} from this job?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('job_candidates')
+        .delete()
+        .eq('job_id', id)
+        .eq('candidate_id', candidate.id);
+
+      if (error) throw error;
+      setCandidates(candidates.filter((c) => c.id !== candidate.id));
+    } catch (error) {
+      console.error('Error detaching candidate:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (!job) {
+    return (
+      <div className="p-6">
+        <Link to="/jobs" className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to jobs
+        </Link>
+        <p className="mt-4 text-gray-500">Job not found.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <Link to="/jobs" className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to jobs
+      </Link>
+
+      <div className="mt-4 mb-6 flex items-start justify-between">
+        <div>
+          <div className="flex items-center">
+            <h1 className="text-2xl font-bold text-gray-900">{job.title}</h1>
+            <span
+              className={`ml-3 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${JOB_STATUS_COLORS[job.status]}`}
+            >
+              {JOB_STATUS_LABELS[job.status]}
+            </span>
+          </div>
+          {job.company && <p className="mt-1 text-sm text-gray-500">{job.company.name}</p>}
+        </div>
+        <div className="flex items-center space-x-3">
+          {can('jobs.edit') && (
+            <button
+              onClick={() => setIsEditingSpec(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Gauge className="h-4 w-4 mr-2" />
+              Match Criteria
+            </button>
+          )}
+          {can('jobs.edit') && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Role</h2>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-3">
+              <DetailItem
+                label="Client Contact"
+                value={
+                  job.client_contact && (
+                    <Link to={`/candidates/${job.client_contact.id}`} className="text-indigo-600 hover:text-indigo-900">
+                      {job.client_contact.first_name} {job.client_contact.last_name}
+                    </Link>
+                  )
+                }
+              />
+              <DetailItem label="Functional Role" value={optionLabel(job.functional_role)} />
+              <DetailItem label="Location" value={formatJobLocation(job.location)} />
+              <DetailItem label="Workplace Policy" value={optionLabel(job.workplace_policy)} />
+              <DetailItem
+                label="Compensation"
+                value={
+                  formatCompensationBand(job.compensation_band) &&
+                  `${formatCompensationBand(job.compensation_band)}${job.compensation_band?.equity ? ' + equity' : ''}`
+                }
+              />
+              <DetailItem label="Visa Sponsorship" value={job.visa_sponsorship ? 'Available' : 'Not available'} />
+              <DetailItem label="Must-haves" value={formatList(job.must_haves)} />
+              <DetailItem label="Tech Stack" value={formatList(job.tech_stack)} />
+            </dl>
+            {job.description && (
+              <p className="mt-4 text-sm text-gray-700 whitespace-pre-line">{job.description}</p>
+            )}
+          </div>
+
+          <RequisitionList job={job} />
+
+          <JobMatches
+            job={job}
+            attachedIds={candidates.map((candidate) => candidate.id)}
+            onAttach={can('jobs.edit') ? handleAttach : undefined}
+          />
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Candidates</h2>
+          {can('jobs.edit') && (
+            <CandidatePicker
+              placeholder="Attach a candidate..."
+              excludeIds={candidates.map((candidate) => candidate.id)}
+              onSelect={handleAttach}
+            />
+          )}
+          {candidates.length === 0 ? (
+            <p className="mt-4 text-sm text-gray-500">No candidates attached yet.</p>
+          ) : (
+            <ul className="mt-4 divide-y divide-gray-200">
+              {candidates.map((candidate) => (
+                <li key={candidate.id} className="flex items-center justify-between py-3">
+                  <div className="min-w-0">
+                    <Link
+                      to={`/candidates/${candidate.id}`}
+                      className="text-sm font-medium text-indigo-600 hover:text-indigo-900"
+                    >
+                      {candidate.first_name} {candidate.last_name}
+                    </Link>
+                    {(candidate.current_job_title || candidate.current_company) && (
+                      <p className="text-xs text-gray-500 truncate">
+                        {[candidate.current_job_title, candidate.current_company].filter(Boolean).join(' at ')}
+                      </p>
+                    )}
+                  </div>
+                  {can('jobs.edit') && (
+                    <button
+                      onClick={() => handleDetach(candidate)}
+                      title="Remove from job"
+                      className="ml-2 text-gray-400 hover:text-gray-600"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {isEditingSpec && (
+        <RoleSpecForm
+          job={job}
+          onClose={() => setIsEditingSpec(false)}
+          onSaved={() => {
+            setIsEditingSpec(false);
+            fetchJob();
+          }}
+        />
+      )}
+
+      {isEditing && (
+        <JobForm
+          job={job}
+          onClose={() => setIsEditing(false)}
+          onSaved={() => {
+            setIsEditing(false);
+            fetchJob();
+          }}
+        />
+      )}
+    </div>
+  );
+}
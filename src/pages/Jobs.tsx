@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, Building2, MapPin, Users, DollarSign, Edit } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { usePermissions } from '../hooks/usePermissions';
+import { JobForm } from '../components/JobForm';
+import { optionLabel } from '../lib/candidateSchema';
+import {
+  formatCompensationBand,
+  formatJobLocation,
+  JOB_SELECT,
+  JOB_STATUSES,
+  JOB_STATUS_COLORS,
+  JOB_STATUS_LABELS,
+  type Job,
+  type JobStatus,
+  type JobWithRelations,
+} from '../lib/jobs';
+
+interface JobListItem extends JobWithRelations {
+  candidate_count: number;
+}
+
+export function Jobs() {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const [jobs, setJobs] = useState<JobListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<JobStatus | ''>('open');
+  const [showForm, setShowForm] = useState(false);
+  const [editingJob, setEditingJob] = useState<Job | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      let query = supabase
+        .from('jobs')
+        .select(`${JOB_SELECT}, job_candidates(count)`)
+        .order('created_at', { ascending: false });
+
+      if (status) query = query.eq('status', status);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setJobs(
+        (data || []).map(({ job_candidates: attached, ...job }) => ({
+          ...job,
+          candidate_count: attached?.[0]?.count ?? 0,
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, status]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Jobs</h1>
+        {can('jobs.edit') && (
+          <button
+            onClick={() => {
+              setEditingJob(null);
+              setShowForm(true);
+            }}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Job
+          </button>
+        )}
+      </div>
+
+      <div className="mb-6 flex space-x-2">
+        {(['', ...JOB_STATUSES] as const).map((value) => (
+          <button
+            key={value || 'all'}
+            onClick={() => setStatus(value)}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+              status === value ? 'bg-indigo-100 text-indigo-700' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {value ? JOB_STATUS_LABELS[value] : 'All'}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <ul className="divide-y divide-gray-200">
+          {loading ? (
+            <li className="px-4 py-4 sm:px-6">Loading...</li>
+          ) : jobs.length === 0 ? (
+            <li className="px-4 py-4 sm:px-6 text-gray-500">No jobs found</li>
+          ) : (
+            jobs.map((job) => (
+              <li key={job.id}>
+                <div className="px-4 py-4 sm:px-6 hover:bg-gray-50">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center">
+                        <Link
+                          to={`/jobs/${job.id}`}
+                          className="text-sm font-medium text-indigo-600 truncate hover:text-indigo-900"
+                        >
+                          {job.title}
+                        </Link>
+                        <span
+                          className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${JOB_STATUS_COLORS[job.status]}`}
+                        >
+                          {JOB_STATUS_LABELS[job.status]}
+                        </span>
+                      </div>
+                      <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-500">
+                        {job.company && (
+                          <span className="inline-flex items-center">
+                            <Building2 className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
+                            {job.company.name}
+                          </span>
+                        )}
+                        {(formatJobLocation(job.location) || job.workplace_policy) && (
+                          <span className="inline-flex items-center">
+                            <MapPin className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
+                            {[formatJobLocation(job.location), optionLabel(job.workplace_policy)]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </span>
+                        )}
+                        {formatCompensationBand(job.compensation_band) && (
+                          <span className="inline-flex items-center">
+                            <DollarSign className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
+                            {formatCompensationBand(job.compensation_band)}
+                          </span>
+                        )}
+                        <span className="inline-flex items-center">
+                          <Users className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" />
+                          {job.candidate_count} {job.candidate_count === 1 ? 'candidate' : 'candidates'}
+                        </span>
+                      </div>
+                    </div>
+                    {can('jobs.edit') && (
+                      <button
+                        onClick={() => {
+                          setEditingJob(job);
+                          setShowForm(true);
+                        }}
+                        className="text-gray-400 hover:text-gray-600"
+                      >
+                        <Edit className="h-5 w-5" />
+                      </button>
+                    )}
+                  </div>
+                  {job.tech_stack && job.tech_stack.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {job.tech_stack.map((tech) => (
+                        <span
+                          key={tech}
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700"
+                        >
+                          {tech}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+
+      {showForm && (
+        <JobForm
+          job={editingJob}
+          onClose={() => setShowForm(false)}
+          onSaved={() => {
+            setShowForm(false);
+            fetchJobs();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useProfile } from '../hooks/useProfile';
+import { usePermissions } from '../hooks/usePermissions';
+import { CandidatePicker } from '../components/CandidatePicker';
+import type { Candidate } from '../lib/candidateSchema';
+import {
+  addToPipeline,
+  moveToStage,
+  PIPELINE_ENTRY_SELECT,
+  PIPELINE_STAGES,
+  STAGE_LABELS,
+  type PipelineEntry,
+  type PipelineStage,
+  type Requisition,
+} from '../lib/pipeline';
+
+type RequisitionWithJob = Requisition & {
+  job: { id: string; title: string; company: { name: string } | null } | null;
+};
+
+export function Pipeline() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useProfile();
+  const { can } = usePermissions();
+  const canEdit = can('jobs.edit');
+  const [requisition, setRequisition] = useState<RequisitionWithJob | null>(null);
+  const [entries, setEntries] = useState<PipelineEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropStage, setDropStage] = useState<PipelineStage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPipeline = useCallback(async () => {
+    if (!user || !id) return;
+
+    try {
+      const [
+        { data: requisitionData, error: requisitionError },
+        { data: entryData, error: entryError },
+      ] = await Promise.all([
+        supabase
+          .from('requisitions')
+          .select(`
+            *,
+            job:jobs (
+              id,
+              title,
+              company:companies (
+                name
+              )
+            )
+          `)
+          .eq('id', id)
+          .single(),
+        supabase
+          .from('requisition_candidates')
+          .select(PIPELINE_ENTRY_SELECT)
+          .eq('requisition_id', id)
+          .order('stage_changed_at', { ascending: false })
+          .overrideTypes<PipelineEntry[], { merge: false }>(),
+      ]);
+
+      if (requisitionError) throw requisitionError;
+      if (entryError) throw entryError;
+
+      setRequisition(requisitionData);
+      setEntries(entryData || []);
+    } catch (error) {
+      console.error('Error fetching pipeline:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, id]);
+
+  useEffect(() => {
+    fetchPipeline();
+  }, [fetchPipeline]);
+
+  const context = user ? { userId: user.id } : null;
+
+  const handleAdd = async (candidate: Candidate) => {
+    if (!requisition || !context) return;
+
+    setError(null);
+    try {
+      const entry = await addToPipeline(requisition, candidate.id, context);
+      setEntries([entry, ...entries]);
+    } catch (error) {
+      console.error('Error adding candidate to pipeline:', error);
+      setError(error instanceof Error ? error.message : 'Could not add candidate');
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent, stage: PipelineStage) => {
+    e.preventDefault();
+    setDropStage(null);
+    setDraggingId(null);
+
+    const entry = entries.find((item) => item.id === e.dataTransfer.getData('text/plain'));
+    if (!entry || entry.stage === stage || !context) return;
+
+    // Move the card right away and put it back if the update fails
+    const previous = entries;
+    setEntries(entries.map((item) =>
+      item.id === entry.id ? { ...item, stage, stage_changed_at: new Date().toISOString() } : item
+    ));
+    setError(null);
+
+    try {
+      const updated = await moveToStage(entry, stage, context);
+      setEntries((current) => current.map((item) => (item.id === updated.id ? updated : item)));
+    } catch (error) {
+      console.error('Error moving candidate:', error);
+      setError(error instanceof Error ? error.message : 'Could not move candidate');
+      setEntries(previous);
+    }
+  };
+
+  const handleRemove = async (entry: PipelineEntry) => {
+    if (!window.confirm(`Remove ${entry.candidate.first_name} ${entry.candidate.last_name} from this pipeline?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('requisition_candidates').delete().eq('id', entry.id);
+
+      if (error) throw error;
+      setEntries(entries.filter((item) => item.id !== entry.id));
+    } catch (error) {
+      console.error('Error removing candidate from pipeline:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (!requisition) {
+    return (
+      <div className="p-6">
+        <Link to="/jobs" className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to jobs
+        </Link>
+        <p className="mt-4 text-gray-500">Requisition not found.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <Link
+        to={requisition.job ? `/jobs/${requisition.job.id}` : '/jobs'}
+        className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to {requisition.job?.title ?? 'jobs'}
+      </Link>
+
+      <div className="mt-4 mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{requisition.title}</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {[requisition.job?.company?.name, `${requisition.headcount} to hire`, requisition.status === 'closed' && 'Closed']
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        </div>
+        {canEdit && (
+          <div className="w-72">
+            <CandidatePicker
+              placeholder="Add a candidate..."
+              excludeIds={entries.map((entry) => entry.candidate_id)}
+              onSelect={handleAdd}
+            />
+          </div>
+        )}
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {PIPELINE_STAGES.map((stage) => {
+          const stageEntries = entries.filter((entry) => entry.stage === stage);
+
+          return (
+            <div
+              key={stage}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropStage(stage);
+              }}
+              onDragLeave={() => setDropStage(null)}
+              onDrop={(e) => handleDrop(e, stage)}
+              className={`flex-shrink-0 w-64 rounded-lg p-3 ${
+                dropStage === stage ? 'bg-indigo-50 ring-2 ring-indigo-300' : 'bg-gray-200'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-sm font-semibold text-gray-700">{STAGE_LABELS[stage]}</h2>
+                <span className="text-xs text-gray-500">{stageEntries.length}</span>
+              </div>
+              <ul className="space-y-2 min-h-[4rem]">
+                {stageEntries.map((entry) => (
+                  <li
+                    key={entry.id}
+                    draggable={canEdit}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', entry.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggingId(entry.id);
+                    }}
+                    onDragEnd={() => setDraggingId(null)}
+                    className={`group bg-white rounded-md shadow p-3 ${canEdit ? 'cursor-move' : ''} ${
+                      draggingId === entry.id ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <Link
+                        to={`/candidates/${entry.candidate.id}`}
+                        className="text-sm font-medium text-indigo-600 hover:text-indigo-900"
+                      >
+                        {entry.candidate.first_name} {entry.candidate.last_name}
+                      </Link>
+                      {canEdit && (
+                        <button
+                          onClick={() => handleRemove(entry)}
+                          title="Remove from pipeline"
+                          className="hidden group-hover:block text-gray-400 hover:text-gray-600"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                    {(entry.candidate.current_job_title || entry.candidate.current_company) && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        {[entry.candidate.current_job_title, entry.candidate.current_company]
+                          .filter(Boolean)
+                          .join(' at ')}
+                      </p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-400">
+                      Since {new Date(entry.stage_changed_at).toLocaleDateString()}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
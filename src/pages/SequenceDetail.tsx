@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Edit, StopCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useProfile } from '../hooks/useProfile';
+import { CandidatePicker } from '../components/CandidatePicker';
+import { SequenceForm } from '../components/SequenceForm';
+import {
+  enrollCandidate,
+  sortSteps,
+  stopEnrollment,
+  ENROLLMENT_STATUS_COLORS,
+  ENROLLMENT_STATUS_LABELS,
+  SEQUENCE_SELECT,
+  STOP_REASON_LABELS,
+  type Sequence,
+  type SequenceEnrollment,
+} from '../lib/sequences';
+import { templateTypeLabel } from '../lib/templates';
+import type { Candidate } from '../lib/candidateSchema';
+
+interface EnrollmentWithCandidate extends SequenceEnrollment {
+  candidate: Pick<Candidate, 'id' | 'first_name' | 'last_name'>;
+}
+
+export function SequenceDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { user, profile } = useProfile();
+  const [sequence, setSequence] = useState<Sequence | null>(null);
+  const [enrollments, setEnrollments] = useState<EnrollmentWithCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSequence = useCallback(async () => {
+    if (!user || !id) return;
+
+    try {
+      const [
+        { data: sequenceData, error: sequenceError },
+        { data: enrollmentData, error: enrollmentError },
+      ] = await Promise.all([
+        supabase.from('sequences').select(SEQUENCE_SELECT).eq('id', id).single(),
+        supabase
+          .from('sequence_enrollments')
+          .select('*, candidate:candidates(id, first_name, last_name)')
+          .eq('sequence_id', id)
+          .order('enrolled_at', { ascending: false }),
+      ]);
+
+      if (sequenceError) throw sequenceError;
+      if (enrollmentError) throw enrollmentError;
+
+      setSequence(sortSteps(sequenceData));
+      setEnrollments(enrollmentData || []);
+    } catch (error) {
+      console.error('Error fetching sequence:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, id]);
+
+  useEffect(() => {
+    fetchSequence();
+  }, [fetchSequence]);
+
+  const handleEnroll = async (candidate: Candidate) => {
+    if (!user || !profile || !id) return;
+    setError(null);
+
+    try {
+      await enrollCandidate(id, candidate.id, { organizationId: profile.organization_id, userId: user.id });
+      fetchSequence();
+    } catch (error) {
+      console.error('Error enrolling candidate:', error);
+      setError(error instanceof Error ? error.message : 'Could not enroll candidate');
+    }
+  };
+
+  const handleStop = async (enrollment: EnrollmentWithCandidate) => {
+    if (!user) return;
+    if (!confirm(`Stop the sequence for ${enrollment.candidate.first_name} ${enrollment.candidate.last_name}?`)) return;
+
+    try {
+      await stopEnrollment(enrollment.id, user.id);
+      fetchSequence();
+    } catch (error) {
+      console.error('Error stopping enrollment:', error);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6">Loading...</div>;
+  }
+
+  if (!sequence) {
+    return (
+      <div className="p-6">
+        <p className="text-gray-500">Sequence not found.</p>
+        <Link to="/sequences" className="text-indigo-600 hover:text-indigo-900">
+          Back to sequences
+        </Link>
+      </div>
+    );
+  }
+
+  const activeIds = enrollments.filter((e) => e.status === 'active').map((e) => e.candidate_id);
+
+  return (
+    <div className="p-6">
+      <Link to="/sequences" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Sequences
+      </Link>
+
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{sequence.name}</h1>
+          {sequence.description && <p className="mt-1 text-sm text-gray-500">{sequence.description}</p>}
+        </div>
+        <button
+          onClick={() => setIsEditing(true)}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          <Edit className="h-4 w-4 mr-2" />
+          Edit
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Steps</h2>
+          <ol className="space-y-3">
+            {sequence.steps.map((step, index) => (
+              <li key={step.id} className="flex items-start text-sm">
+                <span className="w-16 flex-shrink-0 font-medium text-gray-500">Day {step.delay_days}</span>
+                <span className="text-gray-900">
+                  {index + 1}. {step.template?.name}
+                  <span className="ml-1 text-gray-500">({step.template && templateTypeLabel(step.template.type)})</span>
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div className="lg:col-span-2 bg-white shadow rounded-lg p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-medium text-gray-900">Enrolled Candidates</h2>
+            <div className="w-64">
+              <CandidatePicker excludeIds={activeIds} placeholder="Enroll a candidate..." onSelect={handleEnroll} />
+            </div>
+          </div>
+          {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+          {enrollments.length === 0 ? (
+            <p className="text-sm text-gray-500">Nobody is enrolled yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {enrollments.map((enrollment) => (
+                <li key={enrollment.id} className="py-3 flex items-center">
+                  <Link
+                    to={`/candidates/${enrollment.candidate_id}`}
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-900"
+                  >
+                    {enrollment.candidate.first_name} {enrollment.candidate.last_name}
+                  </Link>
+                  <span
+                    className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${ENROLLMENT_STATUS_COLORS[enrollment.status]}`}
+                  >
+                    {ENROLLMENT_STATUS_LABELS[enrollment.status]}
+                  </span>
+                  <span className="ml-3 text-sm text-gray-500">
+                    {enrollment.status === 'active'
+                      ? `Next: step ${enrollment.current_step + 1} of ${sequence.steps.length}`
+                      : enrollment.stop_reason
+                        ? STOP_REASON_LABELS[enrollment.stop_reason] ?? enrollment.stop_reason
+                        : `Finished ${enrollment.ended_at ? new Date(enrollment.ended_at).toLocaleDateString() : ''}`}
+                  </span>
+                  <span className="ml-auto text-xs text-gray-500">
+                    Enrolled {new Date(enrollment.enrolled_at).toLocaleDateString()}
+                  </span>
+                  {enrollment.status === 'active' && (
+                    <button
+                      onClick={() => handleStop(enrollment)}
+                      title="Stop sequence"
+                      className="ml-3 text-gray-400 hover:text-gray-600"
+                    >
+                      <StopCircle className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {isEditing && (
+        <SequenceForm
+          sequence={sequence}
+          onClose={() => setIsEditing(false)}
+          onSaved={() => {
+            setIsEditing(false);
+            fetchSequence();
+          }}
+        />
+      )}
+    </div>
+  );
+}
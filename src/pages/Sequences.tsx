@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, Edit, ListOrdered, Users } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { SequenceForm } from '../components/SequenceForm';
+import { SEQUENCE_SELECT, sortSteps, type Sequence } from '../lib/sequences';
+import { templateTypeLabel } from '../lib/templates';
+
+interface SequenceListItem extends Sequence {
+  active_count: number;
+}
+
+export function Sequences() {
+  const { user } = useAuth();
+  const [sequences, setSequences] = useState<SequenceListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingSequence, setEditingSequence] = useState<Sequence | null>(null);
+
+  const fetchSequences = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('sequences')
+        .select(`${SEQUENCE_SELECT}, sequence_enrollments(count)`)
+        .eq('sequence_enrollments.status', 'active')
+        .order('name');
+
+      if (error) throw error;
+      setSequences(
+        (data || []).map(({ sequence_enrollments: enrollments, ...sequence }) => ({
+          ...sortSteps(sequence),
+          active_count: enrollments?.[0]?.count ?? 0,
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching sequences:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchSequences();
+  }, [fetchSequences]);
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Sequences</h1>
+        <button
+          onClick={() => {
+            setEditingSequence(null);
+            setShowForm(true);
+          }}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Sequence
+        </button>
+      </div>
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <ul className="divide-y divide-gray-200">
+          {loading ? (
+            <li className="px-4 py-4 sm:px-6">Loading...</li>
+          ) : sequences.length === 0 ? (
+            <li className="px-4 py-4 sm:px-6 text-gray-500">No sequences yet</li>
+          ) : (
+            sequences.map((sequence) => (
+              <li key={sequence.id}>
+                <div className="px-4 py-4 sm:px-6 hover:bg-gray-50">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center">
+                        <ListOrdered className="h-5 w-5 text-gray-400 mr-2" />
+                        <Link
+                          to={`/sequences/${sequence.id}`}
+                          className="text-sm font-medium text-indigo-600 truncate hover:text-indigo-900"
+                        >
+                          {sequence.name}
+                        </Link>
+                        <span className="ml-3 inline-flex items-center text-sm text-gray-500">
+                          <Users className="mr-1 h-4 w-4 text-gray-400" />
+                          {sequence.active_count} active
+                        </span>
+                      </div>
+                      <p className="mt-2 text-sm text-gray-500">
+                        {sequence.steps
+                          .map((step) => `Day ${step.delay_days} ${step.template ? templateTypeLabel(step.template.type) : ''}`.trim())
+                          .join(' · ')}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => {
+                        setEditingSequence(sequence);
+                        setShowForm(true);
+                      }}
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      <Edit className="h-5 w-5" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+
+      {showForm && (
+        <SequenceForm
+          sequence={editingSequence}
+          onClose={() => setShowForm(false)}
+          onSaved={() => {
+            setShowForm(false);
+            fetchSequences();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,20 @@
+import { RecommendationSettings } from '../components/RecommendationSettings';
+import { TagManager } from '../components/TagManager';
+import { MemberManager } from '../components/MemberManager';
+
 export function Settings() {
-    return (<></>);
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+        <p className="mt-1 text-sm text-gray-500">Manage how your organization works in the CRM</p>
+      </div>
+
+      <div className="space-y-6">
+        <MemberManager />
+        <TagManager />
+        <RecommendationSettings />
+      </div>
+    </div>
+  );
 }
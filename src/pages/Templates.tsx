@@ -1,36 +1,73 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Search, FileText, Trash2, Edit, Copy } from 'lucide-react';
+import { Plus, Search, FileText, Trash2, Edit, Copy, History, RotateCcw, Folder, Lock } from 'lucide-react';
 import Editor from '@monaco-editor/react';
 import { supabase } from '../lib/supabase';
-import { useAuth } from '../hooks/useAuth';
-
-interface Template {
-  id: string;
-  name: string;
-  type: 'email' | 'message';
-  content: string;
-  variables: Record<string, string>;
-  created_at: string;
-  updated_at: string;
-}
+import { useProfile } from '../hooks/useProfile';
+import { usePermissions } from '../hooks/usePermissions';
+import { buildVariablesMap } from '../lib/templateEngine';
+import {
+  attachTemplateValidation,
+  registerTemplateLanguage,
+  TEMPLATE_LANGUAGE_ID,
+} from '../lib/templateLanguage';
+import { TemplatePreview } from '../components/TemplatePreview';
+import { TemplateHistory } from '../components/TemplateHistory';
+import { setTemplateDeleted } from '../lib/templateVersions';
+import {
+  templateMetadataFor,
+  SMS_SEGMENT_LENGTH,
+  TEMPLATE_SCOPE_LABELS,
+  TEMPLATE_SCOPES,
+  TEMPLATE_TYPE_COLORS,
+  TEMPLATE_TYPE_FIELDS,
+  TEMPLATE_TYPE_LABELS,
+  TEMPLATE_TYPES,
+  type Template,
+  type TemplateScope,
+  type TemplateType,
+} from '../lib/templates';
+
+const EMPTY_FORM = {
+  name: '',
+  type: 'email' as TemplateType,
+  content: '',
+  variables: {} as Record<string, string>,
+  metadata: {} as Record<string, string>,
+  scope: 'shared' as TemplateScope,
+  folder: '',
+};
 
 export function Templates() {
-  const { user } = useAuth();
+  const { user, profile } = useProfile();
+  const { role, can } = usePermissions();
   const [templates, setTemplates] = useState<Template[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<TemplateType | ''>('');
+  const [scopeFilter, setScopeFilter] = useState<TemplateScope | ''>('');
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
   const [isEditing, setIsEditing] = useState(false);
-  const [formData, setFormData] = useState({
-    name: '',
-    type: 'email' as const,
-    content: '',
-    variables: {} as Record<string, string>,
-  });
+  const [historyTemplate, setHistoryTemplate] = useState<Template | null>(null);
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [deletedTemplate, setDeletedTemplate] = useState<Template | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
   useEffect(() => {
     fetchTemplates();
-  }, [user, searchQuery]);
+  }, [user, searchQuery, typeFilter, scopeFilter, showDeleted]);
+
+  const folderNames = [...new Set(templates.map((t) => t.folder).filter((f): f is string => !!f))].sort();
+  // Unfiled templates first, then one group per folder
+  const groups = ([null, ...folderNames] as (string | null)[])
+    .map((folder) => [folder, templates.filter((t) => (t.folder || null) === folder)] as const)
+    .filter(([, items]) => items.length > 0);
+
+  // The undo offer only makes sense right after deleting
+  useEffect(() => {
+    if (!deletedTemplate) return;
+    const timer = setTimeout(() => setDeletedTemplate(null), 10000);
+    return () => clearTimeout(timer);
+  }, [deletedTemplate]);
 
   async function fetchTemplates() {
     if (!user) return;
@@ -41,9 +78,17 @@ export function Templates() {
         .select('*')
         .order('created_at', { ascending: false });
 
+      query = showDeleted ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null);
+
       if (searchQuery) {
         query = query.ilike('name', `%${searchQuery}%`);
       }
+      if (typeFilter) {
+        query = query.eq('type', typeFilter);
+      }
+      if (scopeFilter) {
+        query = query.eq('scope', scopeFilter);
+      }
 
       const { data, error } = await query;
 
@@ -56,15 +101,28 @@ export function Templates() {
     }
   }
 
+  // The columns the form edits, in the shape the templates table stores them
+  const formValues = () => ({
+    name: formData.name,
+    type: formData.type,
+    content: formData.content,
+    variables: buildVariablesMap(formData.content),
+    metadata: templateMetadataFor(formData.type, formData.metadata),
+    scope: formData.scope,
+    folder: formData.folder.trim() || null,
+  });
+
   const handleCreateTemplate = async () => {
+    if (!user || !profile) return;
+
     try {
       const { data, error } = await supabase
         .from('templates')
         .insert([{
-          name: formData.name,
-          type: formData.type,
-          content: formData.content,
-          variables: formData.variables,
+          ...formValues(),
+          organization_id: profile.organization_id,
+          created_by: user.id,
+          updated_by: user.id,
         }])
         .select()
         .single();
@@ -72,12 +130,7 @@ export function Templates() {
       if (error) throw error;
 
       setTemplates([data, ...templates]);
-      setFormData({
-        name: '',
-        type: 'email',
-        content: '',
-        variables: {},
-      });
+      setFormData(EMPTY_FORM);
       setIsEditing(false);
     } catch (error) {
       console.error('Error creating template:', error);
@@ -88,21 +141,22 @@ export function Templates() {
     if (!selectedTemplate) return;
 
     try {
-      const { error } = await supabase
+      // Read the row back for the version number the database assigned
+      const { data, error } = await supabase
         .from('templates')
         .update({
-          name: formData.name,
-          type: formData.type,
-          content: formData.content,
-          variables: formData.variables,
+          ...formValues(),
+          updated_by: user?.id,
         })
-        .eq('id', selectedTemplate.id);
+        .eq('id', selectedTemplate.id)
+        .select()
+        .single();
 
       if (error) throw error;
 
       setTemplates(templates.map(t => 
         t.id === selectedTemplate.id 
-          ? { ...t, ...formData }
+          ? data
           : t
       ));
       setSelectedTemplate(null);
@@ -112,18 +166,28 @@ export function Templates() {
     }
   };
 
-  const handleDeleteTemplate = async (id: string) => {
+  // Templates are only hidden, so sequences, campaigns and sent emails keep their history
+  const handleDeleteTemplate = async (template: Template) => {
+    if (!user) return;
+
     try {
-      const { error } = await supabase
-        .from('templates')
-        .delete()
-        .eq('id', id);
+      await setTemplateDeleted(template.id, true, user.id);
+      setTemplates(templates.filter(t => t.id !== template.id));
+      setDeletedTemplate(template);
+    } catch (error) {
+      console.error('Error deleting template:', error);
+    }
+  };
 
-      if (error) throw error;
+  const handleRestoreTemplate = async (template: Template) => {
+    if (!user) return;
 
-      setTemplates(templates.filter(t => t.id !== id));
+    try {
+      await setTemplateDeleted(template.id, false, user.id);
+      setDeletedTemplate(null);
+      fetchTemplates();
     } catch (error) {
-      console.error('Error deleting template:', error);
+      console.error('Error restoring template:', error);
     }
   };
 
@@ -134,11 +198,16 @@ export function Templates() {
       type: template.type,
       content: template.content,
       variables: template.variables,
+      metadata: template.metadata ?? {},
+      scope: template.scope,
+      folder: template.folder ?? '',
     });
     setIsEditing(true);
   };
 
   const handleDuplicateTemplate = async (template: Template) => {
+    if (!user || !profile) return;
+
     try {
       const { data, error } = await supabase
         .from('templates')
@@ -147,6 +216,12 @@ export function Templates() {
           type: template.type,
           content: template.content,
           variables: template.variables,
+          metadata: template.metadata,
+          scope: template.scope,
+          folder: template.folder,
+          organization_id: profile.organization_id,
+          created_by: user.id,
+          updated_by: user.id,
         }])
         .select()
         .single();
@@ -163,26 +238,35 @@ export function Templates() {
     <div className="p-6">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Message Templates</h1>
-        <button
-          onClick={() => {
-            setSelectedTemplate(null);
-            setFormData({
-              name: '',
-              type: 'email',
-              content: '',
-              variables: {},
-            });
-            setIsEditing(true);
-          }}
-          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Template
-        </button>
+        {can('templates.edit') && (
+          <button
+            onClick={() => {
+              setSelectedTemplate(null);
+              setFormData(EMPTY_FORM);
+              setIsEditing(true);
+            }}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </button>
+        )}
       </div>
 
-      <div className="mb-6">
-        <div className="relative">
+      {deletedTemplate && (
+        <div className="mb-4 flex items-center justify-between rounded-md bg-gray-800 px-4 py-3 text-sm text-white">
+          <span>Deleted "{deletedTemplate.name}"</span>
+          <button
+            onClick={() => handleRestoreTemplate(deletedTemplate)}
+            className="font-medium text-indigo-300 hover:text-indigo-200"
+          >
+            Undo
+          </button>
+        </div>
+      )}
+
+      <div className="mb-6 flex items-center space-x-4">
+        <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
           <input
             type="text"
@@ -192,6 +276,36 @@ export function Templates() {
             className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
           />
         </div>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as TemplateType | '')}
+          className="border border-gray-300 rounded-md py-2 px-3 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="">All types</option>
+          {TEMPLATE_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {TEMPLATE_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={scopeFilter}
+          onChange={(e) => setScopeFilter(e.target.value as TemplateScope | '')}
+          className="border border-gray-300 rounded-md py-2 px-3 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="">Shared and personal</option>
+          <option value="shared">Shared only</option>
+          <option value="personal">Personal only</option>
+        </select>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showDeleted}
+            onChange={(e) => setShowDeleted(e.target.checked)}
+            className="h-4 w-4 mr-2 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+          />
+          Show deleted
+        </label>
       </div>
 
       {isEditing ? (
@@ -216,33 +330,110 @@ export function Templates() {
               <select
                 id="type"
                 value={formData.type}
-                onChange={(e) => setFormData({ ...formData, type: e.target.value as 'email' | 'message' })}
+                onChange={(e) => setFormData({ ...formData, type: e.target.value as TemplateType })}
                 className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
               >
-                <option value="email">Email</option>
-                <option value="message">Message</option>
+                {TEMPLATE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {TEMPLATE_TYPE_LABELS[type]}
+                  </option>
+                ))}
               </select>
             </div>
+            {TEMPLATE_TYPE_FIELDS[formData.type].map((field) => (
+              <div key={field.key}>
+                <label htmlFor={`metadata-${field.key}`} className="block text-sm font-medium text-gray-700">
+                  {field.label}
+                </label>
+                <input
+                  type="text"
+                  id={`metadata-${field.key}`}
+                  value={formData.metadata[field.key] ?? ''}
+                  placeholder={field.placeholder}
+                  onChange={(e) =>
+                    setFormData({ ...formData, metadata: { ...formData.metadata, [field.key]: e.target.value } })
+                  }
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+            ))}
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="folder" className="block text-sm font-medium text-gray-700">
+                  Folder
+                </label>
+                <input
+                  type="text"
+                  id="folder"
+                  list="template-folders"
+                  value={formData.folder}
+                  placeholder="Unfiled"
+                  onChange={(e) => setFormData({ ...formData, folder: e.target.value })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+                <datalist id="template-folders">
+                  {folderNames.map((folder) => (
+                    <option key={folder} value={folder} />
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <label htmlFor="scope" className="block text-sm font-medium text-gray-700">
+                  Visible To
+                </label>
+                <select
+                  id="scope"
+                  value={formData.scope}
+                  onChange={(e) => setFormData({ ...formData, scope: e.target.value as TemplateScope })}
+                  disabled={!!selectedTemplate && selectedTemplate.created_by !== user?.id && role !== 'admin'}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:bg-gray-50"
+                >
+                  {TEMPLATE_SCOPES.map((scope) => (
+                    <option key={scope} value={scope}>
+                      {TEMPLATE_SCOPE_LABELS[scope]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
             <div>
               <label htmlFor="content" className="block text-sm font-medium text-gray-700">
                 Content
               </label>
-              <div className="mt-1 border border-gray-300 rounded-md overflow-hidden">
-                <Editor
-                  height="400px"
-                  defaultLanguage="markdown"
-                  value={formData.content}
-                  onChange={(value) => setFormData({ ...formData, content: value || '' })}
-                  options={{
-                    minimap: { enabled: false },
-                    lineNumbers: 'off',
-                    wordWrap: 'on',
-                  }}
-                />
+              <div className="mt-1 grid grid-cols-1 gap-4 lg:grid-cols-2">
+                <div>
+                  <div className="border border-gray-300 rounded-md overflow-hidden">
+                    <Editor
+                      height="400px"
+                      language={TEMPLATE_LANGUAGE_ID}
+                      value={formData.content}
+                      beforeMount={registerTemplateLanguage}
+                      onMount={attachTemplateValidation}
+                      onChange={(value) => setFormData({ ...formData, content: value || '' })}
+                      options={{
+                        minimap: { enabled: false },
+                        lineNumbers: 'off',
+                        wordWrap: 'on',
+                      }}
+                    />
+                  </div>
+                  {formData.type === 'sms' && (
+                    <p
+                      className={`mt-2 text-sm ${
+                        formData.content.length > SMS_SEGMENT_LENGTH ? 'text-yellow-700' : 'text-gray-500'
+                      }`}
+                    >
+                      {formData.content.length} characters before variables are filled in; more than{' '}
+                      {SMS_SEGMENT_LENGTH} is sent as several messages.
+                    </p>
+                  )}
+                  <p className="mt-2 text-sm text-gray-500">
+                    Type {'{'} to pick a variable like {'{firstName}'} or {'{company}'}. Add a default with {'{firstName|there}'} and
+                    show text only when a value exists with {'{#if company}...{else}...{/if}'}.
+                  </p>
+                </div>
+                <TemplatePreview content={formData.content} />
               </div>
-              <p className="mt-2 text-sm text-gray-500">
-                Use variables like {'{firstName}'}, {'{company}'}, etc. They will be replaced with actual values.
-              </p>
             </div>
             <div className="flex justify-end space-x-3">
               <button
@@ -268,52 +459,110 @@ export function Templates() {
             ) : templates.length === 0 ? (
               <div className="p-4 text-center text-gray-500">No templates found</div>
             ) : (
-              templates.map((template) => (
-                <li key={template.id}>
-                  <div className="px-4 py-4 sm:px-6 hover:bg-gray-50">
-                    <div className="flex items-center justify-between">
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center">
-                          <FileText className="h-5 w-5 text-gray-400 mr-2" />
-                          <p className="text-sm font-medium text-indigo-600 truncate">
-                            {template.name}
-                          </p>
-                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
-                            {template.type}
-                          </span>
+              groups.map(([folder, items]) => (
+                <React.Fragment key={folder ?? ''}>
+                  {folderNames.length > 0 && (
+                    <li className="flex items-center px-4 py-2 sm:px-6 bg-gray-50 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                      <Folder className="h-4 w-4 mr-2" />
+                      {folder ?? 'Unfiled'}
+                    </li>
+                  )}
+                  {items.map((template) => (
+                    <li key={template.id}>
+                      <div className="px-4 py-4 sm:px-6 hover:bg-gray-50">
+                        <div className="flex items-center justify-between">
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center">
+                              <FileText className="h-5 w-5 text-gray-400 mr-2" />
+                              <p className="text-sm font-medium text-indigo-600 truncate">
+                                {template.name}
+                              </p>
+                              <span
+                                className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${TEMPLATE_TYPE_COLORS[template.type] ?? 'bg-gray-100 text-gray-800'}`}
+                              >
+                                {TEMPLATE_TYPE_LABELS[template.type] ?? template.type}
+                              </span>
+                              {template.scope === 'personal' && (
+                                <span className="ml-2 inline-flex items-center text-xs text-gray-500" title="Only you can see this">
+                                  <Lock className="h-3 w-3 mr-1" />
+                                  Personal
+                                </span>
+                              )}
+                            </div>
+                            <div className="mt-2 flex items-center text-sm text-gray-500">
+                              <p>
+                                {template.deleted_at
+                                  ? `Deleted ${new Date(template.deleted_at).toLocaleDateString()}`
+                                  : `Version ${template.version}, last updated ${new Date(template.updated_at).toLocaleDateString()}`}
+                              </p>
+                            </div>
+                          </div>
+                          {template.deleted_at ? (
+                            can('templates.delete') && (
+                              <button
+                                onClick={() => handleRestoreTemplate(template)}
+                                className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-900"
+                              >
+                                <RotateCcw className="h-4 w-4 mr-1" />
+                                Restore
+                              </button>
+                            )
+                          ) : (
+                            <div className="flex items-center space-x-4">
+                              <button
+                                onClick={() => setHistoryTemplate(template)}
+                                title="History"
+                                className="text-gray-400 hover:text-gray-600"
+                              >
+                                <History className="h-5 w-5" />
+                              </button>
+                              {can('templates.edit') && (
+                                <>
+                                  <button
+                                    onClick={() => handleDuplicateTemplate(template)}
+                                    className="text-gray-400 hover:text-gray-600"
+                                  >
+                                    <Copy className="h-5 w-5" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleEditClick(template)}
+                                    className="text-gray-400 hover:text-gray-600"
+                                  >
+                                    <Edit className="h-5 w-5" />
+                                  </button>
+                                </>
+                              )}
+                              {can('templates.delete') && (
+                                <button
+                                  onClick={() => handleDeleteTemplate(template)}
+                                  className="text-gray-400 hover:text-gray-600"
+                                >
+                                  <Trash2 className="h-5 w-5" />
+                                </button>
+                              )}
+                            </div>
+                          )}
                         </div>
-                        <div className="mt-2 flex items-center text-sm text-gray-500">
-                          <p>Last updated {new Date(template.updated_at).toLocaleDateString()}</p>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-4">
-                        <button
-                          onClick={() => handleDuplicateTemplate(template)}
-                          className="text-gray-400 hover:text-gray-600"
-                        >
-                          <Copy className="h-5 w-5" />
-                        </button>
-                        <button
-                          onClick={() => handleEditClick(template)}
-                          className="text-gray-400 hover:text-gray-600"
-                        >
-                          <Edit className="h-5 w-5" />
-                        </button>
-                        <button
-                          onClick={() => handleDeleteTemplate(template.id)}
-                          className="text-gray-400 hover:text-gray-600"
-                        >
-                          <Trash2 className="h-5 w-5" />
-                        </button>
                       </div>
-                    </div>
-                  </div>
-                </li>
+                    </li>
+                  ))}
+                </React.Fragment>
               ))
             )}
           </ul>
         </div>
       )}
+
+      {historyTemplate && (
+        <TemplateHistory
+          template={historyTemplate}
+          onClose={() => setHistoryTemplate(null)}
+          onRestored={() => {
+            setHistoryTemplate(null);
+            fetchTemplates();
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
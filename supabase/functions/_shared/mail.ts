@@ -0,0 +1,104 @@
+import nodemailer from 'npm:nodemailer@6.9.16';
+import { requireEnv } from './http.ts';
+
+/*
+ * Mail transports. Functions send through the MailTransport interface and
+ * transportFromEnv picks the implementation:
+ *
+ *   MAIL_TRANSPORT=smtp    SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD
+ *   MAIL_TRANSPORT=file    writes each message as JSON to MAIL_FILE_DIR (default ./.mail)
+ *   MAIL_TRANSPORT=memory  keeps messages in the worker, for local dev and tests
+ *
+ * MAIL_FROM is the address every message is sent from.
+ */
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  text: string;
+}
+
+export interface SentMail {
+  messageId: string;
+}
+
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<SentMail>;
+}
+
+function localMessageId() {
+  return `<${crypto.randomUUID()}@localhost>`;
+}
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    // Port 465 speaks TLS from the start; others upgrade with STARTTLS
+    secure: config.port === 465,
+    auth: { user: config.user, pass: config.password },
+  });
+
+  return {
+    send: async (message) => {
+      const info = await transporter.sendMail(message);
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    send: async (message) => {
+      const messageId = localMessageId();
+      await Deno.mkdir(directory, { recursive: true });
+      await Deno.writeTextFile(
+        `${directory}/${Date.now()}-${crypto.randomUUID()}.json`,
+        JSON.stringify({ messageId, ...message }, null, 2)
+      );
+      return { messageId };
+    },
+  };
+}
+
+export function createMemoryTransport(): MailTransport & { sent: (MailMessage & SentMail)[] } {
+  const sent: (MailMessage & SentMail)[] = [];
+
+  return {
+    sent,
+    send: async (message) => {
+      const messageId = localMessageId();
+      sent.push({ ...message, messageId });
+      return { messageId };
+    },
+  };
+}
+
+export function transportFromEnv(): MailTransport {
+  const kind = Deno.env.get('MAIL_TRANSPORT') ?? 'smtp';
+
+  switch (kind) {
+    case 'smtp':
+      return createSmtpTransport({
+        host: requireEnv('SMTP_HOST'),
+        port: Number(Deno.env.get('SMTP_PORT') ?? 465),
+        user: requireEnv('SMTP_USER'),
+        password: requireEnv('SMTP_PASSWORD'),
+      });
+    case 'file':
+      return createFileTransport(Deno.env.get('MAIL_FILE_DIR') ?? './.mail');
+    case 'memory':
+      return createMemoryTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+}
@@ -0,0 +1,149 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { renderProblems, renderTemplate, type TemplateCandidate } from './templateEngine.ts';
+import { requireEnv } from './http.ts';
+import type { MailTransport } from './mail.ts';
+import { hasPermission } from './roles.ts';
+
+export interface OutreachTemplate {
+  id: string;
+  name: string;
+  content: string;
+  version: number;
+}
+
+export interface OutreachCandidate extends TemplateCandidate {
+  id: string;
+}
+
+export interface OutreachSender {
+  id: string;
+  organization_id: string;
+  role: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+}
+
+// Raised when a message can't be sent as written; the caller should fix the input, not retry
+export class OutreachError extends Error {
+  constructor(message: string, readonly problems: string[] = []) {
+    super(message);
+    this.name = 'OutreachError';
+  }
+}
+
+// Raised when the sender's role doesn't allow outreach
+export class OutreachPermissionError extends Error {
+  constructor(message = 'Your role does not allow sending emails') {
+    super(message);
+    this.name = 'OutreachPermissionError';
+  }
+}
+
+// Raised when the email went out but its activity couldn't be written. Retrying would send it twice
+export class UnloggedEmailError extends Error {
+  constructor(message: string, readonly messageId: string) {
+    super(message);
+    this.name = 'UnloggedEmailError';
+  }
+}
+
+/**
+ * Renders the subject and body for one candidate, refusing to produce a
+ * message that still contains placeholders.
+ */
+export function renderOutreach(
+  template: OutreachTemplate,
+  subject: string,
+  candidate: OutreachCandidate,
+  sender: OutreachSender
+) {
+  const context = { candidate, sender };
+  const renderedSubject = renderTemplate(subject, context);
+  const renderedBody = renderTemplate(template.content, context);
+
+  const problems = [renderedSubject, renderedBody].flatMap(renderProblems);
+  if (problems.length > 0) {
+    throw new OutreachError('The template cannot be rendered for this candidate', problems);
+  }
+
+  return { subject: renderedSubject.output.trim(), body: renderedBody.output };
+}
+
+function senderAddress(sender: OutreachSender) {
+  const from = requireEnv('MAIL_FROM');
+  const name = [sender.first_name, sender.last_name].filter(Boolean).join(' ');
+  return name ? `${name} <${from}>` : from;
+}
+
+/**
+ * Renders a template for a candidate, sends it and records an email activity
+ * with the rendered body and the transport's message id. Throws
+ * OutreachPermissionError before sending anything when the sender's role
+ * doesn't allow outreach, and UnloggedEmailError when the send worked but
+ * the activity didn't.
+ */
+export async function sendTemplateEmail(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  {
+    template,
+    subject,
+    candidate,
+    sender,
+    to: address,
+    metadata = {},
+  }: {
+    template: OutreachTemplate;
+    subject: string;
+    candidate: OutreachCandidate;
+    sender: OutreachSender;
+    // An address picked earlier, like the one a campaign queued; defaults to the candidate's
+    to?: string;
+    // Extra keys for the activity, like the campaign that sent it
+    metadata?: Record<string, unknown>;
+  }
+) {
+  if (!hasPermission(sender.role, 'outreach.send')) throw new OutreachPermissionError();
+
+  const to = address || candidate.personal_email || candidate.work_email;
+  if (!to) throw new OutreachError('The candidate has no email address');
+
+  const message = renderOutreach(template, subject, candidate, sender);
+  const { messageId } = await transport.send({
+    from: senderAddress(sender),
+    to,
+    replyTo: sender.email ?? undefined,
+    subject: message.subject,
+    text: message.body,
+  });
+
+  const { data: activity, error } = await supabase
+    .from('activities')
+    .insert([{
+      candidate_id: candidate.id,
+      organization_id: sender.organization_id,
+      created_by: sender.id,
+      type: 'email',
+      description: `Sent from template "${template.name}"`,
+      metadata: {
+        subject: message.subject,
+        direction: 'outbound',
+        to,
+        body: message.body,
+        message_id: messageId,
+        template_id: template.id,
+        template_version: template.version,
+        ...metadata,
+      },
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error logging email activity:', error);
+    throw new UnloggedEmailError(`The email was sent, but it could not be logged: ${error.message}`, messageId);
+  }
+
+  return { messageId, activity };
+}
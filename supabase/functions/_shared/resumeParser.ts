@@ -0,0 +1,365 @@
+/*
+ * Pulls candidate fields out of a resume's plain text.
+ *
+ * Resumes have no fixed layout, so this is a set of heuristics: contact
+ * details are found anywhere by pattern, and the rest is read from the
+ * sections under headings like "Experience", "Education" and "Skills".
+ * Results are suggestions for a recruiter to review, never saved directly.
+ *
+ * This module has no imports so the parse-resume Edge Function can use it
+ * and it can be run against fixture text on its own; src/lib/resumeParser.ts
+ * re-exports it.
+ */
+
+export interface ParsedSchool {
+  name: string;
+  degree: string;
+  field_of_study: string;
+  graduation_year: number | null;
+}
+
+export interface ParsedResume {
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  phone: string | null;
+  linkedin_url: string | null;
+  github_url: string | null;
+  current_job_title: string | null;
+  current_company: string | null;
+  past_job_titles: string[];
+  past_companies: string[];
+  schools: ParsedSchool[];
+  tech_stack: string[];
+}
+
+type Section = 'experience' | 'education' | 'skills' | 'other';
+
+const SECTION_HEADINGS: Record<Section, string[]> = {
+  experience: [
+    'experience',
+    'work experience',
+    'professional experience',
+    'relevant experience',
+    'employment',
+    'employment history',
+    'work history',
+    'career history',
+  ],
+  education: ['education', 'academic background', 'education and training', 'qualifications'],
+  skills: ['skills', 'technical skills', 'core skills', 'technologies', 'tech stack', 'tools', 'core competencies'],
+  other: [
+    'summary',
+    'professional summary',
+    'profile',
+    'about',
+    'about me',
+    'objective',
+    'projects',
+    'personal projects',
+    'certifications',
+    'certificates',
+    'awards',
+    'publications',
+    'interests',
+    'languages',
+    'volunteering',
+    'volunteer experience',
+    'references',
+    'contact',
+  ],
+};
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH}\\s+\\d{4}|\\d{1,2}/\\d{4}|\\d{4})`;
+const DATE_RANGE = new RegExp(
+  `${DATE}\\s*(?:-|–|—|to)\\s*(?:${DATE}|present|current|now|today)`,
+  'i'
+);
+const ONGOING = /\b(present|current|now|today)\b/i;
+const YEAR = /\b(19[5-9]\d|20\d{2})\b/g;
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE = /(?:\+?\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}/;
+const LINKEDIN = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/in\/[\w-]+\/?/i;
+const GITHUB = /(?:https?:\/\/)?github\.com\/[\w-]+\/?/i;
+
+const BULLET = /^[•·▪◦●*‣-]\s*/;
+
+// Words that mark the title half of "Senior Engineer, Acme"
+const TITLE_WORDS =
+  /\b(engineer|developer|programmer|architect|manager|director|lead|head|chief|officer|president|vp|designer|analyst|scientist|consultant|specialist|intern|recruiter|founder|co-founder|cto|ceo|cfo|coo|administrator|coordinator|associate|assistant|advisor|researcher|technician|owner|partner|product|staff|principal|sre|devops)\b/i;
+
+const SCHOOL_WORDS =
+  /\b(university|college|institute|school|academy|polytechnic|politecnico|universit[éà]|universidad|universidade|universit[äa]t|hochschule)\b/i;
+const DEGREE_WORDS =
+  /\b(bachelor|master|doctor|ph\.?\s?d|mba|b\.?\s?sc?|m\.?\s?sc?|b\.?\s?a|m\.?\s?a|b\.?\s?eng|m\.?\s?eng|b\.?\s?tech|m\.?\s?tech|associate|diploma|certificate)\b/i;
+
+// Recognized when a resume has no skills section to read from
+const KNOWN_SKILLS = [
+  'JavaScript',
+  'TypeScript',
+  'Python',
+  'Java',
+  'Kotlin',
+  'Swift',
+  'Go',
+  'Rust',
+  'Ruby',
+  'PHP',
+  'C#',
+  'C++',
+  'Scala',
+  'Elixir',
+  'SQL',
+  'PostgreSQL',
+  'MySQL',
+  'MongoDB',
+  'Redis',
+  'GraphQL',
+  'React',
+  'Vue',
+  'Angular',
+  'Svelte',
+  'Next.js',
+  'Node.js',
+  'Django',
+  'Flask',
+  'Rails',
+  'Spring',
+  '.NET',
+  'AWS',
+  'GCP',
+  'Azure',
+  'Docker',
+  'Kubernetes',
+  'Terraform',
+  'Kafka',
+  'Spark',
+  'Airflow',
+  'TensorFlow',
+  'PyTorch',
+  'Figma',
+];
+
+function normalizeHeading(line: string) {
+  return line
+    .replace(/[:：]$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function headingSection(line: string): Section | null {
+  if (line.length > 40) return null;
+  const heading = normalizeHeading(line);
+  for (const section of Object.keys(SECTION_HEADINGS) as Section[]) {
+    if (SECTION_HEADINGS[section].includes(heading)) return section;
+  }
+  return null;
+}
+
+function splitSections(lines: string[]) {
+  const sections: Record<Section, string[]> & { header: string[] } = {
+    header: [],
+    experience: [],
+    education: [],
+    skills: [],
+    other: [],
+  };
+  let current: Section | 'header' = 'header';
+
+  for (const line of lines) {
+    const section = headingSection(line);
+    if (section) {
+      current = section;
+    } else {
+      sections[current].push(line);
+    }
+  }
+
+  return sections;
+}
+
+function unique(values: string[]) {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function withProtocol(url: string) {
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+function parseName(header: string[]) {
+  for (const line of header.slice(0, 5)) {
+    if (EMAIL.test(line) || /\d|https?:|www\.|\.com/i.test(line)) continue;
+    const words = line.split(/\s+/).filter(Boolean);
+    if (words.length < 2 || words.length > 4) continue;
+    if (!words.every((word) => /^[\p{L}'.-]+$/u.test(word))) continue;
+    if (TITLE_WORDS.test(line)) continue;
+    return { first_name: words[0], last_name: words.slice(1).join(' ') };
+  }
+  return { first_name: null, last_name: null };
+}
+
+/**
+ * Groups a section into entries: each run of non-bullet lines is one
+ * entry's header ("Senior Engineer", "Acme Corp, Jan 2020 - Present"), and
+ * the bullets after it are its description, which we don't need. Entries
+ * without bullets are told apart by `markers`: a line matching one starts a
+ * new entry when the current entry already has a line matching it.
+ */
+function entryHeaders(lines: string[], markers: RegExp[]) {
+  const entries: string[][] = [];
+  let current: string[] = [];
+
+  for (const line of lines) {
+    if (BULLET.test(line)) {
+      if (current.length > 0) entries.push(current);
+      current = [];
+    } else if (markers.some((marker) => marker.test(line) && current.some((seen) => marker.test(seen)))) {
+      entries.push(current);
+      current = [line];
+    } else if (current.length >= 3) {
+      // Long runs without bullets are paragraphs; start over from here
+      entries.push(current);
+      current = [line];
+    } else {
+      current.push(line);
+    }
+  }
+  if (current.length > 0) entries.push(current);
+
+  return entries;
+}
+
+function splitParts(text: string) {
+  return text
+    .split(/\s+(?:at|@)\s+|\s*[|,·•]\s*|\s+[-–—]\s+/i)
+    .map((part) => part.replace(/[()]/g, '').trim())
+    .filter((part) => part.length > 1 && !/^\d{4}$/.test(part));
+}
+
+interface ParsedJob {
+  title: string | null;
+  company: string | null;
+  ongoing: boolean;
+}
+
+function parseJob(header: string[]): ParsedJob | null {
+  const joined = header.join(' | ');
+  const range = joined.match(DATE_RANGE);
+  if (!range) return null;
+
+  const parts = splitParts(joined.replace(DATE_RANGE, ' ').replace(new RegExp(DATE, 'gi'), ' '))
+    // Locations like "Berlin, Germany" or "Remote" aren't the title or company
+    .filter((part) => !/^(remote|hybrid|on-?site)$/i.test(part));
+  const title = parts.find((part) => TITLE_WORDS.test(part)) ?? null;
+  const company = parts.find((part) => part !== title) ?? null;
+
+  if (!title && !company) return null;
+  return { title, company, ongoing: ONGOING.test(range[0]) };
+}
+
+function parseExperience(lines: string[]) {
+  const jobs = entryHeaders(lines, [DATE_RANGE])
+    .map(parseJob)
+    .filter((job): job is ParsedJob => job !== null);
+
+  const current = jobs.find((job) => job.ongoing) ?? null;
+  const past = jobs.filter((job) => job !== current);
+
+  return {
+    current_job_title: current?.title ?? null,
+    current_company: current?.company ?? null,
+    past_job_titles: unique(past.map((job) => job.title ?? '')),
+    past_companies: unique(past.map((job) => job.company ?? '')),
+  };
+}
+
+function parseSchool(header: string[]): ParsedSchool | null {
+  const joined = header.join(' | ');
+  const parts = splitParts(joined.replace(DATE_RANGE, ' '));
+  const name = parts.find((part) => SCHOOL_WORDS.test(part)) ?? null;
+  if (!name) return null;
+
+  const degreePart = parts.find((part) => part !== name && DEGREE_WORDS.test(part)) ?? '';
+  // "B.S. in Computer Science" or "Master of Science, Physics"
+  const [degree, field] = degreePart.split(/\s+in\s+/i);
+  const nextPart = parts[parts.indexOf(degreePart) + 1];
+  const years = joined.match(YEAR);
+
+  return {
+    name,
+    degree: (degree ?? '').trim(),
+    field_of_study: (field ?? (nextPart && nextPart !== name && !SCHOOL_WORDS.test(nextPart) ? nextPart : '')).trim(),
+    graduation_year: years ? Number(years[years.length - 1]) : null,
+  };
+}
+
+function parseEducation(lines: string[]) {
+  const schools = entryHeaders(lines, [SCHOOL_WORDS, DEGREE_WORDS])
+    .map(parseSchool)
+    .filter((school): school is ParsedSchool => school !== null);
+
+  const seen = new Set<string>();
+  return schools.filter((school) => {
+    const key = school.name.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function parseSkills(lines: string[]) {
+  return unique(
+    lines
+      // "Languages: TypeScript, Go" lists the part after the label
+      .map((line) => line.replace(BULLET, '').replace(/^[^:,]{1,30}:\s*/, ''))
+      .flatMap((line) => line.split(/\s*[,;|•·]\s*|\s{2,}/))
+      .map((skill) => skill.replace(/\.$/, '').trim())
+      .filter((skill) => skill.length > 0 && skill.length <= 40 && skill.split(/\s+/).length <= 4)
+  );
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findKnownSkills(text: string) {
+  return KNOWN_SKILLS.filter((skill) =>
+    new RegExp(`(^|[^\\w.#+])${escapeRegExp(skill)}(?![\\w#+])`, 'i').test(text)
+  );
+}
+
+export function parseResume(text: string): ParsedResume {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  const sections = splitSections(lines);
+
+  const email = text.match(EMAIL)?.[0] ?? null;
+  const linkedin = text.match(LINKEDIN)?.[0] ?? null;
+  const github = text.match(GITHUB)?.[0] ?? null;
+  // Only look for a phone number near the top, where dates can't be mistaken for one
+  const phone = sections.header.join('\n').match(PHONE)?.[0]?.trim() ?? null;
+
+  const skills = parseSkills(sections.skills);
+
+  return {
+    ...parseName(sections.header),
+    email,
+    phone,
+    linkedin_url: linkedin && withProtocol(linkedin.replace(/\/$/, '')),
+    github_url: github && withProtocol(github.replace(/\/$/, '')),
+    ...parseExperience(sections.experience),
+    schools: parseEducation(sections.education),
+    tech_stack: skills.length > 0 ? skills : findKnownSkills(text),
+  };
+}
@@ -0,0 +1,26 @@
+import { Buffer } from 'node:buffer';
+import { extractText, getDocumentProxy } from 'npm:unpdf@0.12.1';
+import mammoth from 'npm:mammoth@1.8.0';
+
+/*
+ * Reads the plain text out of a PDF or DOCX resume for parseResume. Kept apart
+ * from the parse-resume handler so the extraction can be run against fixture
+ * files; the tests resolve these npm: imports from node_modules.
+ */
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Returns null for files that are neither a PDF nor a DOCX
+export async function extractResumeText(bytes: Uint8Array, type: string, path: string) {
+  if (type === 'application/pdf' || path.toLowerCase().endsWith('.pdf')) {
+    const pdf = await getDocumentProxy(bytes);
+    // Merging pages in unpdf also collapses line breaks, which the parser reads sections by
+    const { text } = await extractText(pdf);
+    return text.join('\n');
+  }
+  if (type === DOCX_TYPE || path.toLowerCase().endsWith('.docx')) {
+    const { value } = await mammoth.extractRawText({ buffer: Buffer.from(bytes) });
+    return value;
+  }
+  return null;
+}
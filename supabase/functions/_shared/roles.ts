@@ -0,0 +1,65 @@
+// No imports, so the app can use this file too; src/lib/roles.ts re-exports it
+
+export const MEMBER_ROLES = ['admin', 'recruiter', 'coordinator', 'read_only'] as const;
+
+export type MemberRole = (typeof MEMBER_ROLES)[number];
+
+export const MEMBER_ROLE_LABELS: Record<MemberRole, string> = {
+  admin: 'Admin',
+  recruiter: 'Recruiter',
+  coordinator: 'Coordinator',
+  read_only: 'Read-only',
+};
+
+export const MEMBER_ROLE_DESCRIPTIONS: Record<MemberRole, string> = {
+  admin: 'Everything, including members and settings',
+  recruiter: 'Work with candidates, templates, campaigns and sequences',
+  coordinator: 'Update candidates, jobs and pipelines, log activity and manage tags',
+  read_only: 'View everything, change nothing',
+};
+
+export function memberRoleLabel(role: string | null | undefined) {
+  if (!role) return '';
+  return MEMBER_ROLE_LABELS[role as MemberRole] ?? role;
+}
+
+export type Permission =
+  | 'candidates.edit'
+  | 'jobs.edit'
+  | 'searches.save'
+  | 'activities.log'
+  | 'tags.manage'
+  | 'templates.edit'
+  | 'templates.delete'
+  | 'outreach.send'
+  | 'members.manage';
+
+// Mirrors the row level security policies; the database has the final say
+export const ROLE_PERMISSIONS: Record<MemberRole, Permission[]> = {
+  admin: [
+    'candidates.edit',
+    'jobs.edit',
+    'searches.save',
+    'activities.log',
+    'tags.manage',
+    'templates.edit',
+    'templates.delete',
+    'outreach.send',
+    'members.manage',
+  ],
+  recruiter: [
+    'candidates.edit',
+    'jobs.edit',
+    'searches.save',
+    'activities.log',
+    'tags.manage',
+    'templates.edit',
+    'outreach.send',
+  ],
+  coordinator: ['candidates.edit', 'jobs.edit', 'searches.save', 'activities.log', 'tags.manage'],
+  read_only: [],
+};
+
+export function hasPermission(role: string | null | undefined, permission: Permission) {
+  return ROLE_PERMISSIONS[role as MemberRole]?.includes(permission) ?? false;
+}
@@ -0,0 +1,466 @@
+/*
+ * Template syntax
+ *
+ *   {firstName}                    the candidate's first name
+ *   {firstName|there}              falls back to "there" when the value is empty
+ *   {#if company}...{/if}          only kept when the variable has a value
+ *   {#if company}...{else}...{/if} with an alternative
+ *
+ * Conditionals can be nested. Anything else between braces is reported as a
+ * syntax error.
+ *
+ * This module has no imports so the app and the send-email Edge Function
+ * render with exactly the same rules; src/lib/templateEngine.ts re-exports it.
+ */
+
+// The candidate columns templates can reference
+export interface TemplateCandidate {
+  first_name?: string | null;
+  last_name?: string | null;
+  personal_email?: string | null;
+  work_email?: string | null;
+  phone?: string | null;
+  current_job_title?: string | null;
+  current_company?: string | null;
+  current_industry?: string | null;
+  current_location?: { city?: string | null } | null;
+  tech_stack?: string[] | null;
+}
+
+export interface TemplateSender {
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+}
+
+export interface TemplateContext {
+  candidate: TemplateCandidate | null;
+  sender: TemplateSender | null;
+}
+
+export type VariableSource = 'candidate' | 'sender';
+
+export interface TemplateVariable {
+  name: string;
+  label: string;
+  source: VariableSource;
+  // Shown in editor hints and used when no candidate is chosen
+  sample: string;
+  resolve: (context: TemplateContext) => string | null | undefined;
+}
+
+function fullName(person: { first_name?: string | null; last_name?: string | null } | null) {
+  if (!person) return '';
+  return [person.first_name, person.last_name].filter(Boolean).join(' ');
+}
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  {
+    name: 'firstName',
+    label: 'First name',
+    source: 'candidate',
+    sample: 'Jordan',
+    resolve: ({ candidate }) => candidate?.first_name,
+  },
+  {
+    name: 'lastName',
+    label: 'Last name',
+    source: 'candidate',
+    sample: 'Lee',
+    resolve: ({ candidate }) => candidate?.last_name,
+  },
+  {
+    name: 'fullName',
+    label: 'Full name',
+    source: 'candidate',
+    sample: 'Jordan Lee',
+    resolve: ({ candidate }) => fullName(candidate),
+  },
+  {
+    name: 'email',
+    label: 'Email',
+    source: 'candidate',
+    sample: 'jordan@example.com',
+    resolve: ({ candidate }) => candidate?.personal_email || candidate?.work_email,
+  },
+  {
+    name: 'phone',
+    label: 'Phone',
+    source: 'candidate',
+    sample: '+1 555 0100',
+    resolve: ({ candidate }) => candidate?.phone,
+  },
+  {
+    name: 'jobTitle',
+    label: 'Current job title',
+    source: 'candidate',
+    sample: 'Senior Backend Engineer',
+    resolve: ({ candidate }) => candidate?.current_job_title,
+  },
+  {
+    name: 'company',
+    label: 'Current company',
+    source: 'candidate',
+    sample: 'Acme Corp',
+    resolve: ({ candidate }) => candidate?.current_company,
+  },
+  {
+    name: 'industry',
+    label: 'Current industry',
+    source: 'candidate',
+    sample: 'Fintech',
+    resolve: ({ candidate }) => candidate?.current_industry,
+  },
+  {
+    name: 'city',
+    label: 'City',
+    source: 'candidate',
+    sample: 'Austin',
+    resolve: ({ candidate }) => candidate?.current_location?.city,
+  },
+  {
+    name: 'techStack',
+    label: 'Tech stack',
+    source: 'candidate',
+    sample: 'Go, PostgreSQL, Kubernetes',
+    resolve: ({ candidate }) => candidate?.tech_stack?.join(', '),
+  },
+  {
+    name: 'senderFirstName',
+    label: 'Your first name',
+    source: 'sender',
+    sample: 'Sam',
+    resolve: ({ sender }) => sender?.first_name,
+  },
+  {
+    name: 'senderLastName',
+    label: 'Your last name',
+    source: 'sender',
+    sample: 'Rivera',
+    resolve: ({ sender }) => sender?.last_name,
+  },
+  {
+    name: 'senderName',
+    label: 'Your full name',
+    source: 'sender',
+    sample: 'Sam Rivera',
+    resolve: ({ sender }) => fullName(sender),
+  },
+  {
+    name: 'senderEmail',
+    label: 'Your email',
+    source: 'sender',
+    sample: 'sam@recruiting.example',
+    resolve: ({ sender }) => sender?.email,
+  },
+];
+
+const VARIABLES_BY_NAME = new Map(TEMPLATE_VARIABLES.map((variable) => [variable.name, variable]));
+
+export function findVariable(name: string) {
+  return VARIABLES_BY_NAME.get(name);
+}
+
+// Positions are character offsets into the template content
+interface Span {
+  start: number;
+  end: number;
+}
+
+export type TemplateNode =
+  | { kind: 'text'; text: string }
+  | ({ kind: 'variable'; name: string; fallback: string | null } & Span)
+  // The span covers the whole block; openEnd is where the {#if ...} tag itself ends
+  | ({ kind: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[]; openEnd: number } & Span);
+
+export interface TemplateError extends Span {
+  message: string;
+}
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  errors: TemplateError[];
+}
+
+export const VARIABLE_NAME = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+type Tag =
+  | ({ kind: 'variable'; name: string; fallback: string | null } & Span)
+  | ({ kind: 'if'; name: string } & Span)
+  | ({ kind: 'else' } & Span)
+  | ({ kind: 'endif' } & Span);
+
+function parseTag(body: string, span: Span): Tag | TemplateError {
+  const tag = body.trim();
+
+  if (tag.startsWith('#if')) {
+    const name = tag.slice(3).trim();
+    return VARIABLE_NAME.test(name)
+      ? { kind: 'if', name, ...span }
+      : { message: `Expected a variable name after #if, got "${name}"`, ...span };
+  }
+  if (tag === 'else') return { kind: 'else', ...span };
+  if (tag === '/if') return { kind: 'endif', ...span };
+
+  const separator = tag.indexOf('|');
+  const name = (separator === -1 ? tag : tag.slice(0, separator)).trim();
+  const fallback = separator === -1 ? null : tag.slice(separator + 1).trim();
+
+  if (!VARIABLE_NAME.test(name)) {
+    return { message: `"{${tag}}" is not a valid placeholder`, ...span };
+  }
+  return { kind: 'variable', name, fallback, ...span };
+}
+
+/**
+ * Parses template content into a tree of text, variables and conditionals.
+ * Parsing never throws: problems are collected as errors with their position
+ * and the offending text is kept as plain text.
+ */
+export function parseTemplate(content: string): ParsedTemplate {
+  const errors: TemplateError[] = [];
+  const root: TemplateNode[] = [];
+  // Open conditionals, innermost last
+  const stack: { node: Extract<TemplateNode, { kind: 'if' }>; inElse: boolean }[] = [];
+
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const nodes = current();
+    const last = nodes[nodes.length - 1];
+    if (last?.kind === 'text') {
+      last.text += text;
+    } else {
+      nodes.push({ kind: 'text', text });
+    }
+  };
+
+  let index = 0;
+  while (index < content.length) {
+    const open = content.indexOf('{', index);
+    if (open === -1) {
+      pushText(content.slice(index));
+      break;
+    }
+
+    pushText(content.slice(index, open));
+    const close = content.indexOf('}', open + 1);
+    const nextOpen = content.indexOf('{', open + 1);
+
+    if (close === -1 || (nextOpen !== -1 && nextOpen < close)) {
+      const end = nextOpen === -1 ? content.length : nextOpen;
+      errors.push({ message: 'Unclosed "{"', start: open, end: open + 1 });
+      pushText(content.slice(open, end));
+      index = end;
+      continue;
+    }
+
+    const span = { start: open, end: close + 1 };
+    const tag = parseTag(content.slice(open + 1, close), span);
+    index = close + 1;
+
+    if ('message' in tag) {
+      errors.push(tag);
+      pushText(content.slice(open, close + 1));
+      continue;
+    }
+
+    switch (tag.kind) {
+      case 'variable':
+        current().push(tag);
+        break;
+      case 'if': {
+        const node = { kind: 'if' as const, name: tag.name, then: [], otherwise: [], openEnd: span.end, ...span };
+        current().push(node);
+        stack.push({ node, inElse: false });
+        break;
+      }
+      case 'else': {
+        const top = stack[stack.length - 1];
+        if (!top || top.inElse) {
+          errors.push({ message: '{else} without a matching {#if}', ...span });
+        } else {
+          top.inElse = true;
+        }
+        break;
+      }
+      case 'endif': {
+        const top = stack.pop();
+        if (!top) {
+          errors.push({ message: '{/if} without a matching {#if}', ...span });
+        } else {
+          top.node.end = span.end;
+        }
+        break;
+      }
+    }
+  }
+
+  for (const { node } of stack) {
+    errors.push({ message: `{#if ${node.name}} is never closed with {/if}`, start: node.start, end: node.openEnd });
+  }
+
+  return { nodes: root, errors };
+}
+
+export interface VariableUsage extends Span {
+  name: string;
+  fallback: string | null;
+}
+
+// Every variable reference, including the ones conditionals test, in order
+export function findVariableUsages(nodes: TemplateNode[]): VariableUsage[] {
+  const usages: VariableUsage[] = [];
+
+  for (const node of nodes) {
+    if (node.kind === 'variable') {
+      usages.push({ name: node.name, fallback: node.fallback, start: node.start, end: node.end });
+    } else if (node.kind === 'if') {
+      usages.push({ name: node.name, fallback: null, start: node.start, end: node.openEnd });
+      usages.push(...findVariableUsages(node.then), ...findVariableUsages(node.otherwise));
+    }
+  }
+
+  return usages;
+}
+
+export function extractVariables(content: string) {
+  return [...new Set(findVariableUsages(parseTemplate(content).nodes).map((usage) => usage.name))];
+}
+
+export function findUnknownVariables(content: string) {
+  return extractVariables(content).filter((name) => !VARIABLES_BY_NAME.has(name));
+}
+
+/**
+ * The variables a template uses, mapped to their fallback text. This is what
+ * gets stored in templates.variables.
+ */
+export function buildVariablesMap(content: string) {
+  const variables: Record<string, string> = {};
+  for (const usage of findVariableUsages(parseTemplate(content).nodes)) {
+    if (!(usage.name in variables) || usage.fallback) {
+      variables[usage.name] = usage.fallback ?? '';
+    }
+  }
+  return variables;
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row.push(Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + cost));
+    }
+    previous = row;
+  }
+  return previous[b.length];
+}
+
+// The closest catalog name, if it's near enough to be a typo
+export function suggestVariable(name: string) {
+  const needle = name.toLowerCase();
+  let best: { name: string; distance: number } | null = null;
+
+  for (const variable of TEMPLATE_VARIABLES) {
+    const distance = editDistance(needle, variable.name.toLowerCase());
+    if (!best || distance < best.distance) best = { name: variable.name, distance };
+  }
+
+  return best && best.distance <= 2 ? best.name : null;
+}
+
+/**
+ * Syntax errors plus every reference to a variable that isn't in the catalog,
+ * with a suggestion when the name looks like a typo.
+ */
+export function validateTemplate(content: string): TemplateError[] {
+  const { nodes, errors } = parseTemplate(content);
+  const unknown = findVariableUsages(nodes)
+    .filter((usage) => !VARIABLES_BY_NAME.has(usage.name))
+    .map((usage) => {
+      const suggestion = suggestVariable(usage.name);
+      return {
+        message: suggestion
+          ? `Unknown variable "${usage.name}". Did you mean "${suggestion}"?`
+          : `Unknown variable "${usage.name}"`,
+        start: usage.start,
+        end: usage.end,
+      };
+    });
+
+  return [...errors, ...unknown].sort((a, b) => a.start - b.start);
+}
+
+export interface RenderResult {
+  output: string;
+  errors: TemplateError[];
+  // Variables that aren't in the catalog
+  unknown: string[];
+  // Known variables that had no value and no fallback
+  missing: string[];
+}
+
+function resolveValue(name: string, context: TemplateContext) {
+  return findVariable(name)?.resolve(context)?.toString().trim() ?? '';
+}
+
+// A made-up candidate and sender matching the catalog samples, for previews without a candidate
+export function sampleContext(): TemplateContext {
+  const candidate: TemplateCandidate = {
+    first_name: 'Jordan',
+    last_name: 'Lee',
+    personal_email: 'jordan@example.com',
+    phone: '+1 555 0100',
+    current_job_title: 'Senior Backend Engineer',
+    current_company: 'Acme Corp',
+    current_industry: 'Fintech',
+    current_location: { city: 'Austin' },
+    tech_stack: ['Go', 'PostgreSQL', 'Kubernetes'],
+  };
+  return {
+    candidate,
+    sender: { first_name: 'Sam', last_name: 'Rivera', email: 'sam@recruiting.example' },
+  };
+}
+
+export function renderTemplate(content: string, context: TemplateContext): RenderResult {
+  const { nodes, errors } = parseTemplate(content);
+  const unknown = new Set<string>();
+  const missing = new Set<string>();
+
+  const render = (list: TemplateNode[]): string =>
+    list
+      .map((node) => {
+        if (node.kind === 'text') return node.text;
+
+        if (!VARIABLES_BY_NAME.has(node.name)) unknown.add(node.name);
+        const value = resolveValue(node.name, context);
+
+        if (node.kind === 'if') return render(value ? node.then : node.otherwise);
+        if (value) return value;
+        if (node.fallback !== null) return node.fallback;
+        // Leave unresolved placeholders visible so they're caught before sending
+        if (VARIABLES_BY_NAME.has(node.name)) missing.add(node.name);
+        return content.slice(node.start, node.end);
+      })
+      .join('');
+
+  return { output: render(nodes), errors, unknown: [...unknown], missing: [...missing] };
+}
+
+// Everything that would stop a rendered message from going out as intended
+export function renderProblems(result: RenderResult) {
+  return [
+    ...result.errors.map((error) => error.message),
+    ...result.unknown.map((name) => `Unknown variable {${name}}`),
+    ...result.missing.map((name) => `{${name}} has no value for this candidate`),
+  ];
+}
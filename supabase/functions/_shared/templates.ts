@@ -0,0 +1,99 @@
+// No imports, so the app can use this file too; src/lib/templates.ts re-exports it
+
+export const TEMPLATE_TYPES = [
+  'email',
+  'message',
+  'linkedin_inmail',
+  'sms',
+  'call_script',
+  'feedback_form',
+  'submission',
+] as const;
+
+export type TemplateType = (typeof TEMPLATE_TYPES)[number];
+
+export const TEMPLATE_TYPE_LABELS: Record<TemplateType, string> = {
+  email: 'Email',
+  message: 'Message',
+  linkedin_inmail: 'LinkedIn InMail',
+  sms: 'SMS',
+  call_script: 'Call Script',
+  feedback_form: 'Interview Feedback Form',
+  submission: 'Candidate Submission',
+};
+
+export const TEMPLATE_TYPE_COLORS: Record<TemplateType, string> = {
+  email: 'bg-indigo-100 text-indigo-800',
+  message: 'bg-gray-100 text-gray-800',
+  linkedin_inmail: 'bg-blue-100 text-blue-800',
+  sms: 'bg-green-100 text-green-800',
+  call_script: 'bg-yellow-100 text-yellow-800',
+  feedback_form: 'bg-purple-100 text-purple-800',
+  submission: 'bg-pink-100 text-pink-800',
+};
+
+export interface TemplateMetadataField {
+  key: string;
+  label: string;
+  placeholder?: string;
+}
+
+// Extra settings each type needs besides its content; values may use template variables
+export const TEMPLATE_TYPE_FIELDS: Record<TemplateType, TemplateMetadataField[]> = {
+  email: [{ key: 'subject', label: 'Subject Line', placeholder: 'Quick question, {firstName}' }],
+  message: [],
+  linkedin_inmail: [{ key: 'subject', label: 'Subject Line', placeholder: 'An opportunity at {company|your company}' }],
+  sms: [],
+  call_script: [{ key: 'goal', label: 'Call Goal', placeholder: 'Book a screening call' }],
+  feedback_form: [{ key: 'interview_stage', label: 'Interview Stage', placeholder: 'Technical interview' }],
+  submission: [
+    { key: 'subject', label: 'Subject Line', placeholder: 'Submitting {fullName} for your opening' },
+    { key: 'audience', label: 'Written For', placeholder: 'Hiring manager' },
+  ],
+};
+
+// Longest message the carrier delivers as a single SMS
+export const SMS_SEGMENT_LENGTH = 160;
+
+export const TEMPLATE_SCOPES = ['shared', 'personal'] as const;
+
+export type TemplateScope = (typeof TEMPLATE_SCOPES)[number];
+
+export const TEMPLATE_SCOPE_LABELS: Record<TemplateScope, string> = {
+  shared: 'Shared with organization',
+  personal: 'Only me',
+};
+
+export interface Template {
+  id: string;
+  organization_id: string;
+  name: string;
+  type: TemplateType;
+  content: string;
+  variables: Record<string, string>;
+  metadata: Record<string, string>;
+  scope: TemplateScope;
+  folder: string | null;
+  version: number;
+  deleted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+}
+
+export function templateTypeLabel(type: string) {
+  return TEMPLATE_TYPE_LABELS[type as TemplateType] ?? type;
+}
+
+// Only the fields the chosen type uses are kept, so switching types doesn't carry stale values
+export function templateMetadataFor(type: TemplateType, metadata: Record<string, string>) {
+  return Object.fromEntries(
+    TEMPLATE_TYPE_FIELDS[type]
+      .map(({ key }) => [key, metadata[key]?.trim() ?? ''])
+      .filter(([, value]) => value)
+  );
+}
+
+export function templateSubject(template: { name: string; metadata?: Record<string, string> | null }) {
+  return template.metadata?.subject || template.name;
+}
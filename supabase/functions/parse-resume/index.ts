@@ -0,0 +1,53 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse, requireEnv } from '../_shared/http.ts';
+import { parseResume } from '../_shared/resumeParser.ts';
+import { extractResumeText } from '../_shared/resumeText.ts';
+
+/*
+ * Reads an uploaded resume and suggests candidate fields from it.
+ *
+ *   POST { path }   a PDF or DOCX in the resumes bucket
+ *   200  { resume } see ParsedResume in _shared/resumeParser.ts
+ *   422  { error }  when no text can be read from the file
+ *
+ * Nothing is saved; the app puts the suggestions into the candidate form.
+ */
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  // Storage runs as the caller, so its policies limit reads to their organization's folder
+  const supabase = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return jsonResponse({ error: 'Not signed in' }, 401);
+
+  let input: { path?: string };
+  try {
+    input = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Request body must be JSON' }, 400);
+  }
+  if (!input.path) return jsonResponse({ error: 'path is required' }, 400);
+
+  try {
+    const { data: file, error } = await supabase.storage.from('resumes').download(input.path);
+    if (error || !file) return jsonResponse({ error: 'Resume not found' }, 404);
+
+    const text = await extractResumeText(new Uint8Array(await file.arrayBuffer()), file.type, input.path);
+    if (text === null) return jsonResponse({ error: 'Only PDF and DOCX resumes can be read' }, 422);
+    if (!text.trim()) {
+      return jsonResponse({ error: 'No text found in the resume. Scanned documents are not supported' }, 422);
+    }
+
+    return jsonResponse({ resume: parseResume(text) });
+  } catch (error) {
+    console.error('Error parsing resume:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Could not read the resume' }, 500);
+  }
+});
@@ -0,0 +1,227 @@
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse, requireEnv } from '../_shared/http.ts';
+import { transportFromEnv } from '../_shared/mail.ts';
+import { sendTemplateEmail, UnloggedEmailError, type OutreachTemplate } from '../_shared/outreach.ts';
+import { hasPermission } from '../_shared/roles.ts';
+
+/*
+ * Sends the next batch of every campaign that is sending. pg_cron calls it
+ * once a minute with the service role key; nobody else may.
+ *
+ *   POST {}
+ *   200  { campaigns: [{ id, status, sent, failed, remaining } or { id, error }] }
+ *   401  { error } when not called with the service role key
+ *
+ * Each run claims at most one minute's worth of messages per campaign at its
+ * rate and spaces them evenly. Messages go out as the user who created the
+ * campaign. A campaign whose creator can no longer send, or can no longer use
+ * its template, is paused.
+ * Pausing stops a batch between messages and hands the rest of it back. A
+ * batch left unfinished by a run that died is claimed again after ten
+ * minutes, and a campaign only completes once nothing is queued.
+ */
+
+const transport = transportFromEnv();
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+interface CampaignTemplate extends OutreachTemplate {
+  organization_id: string;
+  scope: string;
+  created_by: string | null;
+}
+
+interface CampaignResult {
+  id: string;
+  status: string;
+  sent: number;
+  failed: number;
+  remaining: number;
+}
+
+// Includes claimed rows: another run may still be sending them, or died and left them to be claimed again
+async function countRemaining(supabase: SupabaseClient, campaignId: string) {
+  const { count, error } = await supabase
+    .from('campaign_recipients')
+    .select('id', { count: 'exact', head: true })
+    .eq('campaign_id', campaignId)
+    .eq('status', 'queued');
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// A row left queued is claimed again by a later run, so a failed update is worth a log line
+async function updateRecipient(supabase: SupabaseClient, recipientId: string, values: Record<string, unknown>) {
+  const { error } = await supabase.from('campaign_recipients').update(values).eq('id', recipientId);
+  if (error) console.error(`Error updating campaign recipient ${recipientId}:`, error);
+}
+
+async function runCampaign(
+  supabase: SupabaseClient,
+  campaign: {
+    id: string;
+    organization_id: string;
+    subject: string;
+    status: string;
+    send_rate_per_minute: number;
+    created_by: string;
+    template: CampaignTemplate | CampaignTemplate[] | null;
+  }
+): Promise<CampaignResult> {
+  const { data: sender, error: senderError } = await supabase
+    .from('profiles')
+    .select('id, organization_id, first_name, last_name, role, email')
+    .eq('id', campaign.created_by)
+    .single();
+
+  if (senderError) throw senderError;
+
+  // This client skips RLS, so check what the policies would have
+  const template = Array.isArray(campaign.template) ? campaign.template[0] : campaign.template;
+  const canUseTemplate =
+    template?.organization_id === campaign.organization_id &&
+    (template.scope === 'shared' || template.created_by === campaign.created_by);
+
+  let status = campaign.status;
+  if (
+    !template ||
+    !canUseTemplate ||
+    sender.organization_id !== campaign.organization_id ||
+    !hasPermission(sender.role, 'outreach.send')
+  ) {
+    status = 'paused';
+    const { error } = await supabase.from('campaigns').update({ status }).eq('id', campaign.id);
+    if (error) throw error;
+    return { id: campaign.id, status, sent: 0, failed: 0, remaining: await countRemaining(supabase, campaign.id) };
+  }
+
+  const { data: recipients, error: claimError } = await supabase.rpc('claim_campaign_recipients', {
+    claim_campaign_id: campaign.id,
+    batch_size: campaign.send_rate_per_minute,
+  });
+
+  if (claimError) throw claimError;
+
+  const interval = 60_000 / campaign.send_rate_per_minute;
+  const claimed: { id: string; candidate_id: string; email: string }[] = recipients ?? [];
+  let sent = 0;
+  let failed = 0;
+
+  for (const [index, recipient] of claimed.entries()) {
+    if (index > 0) {
+      await sleep(interval);
+
+      const { data: current } = await supabase.from('campaigns').select('status').eq('id', campaign.id).single();
+      status = current?.status ?? status;
+      if (status !== 'sending') {
+        // Hand back what this run didn't get to, so resuming sends it
+        const { error } = await supabase
+          .from('campaign_recipients')
+          .update({ attempted_at: null })
+          .in('id', claimed.slice(index).map((unsent) => unsent.id));
+        if (error) throw error;
+        break;
+      }
+    }
+
+    try {
+      const { data: candidate, error: candidateError } = await supabase
+        .from('candidates')
+        .select('*')
+        .eq('id', recipient.candidate_id)
+        .single();
+
+      if (candidateError) throw candidateError;
+
+      const { messageId } = await sendTemplateEmail(supabase, transport, {
+        template,
+        subject: campaign.subject,
+        candidate,
+        sender,
+        // The address shown when the campaign was created, even if the candidate's has changed since
+        to: recipient.email,
+        metadata: { campaign_id: campaign.id },
+      });
+
+      await updateRecipient(supabase, recipient.id, {
+        status: 'sent',
+        message_id: messageId,
+        sent_at: new Date().toISOString(),
+        error: null,
+      });
+      sent++;
+    } catch (error) {
+      // It went out, so it must not be queued again; keep the reason it isn't on the timeline
+      if (error instanceof UnloggedEmailError) {
+        await updateRecipient(supabase, recipient.id, {
+          status: 'sent',
+          message_id: error.messageId,
+          sent_at: new Date().toISOString(),
+          error: error.message,
+        });
+        sent++;
+        continue;
+      }
+
+      console.error('Error sending campaign message:', error);
+      await updateRecipient(supabase, recipient.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Could not send',
+      });
+      failed++;
+    }
+  }
+
+  const remaining = await countRemaining(supabase, campaign.id);
+  if (remaining === 0 && status === 'sending') {
+    status = 'completed';
+    const { error } = await supabase
+      .from('campaigns')
+      .update({ status, completed_at: new Date().toISOString() })
+      .eq('id', campaign.id);
+    if (error) throw error;
+  }
+
+  return { id: campaign.id, status, sent, failed, remaining };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY');
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Campaigns are sent by the scheduler' }, 401);
+  }
+
+  // Runs for every organization, so each campaign's own creator and rows are used throughout
+  const supabase = createClient(requireEnv('SUPABASE_URL'), serviceRoleKey);
+
+  try {
+    const { data: campaigns, error } = await supabase
+      .from('campaigns')
+      .select(
+        'id, organization_id, subject, status, send_rate_per_minute, created_by, ' +
+          'template:templates(id, name, content, version, organization_id, scope, created_by)'
+      )
+      .eq('status', 'sending');
+
+    if (error) throw error;
+
+    const results = await Promise.all(
+      (campaigns ?? []).map((campaign) =>
+        runCampaign(supabase, campaign).catch((error) => {
+          console.error(`Error running campaign ${campaign.id}:`, error);
+          return { id: campaign.id, error: error instanceof Error ? error.message : 'Could not run campaign' };
+        })
+      )
+    );
+
+    return jsonResponse({ campaigns: results });
+  } catch (error) {
+    console.error('Error running campaigns:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Could not run campaigns' }, 500);
+  }
+});
@@ -0,0 +1,91 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse, requireEnv } from '../_shared/http.ts';
+import { transportFromEnv } from '../_shared/mail.ts';
+import { OutreachError, OutreachPermissionError, sendTemplateEmail, UnloggedEmailError } from '../_shared/outreach.ts';
+import { hasPermission } from '../_shared/roles.ts';
+import { templateSubject } from '../_shared/templates.ts';
+
+/*
+ * Sends an email template to one candidate.
+ *
+ *   POST { template_id, candidate_id, subject? }
+ *   200  { message_id, activity }
+ *   403  { error } when the caller's role doesn't allow sending
+ *   422  { error, problems } when the template can't be rendered for the candidate
+ *   500  { error, message_id } when the email was sent but could not be logged
+ *
+ * The mail credentials only exist here; see _shared/mail.ts for configuration.
+ */
+
+const transport = transportFromEnv();
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  // Queries run as the caller, so RLS limits them to their own organization
+  const supabase = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return jsonResponse({ error: 'Not signed in' }, 401);
+
+  let input: { template_id?: string; candidate_id?: string; subject?: string };
+  try {
+    input = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Request body must be JSON' }, 400);
+  }
+  if (!input.template_id || !input.candidate_id) {
+    return jsonResponse({ error: 'template_id and candidate_id are required' }, 400);
+  }
+
+  try {
+    const [
+      { data: profile, error: profileError },
+      { data: template, error: templateError },
+      { data: candidate, error: candidateError },
+    ] = await Promise.all([
+      supabase.from('profiles').select('id, organization_id, first_name, last_name, role').eq('id', user.id).single(),
+      supabase
+        .from('templates')
+        .select('id, name, content, version, metadata')
+        .eq('id', input.template_id)
+        .eq('type', 'email')
+        .is('deleted_at', null)
+        .maybeSingle(),
+      supabase.from('candidates').select('*').eq('id', input.candidate_id).maybeSingle(),
+    ]);
+
+    if (profileError) throw profileError;
+    if (!hasPermission(profile.role, 'outreach.send')) return jsonResponse({ error: 'Your role does not allow sending emails' }, 403);
+    if (templateError) throw templateError;
+    if (candidateError) throw candidateError;
+    if (!template) return jsonResponse({ error: 'Email template not found' }, 404);
+    if (!candidate) return jsonResponse({ error: 'Candidate not found' }, 404);
+
+    const { messageId, activity } = await sendTemplateEmail(supabase, transport, {
+      template,
+      subject: input.subject?.trim() || templateSubject(template),
+      candidate,
+      sender: { ...profile, email: user.email ?? null },
+    });
+
+    return jsonResponse({ message_id: messageId, activity });
+  } catch (error) {
+    if (error instanceof OutreachPermissionError) {
+      return jsonResponse({ error: error.message }, 403);
+    }
+    if (error instanceof OutreachError) {
+      return jsonResponse({ error: error.message, problems: error.problems }, 422);
+    }
+    if (error instanceof UnloggedEmailError) {
+      return jsonResponse({ error: error.message, message_id: error.messageId }, 500);
+    }
+    console.error('Error sending email:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Could not send email' }, 500);
+  }
+});
@@ -0,0 +1,103 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse, requireEnv } from '../_shared/http.ts';
+import { transportFromEnv } from '../_shared/mail.ts';
+import { memberRoleLabel, MEMBER_ROLES } from '../_shared/roles.ts';
+
+/*
+ * Invites a teammate by email, or sends an open invitation again with a new
+ * link. Only admins can invite; the database policies enforce that.
+ *
+ *   POST { email, role }      invite an address (renews its open invitation if there is one)
+ *   POST { invitation_id }    send an open invitation again
+ *   200  { invitation }
+ *
+ * APP_URL is where the app is served; links point at APP_URL/auth?invite=<token>,
+ * where new teammates sign up and people with an account sign in to accept.
+ */
+
+interface InviterProfile {
+  first_name: string | null;
+  last_name: string | null;
+  role: string;
+  organization: { name: string } | null;
+}
+
+const transport = transportFromEnv();
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return jsonResponse({ error: 'Method not allowed' }, 405);
+
+  // Queries run as the caller, so RLS limits them to their own organization
+  const supabase = createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return jsonResponse({ error: 'Not signed in' }, 401);
+
+  let input: { email?: string; role?: string; invitation_id?: string };
+  try {
+    input = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Request body must be JSON' }, 400);
+  }
+  if (!input.invitation_id && !input.email?.trim()) {
+    return jsonResponse({ error: 'email or invitation_id is required' }, 400);
+  }
+  if (!input.invitation_id && !MEMBER_ROLES.includes(input.role as (typeof MEMBER_ROLES)[number])) {
+    return jsonResponse({ error: `role must be one of ${MEMBER_ROLES.join(', ')}` }, 400);
+  }
+
+  try {
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('first_name, last_name, role, organization:organizations(name)')
+      .eq('id', user.id)
+      .single()
+      .overrideTypes<InviterProfile, { merge: false }>();
+
+    if (profileError) throw profileError;
+    if (profile.role !== 'admin') return jsonResponse({ error: 'Only admins can invite members' }, 403);
+
+    const { data: created, error: createError } = input.invitation_id
+      ? await supabase.rpc('renew_invitation', { invitation_id: input.invitation_id }).single()
+      : await supabase.rpc('create_invitation', { invite_email: input.email, invite_role: input.role }).single();
+
+    if (createError) return jsonResponse({ error: createError.message }, 422);
+    const { id, token } = created as { id: string; token: string };
+
+    const { data: invitation, error: invitationError } = await supabase
+      .from('invitations')
+      .select('id, email, role, expires_at, last_sent_at, created_at')
+      .eq('id', id)
+      .single();
+
+    if (invitationError) throw invitationError;
+
+    const organization = profile.organization?.name ?? 'the team';
+    const inviter = [profile.first_name, profile.last_name].filter(Boolean).join(' ') || user.email;
+    const link = `${requireEnv('APP_URL').replace(/\/+$/, '')}/auth?invite=${token}`;
+
+    await transport.send({
+      from: requireEnv('MAIL_FROM'),
+      to: invitation.email,
+      replyTo: user.email ?? undefined,
+      subject: `${inviter} invited you to join ${organization}`,
+      text: [
+        `${inviter} invited you to join ${organization} as ${memberRoleLabel(invitation.role)}.`,
+        '',
+        `Accept the invitation here: ${link}`,
+        '',
+        `This link expires on ${new Date(invitation.expires_at).toUTCString()}.`,
+      ].join('\n'),
+    });
+
+    return jsonResponse({ invitation });
+  } catch (error) {
+    console.error('Error sending invitation:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Could not send the invitation' }, 500);
+  }
+});
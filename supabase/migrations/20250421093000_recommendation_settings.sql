@@ -0,0 +1,44 @@
+/*
+  # Recommended action settings
+
+  1. Changes
+    - organizations.recommendation_settings (per organization rule configuration)
+    - current_organization_id() returns the caller's organization without
+      going through the profiles policies. The original profiles policy looked
+      itself up, which Postgres rejects as infinite recursion, and every
+      policy that finds the caller's organization through profiles hit it
+
+  2. Security
+    - Admins can update their own organization
+    - Users can view profiles in their organization
+*/
+
+ALTER TABLE organizations
+  ADD COLUMN recommendation_settings jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE OR REPLACE FUNCTION current_organization_id()
+RETURNS uuid AS $$
+  SELECT organization_id FROM profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY "Users can view profiles in their organization" ON profiles;
+
+CREATE POLICY "Users can view profiles in their organization"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (organization_id = current_organization_id());
+
+CREATE POLICY "Admins can update their organization"
+  ON organizations
+  FOR UPDATE
+  TO authenticated
+  USING (id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  ))
+  WITH CHECK (id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+-- Speeds up the last contact lookup behind the recommendations
+CREATE INDEX idx_activities_candidate_created ON activities(candidate_id, created_at DESC);
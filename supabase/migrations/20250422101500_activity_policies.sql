@@ -0,0 +1,34 @@
+/*
+  # Activity policies
+
+  1. Security
+    - Users can view activities in their organization
+    - Users can log activities against candidates in their organization,
+      recorded under their own profile
+*/
+
+CREATE POLICY "Users can view activities in their organization"
+  ON activities
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can log activities in their organization"
+  ON activities
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+    AND candidate_id IN (
+      SELECT id FROM candidates WHERE candidates.organization_id = activities.organization_id
+    )
+  );
+
+ALTER TABLE activities
+  ADD CONSTRAINT activities_type_check
+  CHECK (type IN ('email', 'call', 'meeting', 'note', 'stage_change'));
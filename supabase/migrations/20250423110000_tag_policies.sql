@@ -0,0 +1,126 @@
+/*
+  # Tag management
+
+  1. Changes
+    - candidate_tags rows are removed with their tag or candidate
+    - merge_tags(source, target) moves every candidate from one tag onto
+      another and removes the source tag in a single transaction
+    - Index for looking up candidates by tag
+
+  2. Security
+    - Users can manage tags in their organization
+    - Users can attach tags to candidates when both belong to their organization
+*/
+
+ALTER TABLE candidate_tags
+  DROP CONSTRAINT candidate_tags_tag_id_fkey,
+  ADD CONSTRAINT candidate_tags_tag_id_fkey
+    FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE;
+
+ALTER TABLE candidate_tags
+  DROP CONSTRAINT candidate_tags_candidate_id_fkey,
+  ADD CONSTRAINT candidate_tags_candidate_id_fkey
+    FOREIGN KEY (candidate_id) REFERENCES candidates(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_tags_organization ON tags(organization_id);
+CREATE INDEX idx_candidate_tags_tag ON candidate_tags(tag_id);
+
+-- Tag policies
+CREATE POLICY "Users can view tags in their organization"
+  ON tags
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create tags in their organization"
+  ON tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update tags in their organization"
+  ON tags
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete tags in their organization"
+  ON tags
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+-- Candidate tag policies check through the parent candidate and tag
+CREATE POLICY "Users can view candidate tags in their organization"
+  ON candidate_tags
+  FOR SELECT
+  TO authenticated
+  USING (candidate_id IN (
+    SELECT id FROM candidates WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Users can tag candidates in their organization"
+  ON candidate_tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    candidate_id IN (
+      SELECT id FROM candidates WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+    AND tag_id IN (
+      SELECT id FROM tags WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can untag candidates in their organization"
+  ON candidate_tags
+  FOR DELETE
+  TO authenticated
+  USING (candidate_id IN (
+    SELECT id FROM candidates WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+-- Runs as the caller so the policies above still apply
+CREATE OR REPLACE FUNCTION merge_tags(source_tag_id uuid, target_tag_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF source_tag_id = target_tag_id THEN
+    RAISE EXCEPTION 'Cannot merge a tag into itself';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM tags source
+    JOIN tags target ON target.organization_id = source.organization_id
+    WHERE source.id = source_tag_id AND target.id = target_tag_id
+  ) THEN
+    RAISE EXCEPTION 'Tags must belong to the same organization';
+  END IF;
+
+  INSERT INTO candidate_tags (candidate_id, tag_id, created_by)
+  SELECT candidate_id, target_tag_id, auth.uid()
+  FROM candidate_tags
+  WHERE tag_id = source_tag_id
+  ON CONFLICT (candidate_id, tag_id) DO NOTHING;
+
+  DELETE FROM tags WHERE id = source_tag_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
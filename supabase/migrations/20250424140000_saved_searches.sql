@@ -0,0 +1,70 @@
+/*
+  # Saved searches
+
+  1. Tables
+    - saved_searches (named search text + candidate filters, kept private to
+      their creator or shared with the organization)
+
+  2. Security
+    - Users can see their own saved searches and the ones shared with their organization
+    - Users can only create, update and delete their own saved searches
+*/
+
+CREATE TABLE saved_searches (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id uuid NOT NULL REFERENCES organizations(id),
+  name text NOT NULL,
+  search_query text NOT NULL DEFAULT '',
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  visibility text NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'organization')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  created_by uuid NOT NULL REFERENCES profiles(id)
+);
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and shared saved searches"
+  ON saved_searches
+  FOR SELECT
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR (
+      visibility = 'organization'
+      AND organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can create saved searches in their organization"
+  ON saved_searches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own saved searches"
+  ON saved_searches
+  FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON saved_searches
+  FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid());
+
+CREATE INDEX idx_saved_searches_organization ON saved_searches(organization_id);
+
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,72 @@
+/*
+  # Candidate full-text search
+
+  1. Changes
+    - candidates.search_vector, kept up to date by a trigger, weighted over
+      names (A), titles, companies and tech stack (B), industries (C) and
+      nurturing notes (D)
+    - candidate_search_query(text) turns raw user input into a prefix-matching
+      tsquery, dropping punctuation so input can never break the query syntax
+    - search_candidates(text) returns matching candidates ordered by rank; an
+      empty search returns every candidate. It runs as the caller, so RLS
+      still applies, and PostgREST filters can be chained onto it.
+*/
+
+ALTER TABLE candidates ADD COLUMN search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION candidate_search_vector(c candidates)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('simple',
+      coalesce(c.first_name, '') || ' ' || coalesce(c.last_name, '')), 'A') ||
+    setweight(to_tsvector('simple',
+      coalesce(c.current_job_title, '') || ' ' ||
+      coalesce(array_to_string(c.past_job_titles, ' '), '') || ' ' ||
+      coalesce(c.current_company, '') || ' ' ||
+      coalesce(array_to_string(c.past_companies, ' '), '') || ' ' ||
+      coalesce(array_to_string(c.tech_stack, ' '), '')), 'B') ||
+    setweight(to_tsvector('simple',
+      coalesce(c.current_industry, '') || ' ' ||
+      coalesce(array_to_string(c.past_industries, ' '), '')), 'C') ||
+    setweight(to_tsvector('simple',
+      coalesce(c.nurturing_info->>'notes', '')), 'D');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION update_candidate_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := candidate_search_vector(NEW);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_candidates_search_vector
+  BEFORE INSERT OR UPDATE ON candidates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_candidate_search_vector();
+
+-- Backfill existing rows without touching updated_at
+ALTER TABLE candidates DISABLE TRIGGER update_candidates_updated_at;
+UPDATE candidates c SET search_vector = candidate_search_vector(c);
+ALTER TABLE candidates ENABLE TRIGGER update_candidates_updated_at;
+
+CREATE INDEX idx_candidates_search_vector ON candidates USING gin(search_vector);
+
+CREATE OR REPLACE FUNCTION candidate_search_query(search text)
+RETURNS tsquery AS $$
+  SELECT to_tsquery('simple', string_agg(lexeme || ':*', ' & '))
+  FROM unnest(regexp_split_to_array(lower(coalesce(search, '')), '[^[:alnum:]]+')) AS lexeme
+  WHERE lexeme <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION search_candidates(search text DEFAULT '')
+RETURNS SETOF candidates AS $$
+  SELECT c.*
+  FROM candidates c
+  WHERE candidate_search_query(search) IS NULL
+    OR c.search_vector @@ candidate_search_query(search)
+  ORDER BY
+    ts_rank(c.search_vector, coalesce(candidate_search_query(search), ''::tsquery)) DESC,
+    c.last_name,
+    c.first_name;
+$$ LANGUAGE sql STABLE;
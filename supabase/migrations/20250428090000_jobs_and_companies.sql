@@ -0,0 +1,184 @@
+/*
+  # Jobs and client companies
+
+  1. Tables
+    - companies (client companies we recruit for)
+    - jobs (roles we are hiring for at a client company)
+    - job_candidates (candidates attached to a job)
+
+  2. Security
+    - Users can manage companies, jobs and job candidates in their organization
+*/
+
+CREATE TABLE companies (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id uuid NOT NULL REFERENCES organizations(id),
+  name text NOT NULL,
+  website text,
+  industry text,
+  company_size text,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id),
+  updated_by uuid REFERENCES profiles(id)
+);
+
+CREATE TABLE jobs (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id uuid NOT NULL REFERENCES organizations(id),
+  company_id uuid REFERENCES companies(id) ON DELETE SET NULL,
+  client_contact_id uuid REFERENCES candidates(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  description text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'on_hold', 'filled', 'closed')),
+  functional_role text,
+  must_haves text[],
+  tech_stack text[],
+  compensation_band jsonb,
+  location jsonb,
+  workplace_policy text CHECK (workplace_policy IN ('remote', 'hybrid', 'onsite')),
+  visa_sponsorship boolean DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id),
+  updated_by uuid REFERENCES profiles(id)
+);
+
+CREATE TABLE job_candidates (
+  job_id uuid REFERENCES jobs(id) ON DELETE CASCADE,
+  candidate_id uuid REFERENCES candidates(id) ON DELETE CASCADE,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id),
+  PRIMARY KEY (job_id, candidate_id)
+);
+
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_candidates ENABLE ROW LEVEL SECURITY;
+
+-- Company policies
+CREATE POLICY "Users can view companies in their organization"
+  ON companies
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create companies in their organization"
+  ON companies
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update companies in their organization"
+  ON companies
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete companies in their organization"
+  ON companies
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+-- Job policies
+CREATE POLICY "Users can view jobs in their organization"
+  ON jobs
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create jobs in their organization"
+  ON jobs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update jobs in their organization"
+  ON jobs
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete jobs in their organization"
+  ON jobs
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+-- Job candidate policies check through the parent job and candidate
+CREATE POLICY "Users can view job candidates in their organization"
+  ON job_candidates
+  FOR SELECT
+  TO authenticated
+  USING (job_id IN (
+    SELECT id FROM jobs WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Users can attach candidates to jobs in their organization"
+  ON job_candidates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    job_id IN (
+      SELECT id FROM jobs WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+    AND candidate_id IN (
+      SELECT id FROM candidates WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can detach candidates from jobs in their organization"
+  ON job_candidates
+  FOR DELETE
+  TO authenticated
+  USING (job_id IN (
+    SELECT id FROM jobs WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE INDEX idx_companies_organization ON companies(organization_id);
+CREATE INDEX idx_jobs_organization ON jobs(organization_id);
+CREATE INDEX idx_jobs_company ON jobs(company_id);
+CREATE INDEX idx_job_candidates_candidate ON job_candidates(candidate_id);
+
+CREATE TRIGGER update_companies_updated_at
+  BEFORE UPDATE ON companies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_jobs_updated_at
+  BEFORE UPDATE ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
@@ -0,0 +1,150 @@
+/*
+  # Requisitions and candidate pipeline
+
+  1. Tables
+    - requisitions (an opening we are filling for a job)
+    - requisition_candidates (one row per candidate in a requisition's
+      pipeline, holding their current stage)
+
+  2. Changes
+    - Stage moves are recorded as stage_change activities by the app; the
+      row itself only keeps the current stage and when it last changed
+
+  3. Security
+    - Users can manage requisitions and pipelines in their organization
+*/
+
+CREATE TABLE requisitions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id uuid NOT NULL REFERENCES organizations(id),
+  job_id uuid NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  headcount integer NOT NULL DEFAULT 1 CHECK (headcount > 0),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id),
+  updated_by uuid REFERENCES profiles(id)
+);
+
+CREATE TABLE requisition_candidates (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  requisition_id uuid NOT NULL REFERENCES requisitions(id) ON DELETE CASCADE,
+  candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  stage text NOT NULL DEFAULT 'sourced' CHECK (stage IN (
+    'sourced', 'contacted', 'screening', 'submitted', 'interviewing', 'offer', 'placed', 'rejected'
+  )),
+  stage_changed_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id),
+  updated_by uuid REFERENCES profiles(id),
+  UNIQUE (requisition_id, candidate_id)
+);
+
+ALTER TABLE requisitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE requisition_candidates ENABLE ROW LEVEL SECURITY;
+
+-- Requisition policies
+CREATE POLICY "Users can view requisitions in their organization"
+  ON requisitions
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create requisitions in their organization"
+  ON requisitions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update requisitions in their organization"
+  ON requisitions
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete requisitions in their organization"
+  ON requisitions
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+-- Pipeline policies check through the parent requisition and candidate
+CREATE POLICY "Users can view pipelines in their organization"
+  ON requisition_candidates
+  FOR SELECT
+  TO authenticated
+  USING (requisition_id IN (
+    SELECT id FROM requisitions WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Users can add candidates to pipelines in their organization"
+  ON requisition_candidates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    requisition_id IN (
+      SELECT id FROM requisitions WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+    AND candidate_id IN (
+      SELECT id FROM candidates WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can move candidates in pipelines in their organization"
+  ON requisition_candidates
+  FOR UPDATE
+  TO authenticated
+  USING (requisition_id IN (
+    SELECT id FROM requisitions WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ))
+  WITH CHECK (requisition_id IN (
+    SELECT id FROM requisitions WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Users can remove candidates from pipelines in their organization"
+  ON requisition_candidates
+  FOR DELETE
+  TO authenticated
+  USING (requisition_id IN (
+    SELECT id FROM requisitions WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE INDEX idx_requisitions_organization ON requisitions(organization_id);
+CREATE INDEX idx_requisitions_job ON requisitions(job_id);
+CREATE INDEX idx_requisition_candidates_candidate ON requisition_candidates(candidate_id);
+CREATE INDEX idx_requisition_candidates_stage ON requisition_candidates(requisition_id, stage);
+
+CREATE TRIGGER update_requisitions_updated_at
+  BEFORE UPDATE ON requisitions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_requisition_candidates_updated_at
+  BEFORE UPDATE ON requisition_candidates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
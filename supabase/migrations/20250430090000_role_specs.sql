@@ -0,0 +1,13 @@
+/*
+  # Role specs for candidate matching
+
+  1. Changes
+    - jobs.role_spec holds the matching settings that the job columns don't
+      cover: title keywords, nice-to-have tech, criterion weights and the
+      minimum score shown in the ranked list
+
+  2. Security
+    - Covered by the existing job policies
+*/
+
+ALTER TABLE jobs ADD COLUMN role_spec jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,178 @@
+/*
+  # Outreach campaigns
+
+  1. Tables
+    - campaigns (one email template sent to many candidates at a capped rate)
+    - campaign_recipients (one row per candidate, tracking their send status)
+
+  2. Changes
+    - Recipients are queued when the campaign is created and sent in batches
+      by the send-campaign function. attempted_at is claimed before each send
+      so overlapping runs don't pick up the same recipient. A run that dies
+      after sending but before recording it leaves the recipient queued, and
+      the run that reclaims them ten minutes later emails them again
+    - Logging an inbound email from a candidate marks their sent campaign
+      messages as replied
+
+  3. Security
+    - Users can manage campaigns in their organization; recipients are
+      checked through their campaign
+*/
+
+CREATE TABLE campaigns (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id uuid NOT NULL REFERENCES organizations(id),
+  template_id uuid NOT NULL REFERENCES templates(id),
+  name text NOT NULL,
+  subject text NOT NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sending', 'paused', 'completed')),
+  send_rate_per_minute integer NOT NULL DEFAULT 20 CHECK (send_rate_per_minute BETWEEN 1 AND 60),
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id),
+  updated_by uuid REFERENCES profiles(id)
+);
+
+CREATE TABLE campaign_recipients (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  campaign_id uuid NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'failed', 'replied')),
+  error text,
+  message_id text,
+  attempted_at timestamptz,
+  sent_at timestamptz,
+  replied_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (campaign_id, candidate_id)
+);
+
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+-- Campaign policies
+CREATE POLICY "Users can view campaigns in their organization"
+  ON campaigns
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create campaigns in their organization"
+  ON campaigns
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update campaigns in their organization"
+  ON campaigns
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete campaigns in their organization"
+  ON campaigns
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+-- Recipient policies check through the parent campaign and candidate
+CREATE POLICY "Users can view campaign recipients in their organization"
+  ON campaign_recipients
+  FOR SELECT
+  TO authenticated
+  USING (campaign_id IN (
+    SELECT id FROM campaigns WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Users can add campaign recipients in their organization"
+  ON campaign_recipients
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    campaign_id IN (
+      SELECT id FROM campaigns WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+    AND candidate_id IN (
+      SELECT id FROM candidates WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can update campaign recipients in their organization"
+  ON campaign_recipients
+  FOR UPDATE
+  TO authenticated
+  USING (campaign_id IN (
+    SELECT id FROM campaigns WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ))
+  WITH CHECK (campaign_id IN (
+    SELECT id FROM campaigns WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Users can remove campaign recipients in their organization"
+  ON campaign_recipients
+  FOR DELETE
+  TO authenticated
+  USING (campaign_id IN (
+    SELECT id FROM campaigns WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE INDEX idx_campaigns_organization ON campaigns(organization_id);
+CREATE INDEX idx_campaign_recipients_status ON campaign_recipients(campaign_id, status);
+CREATE INDEX idx_campaign_recipients_candidate ON campaign_recipients(candidate_id);
+
+CREATE TRIGGER update_campaigns_updated_at
+  BEFORE UPDATE ON campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_campaign_recipients_updated_at
+  BEFORE UPDATE ON campaign_recipients
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- An inbound email from a candidate counts as a reply to what we sent them
+CREATE OR REPLACE FUNCTION mark_campaign_replies()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.type = 'email' AND NEW.metadata->>'direction' = 'inbound' THEN
+    UPDATE campaign_recipients
+    SET status = 'replied', replied_at = NEW.created_at
+    WHERE candidate_id = NEW.candidate_id
+      AND status = 'sent'
+      AND sent_at <= NEW.created_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER mark_campaign_replies_on_activity
+  AFTER INSERT ON activities
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_campaign_replies();
@@ -0,0 +1,300 @@
+/*
+  # Follow-up sequences
+
+  1. Tables
+    - sequences (a named series of outreach steps)
+    - sequence_steps (a template to send a number of days after enrollment)
+    - sequence_enrollments (a candidate working through a sequence; current_step
+      is the position of the next step to send)
+    - sequence_tasks (a step that has come due for an enrollment)
+
+  2. Changes
+    - enqueue_due_sequence_steps() creates a task for every active enrollment
+      whose next step is due. pg_cron runs it every 15 minutes; locally it
+      can be run by hand with SELECT enqueue_due_sequence_steps()
+    - Enrollments stop by themselves when the candidate replies (an inbound
+      activity is logged) or their is_active_looking flag changes
+
+  3. Security
+    - Users can manage sequences in their organization; steps, enrollments
+      and tasks are checked through their sequence
+*/
+
+CREATE TABLE sequences (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id uuid NOT NULL REFERENCES organizations(id),
+  name text NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id),
+  updated_by uuid REFERENCES profiles(id)
+);
+
+CREATE TABLE sequence_steps (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sequence_id uuid NOT NULL REFERENCES sequences(id) ON DELETE CASCADE,
+  position integer NOT NULL CHECK (position >= 0),
+  template_id uuid NOT NULL REFERENCES templates(id),
+  delay_days integer NOT NULL DEFAULT 0 CHECK (delay_days >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  -- Deferred so steps can be reordered in a single upsert
+  UNIQUE (sequence_id, position) DEFERRABLE INITIALLY DEFERRED
+);
+
+CREATE TABLE sequence_enrollments (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sequence_id uuid NOT NULL REFERENCES sequences(id) ON DELETE CASCADE,
+  candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'stopped')),
+  stop_reason text CHECK (stop_reason IN ('replied', 'looking_changed', 'manual')),
+  current_step integer NOT NULL DEFAULT 0,
+  enrolled_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id),
+  updated_by uuid REFERENCES profiles(id)
+);
+
+CREATE TABLE sequence_tasks (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  enrollment_id uuid NOT NULL REFERENCES sequence_enrollments(id) ON DELETE CASCADE,
+  step_id uuid NOT NULL REFERENCES sequence_steps(id) ON DELETE CASCADE,
+  due_at timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'due' CHECK (status IN ('due', 'done', 'skipped')),
+  completed_at timestamptz,
+  completed_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (enrollment_id, step_id)
+);
+
+ALTER TABLE sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sequence_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sequence_enrollments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sequence_tasks ENABLE ROW LEVEL SECURITY;
+
+-- Sequence policies
+CREATE POLICY "Users can view sequences in their organization"
+  ON sequences
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create sequences in their organization"
+  ON sequences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update sequences in their organization"
+  ON sequences
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete sequences in their organization"
+  ON sequences
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+-- Step and enrollment policies check through the parent sequence
+CREATE POLICY "Users can manage sequence steps in their organization"
+  ON sequence_steps
+  FOR ALL
+  TO authenticated
+  USING (sequence_id IN (
+    SELECT id FROM sequences WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ))
+  WITH CHECK (sequence_id IN (
+    SELECT id FROM sequences WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Users can view enrollments in their organization"
+  ON sequence_enrollments
+  FOR SELECT
+  TO authenticated
+  USING (sequence_id IN (
+    SELECT id FROM sequences WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Users can enroll candidates in their organization"
+  ON sequence_enrollments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sequence_id IN (
+      SELECT id FROM sequences WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+    AND candidate_id IN (
+      SELECT id FROM candidates WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can update enrollments in their organization"
+  ON sequence_enrollments
+  FOR UPDATE
+  TO authenticated
+  USING (sequence_id IN (
+    SELECT id FROM sequences WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ))
+  WITH CHECK (sequence_id IN (
+    SELECT id FROM sequences WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Users can remove enrollments in their organization"
+  ON sequence_enrollments
+  FOR DELETE
+  TO authenticated
+  USING (sequence_id IN (
+    SELECT id FROM sequences WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Users can manage sequence tasks in their organization"
+  ON sequence_tasks
+  FOR ALL
+  TO authenticated
+  USING (enrollment_id IN (
+    SELECT e.id FROM sequence_enrollments e
+    JOIN sequences s ON s.id = e.sequence_id
+    WHERE s.organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ))
+  WITH CHECK (enrollment_id IN (
+    SELECT e.id FROM sequence_enrollments e
+    JOIN sequences s ON s.id = e.sequence_id
+    WHERE s.organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE INDEX idx_sequences_organization ON sequences(organization_id);
+CREATE INDEX idx_sequence_enrollments_candidate ON sequence_enrollments(candidate_id, status);
+CREATE INDEX idx_sequence_tasks_status ON sequence_tasks(status, due_at);
+
+-- A candidate can only be working through a sequence once at a time
+CREATE UNIQUE INDEX idx_sequence_enrollments_active
+  ON sequence_enrollments(sequence_id, candidate_id)
+  WHERE status = 'active';
+
+CREATE TRIGGER update_sequences_updated_at
+  BEFORE UPDATE ON sequences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_sequence_steps_updated_at
+  BEFORE UPDATE ON sequence_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_sequence_enrollments_updated_at
+  BEFORE UPDATE ON sequence_enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_sequence_tasks_updated_at
+  BEFORE UPDATE ON sequence_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- Stops a candidate's active enrollments and skips the steps still waiting on them
+CREATE OR REPLACE FUNCTION stop_sequence_enrollments(target_candidate_id uuid, reason text)
+RETURNS void AS $$
+BEGIN
+  UPDATE sequence_tasks
+  SET status = 'skipped', completed_at = now()
+  WHERE status = 'due'
+    AND enrollment_id IN (
+      SELECT id FROM sequence_enrollments
+      WHERE candidate_id = target_candidate_id AND status = 'active'
+    );
+
+  UPDATE sequence_enrollments
+  SET status = 'stopped', stop_reason = reason, ended_at = now()
+  WHERE candidate_id = target_candidate_id AND status = 'active';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION stop_sequences_on_reply()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.metadata->>'direction' = 'inbound' THEN
+    PERFORM stop_sequence_enrollments(NEW.candidate_id, 'replied');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stop_sequences_on_reply
+  AFTER INSERT ON activities
+  FOR EACH ROW
+  EXECUTE FUNCTION stop_sequences_on_reply();
+
+CREATE OR REPLACE FUNCTION stop_sequences_on_looking_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_active_looking IS DISTINCT FROM OLD.is_active_looking THEN
+    PERFORM stop_sequence_enrollments(NEW.id, 'looking_changed');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stop_sequences_on_looking_change
+  AFTER UPDATE OF is_active_looking ON candidates
+  FOR EACH ROW
+  EXECUTE FUNCTION stop_sequences_on_looking_change();
+
+-- The scheduler. Runs as the caller, so from the app it only sees the caller's organization
+CREATE OR REPLACE FUNCTION enqueue_due_sequence_steps()
+RETURNS integer AS $$
+DECLARE
+  created integer;
+BEGIN
+  INSERT INTO sequence_tasks (enrollment_id, step_id, due_at)
+  SELECT e.id, s.id, e.enrolled_at + make_interval(days => s.delay_days)
+  FROM sequence_enrollments e
+  JOIN sequence_steps s ON s.sequence_id = e.sequence_id AND s.position = e.current_step
+  WHERE e.status = 'active'
+    AND e.enrolled_at + make_interval(days => s.delay_days) <= now()
+  ON CONFLICT (enrollment_id, step_id) DO NOTHING;
+
+  GET DIAGNOSTICS created = ROW_COUNT;
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('enqueue-due-sequence-steps', '*/15 * * * *', 'SELECT enqueue_due_sequence_steps()');
@@ -0,0 +1,101 @@
+/*
+  # Template versions and soft delete
+
+  1. Tables
+    - template_versions (a snapshot of a template's name, type and content
+      each time one of them changes)
+
+  2. Changes
+    - templates.version counts those snapshots; edits and restores bump it,
+      so restoring an old version adds a new one instead of rewriting history
+    - templates.deleted_at hides a template without breaking the campaigns,
+      sequences and activities that still point at it
+    - Existing templates are recorded as version 1
+
+  3. Security
+    - Versions are checked through their template and can't be changed once
+      written
+*/
+
+ALTER TABLE templates
+  ADD COLUMN version integer NOT NULL DEFAULT 1,
+  ADD COLUMN deleted_at timestamptz,
+  ADD COLUMN deleted_by uuid REFERENCES profiles(id);
+
+CREATE TABLE template_versions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_id uuid NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  name text NOT NULL,
+  type text NOT NULL,
+  content text NOT NULL,
+  variables jsonb,
+  created_at timestamptz DEFAULT now(),
+  created_by uuid REFERENCES profiles(id),
+  UNIQUE (template_id, version)
+);
+
+ALTER TABLE template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view template versions in their organization"
+  ON template_versions
+  FOR SELECT
+  TO authenticated
+  USING (template_id IN (
+    SELECT id FROM templates WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Users can record template versions in their organization"
+  ON template_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (template_id IN (
+    SELECT id FROM templates WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE INDEX idx_templates_deleted ON templates(organization_id) WHERE deleted_at IS NULL;
+
+INSERT INTO template_versions (template_id, version, name, type, content, variables, created_at, created_by)
+SELECT id, 1, name, type, content, variables, updated_at, COALESCE(updated_by, created_by)
+FROM templates;
+
+-- Only changes to what gets sent count as a new version; deleting and
+-- restoring the template itself does not
+CREATE OR REPLACE FUNCTION bump_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.type IS DISTINCT FROM OLD.type
+    OR NEW.content IS DISTINCT FROM OLD.content THEN
+    NEW.version = OLD.version + 1;
+  ELSE
+    NEW.version = OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+    INSERT INTO template_versions (template_id, version, name, type, content, variables, created_by)
+    VALUES (NEW.id, NEW.version, NEW.name, NEW.type, NEW.content, NEW.variables, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bump_template_version_on_update
+  BEFORE UPDATE ON templates
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_template_version();
+
+CREATE TRIGGER record_template_version_on_change
+  AFTER INSERT OR UPDATE ON templates
+  FOR EACH ROW
+  EXECUTE FUNCTION record_template_version();
@@ -0,0 +1,113 @@
+/*
+  # Template types, sharing scope and folders
+
+  1. Changes
+    - templates.type is limited to the known kinds: email, message, LinkedIn
+      InMail, SMS, call script, interview feedback form and candidate
+      submission
+    - templates.metadata holds the per-type settings, like an email's subject
+      line
+    - templates.scope is 'shared' (the whole organization) or 'personal'
+      (only the author); templates.folder groups them on the Templates page
+    - Versions also snapshot metadata, and a metadata change counts as a new
+      version
+
+  2. Security
+    - Templates had RLS enabled but no policies. Users can now see, create,
+      edit and delete shared templates in their organization and their own
+      personal ones
+*/
+
+ALTER TABLE templates
+  ADD COLUMN metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN scope text NOT NULL DEFAULT 'shared' CHECK (scope IN ('shared', 'personal')),
+  ADD COLUMN folder text,
+  ADD CONSTRAINT templates_type_check CHECK (type IN (
+    'email',
+    'message',
+    'linkedin_inmail',
+    'sms',
+    'call_script',
+    'feedback_form',
+    'submission'
+  ));
+
+ALTER TABLE template_versions ADD COLUMN metadata jsonb;
+
+CREATE INDEX idx_templates_folder ON templates(organization_id, folder);
+
+CREATE POLICY "Users can view shared and their own templates"
+  ON templates
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+    AND (scope = 'shared' OR created_by = auth.uid())
+  );
+
+CREATE POLICY "Users can create templates in their organization"
+  ON templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+    AND (scope = 'shared' OR created_by = auth.uid())
+  );
+
+CREATE POLICY "Users can update shared and their own templates"
+  ON templates
+  FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+    AND (scope = 'shared' OR created_by = auth.uid())
+  )
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+    AND (scope = 'shared' OR created_by = auth.uid())
+  );
+
+CREATE POLICY "Users can delete shared and their own templates"
+  ON templates
+  FOR DELETE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+    AND (scope = 'shared' OR created_by = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION bump_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.type IS DISTINCT FROM OLD.type
+    OR NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.metadata IS DISTINCT FROM OLD.metadata THEN
+    NEW.version = OLD.version + 1;
+  ELSE
+    NEW.version = OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+    INSERT INTO template_versions (template_id, version, name, type, content, variables, metadata, created_by)
+    VALUES (NEW.id, NEW.version, NEW.name, NEW.type, NEW.content, NEW.variables, NEW.metadata, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,81 @@
+/*
+  # Resume storage
+
+  1. Storage
+    - resumes bucket (private, PDF and DOCX up to 10 MB). Objects live under
+      a folder named after the organization id: <organization_id>/<upload id>/<file>
+
+  2. Changes
+    - candidates.resume_path points at the uploaded file. resume_url stays
+      for links to resumes hosted elsewhere
+
+  3. Security
+    - Users can read, upload, replace and delete files only under their own
+      organization's folder. The bucket is private, so files are shared
+      through short-lived signed URLs
+*/
+
+ALTER TABLE candidates ADD COLUMN resume_path text;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'resumes',
+  'resumes',
+  false,
+  10485760,
+  ARRAY[
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view resumes in their organization"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM profiles WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can upload resumes in their organization"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'resumes'
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM profiles WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can replace resumes in their organization"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM profiles WHERE id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    bucket_id = 'resumes'
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM profiles WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete resumes in their organization"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM profiles WHERE id = auth.uid()
+    )
+  );
@@ -0,0 +1,333 @@
+/*
+  # Duplicate candidates
+
+  1. Tables
+    - candidate_duplicates (a pair of candidates that look like the same
+      person, with the reasons they matched; candidate_id is always the
+      smaller id so each pair is stored once)
+    - candidate_merges (audit of every merge, keeping a copy of the deleted
+      candidate and the field values taken from it)
+
+  2. Changes
+    - normalize_email, normalize_phone (E.164, assuming North America for
+      10 digit numbers) and normalize_profile_url make contact details
+      comparable, with indexes on each so lookups stay cheap
+    - detect_candidate_duplicates(candidate) records pairs matching on email,
+      phone, LinkedIn or GitHub URL, or a similar name at a similar company.
+      It runs whenever a candidate is created or their contact details change
+    - scan_candidate_duplicates() checks every candidate. pg_cron runs it
+      nightly; the app can also run it on demand
+    - merge_candidates(survivor, merged, field_values) copies the chosen field
+      values onto the survivor, moves activities, tags, pipeline entries,
+      job links, campaign recipients and sequence enrollments across, writes
+      the audit entry and a merge activity, and deletes the merged candidate
+    - Activities can be of type merge
+
+  3. Security
+    - Users can view and resolve duplicate pairs in their organization
+    - Users can view the merge history of their organization; entries are
+      only written by merge_candidates
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE OR REPLACE FUNCTION normalize_email(email text)
+RETURNS text AS $$
+  SELECT nullif(lower(trim(email)), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Numbers without a country code are taken to be North American
+CREATE OR REPLACE FUNCTION normalize_phone(phone text)
+RETURNS text AS $$
+DECLARE
+  digits text := regexp_replace(coalesce(phone, ''), '\D', '', 'g');
+BEGIN
+  IF length(digits) < 7 THEN
+    RETURN NULL;
+  ELSIF trim(phone) LIKE '+%' THEN
+    RETURN '+' || digits;
+  ELSIF digits LIKE '00%' THEN
+    RETURN '+' || substr(digits, 3);
+  ELSIF length(digits) = 10 THEN
+    RETURN '+1' || digits;
+  ELSIF length(digits) = 11 AND digits LIKE '1%' THEN
+    RETURN '+' || digits;
+  END IF;
+  RETURN '+' || digits;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- https://www.linkedin.com/in/Jane-Doe/?utm=x and linkedin.com/in/jane-doe are the same profile
+CREATE OR REPLACE FUNCTION normalize_profile_url(url text)
+RETURNS text AS $$
+  SELECT nullif(
+    regexp_replace(
+      regexp_replace(regexp_replace(lower(trim(url)), '^(https?://)?(www\.)?', ''), '[?#].*$', ''),
+      '/+$', ''
+    ),
+    ''
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION candidate_full_name(first_name text, last_name text)
+RETURNS text AS $$
+  SELECT lower(trim(coalesce(first_name, '') || ' ' || coalesce(last_name, '')));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX idx_candidates_personal_email ON candidates(organization_id, normalize_email(personal_email));
+CREATE INDEX idx_candidates_work_email ON candidates(organization_id, normalize_email(work_email));
+CREATE INDEX idx_candidates_phone ON candidates(organization_id, normalize_phone(phone));
+CREATE INDEX idx_candidates_linkedin_url ON candidates(organization_id, normalize_profile_url(linkedin_url));
+CREATE INDEX idx_candidates_github_url ON candidates(organization_id, normalize_profile_url(github_url));
+CREATE INDEX idx_candidates_full_name ON candidates USING gin(candidate_full_name(first_name, last_name) gin_trgm_ops);
+
+CREATE TABLE candidate_duplicates (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id uuid NOT NULL REFERENCES organizations(id),
+  candidate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  duplicate_id uuid NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  reasons text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed')),
+  detected_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES profiles(id),
+  UNIQUE (candidate_id, duplicate_id),
+  CHECK (candidate_id < duplicate_id)
+);
+
+CREATE TABLE candidate_merges (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id uuid NOT NULL REFERENCES organizations(id),
+  -- Kept when the survivor is later deleted, so the history is not lost
+  survivor_id uuid REFERENCES candidates(id) ON DELETE SET NULL,
+  merged_candidate_id uuid NOT NULL,
+  merged_candidate jsonb NOT NULL,
+  field_values jsonb NOT NULL DEFAULT '{}',
+  merged_at timestamptz DEFAULT now(),
+  merged_by uuid REFERENCES profiles(id)
+);
+
+ALTER TABLE candidate_duplicates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE candidate_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view duplicate candidates in their organization"
+  ON candidate_duplicates
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can record duplicate candidates in their organization"
+  ON candidate_duplicates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can resolve duplicate candidates in their organization"
+  ON candidate_duplicates
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view candidate merges in their organization"
+  ON candidate_merges
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid()
+  ));
+
+CREATE INDEX idx_candidate_duplicates_organization ON candidate_duplicates(organization_id, status);
+CREATE INDEX idx_candidate_duplicates_duplicate ON candidate_duplicates(duplicate_id);
+CREATE INDEX idx_candidate_merges_survivor ON candidate_merges(survivor_id);
+
+ALTER TABLE activities
+  DROP CONSTRAINT activities_type_check,
+  ADD CONSTRAINT activities_type_check
+    CHECK (type IN ('email', 'call', 'meeting', 'note', 'stage_change', 'merge'));
+
+-- Why two candidates look like the same person; empty when they don't
+CREATE OR REPLACE FUNCTION candidate_duplicate_reasons(a candidates, b candidates)
+RETURNS text[] AS $$
+  SELECT array_remove(ARRAY[
+    CASE WHEN array_remove(ARRAY[normalize_email(a.personal_email), normalize_email(a.work_email)], NULL)
+           && array_remove(ARRAY[normalize_email(b.personal_email), normalize_email(b.work_email)], NULL)
+      THEN 'email' END,
+    CASE WHEN normalize_phone(a.phone) = normalize_phone(b.phone) THEN 'phone' END,
+    CASE WHEN normalize_profile_url(a.linkedin_url) = normalize_profile_url(b.linkedin_url) THEN 'linkedin' END,
+    CASE WHEN normalize_profile_url(a.github_url) = normalize_profile_url(b.github_url) THEN 'github' END,
+    CASE WHEN similarity(candidate_full_name(a.first_name, a.last_name), candidate_full_name(b.first_name, b.last_name)) >= 0.8
+           AND similarity(lower(a.current_company), lower(b.current_company)) >= 0.6
+      THEN 'name_company' END
+  ], NULL);
+$$ LANGUAGE sql STABLE;
+
+-- Runs as the caller; dismissed pairs stay dismissed
+CREATE OR REPLACE FUNCTION detect_candidate_duplicates(target_candidate_id uuid)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO candidate_duplicates (organization_id, candidate_id, duplicate_id, reasons)
+  SELECT organization_id, least(target_candidate_id, other_id), greatest(target_candidate_id, other_id), reasons
+  FROM (
+    SELECT c.organization_id, o.id AS other_id, candidate_duplicate_reasons(c, o) AS reasons
+    FROM candidates c
+    JOIN candidates o ON o.organization_id = c.organization_id AND o.id <> c.id
+    WHERE c.id = target_candidate_id
+      -- Cheap, indexed pre-filter; candidate_duplicate_reasons decides
+      AND (
+        normalize_email(o.personal_email) IN (normalize_email(c.personal_email), normalize_email(c.work_email))
+        OR normalize_email(o.work_email) IN (normalize_email(c.personal_email), normalize_email(c.work_email))
+        OR normalize_phone(o.phone) = normalize_phone(c.phone)
+        OR normalize_profile_url(o.linkedin_url) = normalize_profile_url(c.linkedin_url)
+        OR normalize_profile_url(o.github_url) = normalize_profile_url(c.github_url)
+        OR candidate_full_name(o.first_name, o.last_name) % candidate_full_name(c.first_name, c.last_name)
+      )
+  ) matches
+  WHERE cardinality(reasons) > 0
+  ON CONFLICT (candidate_id, duplicate_id) DO UPDATE SET reasons = EXCLUDED.reasons;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION detect_candidate_duplicates_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM detect_candidate_duplicates(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER detect_candidate_duplicates
+  AFTER INSERT OR UPDATE OF first_name, last_name, personal_email, work_email, phone, linkedin_url, github_url, current_company
+  ON candidates
+  FOR EACH ROW
+  EXECUTE FUNCTION detect_candidate_duplicates_on_change();
+
+-- The background scan. Runs as the caller, so from the app it only sees the caller's organization
+CREATE OR REPLACE FUNCTION scan_candidate_duplicates()
+RETURNS integer AS $$
+DECLARE
+  target record;
+  scanned integer := 0;
+BEGIN
+  FOR target IN SELECT id FROM candidates LOOP
+    PERFORM detect_candidate_duplicates(target.id);
+    scanned := scanned + 1;
+  END LOOP;
+  RETURN scanned;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT cron.schedule('scan-candidate-duplicates', '0 3 * * *', 'SELECT scan_candidate_duplicates()');
+
+/*
+  Runs as the owner because moving activities and deleting a candidate are
+  not otherwise allowed; it checks both candidates belong to the caller's
+  organization itself. field_values holds the survivor's columns to replace,
+  usually the ones where the merged candidate's value was picked.
+*/
+CREATE OR REPLACE FUNCTION merge_candidates(survivor_id uuid, merged_id uuid, field_values jsonb DEFAULT '{}')
+RETURNS uuid AS $$
+DECLARE
+  caller_organization_id uuid;
+  merged candidates;
+  assignments text;
+  merge_id uuid;
+BEGIN
+  IF survivor_id = merged_id THEN
+    RAISE EXCEPTION 'Cannot merge a candidate into itself';
+  END IF;
+
+  SELECT organization_id INTO caller_organization_id FROM profiles WHERE id = auth.uid();
+
+  SELECT * INTO merged FROM candidates
+  WHERE id = merged_id AND organization_id = caller_organization_id;
+
+  IF merged.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM candidates WHERE id = survivor_id AND organization_id = caller_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Candidates must belong to your organization';
+  END IF;
+
+  INSERT INTO candidate_merges (organization_id, survivor_id, merged_candidate_id, merged_candidate, field_values, merged_by)
+  VALUES (caller_organization_id, survivor_id, merged_id, to_jsonb(merged) - 'search_vector', field_values, auth.uid())
+  RETURNING id INTO merge_id;
+
+  UPDATE activities SET candidate_id = survivor_id WHERE candidate_id = merged_id;
+
+  INSERT INTO candidate_tags (candidate_id, tag_id, created_at, created_by)
+  SELECT survivor_id, tag_id, created_at, created_by FROM candidate_tags WHERE candidate_id = merged_id
+  ON CONFLICT (candidate_id, tag_id) DO NOTHING;
+
+  -- Where both were linked to the same job, requisition or campaign, the survivor's entry wins
+  UPDATE job_candidates SET candidate_id = survivor_id
+  WHERE candidate_id = merged_id
+    AND job_id NOT IN (SELECT job_id FROM job_candidates WHERE candidate_id = survivor_id);
+
+  UPDATE requisition_candidates SET candidate_id = survivor_id
+  WHERE candidate_id = merged_id
+    AND requisition_id NOT IN (SELECT requisition_id FROM requisition_candidates WHERE candidate_id = survivor_id);
+
+  UPDATE campaign_recipients SET candidate_id = survivor_id
+  WHERE candidate_id = merged_id
+    AND campaign_id NOT IN (SELECT campaign_id FROM campaign_recipients WHERE candidate_id = survivor_id);
+
+  -- Only one active enrollment per sequence, so the merged one stops if both are enrolled
+  UPDATE sequence_tasks SET status = 'skipped', completed_at = now()
+  WHERE status = 'due'
+    AND enrollment_id IN (
+      SELECT id FROM sequence_enrollments
+      WHERE candidate_id = merged_id AND status = 'active'
+        AND sequence_id IN (
+          SELECT sequence_id FROM sequence_enrollments WHERE candidate_id = survivor_id AND status = 'active'
+        )
+    );
+
+  UPDATE sequence_enrollments SET status = 'stopped', stop_reason = 'manual', ended_at = now()
+  WHERE candidate_id = merged_id AND status = 'active'
+    AND sequence_id IN (
+      SELECT sequence_id FROM sequence_enrollments WHERE candidate_id = survivor_id AND status = 'active'
+    );
+
+  UPDATE sequence_enrollments SET candidate_id = survivor_id WHERE candidate_id = merged_id;
+
+  UPDATE jobs SET client_contact_id = survivor_id WHERE client_contact_id = merged_id;
+
+  DELETE FROM candidates WHERE id = merged_id;
+
+  SELECT string_agg(format('%I = chosen.%I', key, key), ', ')
+  INTO assignments
+  FROM jsonb_object_keys(field_values) AS key
+  WHERE key NOT IN ('id', 'organization_id', 'created_at', 'created_by', 'updated_at', 'updated_by', 'search_vector');
+
+  IF assignments IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE candidates SET %s, updated_by = $3 FROM jsonb_populate_record(NULL::candidates, $1) AS chosen WHERE candidates.id = $2',
+      assignments
+    )
+    USING field_values, survivor_id, auth.uid();
+  END IF;
+
+  INSERT INTO activities (candidate_id, organization_id, type, description, metadata, created_by)
+  VALUES (
+    survivor_id,
+    caller_organization_id,
+    'merge',
+    format('Merged with duplicate record %s %s', merged.first_name, merged.last_name),
+    jsonb_build_object('merge_id', merge_id, 'merged_candidate_id', merged_id),
+    auth.uid()
+  );
+
+  -- The survivor may now match candidates the merged record used to
+  PERFORM detect_candidate_duplicates(survivor_id);
+
+  RETURN merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
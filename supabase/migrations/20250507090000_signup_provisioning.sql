@@ -0,0 +1,51 @@
+/*
+  # Provision organizations at signup
+
+  1. Changes
+    - handle_new_user() runs when a user signs up and creates their
+      organization and admin profile from the signup metadata (first_name,
+      last_name, org_name). It runs in the same transaction as the new
+      auth.users row, so a failed signup leaves no organization behind and
+      a signup without an organization name is rejected
+
+  2. Security
+    - Organizations and profiles can no longer be inserted through the API;
+      the signup trigger is the only way in. Previously the app created the
+      organization from the anonymous client before the user existed
+*/
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  org_name text := trim(coalesce(NEW.raw_user_meta_data->>'org_name', ''));
+  new_organization_id uuid;
+BEGIN
+  IF org_name = '' THEN
+    RAISE EXCEPTION 'An organization name is required to sign up';
+  END IF;
+
+  INSERT INTO organizations (name)
+  VALUES (org_name)
+  RETURNING id INTO new_organization_id;
+
+  INSERT INTO profiles (id, organization_id, first_name, last_name, role)
+  VALUES (
+    NEW.id,
+    new_organization_id,
+    nullif(trim(NEW.raw_user_meta_data->>'first_name'), ''),
+    nullif(trim(NEW.raw_user_meta_data->>'last_name'), ''),
+    'admin'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+REVOKE INSERT ON organizations FROM anon, authenticated;
+REVOKE INSERT ON profiles FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION handle_new_user() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,253 @@
+/*
+  # Team invitations
+
+  1. Tables
+    - invitations (an admin's invitation for an email address to join their
+      organization with a role). The invite link carries a random token;
+      only its SHA-256 hash is stored, and it stops working after
+      expires_at, once accepted, or when revoked
+
+  2. Changes
+    - profiles.email, copied from the sign-in address so members can be
+      listed without reading auth.users
+    - create_invitation(email, role) creates an invitation, or renews the
+      pending one for that address, and returns the token to send
+    - get_invitation(token) lets the signup page show who the invite is from
+      before the visitor has an account
+    - handle_new_user() joins the invitation's organization with its role
+      when signup metadata carries an invite_token instead of an org_name
+    - remove_member(member) detaches a member from the organization; their
+      profile stays so the records they created keep their author
+
+  3. Security
+    - Admins can view, create and revoke invitations in their organization
+    - Only admins can remove members, and not themselves
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE profiles ADD COLUMN email text;
+
+UPDATE profiles p SET email = u.email FROM auth.users u WHERE u.id = p.id;
+
+CREATE TABLE invitations (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id uuid NOT NULL REFERENCES organizations(id),
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'recruiter' CHECK (role IN ('admin', 'recruiter', 'coordinator', 'read_only')),
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  last_sent_at timestamptz,
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES profiles(id),
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  invited_by uuid REFERENCES profiles(id)
+);
+
+-- One open invitation per address; sending again renews it
+CREATE UNIQUE INDEX idx_invitations_pending
+  ON invitations(organization_id, lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invitations in their organization"
+  ON invitations
+  FOR SELECT
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE POLICY "Admins can create invitations in their organization"
+  ON invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    invited_by = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update invitations in their organization"
+  ON invitations
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  ));
+
+CREATE TRIGGER update_invitations_updated_at
+  BEFORE UPDATE ON invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- pgcrypto lives in the extensions schema on Supabase
+CREATE OR REPLACE FUNCTION invitation_token_hash(token text)
+RETURNS text AS $$
+  SELECT encode(digest(token, 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, extensions;
+
+-- Runs as the caller, so the admin-only policies above decide who may invite
+CREATE OR REPLACE FUNCTION create_invitation(invite_email text, invite_role text)
+RETURNS TABLE (id uuid, token text) AS $$
+DECLARE
+  caller_organization_id uuid;
+  new_token text := encode(gen_random_bytes(32), 'hex');
+BEGIN
+  SELECT organization_id INTO caller_organization_id FROM profiles WHERE profiles.id = auth.uid();
+
+  IF EXISTS (
+    SELECT 1 FROM profiles
+    WHERE organization_id = caller_organization_id AND lower(email) = lower(trim(invite_email))
+  ) THEN
+    RAISE EXCEPTION '% is already a member', trim(invite_email);
+  END IF;
+
+  UPDATE invitations
+  SET role = invite_role,
+      token_hash = invitation_token_hash(new_token),
+      expires_at = now() + interval '7 days'
+  WHERE organization_id = caller_organization_id
+    AND lower(email) = lower(trim(invite_email))
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+  RETURNING invitations.id INTO id;
+
+  IF id IS NULL THEN
+    INSERT INTO invitations (organization_id, email, role, token_hash, invited_by)
+    VALUES (caller_organization_id, trim(invite_email), invite_role, invitation_token_hash(new_token), auth.uid())
+    RETURNING invitations.id INTO id;
+  END IF;
+
+  token := new_token;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, extensions;
+
+-- A fresh token and expiry for an invitation that is still open
+CREATE OR REPLACE FUNCTION renew_invitation(invitation_id uuid)
+RETURNS TABLE (id uuid, token text) AS $$
+DECLARE
+  new_token text := encode(gen_random_bytes(32), 'hex');
+BEGIN
+  UPDATE invitations
+  SET token_hash = invitation_token_hash(new_token),
+      expires_at = now() + interval '7 days'
+  WHERE invitations.id = invitation_id
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+  RETURNING invitations.id INTO id;
+
+  IF id IS NULL THEN
+    RAISE EXCEPTION 'This invitation has already been accepted or revoked';
+  END IF;
+
+  token := new_token;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, extensions;
+
+-- Anyone holding a valid token may see what it is for; nothing is returned otherwise
+CREATE OR REPLACE FUNCTION get_invitation(invite_token text)
+RETURNS TABLE (email text, role text, organization_name text, expires_at timestamptz) AS $$
+  SELECT i.email, i.role, o.name, i.expires_at
+  FROM invitations i
+  JOIN organizations o ON o.id = i.organization_id
+  WHERE i.token_hash = invitation_token_hash(invite_token)
+    AND i.accepted_at IS NULL
+    AND i.revoked_at IS NULL
+    AND i.expires_at > now();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  org_name text := trim(coalesce(NEW.raw_user_meta_data->>'org_name', ''));
+  invite_token text := NEW.raw_user_meta_data->>'invite_token';
+  invitation invitations;
+  new_organization_id uuid;
+BEGIN
+  IF invite_token IS NOT NULL THEN
+    SELECT * INTO invitation
+    FROM invitations
+    WHERE token_hash = invitation_token_hash(invite_token)
+      AND accepted_at IS NULL
+      AND revoked_at IS NULL
+      AND expires_at > now()
+    FOR UPDATE;
+
+    IF invitation.id IS NULL THEN
+      RAISE EXCEPTION 'This invitation is invalid or has expired';
+    END IF;
+
+    IF lower(invitation.email) <> lower(NEW.email) THEN
+      RAISE EXCEPTION 'This invitation was sent to a different email address';
+    END IF;
+
+    INSERT INTO profiles (id, organization_id, email, first_name, last_name, role)
+    VALUES (
+      NEW.id,
+      invitation.organization_id,
+      NEW.email,
+      nullif(trim(NEW.raw_user_meta_data->>'first_name'), ''),
+      nullif(trim(NEW.raw_user_meta_data->>'last_name'), ''),
+      invitation.role
+    );
+
+    UPDATE invitations SET accepted_at = now(), accepted_by = NEW.id WHERE id = invitation.id;
+
+    RETURN NEW;
+  END IF;
+
+  IF org_name = '' THEN
+    RAISE EXCEPTION 'An organization name is required to sign up';
+  END IF;
+
+  INSERT INTO organizations (name)
+  VALUES (org_name)
+  RETURNING id INTO new_organization_id;
+
+  INSERT INTO profiles (id, organization_id, email, first_name, last_name, role)
+  VALUES (
+    NEW.id,
+    new_organization_id,
+    NEW.email,
+    nullif(trim(NEW.raw_user_meta_data->>'first_name'), ''),
+    nullif(trim(NEW.raw_user_meta_data->>'last_name'), ''),
+    'admin'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+/*
+  Runs as the owner because profiles have no update policy. The member keeps
+  their profile, without an organization, so the candidates, activities and
+  templates they created keep their author.
+*/
+CREATE OR REPLACE FUNCTION remove_member(member_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF member_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot remove yourself';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles admin
+    JOIN profiles member ON member.organization_id = admin.organization_id
+    WHERE admin.id = auth.uid() AND admin.role = 'admin' AND member.id = member_id
+  ) THEN
+    RAISE EXCEPTION 'Only admins can remove members of their organization';
+  END IF;
+
+  UPDATE profiles SET organization_id = NULL, role = NULL WHERE id = member_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,322 @@
+/*
+  # Roles
+
+  1. Changes
+    - profiles.role is one of admin, recruiter, coordinator or read_only.
+      Members without a role are treated as recruiters
+    - set_member_role(member, role) lets admins change a member's role, as
+      long as the organization keeps at least one admin
+    - merge_candidates() refuses read-only members
+
+  2. Security
+    - Read-only members can view everything but change nothing
+    - Coordinators can create and update candidates, log activities and
+      manage tags and candidate tags
+    - Recruiters can also create and edit templates
+    - Only admins can delete or restore templates (including the soft delete,
+      which a trigger checks) and manage members
+*/
+
+UPDATE profiles SET role = 'recruiter' WHERE role IS NULL AND organization_id IS NOT NULL;
+
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_role_check
+  CHECK (role IN ('admin', 'recruiter', 'coordinator', 'read_only'));
+
+-- Candidates
+DROP POLICY "Users can create candidates in their organization" ON candidates;
+DROP POLICY "Users can update candidates in their organization" ON candidates;
+
+CREATE POLICY "Users can create candidates in their organization unless read-only"
+  ON candidates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+CREATE POLICY "Users can update candidates in their organization unless read-only"
+  ON candidates
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+-- Templates
+DROP POLICY "Users can create templates in their organization" ON templates;
+DROP POLICY "Users can update shared and their own templates" ON templates;
+DROP POLICY "Users can delete shared and their own templates" ON templates;
+
+CREATE POLICY "Recruiters can create templates in their organization"
+  ON templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+    AND (scope = 'shared' OR created_by = auth.uid())
+  );
+
+CREATE POLICY "Recruiters can update shared and their own templates"
+  ON templates
+  FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+    AND (scope = 'shared' OR created_by = auth.uid())
+  )
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+    AND (scope = 'shared' OR created_by = auth.uid())
+  );
+
+CREATE POLICY "Admins can delete shared and their own templates"
+  ON templates
+  FOR DELETE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role = 'admin'
+    )
+    AND (scope = 'shared' OR created_by = auth.uid())
+  );
+
+-- Deleting is a change to deleted_at, which the update policy can't tell apart from an edit
+CREATE OR REPLACE FUNCTION check_template_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    AND auth.uid() IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  THEN
+    RAISE EXCEPTION 'Only admins can delete or restore templates';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_template_deletion
+  BEFORE UPDATE OF deleted_at ON templates
+  FOR EACH ROW
+  EXECUTE FUNCTION check_template_deletion();
+
+-- Tags
+DROP POLICY "Users can create tags in their organization" ON tags;
+DROP POLICY "Users can update tags in their organization" ON tags;
+DROP POLICY "Users can delete tags in their organization" ON tags;
+
+CREATE POLICY "Users can create tags in their organization unless read-only"
+  ON tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+CREATE POLICY "Users can update tags in their organization unless read-only"
+  ON tags
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+CREATE POLICY "Users can delete tags in their organization unless read-only"
+  ON tags
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+-- Candidate tags
+DROP POLICY "Users can tag candidates in their organization" ON candidate_tags;
+DROP POLICY "Users can untag candidates in their organization" ON candidate_tags;
+
+CREATE POLICY "Users can tag candidates in their organization unless read-only"
+  ON candidate_tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    candidate_id IN (
+      SELECT id FROM candidates WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+      )
+    )
+    AND tag_id IN (
+      SELECT id FROM tags WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can untag candidates in their organization unless read-only"
+  ON candidate_tags
+  FOR DELETE
+  TO authenticated
+  USING (candidate_id IN (
+    SELECT id FROM candidates WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  ));
+
+-- Activities
+DROP POLICY "Users can log activities in their organization" ON activities;
+
+CREATE POLICY "Users can log activities in their organization unless read-only"
+  ON activities
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+    AND candidate_id IN (
+      SELECT id FROM candidates WHERE candidates.organization_id = activities.organization_id
+    )
+  );
+
+-- Runs as the owner because profiles have no update policy
+CREATE OR REPLACE FUNCTION set_member_role(member_id uuid, new_role text)
+RETURNS void AS $$
+DECLARE
+  caller_organization_id uuid;
+BEGIN
+  SELECT organization_id INTO caller_organization_id
+  FROM profiles
+  WHERE id = auth.uid() AND role = 'admin';
+
+  IF caller_organization_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = member_id AND organization_id = caller_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change the roles of members of their organization';
+  END IF;
+
+  IF new_role <> 'admin' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE organization_id = caller_organization_id AND role = 'admin' AND id <> member_id
+  ) THEN
+    RAISE EXCEPTION 'The organization needs at least one admin';
+  END IF;
+
+  UPDATE profiles SET role = new_role WHERE id = member_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION merge_candidates(survivor_id uuid, merged_id uuid, field_values jsonb DEFAULT '{}')
+RETURNS uuid AS $$
+DECLARE
+  caller_organization_id uuid;
+  merged candidates;
+  assignments text;
+  merge_id uuid;
+BEGIN
+  IF survivor_id = merged_id THEN
+    RAISE EXCEPTION 'Cannot merge a candidate into itself';
+  END IF;
+
+  SELECT organization_id INTO caller_organization_id
+  FROM profiles
+  WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator');
+
+  IF caller_organization_id IS NULL THEN
+    RAISE EXCEPTION 'You do not have permission to merge candidates';
+  END IF;
+
+  SELECT * INTO merged FROM candidates
+  WHERE id = merged_id AND organization_id = caller_organization_id;
+
+  IF merged.id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM candidates WHERE id = survivor_id AND organization_id = caller_organization_id
+  ) THEN
+    RAISE EXCEPTION 'Candidates must belong to your organization';
+  END IF;
+
+  INSERT INTO candidate_merges (organization_id, survivor_id, merged_candidate_id, merged_candidate, field_values, merged_by)
+  VALUES (caller_organization_id, survivor_id, merged_id, to_jsonb(merged) - 'search_vector', field_values, auth.uid())
+  RETURNING id INTO merge_id;
+
+  UPDATE activities SET candidate_id = survivor_id WHERE candidate_id = merged_id;
+
+  INSERT INTO candidate_tags (candidate_id, tag_id, created_at, created_by)
+  SELECT survivor_id, tag_id, created_at, created_by FROM candidate_tags WHERE candidate_id = merged_id
+  ON CONFLICT (candidate_id, tag_id) DO NOTHING;
+
+  -- Where both were linked to the same job, requisition or campaign, the survivor's entry wins
+  UPDATE job_candidates SET candidate_id = survivor_id
+  WHERE candidate_id = merged_id
+    AND job_id NOT IN (SELECT job_id FROM job_candidates WHERE candidate_id = survivor_id);
+
+  UPDATE requisition_candidates SET candidate_id = survivor_id
+  WHERE candidate_id = merged_id
+    AND requisition_id NOT IN (SELECT requisition_id FROM requisition_candidates WHERE candidate_id = survivor_id);
+
+  UPDATE campaign_recipients SET candidate_id = survivor_id
+  WHERE candidate_id = merged_id
+    AND campaign_id NOT IN (SELECT campaign_id FROM campaign_recipients WHERE candidate_id = survivor_id);
+
+  -- Only one active enrollment per sequence, so the merged one stops if both are enrolled
+  UPDATE sequence_tasks SET status = 'skipped', completed_at = now()
+  WHERE status = 'due'
+    AND enrollment_id IN (
+      SELECT id FROM sequence_enrollments
+      WHERE candidate_id = merged_id AND status = 'active'
+        AND sequence_id IN (
+          SELECT sequence_id FROM sequence_enrollments WHERE candidate_id = survivor_id AND status = 'active'
+        )
+    );
+
+  UPDATE sequence_enrollments SET status = 'stopped', stop_reason = 'manual', ended_at = now()
+  WHERE candidate_id = merged_id AND status = 'active'
+    AND sequence_id IN (
+      SELECT sequence_id FROM sequence_enrollments WHERE candidate_id = survivor_id AND status = 'active'
+    );
+
+  UPDATE sequence_enrollments SET candidate_id = survivor_id WHERE candidate_id = merged_id;
+
+  UPDATE jobs SET client_contact_id = survivor_id WHERE client_contact_id = merged_id;
+
+  DELETE FROM candidates WHERE id = merged_id;
+
+  SELECT string_agg(format('%I = chosen.%I', key, key), ', ')
+  INTO assignments
+  FROM jsonb_object_keys(field_values) AS key
+  WHERE key NOT IN ('id', 'organization_id', 'created_at', 'created_by', 'updated_at', 'updated_by', 'search_vector');
+
+  IF assignments IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE candidates SET %s, updated_by = $3 FROM jsonb_populate_record(NULL::candidates, $1) AS chosen WHERE candidates.id = $2',
+      assignments
+    )
+    USING field_values, survivor_id, auth.uid();
+  END IF;
+
+  INSERT INTO activities (candidate_id, organization_id, type, description, metadata, created_by)
+  VALUES (
+    survivor_id,
+    caller_organization_id,
+    'merge',
+    format('Merged with duplicate record %s %s', merged.first_name, merged.last_name),
+    jsonb_build_object('merge_id', merge_id, 'merged_candidate_id', merged_id),
+    auth.uid()
+  );
+
+  -- The survivor may now match candidates the merged record used to
+  PERFORM detect_candidate_duplicates(survivor_id);
+
+  RETURN merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,37 @@
+/*
+  # Row level security coverage
+
+  1. Security
+    - Users can update their own profile's name. Role and organization only
+      change through the admin functions
+    - Admins can delete candidates in their organization. Candidates with
+      activities can't be deleted; merge them instead
+    - Activities and template versions are an append-only history, so they
+      have no update or delete policies. Candidate tags are added and removed,
+      never updated
+    - Organizations and profiles are only created by signup, and never
+      deleted by users
+*/
+
+CREATE POLICY "Users can update their own profile"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+REVOKE UPDATE ON profiles FROM anon, authenticated;
+GRANT UPDATE (first_name, last_name) ON profiles TO authenticated;
+
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+CREATE POLICY "Admins can delete candidates in their organization"
+  ON candidates
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  ));
@@ -0,0 +1,41 @@
+/*
+  # Recommendation candidates
+
+  1. Changes
+    - recommendation_candidates() returns each candidate with the date of
+      their latest email, call or meeting
+*/
+
+-- Candidates with the date they were last emailed, called or met, worked out
+-- here so the dashboard doesn't download every activity. Runs as the caller,
+-- so it only sees their organization.
+CREATE OR REPLACE FUNCTION recommendation_candidates()
+RETURNS TABLE (
+  id uuid,
+  first_name text,
+  last_name text,
+  is_active_looking boolean,
+  urgency_level text,
+  employment_status text,
+  nurturing_info jsonb,
+  created_at timestamptz,
+  last_contacted_at timestamptz
+) AS $$
+  SELECT
+    c.id,
+    c.first_name,
+    c.last_name,
+    c.is_active_looking,
+    c.urgency_level,
+    c.employment_status,
+    c.nurturing_info,
+    c.created_at,
+    contact.last_contacted_at
+  FROM candidates c
+  LEFT JOIN (
+    SELECT candidate_id, max(created_at) AS last_contacted_at
+    FROM activities
+    WHERE type IN ('email', 'call', 'meeting')
+    GROUP BY candidate_id
+  ) contact ON contact.candidate_id = c.id;
+$$ LANGUAGE sql STABLE SET search_path = public;
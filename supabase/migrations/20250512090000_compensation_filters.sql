@@ -0,0 +1,46 @@
+/*
+  # Compensation filters
+
+  1. Changes
+    - jsonb_to_numeric(value) reads a json number, or a string such as
+      "120,000" or "$95000", as numeric. JSON null, other types and strings
+      that aren't amounts come back as NULL
+    - candidates.compensation_floor and candidates.compensation_ceiling,
+      generated from the desired base range in compensation_expectations so
+      the candidate filters compare real numbers. A range with only one end
+      filled in uses that amount for both ends
+    - Indexes on both columns
+
+  2. Notes
+    - Candidates with no usable amount have NULL in both columns, so a
+      compensation filter leaves them out
+*/
+
+CREATE OR REPLACE FUNCTION jsonb_to_numeric(value jsonb)
+RETURNS numeric AS $$
+  SELECT CASE jsonb_typeof(value)
+    WHEN 'number' THEN (value #>> '{}')::numeric
+    WHEN 'string' THEN (
+      SELECT amount::numeric
+      FROM (SELECT regexp_replace(value #>> '{}', '[\s$,]', '', 'g') AS amount) cleaned
+      WHERE amount ~ '^-?[0-9]+(\.[0-9]+)?$'
+    )
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE candidates
+  ADD COLUMN compensation_floor numeric GENERATED ALWAYS AS (
+    coalesce(
+      jsonb_to_numeric(compensation_expectations->'desired_base_min'),
+      jsonb_to_numeric(compensation_expectations->'desired_base_max')
+    )
+  ) STORED,
+  ADD COLUMN compensation_ceiling numeric GENERATED ALWAYS AS (
+    coalesce(
+      jsonb_to_numeric(compensation_expectations->'desired_base_max'),
+      jsonb_to_numeric(compensation_expectations->'desired_base_min')
+    )
+  ) STORED;
+
+CREATE INDEX idx_candidates_compensation_floor ON candidates(compensation_floor);
+CREATE INDEX idx_candidates_compensation_ceiling ON candidates(compensation_ceiling);
@@ -0,0 +1,20 @@
+/*
+  # Candidate search syntax
+
+  1. Changes
+    - candidate_search_query(text) parses raw user input with
+      websearch_to_tsquery, which accepts quoted phrases, "or" and "-word"
+      and never fails on stray punctuation, then makes each word match as a
+      prefix
+*/
+
+-- Returns NULL when the input has no words. Each quoted lexeme in the parsed
+-- query gets :* so results show up while the user is still typing
+CREATE OR REPLACE FUNCTION candidate_search_query(search text)
+RETURNS tsquery AS $$
+  SELECT CASE
+    WHEN numnode(query) = 0 THEN NULL
+    ELSE to_tsquery('simple', regexp_replace(query::text, '''((?:[^'']|'''')+)''', '''\1'':*', 'g'))
+  END
+  FROM websearch_to_tsquery('simple', coalesce(search, '')) AS query;
+$$ LANGUAGE sql IMMUTABLE;
@@ -0,0 +1,74 @@
+/*
+  # Same organization checks
+
+  1. Security
+    - A trigger stops a job pointing at a company or client contact from
+      another organization
+    - Triggers keep a requisition on a job, and a pipeline on candidates, from
+      its own organization
+*/
+
+-- Runs as the owner so rows in other organizations are found and rejected
+CREATE OR REPLACE FUNCTION check_job_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.company_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM companies WHERE id = NEW.company_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'The company must belong to the same organization as the job';
+  END IF;
+
+  IF NEW.client_contact_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM candidates WHERE id = NEW.client_contact_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'The client contact must belong to the same organization as the job';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_job_organization
+  BEFORE INSERT OR UPDATE OF organization_id, company_id, client_contact_id ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION check_job_organization();
+
+-- Runs as the owner so rows in other organizations are found and rejected
+CREATE OR REPLACE FUNCTION check_requisition_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM jobs WHERE id = NEW.job_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'The job must belong to the same organization as the requisition';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_requisition_organization
+  BEFORE INSERT OR UPDATE OF organization_id, job_id ON requisitions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_requisition_organization();
+
+-- Runs as the owner so rows in other organizations are found and rejected
+CREATE OR REPLACE FUNCTION check_requisition_candidate_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM requisitions r
+    JOIN candidates c ON c.organization_id = r.organization_id
+    WHERE r.id = NEW.requisition_id AND c.id = NEW.candidate_id
+  ) THEN
+    RAISE EXCEPTION 'The candidate must belong to the same organization as the requisition';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_requisition_candidate_organization
+  BEFORE INSERT OR UPDATE OF requisition_id, candidate_id ON requisition_candidates
+  FOR EACH ROW
+  EXECUTE FUNCTION check_requisition_candidate_organization();
@@ -0,0 +1,70 @@
+/*
+  # Campaign scheduler
+
+  1. Changes
+    - create_campaign() inserts a campaign and its queued recipients in one
+      transaction
+    - pg_cron calls the send-campaign function every minute while any
+      campaign is sending. It reads the project URL and service role key from
+      the project_url and service_role_key Vault secrets
+    - claim_campaign_recipients() hands each run its next batch, skipping rows
+      another run has locked and setting attempted_at, so overlapping runs
+      never email a candidate twice
+*/
+
+-- Runs as the caller, so the campaign and recipient policies still apply
+CREATE OR REPLACE FUNCTION create_campaign(
+  campaign_name text,
+  campaign_template_id uuid,
+  campaign_subject text,
+  rate integer,
+  recipients jsonb
+)
+RETURNS campaigns AS $$
+DECLARE
+  created campaigns;
+BEGIN
+  INSERT INTO campaigns (organization_id, template_id, name, subject, send_rate_per_minute, created_by, updated_by)
+  VALUES (current_organization_id(), campaign_template_id, campaign_name, campaign_subject, rate, auth.uid(), auth.uid())
+  RETURNING * INTO created;
+
+  INSERT INTO campaign_recipients (campaign_id, candidate_id, email)
+  SELECT created.id, recipient.candidate_id, recipient.email
+  FROM jsonb_to_recordset(recipients) AS recipient(candidate_id uuid, email text);
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION claim_campaign_recipients(claim_campaign_id uuid, batch_size integer)
+RETURNS SETOF campaign_recipients AS $$
+  UPDATE campaign_recipients
+  SET attempted_at = now()
+  WHERE id IN (
+    SELECT id FROM campaign_recipients
+    WHERE campaign_id = claim_campaign_id AND attempted_at IS NULL
+    ORDER BY created_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql SET search_path = public;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-campaign-batches',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-campaign',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (SELECT 1 FROM campaigns WHERE status = 'sending')
+  $$
+);
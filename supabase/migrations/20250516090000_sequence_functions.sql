@@ -0,0 +1,97 @@
+/*
+  # Sequence functions
+
+  1. Changes
+    - save_sequence() saves a sequence and its steps in one transaction
+    - complete_sequence_task() closes a due step and moves its enrollment on
+*/
+
+-- Saves a sequence and its steps together. Steps keep their ids so tasks
+-- already created for them survive reordering; steps left out are deleted
+CREATE OR REPLACE FUNCTION save_sequence(
+  target_sequence_id uuid,
+  sequence_name text,
+  sequence_description text,
+  steps jsonb
+)
+RETURNS sequences AS $$
+DECLARE
+  saved sequences;
+BEGIN
+  IF target_sequence_id IS NULL THEN
+    INSERT INTO sequences (organization_id, name, description, created_by, updated_by)
+    VALUES (current_organization_id(), sequence_name, sequence_description, auth.uid(), auth.uid())
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE sequences
+    SET name = sequence_name, description = sequence_description, updated_by = auth.uid()
+    WHERE id = target_sequence_id
+    RETURNING * INTO saved;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sequence not found';
+    END IF;
+  END IF;
+
+  DELETE FROM sequence_steps
+  WHERE sequence_id = saved.id
+    AND id NOT IN (SELECT (value->>'id')::uuid FROM jsonb_array_elements(steps));
+
+  INSERT INTO sequence_steps (id, sequence_id, position, template_id, delay_days)
+  SELECT
+    (step.value->>'id')::uuid,
+    saved.id,
+    step.ordinality - 1,
+    (step.value->>'template_id')::uuid,
+    (step.value->>'delay_days')::integer
+  FROM jsonb_array_elements(steps) WITH ORDINALITY AS step(value, ordinality)
+  ON CONFLICT (id) DO UPDATE
+  SET position = EXCLUDED.position, template_id = EXCLUDED.template_id, delay_days = EXCLUDED.delay_days
+  WHERE sequence_steps.sequence_id = EXCLUDED.sequence_id;
+
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Closes a due step and moves the enrollment on to the next one, completing
+-- it after the last step
+CREATE OR REPLACE FUNCTION complete_sequence_task(target_task_id uuid, outcome text)
+RETURNS void AS $$
+DECLARE
+  task sequence_tasks;
+  next_step integer;
+  step_count integer;
+BEGIN
+  IF outcome NOT IN ('done', 'skipped') THEN
+    RAISE EXCEPTION 'A step can only be done or skipped';
+  END IF;
+
+  -- Only a due task moves the enrollment on, so closing it twice can't skip a step
+  UPDATE sequence_tasks
+  SET status = outcome, completed_at = now(), completed_by = auth.uid()
+  WHERE id = target_task_id AND status = 'due'
+  RETURNING * INTO task;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This step is no longer due';
+  END IF;
+
+  SELECT s.position + 1, (SELECT count(*) FROM sequence_steps WHERE sequence_id = s.sequence_id)
+  INTO next_step, step_count
+  FROM sequence_steps s
+  WHERE s.id = task.step_id;
+
+  UPDATE sequence_enrollments
+  SET
+    current_step = next_step,
+    updated_by = auth.uid(),
+    status = CASE WHEN next_step >= step_count THEN 'completed' ELSE status END,
+    ended_at = CASE WHEN next_step >= step_count THEN now() ELSE ended_at END
+  WHERE id = task.enrollment_id;
+
+  -- The next step may already be due, so it shouldn't wait for pg_cron
+  IF next_step < step_count THEN
+    PERFORM enqueue_due_sequence_steps();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
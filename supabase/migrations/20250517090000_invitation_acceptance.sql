@@ -0,0 +1,129 @@
+/*
+  # Invitation acceptance
+
+  1. Changes
+    - create_invitation() and renew_invitation() record the time in
+      last_sent_at
+    - accept_invitation(token) joins the invitation's organization from an
+      account that already exists, such as a removed member who was invited
+      back
+*/
+
+-- Runs as the caller, so the admin-only invitation policies decide who may invite
+CREATE OR REPLACE FUNCTION create_invitation(invite_email text, invite_role text)
+RETURNS TABLE (id uuid, token text) AS $$
+DECLARE
+  caller_organization_id uuid;
+  new_token text := encode(gen_random_bytes(32), 'hex');
+BEGIN
+  SELECT organization_id INTO caller_organization_id FROM profiles WHERE profiles.id = auth.uid();
+
+  IF EXISTS (
+    SELECT 1 FROM profiles
+    WHERE organization_id = caller_organization_id AND lower(email) = lower(trim(invite_email))
+  ) THEN
+    RAISE EXCEPTION '% is already a member', trim(invite_email);
+  END IF;
+
+  UPDATE invitations
+  SET role = invite_role,
+      token_hash = invitation_token_hash(new_token),
+      expires_at = now() + interval '7 days',
+      last_sent_at = now()
+  WHERE organization_id = caller_organization_id
+    AND lower(email) = lower(trim(invite_email))
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+  RETURNING invitations.id INTO id;
+
+  IF id IS NULL THEN
+    INSERT INTO invitations (organization_id, email, role, token_hash, invited_by, last_sent_at)
+    VALUES (caller_organization_id, trim(invite_email), invite_role, invitation_token_hash(new_token), auth.uid(), now())
+    RETURNING invitations.id INTO id;
+  END IF;
+
+  token := new_token;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, extensions;
+
+-- A fresh token and expiry for an invitation that is still open
+CREATE OR REPLACE FUNCTION renew_invitation(invitation_id uuid)
+RETURNS TABLE (id uuid, token text) AS $$
+DECLARE
+  new_token text := encode(gen_random_bytes(32), 'hex');
+BEGIN
+  UPDATE invitations
+  SET token_hash = invitation_token_hash(new_token),
+      expires_at = now() + interval '7 days',
+      last_sent_at = now()
+  WHERE invitations.id = invitation_id
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+  RETURNING invitations.id INTO id;
+
+  IF id IS NULL THEN
+    RAISE EXCEPTION 'This invitation has already been accepted or revoked';
+  END IF;
+
+  token := new_token;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, extensions;
+
+/*
+  Joins an invitation's organization from an existing account. Runs as the
+  owner because members can't change their own organization or role. Leaving
+  another organization is allowed, unless that would leave it without an
+  admin.
+*/
+CREATE OR REPLACE FUNCTION accept_invitation(invite_token text)
+RETURNS uuid AS $$
+DECLARE
+  invitation invitations;
+  member profiles;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invitation';
+  END IF;
+
+  SELECT * INTO invitation
+  FROM invitations
+  WHERE token_hash = invitation_token_hash(invite_token)
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > now()
+  FOR UPDATE;
+
+  IF invitation.id IS NULL THEN
+    RAISE EXCEPTION 'This invitation is invalid or has expired';
+  END IF;
+
+  IF lower(invitation.email) <> lower((SELECT email FROM auth.users WHERE id = auth.uid())) THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address';
+  END IF;
+
+  SELECT * INTO member FROM profiles WHERE id = auth.uid() FOR UPDATE;
+
+  IF member.organization_id = invitation.organization_id THEN
+    RAISE EXCEPTION 'You are already a member of this organization';
+  END IF;
+
+  IF member.role = 'admin' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE organization_id = member.organization_id AND role = 'admin' AND id <> member.id
+  ) THEN
+    RAISE EXCEPTION 'Make someone else an admin of your current organization before leaving it';
+  END IF;
+
+  INSERT INTO profiles (id, organization_id, email, role)
+  VALUES (auth.uid(), invitation.organization_id, invitation.email, invitation.role)
+  ON CONFLICT (id) DO UPDATE
+  SET organization_id = EXCLUDED.organization_id,
+      role = EXCLUDED.role;
+
+  UPDATE invitations SET accepted_at = now(), accepted_by = auth.uid() WHERE id = invitation.id;
+
+  RETURN invitation.organization_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
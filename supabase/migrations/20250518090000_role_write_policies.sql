@@ -0,0 +1,538 @@
+/*
+  # Role write policies
+
+  1. Changes
+    - The triggers that stop campaigns and sequences when a candidate replies
+      or stops looking run as the owner, since coordinators can cause them
+
+  2. Security
+    - Coordinators can also manage companies, jobs, requisitions and
+      pipelines, upload resumes, save searches and resolve duplicates
+    - Recruiters can also run campaigns and sequences
+    - Read-only members can't change any of them
+*/
+
+-- Companies
+DROP POLICY "Users can create companies in their organization" ON companies;
+DROP POLICY "Users can update companies in their organization" ON companies;
+DROP POLICY "Users can delete companies in their organization" ON companies;
+
+CREATE POLICY "Users can create companies in their organization unless read-only"
+  ON companies
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+CREATE POLICY "Users can update companies in their organization unless read-only"
+  ON companies
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+CREATE POLICY "Users can delete companies in their organization unless read-only"
+  ON companies
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+-- Jobs
+DROP POLICY "Users can create jobs in their organization" ON jobs;
+DROP POLICY "Users can update jobs in their organization" ON jobs;
+DROP POLICY "Users can delete jobs in their organization" ON jobs;
+
+CREATE POLICY "Users can create jobs in their organization unless read-only"
+  ON jobs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+CREATE POLICY "Users can update jobs in their organization unless read-only"
+  ON jobs
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+CREATE POLICY "Users can delete jobs in their organization unless read-only"
+  ON jobs
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+-- Job candidates
+DROP POLICY "Users can attach candidates to jobs in their organization" ON job_candidates;
+DROP POLICY "Users can detach candidates from jobs in their organization" ON job_candidates;
+
+CREATE POLICY "Users can attach candidates to jobs in their organization unless read-only"
+  ON job_candidates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    job_id IN (
+      SELECT id FROM jobs WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+      )
+    )
+    AND candidate_id IN (
+      SELECT id FROM candidates WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can detach candidates from jobs in their organization unless read-only"
+  ON job_candidates
+  FOR DELETE
+  TO authenticated
+  USING (job_id IN (
+    SELECT id FROM jobs WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  ));
+
+-- Requisitions
+DROP POLICY "Users can create requisitions in their organization" ON requisitions;
+DROP POLICY "Users can update requisitions in their organization" ON requisitions;
+DROP POLICY "Users can delete requisitions in their organization" ON requisitions;
+
+CREATE POLICY "Users can create requisitions in their organization unless read-only"
+  ON requisitions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+CREATE POLICY "Users can update requisitions in their organization unless read-only"
+  ON requisitions
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+CREATE POLICY "Users can delete requisitions in their organization unless read-only"
+  ON requisitions
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+-- Pipelines
+DROP POLICY "Users can add candidates to pipelines in their organization" ON requisition_candidates;
+DROP POLICY "Users can move candidates in pipelines in their organization" ON requisition_candidates;
+DROP POLICY "Users can remove candidates from pipelines in their organization" ON requisition_candidates;
+
+CREATE POLICY "Users can add candidates to pipelines in their organization unless read-only"
+  ON requisition_candidates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    requisition_id IN (
+      SELECT id FROM requisitions WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+      )
+    )
+    AND candidate_id IN (
+      SELECT id FROM candidates WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can move candidates in pipelines in their organization unless read-only"
+  ON requisition_candidates
+  FOR UPDATE
+  TO authenticated
+  USING (requisition_id IN (
+    SELECT id FROM requisitions WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  ))
+  WITH CHECK (requisition_id IN (
+    SELECT id FROM requisitions WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  ));
+
+CREATE POLICY "Users can remove candidates from pipelines in their organization unless read-only"
+  ON requisition_candidates
+  FOR DELETE
+  TO authenticated
+  USING (requisition_id IN (
+    SELECT id FROM requisitions WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  ));
+
+-- Saved searches
+DROP POLICY "Users can create saved searches in their organization" ON saved_searches;
+DROP POLICY "Users can update their own saved searches" ON saved_searches;
+DROP POLICY "Users can delete their own saved searches" ON saved_searches;
+
+CREATE POLICY "Users can create saved searches in their organization unless read-only"
+  ON saved_searches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  );
+
+CREATE POLICY "Users can update their own saved searches unless read-only"
+  ON saved_searches
+  FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  )
+  WITH CHECK (
+    created_by = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  );
+
+CREATE POLICY "Users can delete their own saved searches unless read-only"
+  ON saved_searches
+  FOR DELETE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  );
+
+-- Duplicate candidates
+DROP POLICY "Users can record duplicate candidates in their organization" ON candidate_duplicates;
+DROP POLICY "Users can resolve duplicate candidates in their organization" ON candidate_duplicates;
+
+CREATE POLICY "Users can record duplicate candidates in their organization unless read-only"
+  ON candidate_duplicates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+CREATE POLICY "Users can resolve duplicate candidates in their organization unless read-only"
+  ON candidate_duplicates
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+  ));
+
+-- Template versions, recorded by a trigger when a template is saved
+DROP POLICY "Users can record template versions in their organization" ON template_versions;
+
+CREATE POLICY "Recruiters can record template versions in their organization"
+  ON template_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (template_id IN (
+    SELECT id FROM templates WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+  ));
+
+-- Campaigns
+DROP POLICY "Users can create campaigns in their organization" ON campaigns;
+DROP POLICY "Users can update campaigns in their organization" ON campaigns;
+DROP POLICY "Users can delete campaigns in their organization" ON campaigns;
+
+CREATE POLICY "Recruiters can create campaigns in their organization"
+  ON campaigns
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+  ));
+
+CREATE POLICY "Recruiters can update campaigns in their organization"
+  ON campaigns
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+  ));
+
+CREATE POLICY "Recruiters can delete campaigns in their organization"
+  ON campaigns
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+  ));
+
+-- Campaign recipients
+DROP POLICY "Users can add campaign recipients in their organization" ON campaign_recipients;
+DROP POLICY "Users can update campaign recipients in their organization" ON campaign_recipients;
+DROP POLICY "Users can remove campaign recipients in their organization" ON campaign_recipients;
+
+CREATE POLICY "Recruiters can add campaign recipients in their organization"
+  ON campaign_recipients
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    campaign_id IN (
+      SELECT id FROM campaigns WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+      )
+    )
+    AND candidate_id IN (
+      SELECT id FROM candidates WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Recruiters can update campaign recipients in their organization"
+  ON campaign_recipients
+  FOR UPDATE
+  TO authenticated
+  USING (campaign_id IN (
+    SELECT id FROM campaigns WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+  ))
+  WITH CHECK (campaign_id IN (
+    SELECT id FROM campaigns WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+  ));
+
+CREATE POLICY "Recruiters can remove campaign recipients in their organization"
+  ON campaign_recipients
+  FOR DELETE
+  TO authenticated
+  USING (campaign_id IN (
+    SELECT id FROM campaigns WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+  ));
+
+-- Sequences
+DROP POLICY "Users can create sequences in their organization" ON sequences;
+DROP POLICY "Users can update sequences in their organization" ON sequences;
+DROP POLICY "Users can delete sequences in their organization" ON sequences;
+DROP POLICY "Users can manage sequence steps in their organization" ON sequence_steps;
+
+CREATE POLICY "Recruiters can create sequences in their organization"
+  ON sequences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+  ));
+
+CREATE POLICY "Recruiters can update sequences in their organization"
+  ON sequences
+  FOR UPDATE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+  ))
+  WITH CHECK (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+  ));
+
+CREATE POLICY "Recruiters can delete sequences in their organization"
+  ON sequences
+  FOR DELETE
+  TO authenticated
+  USING (organization_id IN (
+    SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+  ));
+
+CREATE POLICY "Users can view sequence steps in their organization"
+  ON sequence_steps
+  FOR SELECT
+  TO authenticated
+  USING (sequence_id IN (
+    SELECT id FROM sequences WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Recruiters can manage sequence steps in their organization"
+  ON sequence_steps
+  FOR ALL
+  TO authenticated
+  USING (sequence_id IN (
+    SELECT id FROM sequences WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+  ))
+  WITH CHECK (sequence_id IN (
+    SELECT id FROM sequences WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+  ));
+
+-- Enrollments
+DROP POLICY "Users can enroll candidates in their organization" ON sequence_enrollments;
+DROP POLICY "Users can update enrollments in their organization" ON sequence_enrollments;
+DROP POLICY "Users can remove enrollments in their organization" ON sequence_enrollments;
+
+CREATE POLICY "Recruiters can enroll candidates in their organization"
+  ON sequence_enrollments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sequence_id IN (
+      SELECT id FROM sequences WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+      )
+    )
+    AND candidate_id IN (
+      SELECT id FROM candidates WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Recruiters can update enrollments in their organization"
+  ON sequence_enrollments
+  FOR UPDATE
+  TO authenticated
+  USING (sequence_id IN (
+    SELECT id FROM sequences WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+  ))
+  WITH CHECK (sequence_id IN (
+    SELECT id FROM sequences WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+  ));
+
+CREATE POLICY "Recruiters can remove enrollments in their organization"
+  ON sequence_enrollments
+  FOR DELETE
+  TO authenticated
+  USING (sequence_id IN (
+    SELECT id FROM sequences WHERE organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+  ));
+
+-- Sequence tasks
+DROP POLICY "Users can manage sequence tasks in their organization" ON sequence_tasks;
+
+CREATE POLICY "Users can view sequence tasks in their organization"
+  ON sequence_tasks
+  FOR SELECT
+  TO authenticated
+  USING (enrollment_id IN (
+    SELECT e.id FROM sequence_enrollments e
+    JOIN sequences s ON s.id = e.sequence_id
+    WHERE s.organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  ));
+
+CREATE POLICY "Recruiters can manage sequence tasks in their organization"
+  ON sequence_tasks
+  FOR ALL
+  TO authenticated
+  USING (enrollment_id IN (
+    SELECT e.id FROM sequence_enrollments e
+    JOIN sequences s ON s.id = e.sequence_id
+    WHERE s.organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+  ))
+  WITH CHECK (enrollment_id IN (
+    SELECT e.id FROM sequence_enrollments e
+    JOIN sequences s ON s.id = e.sequence_id
+    WHERE s.organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+  ));
+
+-- Resumes
+DROP POLICY "Users can upload resumes in their organization" ON storage.objects;
+DROP POLICY "Users can replace resumes in their organization" ON storage.objects;
+DROP POLICY "Users can delete resumes in their organization" ON storage.objects;
+
+CREATE POLICY "Users can upload resumes in their organization unless read-only"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'resumes'
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  );
+
+CREATE POLICY "Users can replace resumes in their organization unless read-only"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  )
+  WITH CHECK (
+    bucket_id = 'resumes'
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  );
+
+CREATE POLICY "Users can delete resumes in their organization unless read-only"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'resumes'
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter', 'coordinator')
+    )
+  );
+
+/*
+  A coordinator logging a reply or changing whether a candidate is looking
+  stops campaigns and sequences they can't edit themselves, so these triggers
+  run as the owner. They only touch the candidate the change was made to.
+*/
+ALTER FUNCTION mark_campaign_replies() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION stop_sequences_on_reply() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION stop_sequences_on_looking_change() SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,44 @@
+/*
+  # Campaign template check
+
+  1. Security
+    - A trigger stops a campaign using a template from another organization,
+      or someone else's personal template. The scheduler loads templates with
+      the service role key, so RLS doesn't stop it there
+    - Campaigns are created as the signed-in user and keep their creator,
+      since their messages go out in the creator's name
+*/
+
+-- Runs as the owner so templates the caller can't see are found and rejected
+CREATE OR REPLACE FUNCTION check_campaign_template()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND auth.uid() IS NOT NULL AND NEW.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Campaigns must be created as the signed-in user';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.created_by IS DISTINCT FROM OLD.created_by THEN
+    RAISE EXCEPTION 'The creator of a campaign cannot be changed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM templates WHERE id = NEW.template_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'The template must belong to the same organization as the campaign';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM templates
+    WHERE id = NEW.template_id AND (scope = 'shared' OR created_by = NEW.created_by)
+  ) THEN
+    RAISE EXCEPTION 'The template must be shared or created by the creator of the campaign';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_campaign_template
+  BEFORE INSERT OR UPDATE OF organization_id, template_id, created_by ON campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION check_campaign_template();
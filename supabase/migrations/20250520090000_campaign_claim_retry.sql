@@ -0,0 +1,27 @@
+/*
+  # Campaign claim retry
+
+  1. Changes
+    - claim_campaign_recipients() also hands out recipients that are still
+      queued ten minutes after a run claimed them. That run ended before it
+      got to them, so they would otherwise never be sent, and the campaign
+      could never complete
+*/
+
+-- Ten minutes is longer than a function run is allowed to last, so a claim
+-- that old can't still be in progress
+CREATE OR REPLACE FUNCTION claim_campaign_recipients(claim_campaign_id uuid, batch_size integer)
+RETURNS SETOF campaign_recipients AS $$
+  UPDATE campaign_recipients
+  SET attempted_at = now()
+  WHERE id IN (
+    SELECT id FROM campaign_recipients
+    WHERE campaign_id = claim_campaign_id
+      AND status = 'queued'
+      AND (attempted_at IS NULL OR attempted_at < now() - interval '10 minutes')
+    ORDER BY created_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql SET search_path = public;
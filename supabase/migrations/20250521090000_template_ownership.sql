@@ -0,0 +1,36 @@
+/*
+  # Template ownership
+
+  1. Security
+    - The author of a template can't be changed, and only the author or an
+      admin can change its scope. The update policy only checks the new row,
+      so a recruiter could otherwise take over a shared template by making it
+      personal in their own name
+*/
+
+CREATE OR REPLACE FUNCTION check_template_ownership()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.created_by IS DISTINCT FROM OLD.created_by THEN
+    RAISE EXCEPTION 'The author of a template cannot be changed';
+  END IF;
+
+  IF NEW.scope IS DISTINCT FROM OLD.scope
+    AND OLD.created_by IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  THEN
+    RAISE EXCEPTION 'Only the author or an admin can change who can see a template';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_template_ownership
+  BEFORE UPDATE OF created_by, scope ON templates
+  FOR EACH ROW
+  EXECUTE FUNCTION check_template_ownership();
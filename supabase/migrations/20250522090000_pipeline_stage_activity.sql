@@ -0,0 +1,54 @@
+/*
+  # Pipeline stage activity
+
+  1. Changes
+    - Adding a candidate to a pipeline, or moving them to another stage,
+      records the stage_change activity in the same statement, so the
+      timeline can't miss a move the pipeline saved. Adding also attaches
+      the candidate to the requisition's job
+*/
+
+-- Runs as the caller, so the activity and job candidate policies still apply
+CREATE OR REPLACE FUNCTION log_pipeline_stage_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  requisition requisitions;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.stage = OLD.stage THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO requisition FROM requisitions WHERE id = NEW.requisition_id;
+
+  -- Anyone in a requisition's pipeline is also attached to its job
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO job_candidates (job_id, candidate_id, created_by)
+    VALUES (requisition.job_id, NEW.candidate_id, auth.uid())
+    ON CONFLICT (job_id, candidate_id) DO NOTHING;
+  END IF;
+
+  INSERT INTO activities (candidate_id, organization_id, type, description, metadata, created_by)
+  VALUES (
+    NEW.candidate_id,
+    requisition.organization_id,
+    'stage_change',
+    CASE
+      WHEN TG_OP = 'INSERT' THEN format('Added to %s as %s', requisition.title, initcap(NEW.stage))
+      ELSE format('Moved from %s to %s for %s', initcap(OLD.stage), initcap(NEW.stage), requisition.title)
+    END,
+    jsonb_build_object(
+      'from_stage', CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.stage END,
+      'to_stage', NEW.stage,
+      'requisition_id', NEW.requisition_id
+    ),
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER log_pipeline_stage_change
+  AFTER INSERT OR UPDATE OF stage ON requisition_candidates
+  FOR EACH ROW
+  EXECUTE FUNCTION log_pipeline_stage_change();
@@ -0,0 +1,13 @@
+/*
+  # Template version history
+
+  1. Security
+    - Versions are only written by the trigger that records each template
+      save, so members can no longer insert history rows of their own or
+      take a version number the template's next save needs
+*/
+
+DROP POLICY "Recruiters can record template versions in their organization" ON template_versions;
+
+-- The templates policies already decided who could save the template
+ALTER FUNCTION record_template_version() SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,34 @@
+/*
+  # Sequence step template check
+
+  1. Security
+    - A trigger stops a sequence step using a template from another
+      organization, or anyone's personal template. Sequences are shared by
+      the whole organization, so a step pointing at a template other members
+      can't see would leave them with a step they can't send
+*/
+
+-- Runs as the owner so templates the caller can't see are found and rejected
+CREATE OR REPLACE FUNCTION check_sequence_step_template()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM templates t
+    JOIN sequences s ON s.organization_id = t.organization_id
+    WHERE t.id = NEW.template_id AND s.id = NEW.sequence_id
+  ) THEN
+    RAISE EXCEPTION 'The template must belong to the same organization as the sequence';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM templates WHERE id = NEW.template_id AND scope = 'shared') THEN
+    RAISE EXCEPTION 'Sequence steps can only use shared templates';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_sequence_step_template
+  BEFORE INSERT OR UPDATE OF sequence_id, template_id ON sequence_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION check_sequence_step_template();
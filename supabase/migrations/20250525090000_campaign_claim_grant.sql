@@ -0,0 +1,11 @@
+/*
+  # Campaign claim grant
+
+  1. Security
+    - Only the send-campaign scheduler, which runs with the service role key,
+      can claim recipients. Members could otherwise claim a campaign's queued
+      recipients themselves and hold up its sending until the claims expire
+*/
+
+REVOKE EXECUTE ON FUNCTION claim_campaign_recipients(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_campaign_recipients(uuid, integer) TO service_role;
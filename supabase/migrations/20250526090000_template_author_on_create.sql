@@ -0,0 +1,21 @@
+/*
+  # Template author on create
+
+  1. Security
+    - Templates are created in the signed-in user's name, shared ones too.
+      The ownership trigger only guards updates, so a recruiter could
+      otherwise create a template credited to a colleague
+*/
+
+DROP POLICY "Recruiters can create templates in their organization" ON templates;
+
+CREATE POLICY "Recruiters can create templates in their organization"
+  ON templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid() AND role IN ('admin', 'recruiter')
+    )
+    AND created_by = auth.uid()
+  );
@@ -0,0 +1,105 @@
+-- Run against the local stack with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- Acme has an admin and a recruiter; Bolt has a single admin
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'admin@acme.test', '{"first_name": "Ada", "org_name": "Acme"}'),
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'admin@bolt.test', '{"first_name": "Bo", "org_name": "Bolt"}');
+
+SELECT set_config('test.acme', id::text, true) FROM organizations WHERE name = 'Acme';
+SELECT set_config('test.bolt', id::text, true) FROM organizations WHERE name = 'Bolt';
+
+INSERT INTO invitations (organization_id, email, role, token_hash, invited_by)
+VALUES (current_setting('test.acme')::uuid, 'rae@acme.test', 'recruiter', invitation_token_hash('rae-token'), 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('aaaaaaaa-0000-0000-0000-000000000002', 'rae@acme.test', '{"first_name": "Rae", "invite_token": "rae-token"}');
+
+-- The Acme admin removes Rae, then invites Rae back as a coordinator
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-0000-0000-0000-000000000001", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT remove_member('aaaaaaaa-0000-0000-0000-000000000002');
+SELECT set_config('test.rae_token', token, true) FROM create_invitation('rae@acme.test', 'coordinator');
+SELECT set_config('test.bo_token', token, true) FROM create_invitation('admin@bolt.test', 'recruiter');
+
+SELECT isnt(
+  (SELECT last_sent_at FROM invitations WHERE email = 'rae@acme.test' AND accepted_at IS NULL),
+  NULL,
+  'creating an invitation records when it was sent'
+);
+
+UPDATE invitations SET last_sent_at = now() - interval '1 day' WHERE email = 'rae@acme.test' AND accepted_at IS NULL;
+SELECT set_config('test.rae_token', token, true)
+FROM renew_invitation((SELECT id FROM invitations WHERE email = 'rae@acme.test' AND accepted_at IS NULL));
+
+SELECT ok(
+  (SELECT last_sent_at > now() - interval '1 minute' FROM invitations WHERE email = 'rae@acme.test' AND accepted_at IS NULL),
+  'renewing an invitation records when it was sent again'
+);
+
+RESET ROLE;
+
+-- Rae already has an account and accepts instead of signing up
+SELECT set_config('request.jwt.claims', '{"sub": "aaaaaaaa-0000-0000-0000-000000000002", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$SELECT accept_invitation(current_setting('test.bo_token'))$$,
+  'P0001',
+  'This invitation was sent to a different email address',
+  'an invitation can only be accepted by its address'
+);
+
+SELECT is(
+  accept_invitation(current_setting('test.rae_token')),
+  current_setting('test.acme')::uuid,
+  'a removed member can accept a new invitation'
+);
+
+SELECT throws_ok(
+  $$SELECT accept_invitation(current_setting('test.rae_token'))$$,
+  'P0001',
+  'This invitation is invalid or has expired',
+  'an invitation can only be accepted once'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$SELECT organization_id, role FROM profiles WHERE id = 'aaaaaaaa-0000-0000-0000-000000000002'$$,
+  $$VALUES (current_setting('test.acme')::uuid, 'coordinator')$$,
+  'accepting rejoins with the invitation''s role'
+);
+
+SELECT isnt(
+  (SELECT accepted_by FROM invitations WHERE token_hash = invitation_token_hash(current_setting('test.rae_token'))),
+  NULL,
+  'the invitation is marked accepted'
+);
+
+-- Bo is Bolt's only admin and can't leave Bolt for Acme
+SELECT set_config('request.jwt.claims', '{"sub": "bbbbbbbb-0000-0000-0000-000000000001", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$SELECT accept_invitation(current_setting('test.bo_token'))$$,
+  'P0001',
+  'Make someone else an admin of your current organization before leaving it',
+  'the last admin cannot leave their organization'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT organization_id FROM profiles WHERE id = 'bbbbbbbb-0000-0000-0000-000000000001'),
+  current_setting('test.bolt')::uuid,
+  'a rejected acceptance leaves the member where they were'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,714 @@
+-- Run against the local stack with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(84);
+
+-- Two organizations, each created by signing up. Acme also gets a recruiter
+-- and a read-only member through invitations.
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'admin@acme.test', '{"first_name": "Ada", "org_name": "Acme"}'),
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'admin@bolt.test', '{"first_name": "Bo", "org_name": "Bolt"}');
+
+SELECT set_config('test.acme', id::text, true) FROM organizations WHERE name = 'Acme';
+SELECT set_config('test.bolt', id::text, true) FROM organizations WHERE name = 'Bolt';
+
+INSERT INTO invitations (organization_id, email, role, token_hash, invited_by)
+VALUES
+  (current_setting('test.acme')::uuid, 'recruiter@acme.test', 'recruiter', invitation_token_hash('recruiter-token'), 'aaaaaaaa-0000-0000-0000-000000000001'),
+  (current_setting('test.acme')::uuid, 'viewer@acme.test', 'read_only', invitation_token_hash('viewer-token'), 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000002', 'recruiter@acme.test', '{"first_name": "Rae", "invite_token": "recruiter-token"}'),
+  ('aaaaaaaa-0000-0000-0000-000000000003', 'viewer@acme.test', '{"first_name": "Vic", "invite_token": "viewer-token"}');
+
+INSERT INTO candidates (id, organization_id, first_name, last_name, created_by)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-00000000c001', current_setting('test.acme')::uuid, 'Alice', 'Acme', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('bbbbbbbb-0000-0000-0000-00000000c001', current_setting('test.bolt')::uuid, 'Bea', 'Bolt', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+INSERT INTO tags (id, organization_id, name, created_by)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-00000000d001', current_setting('test.acme')::uuid, 'acme-tag', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('bbbbbbbb-0000-0000-0000-00000000d001', current_setting('test.bolt')::uuid, 'bolt-tag', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+INSERT INTO candidate_tags (candidate_id, tag_id, created_by)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-00000000c001', 'aaaaaaaa-0000-0000-0000-00000000d001', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('bbbbbbbb-0000-0000-0000-00000000c001', 'bbbbbbbb-0000-0000-0000-00000000d001', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+INSERT INTO activities (candidate_id, organization_id, type, description, created_by)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-00000000c001', current_setting('test.acme')::uuid, 'note', 'acme note', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('bbbbbbbb-0000-0000-0000-00000000c001', current_setting('test.bolt')::uuid, 'note', 'bolt note', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+INSERT INTO templates (id, organization_id, name, type, content, created_by)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-00000000e001', current_setting('test.acme')::uuid, 'Acme intro', 'email', 'Hi', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('bbbbbbbb-0000-0000-0000-00000000e001', current_setting('test.bolt')::uuid, 'Bolt intro', 'email', 'Hi', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+INSERT INTO templates (id, organization_id, name, type, content, scope, created_by)
+VALUES ('aaaaaaaa-0000-0000-0000-00000000e002', current_setting('test.acme')::uuid, 'Rae''s intro', 'email', 'Hi', 'personal', 'aaaaaaaa-0000-0000-0000-000000000002');
+
+INSERT INTO companies (id, organization_id, name, created_by)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-00000000f001', current_setting('test.acme')::uuid, 'Acme client', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('bbbbbbbb-0000-0000-0000-00000000f001', current_setting('test.bolt')::uuid, 'Bolt client', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+INSERT INTO jobs (id, organization_id, title, created_by)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-00000000a001', current_setting('test.acme')::uuid, 'Acme engineer', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('bbbbbbbb-0000-0000-0000-00000000a001', current_setting('test.bolt')::uuid, 'Bolt engineer', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+INSERT INTO requisitions (id, organization_id, job_id, title, created_by)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-00000000b001', current_setting('test.acme')::uuid, 'aaaaaaaa-0000-0000-0000-00000000a001', 'Acme opening', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('bbbbbbbb-0000-0000-0000-00000000b001', current_setting('test.bolt')::uuid, 'bbbbbbbb-0000-0000-0000-00000000a001', 'Bolt opening', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+INSERT INTO campaigns (id, organization_id, template_id, name, subject, created_by)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-000000001001', current_setting('test.acme')::uuid, 'aaaaaaaa-0000-0000-0000-00000000e001', 'Acme campaign', 'Hi', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('bbbbbbbb-0000-0000-0000-000000001001', current_setting('test.bolt')::uuid, 'bbbbbbbb-0000-0000-0000-00000000e001', 'Bolt campaign', 'Hi', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+INSERT INTO sequences (id, organization_id, name, created_by)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-000000002001', current_setting('test.acme')::uuid, 'Acme sequence', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('bbbbbbbb-0000-0000-0000-000000002001', current_setting('test.bolt')::uuid, 'Bolt sequence', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+INSERT INTO saved_searches (id, organization_id, name, visibility, created_by)
+VALUES ('bbbbbbbb-0000-0000-0000-000000003001', current_setting('test.bolt')::uuid, 'Bolt shortlist', 'organization', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+INSERT INTO candidates (id, organization_id, first_name, last_name, created_by)
+VALUES ('bbbbbbbb-0000-0000-0000-00000000c002', current_setting('test.bolt')::uuid, 'Bea', 'Bolt', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+INSERT INTO candidate_duplicates (id, organization_id, candidate_id, duplicate_id, reasons)
+VALUES (
+  'bbbbbbbb-0000-0000-0000-000000004001',
+  current_setting('test.bolt')::uuid,
+  'bbbbbbbb-0000-0000-0000-00000000c001',
+  'bbbbbbbb-0000-0000-0000-00000000c002',
+  '{name}'
+);
+
+INSERT INTO candidate_merges (organization_id, survivor_id, merged_candidate_id, merged_candidate, merged_by)
+VALUES (
+  current_setting('test.bolt')::uuid,
+  'bbbbbbbb-0000-0000-0000-00000000c001',
+  'bbbbbbbb-0000-0000-0000-00000000c003',
+  '{"first_name": "Bee"}',
+  'bbbbbbbb-0000-0000-0000-000000000001'
+);
+
+INSERT INTO invitations (id, organization_id, email, role, token_hash, invited_by)
+VALUES (
+  'bbbbbbbb-0000-0000-0000-000000005001',
+  current_setting('test.bolt')::uuid,
+  'new@bolt.test',
+  'recruiter',
+  invitation_token_hash('bolt-token'),
+  'bbbbbbbb-0000-0000-0000-000000000001'
+);
+
+INSERT INTO storage.objects (bucket_id, name, owner)
+VALUES
+  ('resumes', current_setting('test.acme') || '/alice.pdf', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('resumes', current_setting('test.bolt') || '/bea.pdf', 'bbbbbbbb-0000-0000-0000-000000000001');
+
+-- Every table is covered
+SELECT is_empty(
+  $$SELECT c.relname FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public' AND c.relkind = 'r' AND NOT c.relrowsecurity$$,
+  'every public table has row level security enabled'
+);
+
+SELECT is_empty(
+  $$SELECT c.relname FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public' AND c.relkind = 'r'
+      AND NOT EXISTS (SELECT 1 FROM pg_policies p WHERE p.schemaname = 'public' AND p.tablename = c.relname)$$,
+  'every public table has policies'
+);
+
+-- Visitors who aren't signed in see nothing
+SET LOCAL ROLE anon;
+
+SELECT is_empty($$SELECT id FROM candidates$$, 'anonymous visitors cannot read candidates');
+SELECT is_empty($$SELECT id FROM organizations$$, 'anonymous visitors cannot read organizations');
+
+RESET ROLE;
+
+-- The Acme admin only sees Acme
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "aaaaaaaa-0000-0000-0000-000000000001", "role": "authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT results_eq(
+  $$SELECT name FROM organizations$$,
+  $$VALUES ('Acme')$$,
+  'users only see their own organization'
+);
+
+SELECT results_eq(
+  $$SELECT email FROM profiles ORDER BY email$$,
+  $$VALUES ('admin@acme.test'), ('recruiter@acme.test'), ('viewer@acme.test')$$,
+  'users only see profiles in their organization'
+);
+
+SELECT results_eq(
+  $$SELECT first_name FROM candidates$$,
+  $$VALUES ('Alice')$$,
+  'users only see candidates in their organization'
+);
+
+SELECT results_eq(
+  $$SELECT name FROM tags$$,
+  $$VALUES ('acme-tag')$$,
+  'users only see tags in their organization'
+);
+
+SELECT results_eq(
+  $$SELECT candidate_id FROM candidate_tags$$,
+  $$VALUES ('aaaaaaaa-0000-0000-0000-00000000c001'::uuid)$$,
+  'users only see candidate tags in their organization'
+);
+
+SELECT results_eq(
+  $$SELECT description FROM activities$$,
+  $$VALUES ('acme note')$$,
+  'users only see activities in their organization'
+);
+
+SELECT results_eq(
+  $$SELECT name FROM templates$$,
+  $$VALUES ('Acme intro')$$,
+  'users only see templates in their organization'
+);
+
+SELECT results_eq(
+  $$SELECT DISTINCT template_id FROM template_versions$$,
+  $$VALUES ('aaaaaaaa-0000-0000-0000-00000000e001'::uuid)$$,
+  'users only see template versions in their organization'
+);
+
+SELECT results_eq(
+  $$SELECT name FROM companies$$,
+  $$VALUES ('Acme client')$$,
+  'users only see companies in their organization'
+);
+
+SELECT results_eq(
+  $$SELECT title FROM jobs$$,
+  $$VALUES ('Acme engineer')$$,
+  'users only see jobs in their organization'
+);
+
+SELECT results_eq(
+  $$SELECT title FROM requisitions$$,
+  $$VALUES ('Acme opening')$$,
+  'users only see requisitions in their organization'
+);
+
+SELECT results_eq(
+  $$SELECT name FROM campaigns$$,
+  $$VALUES ('Acme campaign')$$,
+  'users only see campaigns in their organization'
+);
+
+SELECT results_eq(
+  $$SELECT name FROM sequences$$,
+  $$VALUES ('Acme sequence')$$,
+  'users only see sequences in their organization'
+);
+
+SELECT is_empty(
+  $$SELECT id FROM saved_searches WHERE organization_id = current_setting('test.bolt')::uuid$$,
+  'users cannot see shared searches in another organization'
+);
+
+SELECT is_empty(
+  $$SELECT id FROM candidate_duplicates$$,
+  'users only see duplicates in their organization'
+);
+
+SELECT is_empty(
+  $$SELECT id FROM candidate_merges$$,
+  'users only see merges in their organization'
+);
+
+SELECT results_eq(
+  $$SELECT email FROM invitations ORDER BY email$$,
+  $$VALUES ('recruiter@acme.test'), ('viewer@acme.test')$$,
+  'admins only see invitations to their organization'
+);
+
+SELECT results_eq(
+  $$SELECT name FROM storage.objects WHERE bucket_id = 'resumes'$$,
+  $$VALUES (current_setting('test.acme') || '/alice.pdf')$$,
+  'users only see resumes in their organization'
+);
+
+-- Writes into another organization are denied
+SELECT throws_ok(
+  $$INSERT INTO candidates (organization_id, first_name, last_name)
+    VALUES (current_setting('test.bolt')::uuid, 'Sneaky', 'Insert')$$,
+  '42501',
+  NULL,
+  'users cannot create candidates in another organization'
+);
+
+SELECT is_empty(
+  $$UPDATE candidates SET first_name = 'Hacked' WHERE id = 'bbbbbbbb-0000-0000-0000-00000000c001' RETURNING id$$,
+  'users cannot update candidates in another organization'
+);
+
+SELECT is_empty(
+  $$DELETE FROM candidates WHERE id = 'bbbbbbbb-0000-0000-0000-00000000c001' RETURNING id$$,
+  'users cannot delete candidates in another organization'
+);
+
+SELECT throws_ok(
+  $$UPDATE candidates SET organization_id = current_setting('test.bolt')::uuid
+    WHERE id = 'aaaaaaaa-0000-0000-0000-00000000c001'$$,
+  '42501',
+  NULL,
+  'users cannot move candidates into another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO tags (organization_id, name) VALUES (current_setting('test.bolt')::uuid, 'sneaky')$$,
+  '42501',
+  NULL,
+  'users cannot create tags in another organization'
+);
+
+SELECT is_empty(
+  $$UPDATE tags SET name = 'hacked' WHERE id = 'bbbbbbbb-0000-0000-0000-00000000d001' RETURNING id$$,
+  'users cannot rename tags in another organization'
+);
+
+SELECT is_empty(
+  $$DELETE FROM tags WHERE id = 'bbbbbbbb-0000-0000-0000-00000000d001' RETURNING id$$,
+  'users cannot delete tags in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO candidate_tags (candidate_id, tag_id)
+    VALUES ('bbbbbbbb-0000-0000-0000-00000000c001', 'aaaaaaaa-0000-0000-0000-00000000d001')$$,
+  '42501',
+  NULL,
+  'users cannot tag candidates in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO candidate_tags (candidate_id, tag_id)
+    VALUES ('aaaaaaaa-0000-0000-0000-00000000c001', 'bbbbbbbb-0000-0000-0000-00000000d001')$$,
+  '42501',
+  NULL,
+  'users cannot use tags from another organization'
+);
+
+SELECT is_empty(
+  $$DELETE FROM candidate_tags WHERE candidate_id = 'bbbbbbbb-0000-0000-0000-00000000c001' RETURNING tag_id$$,
+  'users cannot untag candidates in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO activities (candidate_id, organization_id, type, created_by)
+    VALUES ('bbbbbbbb-0000-0000-0000-00000000c001', current_setting('test.acme')::uuid, 'note', auth.uid())$$,
+  '42501',
+  NULL,
+  'users cannot log activities against candidates in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO activities (candidate_id, organization_id, type, created_by)
+    VALUES ('bbbbbbbb-0000-0000-0000-00000000c001', current_setting('test.bolt')::uuid, 'note', auth.uid())$$,
+  '42501',
+  NULL,
+  'users cannot log activities in another organization'
+);
+
+SELECT is_empty(
+  $$UPDATE activities SET description = 'rewritten' RETURNING id$$,
+  'activities cannot be rewritten'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO templates (organization_id, name, type, content, created_by)
+    VALUES (current_setting('test.bolt')::uuid, 'Sneaky', 'email', 'Hi', auth.uid())$$,
+  '42501',
+  NULL,
+  'users cannot create templates in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO templates (organization_id, name, type, content, created_by)
+    VALUES (current_setting('test.acme')::uuid, 'Rae''s shared intro', 'email', 'Hi', 'aaaaaaaa-0000-0000-0000-000000000002')$$,
+  '42501',
+  NULL,
+  'templates cannot be created in a colleague''s name'
+);
+
+SELECT is_empty(
+  $$UPDATE templates SET content = 'Hacked' WHERE id = 'bbbbbbbb-0000-0000-0000-00000000e001' RETURNING id$$,
+  'users cannot update templates in another organization'
+);
+
+SELECT is_empty(
+  $$DELETE FROM templates WHERE id = 'bbbbbbbb-0000-0000-0000-00000000e001' RETURNING id$$,
+  'users cannot delete templates in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO template_versions (template_id, version, name, type, content)
+    VALUES ('aaaaaaaa-0000-0000-0000-00000000e001', 99, 'Acme intro', 'email', 'Made up')$$,
+  '42501',
+  NULL,
+  'template versions are only recorded by saving the template'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO template_versions (template_id, version, name, type, content)
+    VALUES ('bbbbbbbb-0000-0000-0000-00000000e001', 99, 'Bolt intro', 'email', 'Hacked')$$,
+  '42501',
+  NULL,
+  'users cannot record versions of templates in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO companies (organization_id, name) VALUES (current_setting('test.bolt')::uuid, 'Sneaky')$$,
+  '42501',
+  NULL,
+  'users cannot create companies in another organization'
+);
+
+SELECT is_empty(
+  $$UPDATE companies SET name = 'Hacked' WHERE id = 'bbbbbbbb-0000-0000-0000-00000000f001' RETURNING id$$,
+  'users cannot update companies in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO jobs (organization_id, title) VALUES (current_setting('test.bolt')::uuid, 'Sneaky')$$,
+  '42501',
+  NULL,
+  'users cannot create jobs in another organization'
+);
+
+SELECT is_empty(
+  $$UPDATE jobs SET title = 'Hacked' WHERE id = 'bbbbbbbb-0000-0000-0000-00000000a001' RETURNING id$$,
+  'users cannot update jobs in another organization'
+);
+
+SELECT is_empty(
+  $$DELETE FROM jobs WHERE id = 'bbbbbbbb-0000-0000-0000-00000000a001' RETURNING id$$,
+  'users cannot delete jobs in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO jobs (organization_id, company_id, title)
+    VALUES (current_setting('test.acme')::uuid, 'bbbbbbbb-0000-0000-0000-00000000f001', 'Sneaky')$$,
+  'P0001',
+  'The company must belong to the same organization as the job',
+  'jobs cannot be linked to companies in another organization'
+);
+
+SELECT throws_ok(
+  $$UPDATE jobs SET client_contact_id = 'bbbbbbbb-0000-0000-0000-00000000c001'
+    WHERE id = 'aaaaaaaa-0000-0000-0000-00000000a001'$$,
+  'P0001',
+  'The client contact must belong to the same organization as the job',
+  'jobs cannot use client contacts from another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO requisitions (organization_id, job_id, title)
+    VALUES (current_setting('test.acme')::uuid, 'bbbbbbbb-0000-0000-0000-00000000a001', 'Sneaky')$$,
+  'P0001',
+  'The job must belong to the same organization as the requisition',
+  'requisitions cannot be opened on jobs in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO requisition_candidates (requisition_id, candidate_id)
+    VALUES ('aaaaaaaa-0000-0000-0000-00000000b001', 'bbbbbbbb-0000-0000-0000-00000000c001')$$,
+  'P0001',
+  'The candidate must belong to the same organization as the requisition',
+  'pipelines cannot take candidates from another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO campaigns (organization_id, template_id, name, subject, created_by)
+    VALUES (current_setting('test.acme')::uuid, 'bbbbbbbb-0000-0000-0000-00000000e001', 'Sneaky', 'Hi', 'aaaaaaaa-0000-0000-0000-000000000001')$$,
+  'P0001',
+  'The template must belong to the same organization as the campaign',
+  'campaigns cannot send templates from another organization'
+);
+
+SELECT throws_ok(
+  $$UPDATE campaigns SET template_id = 'aaaaaaaa-0000-0000-0000-00000000e002'
+    WHERE id = 'aaaaaaaa-0000-0000-0000-000000001001'$$,
+  'P0001',
+  'The template must be shared or created by the creator of the campaign',
+  'campaigns cannot send a colleague''s personal template'
+);
+
+SELECT throws_ok(
+  $$SELECT claim_campaign_recipients('aaaaaaaa-0000-0000-0000-000000001001', 10)$$,
+  '42501',
+  NULL,
+  'only the scheduler can claim campaign recipients'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO sequence_steps (sequence_id, position, template_id)
+    VALUES ('aaaaaaaa-0000-0000-0000-000000002001', 0, 'bbbbbbbb-0000-0000-0000-00000000e001')$$,
+  'P0001',
+  'The template must belong to the same organization as the sequence',
+  'sequences cannot send templates from another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO sequence_steps (sequence_id, position, template_id)
+    VALUES ('aaaaaaaa-0000-0000-0000-000000002001', 0, 'aaaaaaaa-0000-0000-0000-00000000e002')$$,
+  'P0001',
+  'Sequence steps can only use shared templates',
+  'sequences cannot send a personal template'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO campaigns (organization_id, template_id, name, subject, created_by)
+    VALUES (current_setting('test.acme')::uuid, 'aaaaaaaa-0000-0000-0000-00000000e002', 'Sneaky', 'Hi', 'aaaaaaaa-0000-0000-0000-000000000002')$$,
+  'P0001',
+  'Campaigns must be created as the signed-in user',
+  'campaigns cannot be created in a colleague''s name'
+);
+
+SELECT throws_ok(
+  $$UPDATE campaigns SET created_by = 'aaaaaaaa-0000-0000-0000-000000000002'
+    WHERE id = 'aaaaaaaa-0000-0000-0000-000000001001'$$,
+  'P0001',
+  'The creator of a campaign cannot be changed',
+  'campaigns cannot be handed to a colleague'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO requisitions (organization_id, job_id, title)
+    VALUES (current_setting('test.bolt')::uuid, 'bbbbbbbb-0000-0000-0000-00000000a001', 'Sneaky')$$,
+  '42501',
+  NULL,
+  'users cannot create requisitions in another organization'
+);
+
+SELECT is_empty(
+  $$UPDATE requisitions SET status = 'closed' WHERE id = 'bbbbbbbb-0000-0000-0000-00000000b001' RETURNING id$$,
+  'users cannot update requisitions in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO campaigns (organization_id, template_id, name, subject, created_by)
+    VALUES (current_setting('test.bolt')::uuid, 'bbbbbbbb-0000-0000-0000-00000000e001', 'Sneaky', 'Hi', 'aaaaaaaa-0000-0000-0000-000000000001')$$,
+  '42501',
+  NULL,
+  'users cannot create campaigns in another organization'
+);
+
+SELECT is_empty(
+  $$UPDATE campaigns SET status = 'sending' WHERE id = 'bbbbbbbb-0000-0000-0000-000000001001' RETURNING id$$,
+  'users cannot start campaigns in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO sequences (organization_id, name) VALUES (current_setting('test.bolt')::uuid, 'Sneaky')$$,
+  '42501',
+  NULL,
+  'users cannot create sequences in another organization'
+);
+
+SELECT is_empty(
+  $$DELETE FROM sequences WHERE id = 'bbbbbbbb-0000-0000-0000-000000002001' RETURNING id$$,
+  'users cannot delete sequences in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO saved_searches (organization_id, name, created_by)
+    VALUES (current_setting('test.bolt')::uuid, 'Sneaky', auth.uid())$$,
+  '42501',
+  NULL,
+  'users cannot save searches in another organization'
+);
+
+SELECT is_empty(
+  $$UPDATE candidate_duplicates SET status = 'dismissed' WHERE id = 'bbbbbbbb-0000-0000-0000-000000004001' RETURNING id$$,
+  'users cannot dismiss duplicates in another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO invitations (organization_id, email, role, token_hash, invited_by)
+    VALUES (current_setting('test.bolt')::uuid, 'sneaky@acme.test', 'admin', invitation_token_hash('sneaky-token'), auth.uid())$$,
+  '42501',
+  NULL,
+  'admins cannot invite people to another organization'
+);
+
+SELECT is_empty(
+  $$UPDATE invitations SET role = 'admin' WHERE id = 'bbbbbbbb-0000-0000-0000-000000005001' RETURNING id$$,
+  'admins cannot change invitations to another organization'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO storage.objects (bucket_id, name)
+    VALUES ('resumes', current_setting('test.bolt') || '/sneaky.pdf')$$,
+  '42501',
+  NULL,
+  'users cannot upload resumes to another organization'
+);
+
+SELECT is_empty(
+  $$DELETE FROM storage.objects WHERE bucket_id = 'resumes' AND name = current_setting('test.bolt') || '/bea.pdf' RETURNING id$$,
+  'users cannot delete resumes in another organization'
+);
+
+SELECT is_empty(
+  $$UPDATE organizations SET name = 'Hacked' WHERE id = current_setting('test.bolt')::uuid RETURNING id$$,
+  'users cannot rename another organization'
+);
+
+-- Profiles: your own name, nothing else
+SELECT is_empty(
+  $$UPDATE profiles SET first_name = 'Hacked' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000002' RETURNING id$$,
+  'users cannot update other profiles'
+);
+
+SELECT throws_ok(
+  $$UPDATE profiles SET role = 'admin' WHERE id = auth.uid()$$,
+  '42501',
+  NULL,
+  'users cannot change their own role'
+);
+
+SELECT throws_ok(
+  $$UPDATE profiles SET organization_id = current_setting('test.bolt')::uuid WHERE id = auth.uid()$$,
+  '42501',
+  NULL,
+  'users cannot move themselves to another organization'
+);
+
+RESET ROLE;
+
+-- Recruiters edit templates but can't delete or take them over
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "aaaaaaaa-0000-0000-0000-000000000002", "role": "authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT is_empty(
+  $$DELETE FROM templates WHERE id = 'aaaaaaaa-0000-0000-0000-00000000e001' RETURNING id$$,
+  'recruiters cannot delete templates'
+);
+
+SELECT throws_ok(
+  $$UPDATE templates SET deleted_at = now() WHERE id = 'aaaaaaaa-0000-0000-0000-00000000e001'$$,
+  'P0001',
+  'Only admins can delete or restore templates',
+  'recruiters cannot soft delete templates'
+);
+
+SELECT throws_ok(
+  $$UPDATE templates SET scope = 'personal', created_by = auth.uid() WHERE id = 'aaaaaaaa-0000-0000-0000-00000000e001'$$,
+  'P0001',
+  'The author of a template cannot be changed',
+  'recruiters cannot take over shared templates'
+);
+
+SELECT throws_ok(
+  $$UPDATE templates SET scope = 'personal' WHERE id = 'aaaaaaaa-0000-0000-0000-00000000e001'$$,
+  'P0001',
+  'Only the author or an admin can change who can see a template',
+  'recruiters cannot hide shared templates they did not write'
+);
+
+SELECT lives_ok(
+  $$UPDATE templates SET scope = 'shared' WHERE id = 'aaaaaaaa-0000-0000-0000-00000000e002'$$,
+  'authors can share their personal templates'
+);
+
+-- Pipeline moves are logged by the same statement that saves them
+INSERT INTO requisition_candidates (requisition_id, candidate_id, created_by)
+VALUES ('aaaaaaaa-0000-0000-0000-00000000b001', 'aaaaaaaa-0000-0000-0000-00000000c001', auth.uid());
+
+UPDATE requisition_candidates SET stage = 'contacted'
+WHERE requisition_id = 'aaaaaaaa-0000-0000-0000-00000000b001';
+
+SELECT results_eq(
+  $$SELECT description FROM activities
+    WHERE type = 'stage_change' AND candidate_id = 'aaaaaaaa-0000-0000-0000-00000000c001'
+    ORDER BY metadata->>'to_stage' DESC$$,
+  $$VALUES ('Added to Acme opening as Sourced'), ('Moved from Sourced to Contacted for Acme opening')$$,
+  'adding to and moving through a pipeline are logged on the timeline'
+);
+
+SELECT is(
+  (SELECT count(*) FROM job_candidates
+   WHERE job_id = 'aaaaaaaa-0000-0000-0000-00000000a001' AND candidate_id = 'aaaaaaaa-0000-0000-0000-00000000c001'),
+  1::bigint,
+  'adding to a pipeline attaches the candidate to the job'
+);
+
+RESET ROLE;
+
+-- Read-only members see everything in their organization and change nothing
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "aaaaaaaa-0000-0000-0000-000000000003", "role": "authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$INSERT INTO candidates (organization_id, first_name, last_name)
+    VALUES (current_setting('test.acme')::uuid, 'Read', 'Only')$$,
+  '42501',
+  NULL,
+  'read-only members cannot create candidates'
+);
+
+SELECT is_empty(
+  $$UPDATE candidates SET first_name = 'Changed' WHERE id = 'aaaaaaaa-0000-0000-0000-00000000c001' RETURNING id$$,
+  'read-only members cannot update candidates'
+);
+
+SELECT throws_ok(
+  $$SELECT merge_candidates('aaaaaaaa-0000-0000-0000-00000000c001', 'bbbbbbbb-0000-0000-0000-00000000c001')$$,
+  'P0001',
+  'You do not have permission to merge candidates',
+  'read-only members cannot merge candidates'
+);
+
+RESET ROLE;
+
+-- Nothing in Bolt changed
+SELECT results_eq(
+  $$SELECT (SELECT first_name FROM candidates WHERE id = 'bbbbbbbb-0000-0000-0000-00000000c001'),
+           (SELECT name FROM tags WHERE id = 'bbbbbbbb-0000-0000-0000-00000000d001'),
+           (SELECT content FROM templates WHERE id = 'bbbbbbbb-0000-0000-0000-00000000e001'),
+           (SELECT name FROM organizations WHERE id = current_setting('test.bolt')::uuid),
+           (SELECT name FROM companies WHERE id = 'bbbbbbbb-0000-0000-0000-00000000f001'),
+           (SELECT title FROM jobs WHERE id = 'bbbbbbbb-0000-0000-0000-00000000a001'),
+           (SELECT status FROM requisitions WHERE id = 'bbbbbbbb-0000-0000-0000-00000000b001'),
+           (SELECT status FROM campaigns WHERE id = 'bbbbbbbb-0000-0000-0000-000000001001'),
+           (SELECT name FROM sequences WHERE id = 'bbbbbbbb-0000-0000-0000-000000002001'),
+           (SELECT status FROM candidate_duplicates WHERE id = 'bbbbbbbb-0000-0000-0000-000000004001'),
+           (SELECT role FROM invitations WHERE id = 'bbbbbbbb-0000-0000-0000-000000005001'),
+           (SELECT count(*) FROM storage.objects WHERE bucket_id = 'resumes' AND name LIKE current_setting('test.bolt') || '/%')$$,
+  $$VALUES ('Bea', 'bolt-tag', 'Hi', 'Bolt', 'Bolt client', 'Bolt engineer', 'open', 'draft', 'Bolt sequence', 'open', 'recruiter', 1::bigint)$$,
+  'the other organization is untouched'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
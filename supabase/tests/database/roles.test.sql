@@ -0,0 +1,369 @@
+-- Run against the local stack with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(44);
+
+-- One organization with an admin and a read-only member, and a row in every
+-- table the member might try to change
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'admin@acme.test', '{"first_name": "Ada", "org_name": "Acme"}');
+
+SELECT set_config('test.acme', id::text, true) FROM organizations WHERE name = 'Acme';
+
+INSERT INTO invitations (organization_id, email, role, token_hash, invited_by)
+VALUES (current_setting('test.acme')::uuid, 'viewer@acme.test', 'read_only', invitation_token_hash('viewer-token'), 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES ('aaaaaaaa-0000-0000-0000-000000000003', 'viewer@acme.test', '{"first_name": "Vic", "invite_token": "viewer-token"}');
+
+INSERT INTO candidates (id, organization_id, first_name, last_name, personal_email, created_by)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-00000000c001', current_setting('test.acme')::uuid, 'Alice', 'Acme', 'alice@example.test', 'aaaaaaaa-0000-0000-0000-000000000001'),
+  ('aaaaaaaa-0000-0000-0000-00000000c002', current_setting('test.acme')::uuid, 'Alicia', 'Acme', 'alice@example.test', 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO templates (id, organization_id, name, type, content, created_by)
+VALUES ('aaaaaaaa-0000-0000-0000-00000000e001', current_setting('test.acme')::uuid, 'Acme intro', 'email', 'Hi', 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO companies (id, organization_id, name, created_by)
+VALUES ('aaaaaaaa-0000-0000-0000-00000000f001', current_setting('test.acme')::uuid, 'Initech', 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO jobs (id, organization_id, company_id, title, created_by)
+VALUES ('aaaaaaaa-0000-0000-0000-00000000a001', current_setting('test.acme')::uuid, 'aaaaaaaa-0000-0000-0000-00000000f001', 'Engineer', 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO job_candidates (job_id, candidate_id, created_by)
+VALUES ('aaaaaaaa-0000-0000-0000-00000000a001', 'aaaaaaaa-0000-0000-0000-00000000c001', 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO requisitions (id, organization_id, job_id, title, created_by)
+VALUES ('aaaaaaaa-0000-0000-0000-00000000b001', current_setting('test.acme')::uuid, 'aaaaaaaa-0000-0000-0000-00000000a001', 'Engineer #1', 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO requisition_candidates (requisition_id, candidate_id, created_by)
+VALUES ('aaaaaaaa-0000-0000-0000-00000000b001', 'aaaaaaaa-0000-0000-0000-00000000c001', 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO campaigns (id, organization_id, template_id, name, subject, created_by)
+VALUES ('aaaaaaaa-0000-0000-0000-000000001001', current_setting('test.acme')::uuid, 'aaaaaaaa-0000-0000-0000-00000000e001', 'Spring outreach', 'Hello', 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO campaign_recipients (campaign_id, candidate_id, email)
+VALUES ('aaaaaaaa-0000-0000-0000-000000001001', 'aaaaaaaa-0000-0000-0000-00000000c001', 'alice@example.test');
+
+INSERT INTO sequences (id, organization_id, name, created_by)
+VALUES ('aaaaaaaa-0000-0000-0000-000000002001', current_setting('test.acme')::uuid, 'Follow up', 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO sequence_steps (id, sequence_id, position, template_id)
+VALUES ('aaaaaaaa-0000-0000-0000-000000002101', 'aaaaaaaa-0000-0000-0000-000000002001', 0, 'aaaaaaaa-0000-0000-0000-00000000e001');
+
+INSERT INTO sequence_enrollments (id, sequence_id, candidate_id, created_by)
+VALUES ('aaaaaaaa-0000-0000-0000-000000002201', 'aaaaaaaa-0000-0000-0000-000000002001', 'aaaaaaaa-0000-0000-0000-00000000c001', 'aaaaaaaa-0000-0000-0000-000000000001');
+
+INSERT INTO sequence_tasks (enrollment_id, step_id, due_at)
+VALUES ('aaaaaaaa-0000-0000-0000-000000002201', 'aaaaaaaa-0000-0000-0000-000000002101', now());
+
+INSERT INTO saved_searches (organization_id, name, created_by)
+VALUES (current_setting('test.acme')::uuid, 'Viewer search', 'aaaaaaaa-0000-0000-0000-000000000003');
+
+INSERT INTO candidate_duplicates (organization_id, candidate_id, duplicate_id, reasons)
+VALUES (current_setting('test.acme')::uuid, 'aaaaaaaa-0000-0000-0000-00000000c001', 'aaaaaaaa-0000-0000-0000-00000000c002', '{email}');
+
+INSERT INTO storage.objects (bucket_id, name, owner)
+VALUES ('resumes', current_setting('test.acme') || '/alice.pdf', 'aaaaaaaa-0000-0000-0000-000000000001');
+
+-- The read-only member tries to change each of them
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "aaaaaaaa-0000-0000-0000-000000000003", "role": "authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+-- Companies
+SELECT throws_ok(
+  $$INSERT INTO companies (organization_id, name) VALUES (current_setting('test.acme')::uuid, 'Read only')$$,
+  '42501',
+  NULL,
+  'read-only members cannot create companies'
+);
+
+SELECT is_empty(
+  $$UPDATE companies SET name = 'Changed' RETURNING id$$,
+  'read-only members cannot update companies'
+);
+
+SELECT is_empty(
+  $$DELETE FROM companies RETURNING id$$,
+  'read-only members cannot delete companies'
+);
+
+-- Jobs
+SELECT throws_ok(
+  $$INSERT INTO jobs (organization_id, title) VALUES (current_setting('test.acme')::uuid, 'Read only')$$,
+  '42501',
+  NULL,
+  'read-only members cannot create jobs'
+);
+
+SELECT is_empty(
+  $$UPDATE jobs SET title = 'Changed' RETURNING id$$,
+  'read-only members cannot update jobs'
+);
+
+SELECT is_empty(
+  $$DELETE FROM jobs RETURNING id$$,
+  'read-only members cannot delete jobs'
+);
+
+-- Job candidates
+SELECT throws_ok(
+  $$INSERT INTO job_candidates (job_id, candidate_id)
+    VALUES ('aaaaaaaa-0000-0000-0000-00000000a001', 'aaaaaaaa-0000-0000-0000-00000000c002')$$,
+  '42501',
+  NULL,
+  'read-only members cannot attach candidates to jobs'
+);
+
+SELECT is_empty(
+  $$DELETE FROM job_candidates RETURNING job_id$$,
+  'read-only members cannot detach candidates from jobs'
+);
+
+-- Requisitions
+SELECT throws_ok(
+  $$INSERT INTO requisitions (organization_id, job_id, title)
+    VALUES (current_setting('test.acme')::uuid, 'aaaaaaaa-0000-0000-0000-00000000a001', 'Read only')$$,
+  '42501',
+  NULL,
+  'read-only members cannot create requisitions'
+);
+
+SELECT is_empty(
+  $$UPDATE requisitions SET status = 'closed' RETURNING id$$,
+  'read-only members cannot update requisitions'
+);
+
+SELECT is_empty(
+  $$DELETE FROM requisitions RETURNING id$$,
+  'read-only members cannot delete requisitions'
+);
+
+-- Pipelines
+SELECT throws_ok(
+  $$INSERT INTO requisition_candidates (requisition_id, candidate_id)
+    VALUES ('aaaaaaaa-0000-0000-0000-00000000b001', 'aaaaaaaa-0000-0000-0000-00000000c002')$$,
+  '42501',
+  NULL,
+  'read-only members cannot add candidates to pipelines'
+);
+
+SELECT is_empty(
+  $$UPDATE requisition_candidates SET stage = 'placed' RETURNING id$$,
+  'read-only members cannot move candidates in pipelines'
+);
+
+SELECT is_empty(
+  $$DELETE FROM requisition_candidates RETURNING id$$,
+  'read-only members cannot remove candidates from pipelines'
+);
+
+-- Campaigns
+SELECT throws_ok(
+  $$INSERT INTO campaigns (organization_id, template_id, name, subject, created_by)
+    VALUES (current_setting('test.acme')::uuid, 'aaaaaaaa-0000-0000-0000-00000000e001', 'Read only', 'Hi', 'aaaaaaaa-0000-0000-0000-000000000003')$$,
+  '42501',
+  NULL,
+  'read-only members cannot create campaigns'
+);
+
+SELECT is_empty(
+  $$UPDATE campaigns SET status = 'sending' RETURNING id$$,
+  'read-only members cannot start campaigns'
+);
+
+SELECT is_empty(
+  $$DELETE FROM campaigns RETURNING id$$,
+  'read-only members cannot delete campaigns'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO campaign_recipients (campaign_id, candidate_id, email)
+    VALUES ('aaaaaaaa-0000-0000-0000-000000001001', 'aaaaaaaa-0000-0000-0000-00000000c002', 'alicia@example.test')$$,
+  '42501',
+  NULL,
+  'read-only members cannot add campaign recipients'
+);
+
+SELECT is_empty(
+  $$UPDATE campaign_recipients SET status = 'sent' RETURNING id$$,
+  'read-only members cannot update campaign recipients'
+);
+
+SELECT is_empty(
+  $$DELETE FROM campaign_recipients RETURNING id$$,
+  'read-only members cannot remove campaign recipients'
+);
+
+-- Sequences
+SELECT throws_ok(
+  $$INSERT INTO sequences (organization_id, name) VALUES (current_setting('test.acme')::uuid, 'Read only')$$,
+  '42501',
+  NULL,
+  'read-only members cannot create sequences'
+);
+
+SELECT is_empty(
+  $$UPDATE sequences SET name = 'Changed' RETURNING id$$,
+  'read-only members cannot update sequences'
+);
+
+SELECT is_empty(
+  $$DELETE FROM sequences RETURNING id$$,
+  'read-only members cannot delete sequences'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO sequence_steps (sequence_id, position, template_id)
+    VALUES ('aaaaaaaa-0000-0000-0000-000000002001', 1, 'aaaaaaaa-0000-0000-0000-00000000e001')$$,
+  '42501',
+  NULL,
+  'read-only members cannot add sequence steps'
+);
+
+SELECT is_empty(
+  $$UPDATE sequence_steps SET delay_days = 7 RETURNING id$$,
+  'read-only members cannot update sequence steps'
+);
+
+SELECT is_empty(
+  $$DELETE FROM sequence_steps RETURNING id$$,
+  'read-only members cannot delete sequence steps'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO sequence_enrollments (sequence_id, candidate_id)
+    VALUES ('aaaaaaaa-0000-0000-0000-000000002001', 'aaaaaaaa-0000-0000-0000-00000000c002')$$,
+  '42501',
+  NULL,
+  'read-only members cannot enroll candidates'
+);
+
+SELECT is_empty(
+  $$UPDATE sequence_enrollments SET status = 'stopped', stop_reason = 'manual' RETURNING id$$,
+  'read-only members cannot stop enrollments'
+);
+
+SELECT is_empty(
+  $$DELETE FROM sequence_enrollments RETURNING id$$,
+  'read-only members cannot remove enrollments'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO sequence_tasks (enrollment_id, step_id, due_at)
+    VALUES ('aaaaaaaa-0000-0000-0000-000000002201', 'aaaaaaaa-0000-0000-0000-000000002101', now())$$,
+  '42501',
+  NULL,
+  'read-only members cannot create sequence tasks'
+);
+
+SELECT is_empty(
+  $$UPDATE sequence_tasks SET status = 'done' RETURNING id$$,
+  'read-only members cannot complete sequence tasks'
+);
+
+SELECT is_empty(
+  $$DELETE FROM sequence_tasks RETURNING id$$,
+  'read-only members cannot delete sequence tasks'
+);
+
+SELECT throws_ok(
+  $$SELECT complete_sequence_task(
+    (SELECT id FROM sequence_tasks WHERE enrollment_id = 'aaaaaaaa-0000-0000-0000-000000002201'),
+    'done'
+  )$$,
+  'P0001',
+  NULL,
+  'read-only members cannot complete sequence tasks through the function'
+);
+
+SELECT throws_ok(
+  $$SELECT save_sequence('aaaaaaaa-0000-0000-0000-000000002001', 'Changed', NULL, '[]')$$,
+  'P0001',
+  NULL,
+  'read-only members cannot save sequences through the function'
+);
+
+-- Template versions
+SELECT throws_ok(
+  $$INSERT INTO template_versions (template_id, version, name, type, content)
+    VALUES ('aaaaaaaa-0000-0000-0000-00000000e001', 99, 'Acme intro', 'email', 'Changed')$$,
+  '42501',
+  NULL,
+  'read-only members cannot record template versions'
+);
+
+-- Saved searches, even their own
+SELECT throws_ok(
+  $$INSERT INTO saved_searches (organization_id, name, created_by)
+    VALUES (current_setting('test.acme')::uuid, 'Read only', auth.uid())$$,
+  '42501',
+  NULL,
+  'read-only members cannot save searches'
+);
+
+SELECT is_empty(
+  $$UPDATE saved_searches SET name = 'Changed' RETURNING id$$,
+  'read-only members cannot update their saved searches'
+);
+
+SELECT is_empty(
+  $$DELETE FROM saved_searches RETURNING id$$,
+  'read-only members cannot delete their saved searches'
+);
+
+-- Duplicates
+SELECT throws_ok(
+  $$INSERT INTO candidate_duplicates (organization_id, candidate_id, duplicate_id)
+    VALUES (current_setting('test.acme')::uuid, 'aaaaaaaa-0000-0000-0000-00000000c001', 'aaaaaaaa-0000-0000-0000-00000000c002')$$,
+  '42501',
+  NULL,
+  'read-only members cannot record duplicates'
+);
+
+SELECT is_empty(
+  $$UPDATE candidate_duplicates SET status = 'dismissed' RETURNING id$$,
+  'read-only members cannot dismiss duplicates'
+);
+
+-- Resumes
+SELECT throws_ok(
+  $$INSERT INTO storage.objects (bucket_id, name)
+    VALUES ('resumes', current_setting('test.acme') || '/read-only.pdf')$$,
+  '42501',
+  NULL,
+  'read-only members cannot upload resumes'
+);
+
+SELECT is_empty(
+  $$UPDATE storage.objects SET metadata = '{}' WHERE bucket_id = 'resumes' RETURNING id$$,
+  'read-only members cannot replace resumes'
+);
+
+SELECT is_empty(
+  $$DELETE FROM storage.objects WHERE bucket_id = 'resumes' RETURNING id$$,
+  'read-only members cannot delete resumes'
+);
+
+RESET ROLE;
+
+-- Nothing changed
+SELECT results_eq(
+  $$SELECT (SELECT count(*) FROM companies) + (SELECT count(*) FROM jobs) + (SELECT count(*) FROM job_candidates)
+         + (SELECT count(*) FROM requisitions) + (SELECT count(*) FROM requisition_candidates)
+         + (SELECT count(*) FROM campaigns) + (SELECT count(*) FROM campaign_recipients)
+         + (SELECT count(*) FROM sequences) + (SELECT count(*) FROM sequence_steps)
+         + (SELECT count(*) FROM sequence_enrollments) + (SELECT count(*) FROM sequence_tasks WHERE status = 'due')
+         + (SELECT count(*) FROM saved_searches) + (SELECT count(*) FROM candidate_duplicates WHERE status = 'open')
+         + (SELECT count(*) FROM storage.objects WHERE bucket_id = 'resumes')$$,
+  $$VALUES (14::bigint)$$,
+  'every row the read-only member tried to change is still there'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
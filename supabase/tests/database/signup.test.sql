@@ -0,0 +1,88 @@
+-- Run against the local stack with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- Signing up creates the organization and an admin profile together
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES (
+  '11111111-1111-1111-1111-111111111111',
+  'founder@example.com',
+  '{"first_name": "Ada", "last_name": "Founder", "org_name": "Acme Recruiting"}'
+);
+
+SELECT is(
+  (SELECT count(*) FROM organizations WHERE name = 'Acme Recruiting'),
+  1::bigint,
+  'signup creates the organization'
+);
+
+SELECT results_eq(
+  $$SELECT p.first_name, p.last_name, p.role, o.name
+    FROM profiles p JOIN organizations o ON o.id = p.organization_id
+    WHERE p.id = '11111111-1111-1111-1111-111111111111'$$,
+  $$VALUES ('Ada', 'Founder', 'admin', 'Acme Recruiting')$$,
+  'signup creates an admin profile in the new organization'
+);
+
+-- A signup without an organization name fails as a whole
+SELECT throws_ok(
+  $$INSERT INTO auth.users (id, email, raw_user_meta_data)
+    VALUES ('22222222-2222-2222-2222-222222222222', 'noorg@example.com', '{"first_name": "No", "last_name": "Org"}')$$,
+  'P0001',
+  'An organization name is required to sign up',
+  'signup without an organization name is rejected'
+);
+
+SELECT is(
+  (SELECT count(*) FROM profiles WHERE id = '22222222-2222-2222-2222-222222222222'),
+  0::bigint,
+  'a rejected signup leaves no profile'
+);
+
+-- Organizations can't be created without a user
+SET LOCAL ROLE anon;
+
+SELECT throws_ok(
+  $$INSERT INTO organizations (name) VALUES ('Orphan Agency')$$,
+  '42501',
+  NULL,
+  'anonymous visitors cannot create organizations'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO profiles (id, organization_id, role)
+    VALUES ('33333333-3333-3333-3333-333333333333', (SELECT id FROM organizations LIMIT 1), 'admin')$$,
+  '42501',
+  NULL,
+  'anonymous visitors cannot create profiles'
+);
+
+RESET ROLE;
+
+-- Nor by a signed-in user joining or creating one on the side
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}',
+  true
+);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$INSERT INTO organizations (name) VALUES ('Side Agency')$$,
+  '42501',
+  NULL,
+  'signed-in users cannot create organizations directly'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT count(*) FROM organizations WHERE name IN ('Orphan Agency', 'Side Agency')),
+  0::bigint,
+  'no organizations were created outside signup'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -7,4 +8,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  test: {
+    // Edge Function modules import npm packages the Deno way, e.g. npm:unpdf@0.12.1
+    alias: [{ find: /^npm:(.+)@[^@/]+$/, replacement: '$1' }],
+  },
 });